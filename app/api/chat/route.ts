@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { formatCurrency } from '@/lib/utils/formatters';
 
 // Groq configuration
 const GROQ_API_KEY = process.env.GROQ_API_KEY;
@@ -7,12 +8,17 @@ const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
 const GROQ_MODEL = process.env.GROQ_MODEL || 'llama-3.3-70b-versatile';
 
 interface TradingContext {
+  // Currencies: the account's cash and holdings vs. converted trade history
+  accountCurrency?: string;
+  baseCurrency?: string;
+
   // Portfolio overview
   cashBalance?: number;
   totalPortfolioValue?: number;
   unrealizedPnL?: number;
   unrealizedPnLPercent?: number;
   realizedPnL?: number;
+  realizedFxPnL?: number;
   
   // Positions
   positions?: Array<{
@@ -24,6 +30,10 @@ interface TradingContext {
     pnl: number;
     pnlPercent: number;
     assetType: string;
+    currency?: string;
+    contract?: string;
+    exposure?: number;
+    side?: 'long' | 'short';
   }>;
   
   // Trade history
@@ -33,8 +43,24 @@ interface TradingContext {
     action: string;
     pnl?: number;
     timestamp: string;
+    tradingDay?: string;
     quantity?: number;
     price?: number;
+    originalCurrency?: string;
+    contract?: string;
+  }>;
+  
+  // Closed round trips (lot-matched entry/exit pairs)
+  roundTrips?: Array<{
+    symbol: string;
+    direction: string;
+    quantity: number;
+    entryPrice: number;
+    exitPrice: number;
+    pnl: number;
+    fxPnl?: number;
+    holdingMinutes: number | null;
+    exitTimestamp: string;
   }>;
   
   // Bias analysis
@@ -46,6 +72,56 @@ interface TradingContext {
   }>;
   disciplineScore?: number;
   
+  // Pre-trade guardrail warnings
+  guardrailEvents?: Array<{
+    timestamp: string;
+    symbol: string;
+    action: string;
+    quantity: number;
+    rules: string[];
+    decision: 'overridden' | 'cancelled';
+  }>;
+  journal?: Array<{
+    createdAt: string;
+    symbol: string;
+    action: string;
+    setup: string;
+    thesis: string;
+    confidence: number;
+    emotion: string;
+    pnl: number | null;
+    followedPlan?: boolean;
+    mistake?: string;
+    lesson?: string;
+  }>;
+  journalEmotionsByBias?: Array<{
+    bias_type: string;
+    emotion: string;
+    count: number;
+    total: number;
+  }>;
+
+  // Risk-adjusted performance; ratios stay null until there's enough history
+  performance?: {
+    returns: {
+      timeWeightedReturn: number | null;
+      moneyWeightedReturn: number | null;
+      annualizedReturn: number | null;
+      volatility: number | null;
+      sharpeRatio: number | null;
+      sortinoRatio: number | null;
+      calmarRatio: number | null;
+      maxDrawdown: number;
+      recoveryDays: number | null;
+    };
+    trades: {
+      profitFactor: number | null;
+      expectancy: number | null;
+      averageR: number | null;
+      rTrades: number;
+    };
+  } | null;
+  
   // Stats
   totalTrades?: number;
   winningTrades?: number;
@@ -159,14 +235,22 @@ async function getCoachingResponse(
 
 function buildSystemPrompt(context: TradingContext): string {
   const { 
+    accountCurrency = 'USD',
+    baseCurrency = accountCurrency,
     cashBalance = 0,
     totalPortfolioValue = 0,
     unrealizedPnL = 0,
     unrealizedPnLPercent = 0,
     realizedPnL = 0,
+    realizedFxPnL = 0,
     positions = [],
     trades = [], 
+    roundTrips = [],
     biases = [], 
+    guardrailEvents = [],
+    journal = [],
+    journalEmotionsByBias = [],
+    performance = null,
     disciplineScore = 0, 
     totalTrades = 0,
     winningTrades = 0,
@@ -184,7 +268,7 @@ PERSONALITY:
 - Use emojis sparingly to add warmth
 
 RULES:
-- Reference the trader's SPECIFIC data when relevant (exact dollar amounts, positions, etc.)
+- Reference the trader's SPECIFIC data when relevant (exact amounts with their currency, positions, etc.)
 - Provide actionable, specific advice
 - Focus on emotional discipline and psychology
 - Never give financial advice or specific trade recommendations
@@ -193,10 +277,11 @@ RULES:
 ===== TRADER'S PORTFOLIO =====
 
 💰 ACCOUNT OVERVIEW:
-- Available Cash: $${cashBalance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-- Total Portfolio Value: $${totalPortfolioValue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-- Unrealized P&L: ${unrealizedPnL >= 0 ? '+' : ''}$${unrealizedPnL.toFixed(2)} (${unrealizedPnLPercent >= 0 ? '+' : ''}${unrealizedPnLPercent.toFixed(2)}%)
-- Realized P&L: ${realizedPnL >= 0 ? '+' : ''}$${realizedPnL.toFixed(2)}
+- Available Cash: ${formatCurrency(cashBalance, { currency: accountCurrency })}
+- Total Portfolio Value: ${formatCurrency(totalPortfolioValue, { currency: accountCurrency })}
+- Unrealized P&L: ${formatCurrency(unrealizedPnL, { currency: accountCurrency, showSign: true })} (${unrealizedPnLPercent >= 0 ? '+' : ''}${unrealizedPnLPercent.toFixed(2)}%)
+- Realized P&L: ${formatCurrency(realizedPnL, { currency: baseCurrency, showSign: true })}${realizedFxPnL !== 0 ? ` (of which ${formatCurrency(realizedFxPnL, { currency: baseCurrency, showSign: true })} from exchange rate moves)` : ''}
+- Trade history amounts below are in ${baseCurrency}
 
 `;
 
@@ -205,7 +290,13 @@ RULES:
     prompt += `📊 CURRENT POSITIONS (${positions.length}):\n`;
     positions.forEach((pos, i) => {
       const pnlSign = pos.pnl >= 0 ? '+' : '';
-      prompt += `${i + 1}. ${pos.symbol}: ${pos.quantity} shares @ $${pos.avgCost.toFixed(2)} avg → Current: $${pos.currentPrice.toFixed(2)} (${pnlSign}$${pos.pnl.toFixed(2)}, ${pnlSign}${pos.pnlPercent.toFixed(1)}%)\n`;
+      const quoteCurrency = pos.currency || accountCurrency;
+      const unit = pos.contract ? 'contracts' : 'units';
+      const terms = pos.contract && pos.exposure !== undefined
+        ? ` [${pos.contract}; controls ${formatCurrency(pos.exposure, { currency: accountCurrency })}]`
+        : '';
+      const side = pos.side === 'short' ? 'SHORT ' : '';
+      prompt += `${i + 1}. ${pos.symbol}: ${side}${pos.quantity} ${unit} @ ${formatCurrency(pos.avgCost, { currency: quoteCurrency })} avg → Current: ${formatCurrency(pos.currentPrice, { currency: quoteCurrency })} (${formatCurrency(pos.pnl, { currency: accountCurrency, showSign: true })}, ${pnlSign}${pos.pnlPercent.toFixed(1)}%)${terms}\n`;
     });
     prompt += '\n';
   } else {
@@ -214,13 +305,37 @@ RULES:
 
   prompt += `📈 TRADING STATS:
 - Total Trades: ${totalTrades}
-- Winning Trades: ${winningTrades}
-- Losing Trades: ${losingTrades}
+- Winning Round Trips: ${winningTrades}
+- Losing Round Trips: ${losingTrades}
 - Win Rate: ${winRate.toFixed(1)}%
 - Discipline Score: ${disciplineScore}/100
 
 `;
 
+  // Add performance, leaving out what there isn't enough history for
+  if (performance) {
+    const { returns, trades: tradeStats } = performance;
+    const percent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+    const lines = [
+      returns.timeWeightedReturn !== null ? `- Time-weighted return: ${percent(returns.timeWeightedReturn)}` : null,
+      returns.moneyWeightedReturn !== null ? `- Money-weighted return: ${percent(returns.moneyWeightedReturn)}` : null,
+      returns.annualizedReturn !== null ? `- Annualized return: ${percent(returns.annualizedReturn)}` : null,
+      returns.volatility !== null ? `- Volatility: ${(returns.volatility * 100).toFixed(1)}% a year` : null,
+      returns.sharpeRatio !== null ? `- Sharpe: ${returns.sharpeRatio.toFixed(2)}` : null,
+      returns.sortinoRatio !== null ? `- Sortino: ${returns.sortinoRatio.toFixed(2)}` : null,
+      returns.calmarRatio !== null ? `- Calmar: ${returns.calmarRatio.toFixed(2)}` : null,
+      returns.maxDrawdown > 0
+        ? `- Max drawdown: ${(returns.maxDrawdown * 100).toFixed(1)}% (${returns.recoveryDays !== null ? `recovered in ${returns.recoveryDays.toFixed(1)} days` : 'not yet recovered'})`
+        : null,
+      tradeStats.profitFactor !== null ? `- Profit factor: ${tradeStats.profitFactor.toFixed(2)}` : null,
+      tradeStats.expectancy !== null ? `- Expectancy: ${formatCurrency(tradeStats.expectancy, { currency: baseCurrency, showSign: true })} per round trip` : null,
+      tradeStats.averageR !== null ? `- Average R-multiple: ${tradeStats.averageR.toFixed(2)}R over ${tradeStats.rTrades} planned trades` : null,
+    ].filter((line): line is string => line !== null);
+    if (lines.length > 0) {
+      prompt += `📐 PERFORMANCE:\n${lines.join('\n')}\n\n`;
+    }
+  }
+
   // Add bias information
   const activeBiases = biases.filter(b => b.score > 25);
   if (activeBiases.length > 0) {
@@ -234,15 +349,60 @@ RULES:
     prompt += '✅ DETECTED BIASES: None significant - trader is doing well!\n\n';
   }
 
+  // Add guardrail warnings, overrides first since they're worth talking about
+  if (guardrailEvents.length > 0) {
+    const overridden = guardrailEvents.filter(e => e.decision === 'overridden');
+    prompt += `🛑 PRE-TRADE WARNINGS (last ${Math.min(guardrailEvents.length, 5)}; ${overridden.length} overridden):\n`;
+    guardrailEvents.slice(0, 5).forEach((event, i) => {
+      const rules = event.rules.map(r => r.replace(/_/g, ' ')).join(', ');
+      const outcome = event.decision === 'overridden' ? 'went ahead anyway' : 'cancelled the order';
+      prompt += `${i + 1}. [${new Date(event.timestamp).toLocaleString()}] ${event.action} ${event.quantity} ${event.symbol}: warned about ${rules} → ${outcome}\n`;
+    });
+    prompt += '\n';
+  }
+
+  if (journal.length > 0) {
+    prompt += `📓 TRADE JOURNAL (last ${Math.min(journal.length, 5)}, in the trader's own words):\n`;
+    journal.slice(0, 5).forEach((entry, i) => {
+      const outcome = entry.pnl !== null ? formatCurrency(entry.pnl, { currency: baseCurrency, showSign: true }) : 'open';
+      const review = entry.followedPlan === undefined
+        ? 'not reviewed'
+        : `${entry.followedPlan ? 'followed plan' : 'broke plan'}${entry.mistake && entry.mistake !== 'none' ? `, mistake: ${entry.mistake.replace(/_/g, ' ')}` : ''}${entry.lesson ? `, lesson: "${entry.lesson}"` : ''}`;
+      prompt += `${i + 1}. ${entry.action} ${entry.symbol} [${entry.setup}] felt ${entry.emotion}, confidence ${entry.confidence}/5: "${entry.thesis}" → ${outcome}; ${review}\n`;
+    });
+    if (journalEmotionsByBias.length > 0) {
+      prompt += 'Journaled emotions on flagged trades:\n';
+      journalEmotionsByBias.forEach(row => {
+        prompt += `- ${row.bias_type.replace(/_/g, ' ')}: ${row.emotion} on ${row.count} of ${row.total}\n`;
+      });
+    }
+    prompt += '\n';
+  }
+
   // Add recent trades
   if (trades.length > 0) {
     prompt += `🕐 RECENT TRADES (last ${Math.min(trades.length, 5)}):\n`;
     trades.slice(0, 5).forEach((trade, i) => {
       const pnlStr = trade.pnl !== undefined 
-        ? (trade.pnl >= 0 ? `+$${trade.pnl.toFixed(2)}` : `-$${Math.abs(trade.pnl).toFixed(2)}`)
+        ? formatCurrency(trade.pnl, { currency: baseCurrency, showSign: true })
         : 'open';
-      const date = new Date(trade.timestamp).toLocaleDateString();
-      prompt += `${i + 1}. [${date}] ${trade.action} ${trade.quantity || ''} ${trade.symbol} @ $${trade.price?.toFixed(2) || '?'} → ${pnlStr}\n`;
+      const date = trade.tradingDay || new Date(trade.timestamp).toLocaleDateString();
+      const terms = trade.contract ? ` (${trade.contract})` : '';
+      prompt += `${i + 1}. [${date}] ${trade.action} ${trade.quantity || ''} ${trade.symbol}${terms} @ ${trade.price !== undefined ? formatCurrency(trade.price, { currency: baseCurrency }) : '?'} → ${pnlStr}\n`;
+    });
+    prompt += '\n';
+  }
+
+  // Add closed round trips
+  if (roundTrips.length > 0) {
+    prompt += `🔁 CLOSED ROUND TRIPS (last ${Math.min(roundTrips.length, 5)}):\n`;
+    roundTrips.slice(0, 5).forEach((trip, i) => {
+      const fxStr = trip.fxPnl ? ` (FX ${formatCurrency(trip.fxPnl, { currency: baseCurrency, showSign: true })})` : '';
+      const pnlStr = `${formatCurrency(trip.pnl, { currency: baseCurrency, showSign: true })}${fxStr}`;
+      const holdStr = trip.holdingMinutes !== null
+        ? (trip.holdingMinutes >= 60 * 24 ? `${(trip.holdingMinutes / (60 * 24)).toFixed(1)}d` : `${(trip.holdingMinutes / 60).toFixed(1)}h`)
+        : 'unknown';
+      prompt += `${i + 1}. ${trip.direction.toUpperCase()} ${trip.quantity} ${trip.symbol}: ${formatCurrency(trip.entryPrice, { currency: baseCurrency })} → ${formatCurrency(trip.exitPrice, { currency: baseCurrency })}, held ${holdStr} → ${pnlStr}\n`;
     });
     prompt += '\n';
   }
@@ -9,6 +9,10 @@ const CACHE_DURATION_MS = 30000;
 
 // Convert our symbols to Yahoo Finance format
 function toYahooSymbol(symbol: string): string {
+  // Continuous futures: "/MES" is Yahoo's front-month "MES=F"
+  if (symbol.startsWith('/')) {
+    return symbol.slice(1) + '=F';
+  }
   if (symbol.includes('/')) {
     return symbol.replace('/', '') + '=X';
   }
@@ -2,7 +2,9 @@
 
 import { useState, useMemo } from 'react';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
 import useBehaviorReport from '@/hooks/useBehaviorReport';
+import useBaseCurrencyTrades from '@/hooks/useBaseCurrencyTrades';
 import { buildCoachContext } from '@/lib/services/coachContext';
 import { 
   MessageCircle, 
@@ -24,8 +26,10 @@ interface Message {
 }
 
 export default function CoachPage() {
-  const { trades, positions, cashBalance, totalValue, totalPnl, totalPnlPercent } = usePortfolioStore();
+  const { trades, positions, cashBalance, totalValue, totalPnl, totalPnlPercent, guardrailEvents, journal } = usePortfolioStore();
   const { report } = useBehaviorReport();
+  const { trades: baseTrades, baseCurrency } = useBaseCurrencyTrades(trades);
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
   const disciplineScore = report?.disciplineScore ?? 100;
   const biasCount = report?.biases.length ?? 0;
   
@@ -56,15 +60,19 @@ export default function CoachPage() {
   const tradingContext = useMemo(() => {
     return buildCoachContext({
       report,
-      trades,
+      trades: baseTrades,
+      baseCurrency,
       positions,
       cashBalance,
       totalValue,
       totalPnl,
       totalPnlPercent,
       tradeLimit: 15,
+      tradingDayBoundaries,
+      guardrailEvents,
+      journal,
     });
-  }, [report, trades, positions, cashBalance, totalValue, totalPnl, totalPnlPercent]);
+  }, [report, baseTrades, baseCurrency, positions, cashBalance, totalValue, totalPnl, totalPnlPercent, tradingDayBoundaries, guardrailEvents, journal]);
 
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
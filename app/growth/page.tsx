@@ -5,8 +5,10 @@ import useBehaviorReport from '@/hooks/useBehaviorReport';
 import { useGrowthStore } from '@/lib/stores/growthStore';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 import { BehaviorReport } from '@/lib/services/behaviorReport';
+import { computePerformance } from '@/lib/services/performanceAnalytics';
 import { formatCurrency } from '@/lib/utils/formatters';
 import { BiasDetection, Severity } from '@/types';
+import { config } from '@/constants/config';
 
 export default function GrowthPage() {
   const { report } = useBehaviorReport();
@@ -108,6 +110,9 @@ export default function GrowthPage() {
         highCount: biases.length,
         message: 'Dev tools simulation report',
       },
+      baseCurrency: config.currency.baseCurrency,
+      fxPnl: 0,
+      performance: computePerformance({ history: [], roundTrips: [] }),
     };
   };
 
@@ -119,7 +124,7 @@ export default function GrowthPage() {
   const handleClaimIncome = () => {
     const amount = claimIncome();
     if (amount > 0) {
-      depositCash(amount);
+      depositCash(amount, 'growth_income');
     }
   };
 
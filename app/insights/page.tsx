@@ -1,9 +1,13 @@
 'use client';
 
 import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 import useBehaviorReport from '@/hooks/useBehaviorReport';
+import useBaseCurrencyTrades from '@/hooks/useBaseCurrencyTrades';
+import { formatCurrency } from '@/lib/utils/formatters';
 import { BiasAnalysisResult } from '@/lib/services/biasDetector';
+import { executionCostSummary } from '@/lib/services/executionModel';
 import { getBiasDefinition } from '@/constants/biasDefinitions';
 import { getScoreColor, getSeverityColor } from '@/constants/colors';
 import { 
@@ -19,8 +23,12 @@ import {
   ChevronDown,
   ChevronUp,
   BarChart3,
+  Receipt,
+  Landmark,
+  Gauge,
 } from 'lucide-react';
 import TradeHistoryUpload from '@/components/trading/TradeHistoryUpload';
+import PerformanceSummary from '@/components/performance/PerformanceSummary';
 import {
   CumulativePnLChart,
   WinLossChart,
@@ -34,6 +42,7 @@ import {
 
 export default function InsightsPage() {
   const trades = usePortfolioStore((state) => state.trades);
+  const { trades: baseTrades, baseCurrency } = useBaseCurrencyTrades(trades);
   const { report } = useBehaviorReport();
   const [showUpload, setShowUpload] = useState(false);
 
@@ -63,6 +72,8 @@ export default function InsightsPage() {
     };
   }, [report]);
 
+  const costs = useMemo(() => executionCostSummary(baseTrades), [baseTrades]);
+
   const { biases, disciplineScore, summary } = analysis;
   const scoreColor = getScoreColor(disciplineScore);
 
@@ -81,14 +92,24 @@ export default function InsightsPage() {
           <h1 className="text-3xl font-bold text-theme-main mb-1">Insights</h1>
           <p className="text-theme-muted">Your trading psychology analysis</p>
         </div>
-        <button
-          onClick={() => setShowUpload(!showUpload)}
-          className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-500/25 transition-all"
-        >
-          <Upload className="w-4 h-4" />
-          <span className="hidden sm:inline">Analyze File</span>
-          {showUpload ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/tax"
+            className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-white/10 text-theme-main hover:bg-white/20 transition-all"
+            title="Realized gains by tax lot"
+          >
+            <Landmark className="w-4 h-4" />
+            <span className="hidden sm:inline">Tax Report</span>
+          </Link>
+          <button
+            onClick={() => setShowUpload(!showUpload)}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-500/25 transition-all"
+          >
+            <Upload className="w-4 h-4" />
+            <span className="hidden sm:inline">Analyze File</span>
+            {showUpload ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        </div>
       </div>
 
       {/* Upload Panel for Analyzing External Trading History */}
@@ -172,31 +193,76 @@ export default function InsightsPage() {
         </div>
       </div>
 
+      {/* Trading Costs: fees plus what paper fills paid to cross the spread */}
+      {costs.tradesWithSpread > 0 && (
+        <div className="glass-card p-6 mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Receipt className="w-5 h-5 text-theme-accent" />
+            <h2 className="text-xl font-semibold text-theme-main">Trading Costs</h2>
+            <span className="text-slate-400 text-xs">in {baseCurrency}</span>
+          </div>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-theme-main">{formatCurrency(costs.fees, { currency: baseCurrency })}</p>
+              <p className="text-slate-400 text-xs mt-1">Fees</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-theme-main">{formatCurrency(costs.spreadCost, { currency: baseCurrency })}</p>
+              <p className="text-slate-400 text-xs mt-1">Spread & slippage</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-amber-400">{formatCurrency(costs.total, { currency: baseCurrency })}</p>
+              <p className="text-slate-400 text-xs mt-1">Total cost of trading</p>
+            </div>
+          </div>
+          <p className="text-slate-400 text-xs mt-4">
+            Spread and slippage are already in your fill prices, so they don&apos;t show up as a fee. Trading less often is the only way to avoid paying them.
+          </p>
+        </div>
+      )}
+
+      {/* Performance: returns from equity history, statistics from closed trades */}
+      {report && (
+        <div className="glass-card p-6 mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Gauge className="w-5 h-5 text-theme-accent" />
+            <h2 className="text-xl font-semibold text-theme-main">Performance</h2>
+          </div>
+          <PerformanceSummary performance={report.performance} baseCurrency={report.baseCurrency} />
+        </div>
+      )}
+
       {/* Graphical Insights Section */}
       {trades.length >= 3 && (
         <div className="mb-8">
           <div className="flex items-center gap-2 mb-4">
             <BarChart3 className="w-5 h-5 text-theme-accent" />
             <h2 className="text-xl font-semibold text-theme-main">Graphical Insights</h2>
+            <span className="text-slate-400 text-xs">in {baseCurrency}</span>
+            {report && Math.abs(report.fxPnl) >= 0.01 && (
+              <span className="text-slate-400 text-xs">
+                · {formatCurrency(report.fxPnl, { currency: baseCurrency, showSign: true })} of realized P&L from exchange rates
+              </span>
+            )}
           </div>
           
           {/* Row 1: Main Charts */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
-            <CumulativePnLChart trades={trades} height={200} />
+            <CumulativePnLChart trades={baseTrades} height={200} />
             <BiasRadarChart analysis={analysis} height={250} />
           </div>
           
           {/* Row 2: Distribution Charts */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
-            <WinLossChart trades={trades} height={180} />
-            <TradingFrequencyChart trades={trades} height={180} />
-            <AssetPnLChart trades={trades} height={180} />
+            <WinLossChart trades={baseTrades} height={180} />
+            <TradingFrequencyChart trades={baseTrades} height={180} />
+            <AssetPnLChart trades={baseTrades} height={180} />
           </div>
           
           {/* Row 3: Performance Charts */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-            <DrawdownChart trades={trades} height={180} />
-            <TradeSizeChart trades={trades} height={180} />
+            <DrawdownChart trades={baseTrades} height={180} />
+            <TradeSizeChart trades={baseTrades} height={180} />
           </div>
         </div>
       )}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { attachRoundTrips, exportJournalCsv, knownSetups, searchJournal, JournalFilters } from '@/lib/services/tradeJournal';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { journalEmotions, mistakeCategories, getAllEmotions } from '@/constants/journal';
+import { formatCurrency } from '@/lib/utils/formatters';
+import ReviewPrompt from '@/components/journal/ReviewPrompt';
+import { JournalEmotion } from '@/types';
+import { NotebookPen, Search, Download, CheckCircle2, XCircle } from 'lucide-react';
+
+type ReviewFilter = 'all' | 'reviewed' | 'unreviewed';
+
+export default function JournalPage() {
+  const { journal, trades } = usePortfolioStore();
+  const [query, setQuery] = useState('');
+  const [setup, setSetup] = useState('');
+  const [emotion, setEmotion] = useState<JournalEmotion | ''>('');
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+
+  const journaled = useMemo(() => attachRoundTrips(journal, buildRoundTrips(trades)), [journal, trades]);
+  const setups = useMemo(() => knownSetups(journal), [journal]);
+
+  const filters: JournalFilters = {
+    query,
+    ...(setup ? { setup } : {}),
+    ...(emotion ? { emotion } : {}),
+    ...(reviewFilter !== 'all' ? { reviewed: reviewFilter === 'reviewed' } : {}),
+  };
+  const results = searchJournal(journaled, filters);
+
+  const handleExport = () => {
+    const blob = new Blob([exportJournalCsv(results)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'trade_journal.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const selectClass = 'p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main';
+
+  return (
+    <div className="min-h-screen p-6 pb-28 lg:pb-6">
+      {/* Header */}
+      <div className="mb-6 flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-theme-main mb-1">Journal</h1>
+          <p className="text-theme-muted">Your plans going in and your reviews coming out</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={results.length === 0}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-white/10 text-theme-main text-sm font-medium hover:bg-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      <ReviewPrompt />
+
+      {/* Filters */}
+      <div className="glass-card p-4 mb-6 grid grid-cols-1 sm:grid-cols-[2fr_1fr_1fr_1fr] gap-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search symbols, setups, theses, lessons"
+            className="w-full p-3 pl-9 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke"
+          />
+        </div>
+        <select value={setup} onChange={(e) => setSetup(e.target.value)} className={selectClass}>
+          <option value="">All setups</option>
+          {setups.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={emotion} onChange={(e) => setEmotion(e.target.value as JournalEmotion | '')} className={selectClass}>
+          <option value="">All emotions</option>
+          {getAllEmotions().map(e => <option key={e} value={e}>{journalEmotions[e].label}</option>)}
+        </select>
+        <select value={reviewFilter} onChange={(e) => setReviewFilter(e.target.value as ReviewFilter)} className={selectClass}>
+          <option value="all">Reviewed or not</option>
+          <option value="reviewed">Reviewed</option>
+          <option value="unreviewed">Not reviewed</option>
+        </select>
+      </div>
+
+      {/* Entries */}
+      {results.length === 0 ? (
+        <div className="glass-card p-10 text-center">
+          <NotebookPen className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+          <p className="text-theme-main font-medium mb-1">
+            {journal.length === 0 ? 'No journal entries yet' : 'Nothing matches these filters'}
+          </p>
+          <p className="text-slate-400 text-sm">
+            {journal.length === 0 ? 'Tick "Journal this trade" when you open a position to write down your plan.' : 'Try a different search or filter.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {results.map(({ entry, pnl, isClosed }) => (
+            <div key={entry.id} className="glass-card p-5">
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <div>
+                  <p className="text-theme-main font-semibold">
+                    {entry.action} {entry.symbol}
+                    <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded-full bg-white/10 text-slate-300">{entry.setup}</span>
+                  </p>
+                  <p className="text-slate-400 text-xs">
+                    {new Date(entry.created_at).toLocaleString()} · Confidence {entry.confidence}/5 · {journalEmotions[entry.emotion].icon} {journalEmotions[entry.emotion].label}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  {isClosed && pnl !== null ? (
+                    <p className={pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}>
+                      {pnl >= 0 ? '+' : '-'}{formatCurrency(Math.abs(pnl))}
+                    </p>
+                  ) : (
+                    <p className="text-slate-400">{entry.trade_id ? 'Open' : 'Order working'}</p>
+                  )}
+                </div>
+              </div>
+              <p className="text-theme-main text-sm mb-2">{entry.thesis}</p>
+              {(entry.planned_stop !== undefined || entry.planned_target !== undefined) && (
+                <p className="text-slate-400 text-xs mb-2">
+                  {entry.planned_stop !== undefined && <>Stop {entry.planned_stop}</>}
+                  {entry.planned_stop !== undefined && entry.planned_target !== undefined && ' · '}
+                  {entry.planned_target !== undefined && <>Target {entry.planned_target}</>}
+                </p>
+              )}
+              {entry.review && (
+                <div className="mt-3 pt-3 border-t border-theme-soft text-sm">
+                  <p className="flex items-center gap-2 text-theme-main">
+                    {entry.review.followed_plan
+                      ? <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+                      : <XCircle className="w-4 h-4 text-red-400" />}
+                    {entry.review.followed_plan ? 'Followed the plan' : 'Broke the plan'}
+                    {entry.review.mistake !== 'none' && <span className="text-slate-400">· {mistakeCategories[entry.review.mistake]}</span>}
+                  </p>
+                  {entry.review.lesson && <p className="text-slate-400 mt-1">{entry.review.lesson}</p>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
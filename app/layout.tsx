@@ -3,6 +3,7 @@ import './globals.css'
 import Navbar from '@/components/layout/Navbar'
 import { ToastContainer } from '@/components/shared/Toast'
 import { PriceUpdater } from '@/components/providers/PriceUpdater'
+import { PersistenceNotice } from '@/components/providers/PersistenceNotice'
 
 export const metadata: Metadata = {
   title: 'BiasCoach - Trading Psychology Platform',
@@ -26,6 +27,9 @@ export default function RootLayout({
         {/* Background price updates (waits 3s, then updates every 30s) */}
         <PriceUpdater />
         
+        {/* Warns once if the saved portfolio had to be repaired */}
+        <PersistenceNotice />
+        
         {/* Main Content - adjusts for sidebar on desktop */}
         <main className="lg:pl-72 min-h-screen">
           {children}
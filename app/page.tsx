@@ -5,6 +5,7 @@ import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 import useBehaviorReport from '@/hooks/useBehaviorReport';
 import { formatCurrency, formatCompact, formatPercent } from '@/lib/utils/formatters';
 import { getScoreColor } from '@/constants/colors';
+import PerformanceSummary from '@/components/performance/PerformanceSummary';
 import {
   PieChart,
   Pie,
@@ -26,7 +27,8 @@ import {
   AlertTriangle,
   Wallet,
   ArrowUpRight,
-  ArrowDownRight
+  ArrowDownRight,
+  Gauge
 } from 'lucide-react';
 
 const NATURAL_CHART_PALETTE = [
@@ -422,6 +424,17 @@ export default function HomePage() {
         </div>
       </div>
 
+      {/* Risk-adjusted Performance */}
+      {report && (
+        <div className="glass-card p-6 mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <h2 className="text-lg font-semibold text-theme-main">Risk-adjusted Performance</h2>
+            <Gauge className="w-5 h-5 text-theme-accent" />
+          </div>
+          <PerformanceSummary performance={report.performance} baseCurrency={report.baseCurrency} compact />
+        </div>
+      )}
+
       {/* Recent Positions */}
       {positions.length > 0 && (
         <div className="glass-card p-6">
@@ -0,0 +1,283 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { shallow } from 'zustand/shallow';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { compareSession, validateSessionName, validateStartingBalance } from '@/lib/services/sessions';
+import { accountEquity } from '@/lib/services/marginAccount';
+import { convertTradesToBase } from '@/lib/services/currencyConverter';
+import { getBiasDisplayName } from '@/constants/biasDefinitions';
+import { getScoreColor } from '@/constants/colors';
+import { config } from '@/constants/config';
+import { formatCurrency, formatPercent } from '@/lib/utils/formatters';
+import { toast } from '@/components/shared/Toast';
+import { Session } from '@/types';
+import { Layers, Plus, Archive, ArchiveRestore, Pencil, Check, X, ArrowRightLeft } from 'lucide-react';
+
+export default function SessionsPage() {
+  const {
+    sessions,
+    currentSessionId,
+    addSession,
+    switchSession,
+    renameSession,
+    archiveSession,
+    restoreSession,
+    cashBalance,
+    cashDeposits,
+    trades,
+    positions,
+    totalValue,
+    sessionAccounts,
+  } = usePortfolioStore();
+  const { baseCurrency, fxRates, tradingDayBoundaries } = useSettingsStore(
+    (state) => ({
+      baseCurrency: state.baseCurrency,
+      fxRates: state.fxRates,
+      tradingDayBoundaries: state.tradingDayBoundaries,
+    }),
+    shallow
+  );
+
+  const [name, setName] = useState('');
+  const [startingBalance, setStartingBalance] = useState(config.trading.defaultStartingBalance.toString());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  // The open session's numbers are live; the others are as they were left,
+  // and sessions never opened still hold their starting balance
+  const comparisons = useMemo(() => sessions.map(session => {
+    const isCurrent = session.id === currentSessionId;
+    const account = isCurrent ? { cashBalance, cashDeposits, trades, positions } : sessionAccounts[session.id];
+    const sessionPositions = account?.positions ?? [];
+    const converted = convertTradesToBase(account?.trades ?? [], { baseCurrency, rates: fxRates });
+    return compareSession(session, {
+      trades: converted.trades,
+      positions: sessionPositions,
+      totalValue: isCurrent ? totalValue : accountEquity(account?.cashBalance ?? session.starting_balance, sessionPositions),
+      cashDeposits: account?.cashDeposits,
+      tradingDayBoundaries,
+      baseCurrency: converted.baseCurrency,
+    });
+  }), [sessions, currentSessionId, cashBalance, cashDeposits, trades, positions, totalValue, sessionAccounts, baseCurrency, fxRates, tradingDayBoundaries]);
+
+  const visible = comparisons.filter(c => showArchived || c.session.status !== 'archived');
+  const archivedCount = sessions.filter(s => s.status === 'archived').length;
+
+  const handleCreate = () => {
+    const balance = parseFloat(startingBalance);
+    const error = validateSessionName(name, sessions) ?? validateStartingBalance(balance);
+    if (error) {
+      toast.warning('Session Not Created', error);
+      return;
+    }
+    const session = addSession(name, balance);
+    toast.success('Session Created', `${session.name} is now open with ${formatCurrency(balance)}`);
+    setName('');
+  };
+
+  const handleSwitch = (session: Session) => {
+    if (switchSession(session.id)) {
+      toast.info('Session Switched', session.name);
+    }
+  };
+
+  const saveRename = (session: Session) => {
+    const error = validateSessionName(renameDraft, sessions, session.id);
+    if (error) {
+      toast.warning('Session Not Renamed', error);
+      return;
+    }
+    renameSession(session.id, renameDraft);
+    setRenamingId(null);
+  };
+
+  const handleArchive = (session: Session) => {
+    if (archiveSession(session.id)) {
+      toast.info('Session Archived', `${session.name} is hidden from the session picker`);
+    } else {
+      toast.warning('Session Not Archived', 'Switch to another session before archiving this one');
+    }
+  };
+
+  const handleRestore = (session: Session) => {
+    if (restoreSession(session.id)) {
+      toast.success('Session Restored', session.name);
+    }
+  };
+
+  const inputClass = 'w-full p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke';
+
+  return (
+    <div className="min-h-screen p-6 pb-28 lg:pb-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-theme-main mb-1">Sessions</h1>
+        <p className="text-theme-muted">Separate paper accounts for each challenge or strategy</p>
+      </div>
+
+      {/* New Session */}
+      <div className="glass-card p-6 mb-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Plus className="w-5 h-5 text-theme-accent" />
+          <h3 className="text-theme-main font-semibold">New Session</h3>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_auto] gap-3 items-end">
+          <label className="text-sm text-slate-400">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Feb swing challenge"
+              className={inputClass}
+            />
+          </label>
+          <label className="text-sm text-slate-400">
+            Starting balance
+            <input
+              type="number"
+              value={startingBalance}
+              onChange={(e) => setStartingBalance(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <button
+            onClick={handleCreate}
+            className="px-5 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 text-white font-medium hover:shadow-lg hover:shadow-emerald-500/25 transition-all"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+
+      {/* Comparison */}
+      <div className="glass-card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-theme-accent" />
+            <h3 className="text-theme-main font-semibold">Compare Sessions</h3>
+          </div>
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-sm text-slate-400 hover:text-theme-main transition-colors"
+            >
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-theme-soft">
+                <th className="py-2 pr-4 font-medium">Session</th>
+                <th className="py-2 pr-4 font-medium text-right">Value</th>
+                <th className="py-2 pr-4 font-medium text-right">Return</th>
+                <th className="py-2 pr-4 font-medium text-right">Trades</th>
+                <th className="py-2 pr-4 font-medium text-right">Win rate</th>
+                <th className="py-2 pr-4 font-medium text-right">Discipline</th>
+                <th className="py-2 pr-4 font-medium">Top concern</th>
+                <th className="py-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(({ session, totalValue: value, returnPercent, tradeCount, roundTripCount, winRate, disciplineScore, topConcern }) => {
+                const isCurrent = session.id === currentSessionId;
+                const isArchived = session.status === 'archived';
+                return (
+                  <tr key={session.id} className={`border-b border-theme-soft/50 ${isArchived ? 'opacity-60' : ''}`}>
+                    <td className="py-3 pr-4">
+                      {renamingId === session.id ? (
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="text"
+                            value={renameDraft}
+                            onChange={(e) => setRenameDraft(e.target.value)}
+                            className="p-1.5 bg-theme-surface-2 border border-theme-soft rounded-lg text-theme-main text-sm"
+                          />
+                          <button onClick={() => saveRename(session)} className="p-1.5 text-emerald-400" title="Save name">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setRenamingId(null)} className="p-1.5 text-slate-400" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div>
+                          <p className="text-theme-main font-medium">
+                            {session.name}
+                            {isCurrent && <span className="ml-2 text-xs text-blueSmoke">Open</span>}
+                            {isArchived && <span className="ml-2 text-xs text-slate-400">Archived</span>}
+                          </p>
+                          <p className="text-slate-400 text-xs">
+                            Started {new Date(session.created_at).toLocaleDateString()} with {formatCurrency(session.starting_balance)}
+                          </p>
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-right text-theme-main">{formatCurrency(value)}</td>
+                    <td className={`py-3 pr-4 text-right ${returnPercent >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {formatPercent(returnPercent, { showSign: true })}
+                    </td>
+                    <td className="py-3 pr-4 text-right text-theme-main">{tradeCount}</td>
+                    <td className="py-3 pr-4 text-right text-theme-main">
+                      {roundTripCount > 0 ? `${winRate.toFixed(0)}%` : '—'}
+                    </td>
+                    <td className="py-3 pr-4 text-right font-semibold" style={{ color: disciplineScore !== null ? getScoreColor(disciplineScore) : undefined }}>
+                      {disciplineScore ?? '—'}
+                    </td>
+                    <td className="py-3 pr-4 text-slate-400">{topConcern ? getBiasDisplayName(topConcern) : '—'}</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        {!isCurrent && !isArchived && (
+                          <button
+                            onClick={() => handleSwitch(session)}
+                            className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-blueSmoke transition-all"
+                            title="Switch to this session"
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            setRenamingId(session.id);
+                            setRenameDraft(session.name);
+                          }}
+                          className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-theme-main transition-all"
+                          title="Rename"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        {isArchived ? (
+                          <button
+                            onClick={() => handleRestore(session)}
+                            className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-emerald-400 transition-all"
+                            title="Restore"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                          </button>
+                        ) : !isCurrent && (
+                          <button
+                            onClick={() => handleArchive(session)}
+                            className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-red-400 transition-all"
+                            title="Archive"
+                          >
+                            <Archive className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ import { useSettingsStore } from '@/lib/stores/settingsStore';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 import { useGrowthStore } from '@/lib/stores/growthStore';
 import { toast } from '@/components/shared/Toast';
+import { COMMON_TIME_ZONES } from '@/lib/utils/timezone';
+import { AssetType } from '@/types';
+import { config } from '@/constants/config';
+import { getAllFeeSchedules, getFeeSchedule } from '@/constants/feeSchedules';
+import { describeMarketHours } from '@/lib/services/executionModel';
 import { 
   User, 
   Bell, 
@@ -15,9 +20,38 @@ import {
   Zap,
   Moon,
   Volume2,
-  Info
+  Info,
+  Clock,
+  Coins,
+  Receipt,
+  Plus,
+  X,
+  ShieldAlert,
+  Timer,
+  Gauge,
+  Store
 } from 'lucide-react';
 
+// Asset classes with their own session calendar
+const SESSION_ASSET_TYPES: { type: AssetType; label: string }[] = [
+  { type: 'stocks', label: 'Stocks' },
+  { type: 'etfs', label: 'ETFs' },
+  { type: 'forex', label: 'Forex' },
+  { type: 'commodities', label: 'Commodities' },
+  { type: 'options', label: 'Options' },
+  { type: 'futures', label: 'Futures' },
+];
+
+// Blank inputs clear optional limits; anything else must be a number from zero up
+function parseModelInput(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || !(parsed >= 0) ? undefined : parsed;
+}
+
+function formatRollHour(hour: number): string {
+  return hour === 0 ? 'Midnight' : `${hour.toString().padStart(2, '0')}:00`;
+}
+
 interface SettingRowProps {
   icon: React.ReactNode;
   title: string;
@@ -71,6 +105,20 @@ export default function SettingsPage() {
   const resetPortfolio = usePortfolioStore((state) => state.resetPortfolio);
   const resetGrowth = useGrowthStore((state) => state.resetAll);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  // New historical rate, entered as "1 USD = rate units of currency"
+  const [rateCurrency, setRateCurrency] = useState('CAD');
+  const [rateDate, setRateDate] = useState('');
+  const [rateValue, setRateValue] = useState('');
+
+  const handleAddRate = () => {
+    const rate = parseFloat(rateValue);
+    if (!rateDate || !(rate > 0)) {
+      toast.warning('Invalid Rate', 'Enter a date and a positive exchange rate');
+      return;
+    }
+    settings.addFxRate({ pair: `USD/${rateCurrency}`, date: rateDate, rate });
+    setRateValue('');
+  };
 
   const handleReset = () => {
     resetPortfolio();
@@ -196,6 +244,311 @@ export default function SettingsPage() {
               ))}
             </div>
           </div>
+
+          <div className="divide-y divide-white/5 border-t border-white/5">
+            <SettingRow
+              icon={<ShieldAlert className="w-5 h-5 text-amber-400" />}
+              title="Pre-Trade Guardrails"
+              description="Warn before orders that look like revenge trading, oversizing or concentration"
+            >
+              <Toggle
+                enabled={settings.guardrailsEnabled}
+                onChange={() => settings.setGuardrailsEnabled(!settings.guardrailsEnabled)}
+              />
+            </SettingRow>
+
+            <SettingRow
+              icon={<Timer className="w-5 h-5 text-amber-400" />}
+              title="Cooldown After Losses"
+              description={`Hold orders until ${config.guardrails.cooldownMinutes} minutes after a loss`}
+            >
+              <Toggle
+                enabled={settings.enforceGuardrailCooldown}
+                onChange={() => settings.setEnforceGuardrailCooldown(!settings.enforceGuardrailCooldown)}
+              />
+            </SettingRow>
+          </div>
+        </div>
+
+        {/* Trading Days */}
+        <div className="glass-card overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/5 flex items-center justify-between">
+            <p className="text-slate-400 text-sm font-medium uppercase tracking-wider">Trading Days</p>
+            <button
+              onClick={settings.resetTradingDayBoundaries}
+              className="text-slate-400 hover:text-white text-xs"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          <div className="p-4">
+            <SettingRow
+              icon={<Clock className="w-5 h-5 text-indigo-400" />}
+              title="Session Boundaries"
+              description="When each market's trading day starts. Used to count trades per day."
+            />
+
+            <div className="space-y-2 mt-2 ml-14">
+              {SESSION_ASSET_TYPES.map(({ type, label }) => {
+                const boundary = settings.tradingDayBoundaries[type];
+                return (
+                  <div key={type} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-white w-28">{label}</span>
+                    <select
+                      value={boundary.rollHour}
+                      onChange={(e) => settings.setTradingDayBoundary(type, { ...boundary, rollHour: Number(e.target.value) })}
+                      className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour} className="bg-slate-900">
+                          {formatRollHour(hour)}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={boundary.timeZone}
+                      onChange={(e) => settings.setTradingDayBoundary(type, { ...boundary, timeZone: e.target.value })}
+                      className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    >
+                      {Array.from(new Set([boundary.timeZone, ...COMMON_TIME_ZONES])).map(zone => (
+                        <option key={zone} value={zone} className="bg-slate-900">
+                          {zone}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Currency */}
+        <div className="glass-card overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/5">
+            <p className="text-slate-400 text-sm font-medium uppercase tracking-wider">Currency</p>
+          </div>
+
+          <div className="p-4">
+            <SettingRow
+              icon={<Coins className="w-5 h-5 text-indigo-400" />}
+              title="Base Currency"
+              description="Reports, charts and the coach convert P&L to this currency at trade-time rates"
+            >
+              <select
+                value={settings.baseCurrency}
+                onChange={(e) => settings.setBaseCurrency(e.target.value)}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white text-sm"
+              >
+                {config.currency.supported.map(code => (
+                  <option key={code} value={code} className="bg-slate-900">
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </SettingRow>
+
+            <div className="mt-2 ml-14 space-y-2 text-sm">
+              <p className="text-slate-400 text-xs">
+                Historical rates. Forex fills and live quotes are used where you haven&apos;t entered one.
+              </p>
+              {settings.fxRates.map(rate => (
+                <div key={`${rate.pair}-${rate.date}`} className="flex items-center gap-2">
+                  <span className="text-white w-28">{rate.date}</span>
+                  <span className="text-slate-300 flex-1">1 {rate.pair.replace('/', ' = ')} {rate.rate}</span>
+                  <button
+                    onClick={() => settings.removeFxRate(rate.pair, rate.date)}
+                    className="text-slate-400 hover:text-red-400"
+                    aria-label={`Remove ${rate.pair} rate for ${rate.date}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="date"
+                  value={rateDate}
+                  onChange={(e) => setRateDate(e.target.value)}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white"
+                />
+                <span className="text-slate-400">1 USD =</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rateValue}
+                  onChange={(e) => setRateValue(e.target.value)}
+                  placeholder="1.3600"
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white w-24"
+                />
+                <select
+                  value={rateCurrency}
+                  onChange={(e) => setRateCurrency(e.target.value)}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white"
+                >
+                  {config.currency.supported.filter(code => code !== 'USD').map(code => (
+                    <option key={code} value={code} className="bg-slate-900">
+                      {code}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddRate}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500/30"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Fees */}
+        <div className="glass-card overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/5">
+            <p className="text-slate-400 text-sm font-medium uppercase tracking-wider">Fees</p>
+          </div>
+
+          <div className="p-4">
+            <SettingRow
+              icon={<Receipt className="w-5 h-5 text-indigo-400" />}
+              title="Broker Fee Schedule"
+              description={getFeeSchedule(settings.feeScheduleId).description}
+            >
+              <select
+                value={settings.feeScheduleId}
+                onChange={(e) => settings.setFeeSchedule(e.target.value)}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white text-sm"
+              >
+                {getAllFeeSchedules().map(schedule => (
+                  <option key={schedule.id} value={schedule.id} className="bg-slate-900">
+                    {schedule.name}
+                  </option>
+                ))}
+              </select>
+            </SettingRow>
+
+            <div className="space-y-2 mt-2 ml-14">
+              <p className="text-slate-400 text-xs">
+                Charged on paper trades and used to estimate fees for imported files without a fees column.
+              </p>
+              {SESSION_ASSET_TYPES.map(({ type, label }) => (
+                <div key={type} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-white w-28">{label}</span>
+                  <select
+                    value={settings.assetFeeSchedules[type] || ''}
+                    onChange={(e) => settings.setAssetFeeSchedule(type, e.target.value || null)}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white"
+                  >
+                    <option value="" className="bg-slate-900">Account schedule</option>
+                    {getAllFeeSchedules().map(schedule => (
+                      <option key={schedule.id} value={schedule.id} className="bg-slate-900">
+                        {schedule.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Execution */}
+        <div className="glass-card overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/5 flex items-center justify-between">
+            <p className="text-slate-400 text-sm font-medium uppercase tracking-wider">Execution</p>
+            <button
+              onClick={settings.resetExecutionModels}
+              className="text-slate-400 hover:text-white text-xs"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          <div className="p-4">
+            <SettingRow
+              icon={<Gauge className="w-5 h-5 text-indigo-400" />}
+              title="Realistic Fills"
+              description="Buy at the ask and sell at the bid, with slippage that grows with size and partial fills for large orders"
+            >
+              <Toggle
+                enabled={settings.realisticExecution}
+                onChange={() => settings.setRealisticExecution(!settings.realisticExecution)}
+              />
+            </SettingRow>
+
+            <SettingRow
+              icon={<Store className="w-5 h-5 text-indigo-400" />}
+              title="Market Hours"
+              description="Reject market orders while the market is closed; working orders wait for the open"
+            >
+              <Toggle
+                enabled={settings.enforceMarketHours}
+                onChange={() => settings.setEnforceMarketHours(!settings.enforceMarketHours)}
+              />
+            </SettingRow>
+
+            {settings.realisticExecution && (
+              <div className="space-y-3 mt-2 ml-14 text-sm">
+                <p className="text-slate-400 text-xs">
+                  Spread is the full bid/ask width; half is paid on each fill. Slippage is quoted for a $10k order (forex and futures: $100k).
+                </p>
+                {SESSION_ASSET_TYPES.map(({ type, label }) => {
+                  const model = settings.executionModels[type];
+                  const usesPips = type === 'forex';
+                  return (
+                    <div key={type}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-white w-28">{label}</span>
+                        <label className="flex items-center gap-1 text-slate-400">
+                          Spread
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={(usesPips ? model.spreadPips : model.spreadBps) ?? ''}
+                            onChange={(e) => settings.setExecutionModel(type, {
+                              [usesPips ? 'spreadPips' : 'spreadBps']: parseModelInput(e.target.value),
+                            })}
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white w-16"
+                          />
+                          {usesPips ? 'pips' : 'bps'}
+                        </label>
+                        <label className="flex items-center gap-1 text-slate-400">
+                          Slippage
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={model.slippageBps}
+                            onChange={(e) => settings.setExecutionModel(type, { slippageBps: parseModelInput(e.target.value) ?? 0 })}
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white w-16"
+                          />
+                          bps
+                        </label>
+                        <label className="flex items-center gap-1 text-slate-400">
+                          Max fill $
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={model.maxFillNotional ?? ''}
+                            onChange={(e) => settings.setExecutionModel(type, { maxFillNotional: parseModelInput(e.target.value) })}
+                            placeholder="No limit"
+                            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white w-28"
+                          />
+                        </label>
+                      </div>
+                      <p className="text-slate-500 text-xs ml-[7.5rem]">{describeMarketHours(model.marketHours)}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Data & Reset */}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import useBaseCurrencyTrades from '@/hooks/useBaseCurrencyTrades';
+import { analyzeTaxBehavior, buildTaxReport, describeTaxBehavior, exportTaxReportCsv } from '@/lib/services/taxLots';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { config } from '@/constants/config';
+import { LotMatchingMethod, TaxJurisdiction } from '@/types';
+import { Landmark, Download, AlertTriangle, Lightbulb } from 'lucide-react';
+
+type TradeSource = 'paper' | 'imported';
+
+const LOT_METHOD_LABELS: Record<LotMatchingMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  lifo: 'LIFO (last in, first out)',
+  specific_id: 'Specific ID (lots picked per sale)',
+  average: 'Average cost (Canadian ACB)',
+};
+
+const JURISDICTION_LABELS: Record<TaxJurisdiction, string> = {
+  us: 'US rules (wash sales)',
+  ca: 'Canadian rules (superficial losses)',
+};
+
+export default function TaxReportPage() {
+  const { trades, importedTrades } = usePortfolioStore();
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
+  const taxLotMethod = useSettingsStore((state) => state.taxLotMethod);
+  const setTaxLotMethod = useSettingsStore((state) => state.setTaxLotMethod);
+  const taxJurisdiction = useSettingsStore((state) => state.taxJurisdiction);
+  const setTaxJurisdiction = useSettingsStore((state) => state.setTaxJurisdiction);
+  const [source, setSource] = useState<TradeSource>(importedTrades.length > 0 ? 'imported' : 'paper');
+  const [year, setYear] = useState<number | 'all'>('all');
+
+  const { trades: baseTrades, baseCurrency } = useBaseCurrencyTrades(source === 'imported' ? importedTrades : trades);
+  const report = useMemo(
+    () => buildTaxReport(baseTrades, taxLotMethod, tradingDayBoundaries, taxJurisdiction),
+    [baseTrades, taxLotMethod, tradingDayBoundaries, taxJurisdiction]
+  );
+
+  const disposals = year === 'all' ? report.disposals : report.disposals.filter(d => d.taxYear === year);
+  const summary = year === 'all' ? null : report.years.find(y => y.year === year) ?? null;
+  const behaviorNotes = useMemo(() => describeTaxBehavior(analyzeTaxBehavior(report.disposals)), [report]);
+  const money = (value: number) => formatCurrency(value, { currency: baseCurrency });
+
+  const handleExport = () => {
+    const blob = new Blob([exportTaxReportCsv(disposals)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `realized_gains_${year}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const selectClass = 'p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main';
+
+  return (
+    <div className="min-h-screen p-6 pb-28 lg:pb-6">
+      {/* Header */}
+      <div className="mb-6 flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-theme-main mb-1">Tax Report</h1>
+          <p className="text-theme-muted">Realized gains by tax lot, in {baseCurrency}</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={disposals.length === 0}
+          className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-white/10 text-theme-main text-sm font-medium hover:bg-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Options */}
+      <div className="glass-card p-4 mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <select value={source} onChange={(e) => setSource(e.target.value as TradeSource)} className={selectClass}>
+          <option value="paper">Paper trades</option>
+          <option value="imported" disabled={importedTrades.length === 0}>Imported history</option>
+        </select>
+        <select value={taxLotMethod} onChange={(e) => setTaxLotMethod(e.target.value as LotMatchingMethod)} className={selectClass}>
+          {(Object.keys(LOT_METHOD_LABELS) as LotMatchingMethod[]).map(method => (
+            <option key={method} value={method}>{LOT_METHOD_LABELS[method]}</option>
+          ))}
+        </select>
+        <select value={taxJurisdiction} onChange={(e) => setTaxJurisdiction(e.target.value as TaxJurisdiction)} className={selectClass}>
+          {(Object.keys(JURISDICTION_LABELS) as TaxJurisdiction[]).map(jurisdiction => (
+            <option key={jurisdiction} value={jurisdiction}>{JURISDICTION_LABELS[jurisdiction]}</option>
+          ))}
+        </select>
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+          className={selectClass}
+        >
+          <option value="all">All tax years</option>
+          {report.years.map(y => <option key={y.year} value={y.year}>{y.year}</option>)}
+        </select>
+      </div>
+
+      {/* Tax years */}
+      {report.years.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {(summary ? [summary] : report.years).map(y => (
+            <div key={y.year} className="glass-card p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Landmark className="w-5 h-5 text-theme-accent" />
+                <h3 className="text-theme-main font-semibold">{y.year}</h3>
+                <span className="text-slate-400 text-sm">({y.disposals} lots sold)</span>
+              </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Proceeds</span>
+                  <span className="text-theme-main">{money(y.proceeds)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Cost basis</span>
+                  <span className="text-theme-main">{money(y.costBasis)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Short-term gain</span>
+                  <span className={y.shortTermGain >= 0 ? 'text-emerald-400' : 'text-red-400'}>{money(y.shortTermGain)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Long-term gain</span>
+                  <span className={y.longTermGain >= 0 ? 'text-emerald-400' : 'text-red-400'}>{money(y.longTermGain)}</span>
+                </div>
+                {y.washSales > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Disallowed losses ({y.washSales})</span>
+                    <span className="text-amber-400">+{money(y.disallowedLoss)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between pt-2 border-t border-theme-soft">
+                  <span className="text-theme-main font-medium">Reportable gain</span>
+                  <span className={`font-bold ${y.reportableGain >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{money(y.reportableGain)}</span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Behavioral lens */}
+      {behaviorNotes.length > 0 && (
+        <div className="glass-card p-6 mb-6">
+          <div className="flex items-center gap-2 mb-3">
+            <Lightbulb className="w-5 h-5 text-amber-400" />
+            <h3 className="text-theme-main font-semibold">Tax-loss harvesting or loss aversion?</h3>
+          </div>
+          <ul className="space-y-2 text-sm text-slate-300">
+            {behaviorNotes.map(note => <li key={note}>{note}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* Disposals */}
+      {disposals.length === 0 ? (
+        <div className="glass-card p-10 text-center mb-6">
+          <Landmark className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+          <p className="text-theme-main font-medium mb-1">No realized gains yet</p>
+          <p className="text-slate-400 text-sm">Lots show up here once a sale closes them.</p>
+        </div>
+      ) : (
+        <div className="glass-card p-6 mb-6 overflow-x-auto">
+          <h3 className="text-theme-main font-semibold mb-4">Lots sold</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="pb-2 font-normal">Lot</th>
+                <th className="pb-2 font-normal">Acquired</th>
+                <th className="pb-2 font-normal">Sold</th>
+                <th className="pb-2 font-normal text-right">Proceeds</th>
+                <th className="pb-2 font-normal text-right">Cost basis</th>
+                <th className="pb-2 font-normal text-right">Gain</th>
+                <th className="pb-2 font-normal text-right">Term</th>
+              </tr>
+            </thead>
+            <tbody>
+              {disposals.map(d => (
+                <tr key={d.id} className="border-t border-theme-soft">
+                  <td className="py-2 text-theme-main">
+                    {d.direction === 'short' ? 'Short ' : ''}{d.quantity} {d.symbol}
+                    {d.washSale && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-1 text-xs text-amber-400"
+                        title={`Bought back within ${config.tax.washSaleDays} days; ${money(d.washSale.disallowedLoss)} of the loss is disallowed`}
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        {taxJurisdiction === 'ca' ? 'Superficial loss' : 'Wash sale'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-slate-400">{d.acquired}</td>
+                  <td className="py-2 text-slate-400">{d.disposed}</td>
+                  <td className="py-2 text-right text-theme-main">{money(d.proceeds)}</td>
+                  <td className="py-2 text-right text-theme-main">{money(d.costBasis)}</td>
+                  <td className={`py-2 text-right ${d.gain >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{money(d.gain)}</td>
+                  <td className="py-2 text-right text-slate-400">{d.term === 'long' ? 'Long' : 'Short'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Open lots */}
+      {report.openLots.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="text-theme-main font-semibold mb-4">Open lots</h3>
+          <div className="space-y-1 text-sm">
+            {report.openLots.map(lot => (
+              <div key={`${lot.trade_id}-${lot.direction}`} className="flex justify-between">
+                <span className="text-theme-main">
+                  {lot.direction === 'short' ? 'Short ' : ''}{lot.quantity} {lot.symbol} @ {money(lot.price)}
+                </span>
+                <span className="text-slate-400">Since {new Date(lot.timestamp).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
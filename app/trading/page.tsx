@@ -3,9 +3,25 @@
 import { useState, useMemo, useEffect, useCallback } from 'react';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 import { formatCurrency } from '@/lib/utils/formatters';
-import { getAllAssets } from '@/constants/config';
-import { AssetType } from '@/types';
+import { config, getAllAssets } from '@/constants/config';
+import { getSymbolCurrency, getUsdRate } from '@/lib/services/currencyConverter';
+import { calculateFees, monthToDateVolume, resolveFeeSchedules, scheduleForAsset } from '@/lib/services/feeCalculator';
+import { contractValue, frontMonthContract, initialMargin } from '@/lib/services/contracts';
+import { buyingPower, getMarginSummary } from '@/lib/services/marginAccount';
+import { createOrder, describeOrder, getOrderTypeLabel, validateBracket, validateOrder } from '@/lib/services/orderBook';
+import { checkPreTrade, createGuardrailEvent, PreTradeOrder } from '@/lib/services/guardrails';
+import { createJournalEntry, knownSetups, validatePlan } from '@/lib/services/tradeJournal';
+import { describeMarketHours, isMarketOpen, priceExecution } from '@/lib/services/executionModel';
+import { matchLots } from '@/lib/services/roundTrips';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { AssetType, BracketSpec, GuardrailEvent, GuardrailWarning, OrderType, TimeInForce, Trade } from '@/types';
 import { toast } from '@/components/shared/Toast';
+import OpenOrders from '@/components/trading/OpenOrders';
+import AccountLedger from '@/components/trading/AccountLedger';
+import LotPicker, { LotDraft, lotSelectionsFromDraft, validateLotSelections } from '@/components/trading/LotPicker';
+import GuardrailModal from '@/components/trading/GuardrailModal';
+import TradePlanForm, { emptyPlanDraft, planFromDraft, PlanDraft } from '@/components/journal/TradePlanForm';
+import ReviewPrompt from '@/components/journal/ReviewPrompt';
 import { 
   Wallet, 
   TrendingUp, 
@@ -20,13 +36,60 @@ import {
 
 const ASSETS = getAllAssets();
 const TOP_SYMBOLS = ASSETS.slice(0, 10).map(a => a.symbol);
+const ORDER_TYPES: OrderType[] = ['market', 'limit', 'stop', 'stop_limit', 'trailing_stop'];
+
+// An order held back by the guardrails until the trader decides
+interface GuardrailPrompt {
+  order: PreTradeOrder;
+  warnings: GuardrailWarning[];
+  proceed: () => void;
+}
 
 export default function TradingPage() {
-  const { cashBalance, positions, executeBuy, executeSell } = usePortfolioStore();
+  const {
+    cashBalance,
+    cashDeposits,
+    positions,
+    trades,
+    totalValue,
+    accountType,
+    marginCall,
+    currentSessionId,
+    journal,
+    executeBuy,
+    executeSell,
+    placeOrder,
+    attachBracket,
+    setAccountType,
+    logGuardrailEvent,
+    addJournalEntry,
+  } = usePortfolioStore();
+  const feeScheduleId = useSettingsStore((state) => state.feeScheduleId);
+  const guardrailsEnabled = useSettingsStore((state) => state.guardrailsEnabled);
+  const enforceGuardrailCooldown = useSettingsStore((state) => state.enforceGuardrailCooldown);
+  const assetFeeSchedules = useSettingsStore((state) => state.assetFeeSchedules);
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
+  const realisticExecution = useSettingsStore((state) => state.realisticExecution);
+  const enforceMarketHours = useSettingsStore((state) => state.enforceMarketHours);
+  const executionModels = useSettingsStore((state) => state.executionModels);
+  const taxLotMethod = useSettingsStore((state) => state.taxLotMethod);
   
   const [selectedSymbol, setSelectedSymbol] = useState('');
   const [quantity, setQuantity] = useState('');
   const [mode, setMode] = useState<'BUY' | 'SELL'>('BUY');
+  const [orderType, setOrderType] = useState<OrderType>('market');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('day');
+  const [trailPercent, setTrailPercent] = useState('');
+  const [useBracket, setUseBracket] = useState(false);
+  const [stopLossPercent, setStopLossPercent] = useState(config.trading.defaultStopLossPercent.toString());
+  const [takeProfitPercent, setTakeProfitPercent] = useState(config.trading.defaultTakeProfitPercent.toString());
+  const [trailingStop, setTrailingStop] = useState(false);
+  const [useJournal, setUseJournal] = useState(false);
+  const [planDraft, setPlanDraft] = useState<PlanDraft>(emptyPlanDraft);
+  const [lotDraft, setLotDraft] = useState<LotDraft>({});
+  const [guardrailPrompt, setGuardrailPrompt] = useState<GuardrailPrompt | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [livePrice, setLivePrice] = useState<number | null>(null);
   const [isLoadingPrice, setIsLoadingPrice] = useState(false);
@@ -110,10 +173,80 @@ export default function TradingPage() {
   const selectedAsset = ASSETS.find(a => a.symbol === selectedSymbol);
   const price = livePrice; // No fallback - null means unavailable
   const qty = parseFloat(quantity) || 0;
-  const total = price ? qty * price : 0;
-  const fee = total * 0.001;
+  const assetType = (selectedAsset?.type as AssetType) || 'stocks';
   const position = positions.find(p => p.symbol === selectedSymbol);
-  const canTrade = price !== null && price > 0 && qty > 0;
+  // Futures symbols are continuous; buys open the front month, sells close what's held
+  const contract = assetType === 'futures'
+    ? position?.contract || frontMonthContract(selectedSymbol.replace('/', '')) || undefined
+    : undefined;
+  const total = price ? contractValue(qty, price, contract) : 0;
+  const feeSchedule = scheduleForAsset(resolveFeeSchedules(feeScheduleId, assetFeeSchedules), assetType);
+  const feeBreakdown = price && qty > 0
+    ? calculateFees(
+        { symbol: selectedSymbol, assetType, action: mode, quantity: qty, price, multiplier: contract?.multiplier },
+        feeSchedule,
+        monthToDateVolume(trades, new Date().toISOString(), feeSchedule.tierVolume)
+      )
+    : null;
+  const fee = feeBreakdown?.total ?? 0;
+  // Forex amounts are in the pair's quote currency; cash moves in dollars
+  const quoteCurrency = selectedAsset ? getSymbolCurrency(selectedSymbol, selectedAsset.type as AssetType) : 'USD';
+  const usdRate = price ? getUsdRate(quoteCurrency, { [selectedSymbol]: price }) ?? 1 : 1;
+  // Expected fill after the spread and slippage, for the order summary
+  const executionModel = executionModels[assetType];
+  const expectedFill = realisticExecution && price && qty > 0
+    ? priceExecution(
+        { symbol: selectedSymbol, assetType, action: mode, quantity: qty, price, multiplier: contract?.multiplier, usdRate },
+        executionModel,
+        { spreadInFees: assetType === 'forex' && !!feeSchedule.spreadPips }
+      )
+    : null;
+  const isFutures = assetType === 'futures';
+  // Futures only move fees and realized P&L through cash; margin is set aside
+  const cashAmount = isFutures
+    ? -fee * usdRate
+    : (mode === 'BUY' ? total + fee : total - fee) * usdRate;
+  const isShortPosition = position?.side === 'short';
+  const hasLong = !!position && !isShortPosition;
+  // A SELL without a long to close is a short sale; a BUY against a short covers it
+  const sellsShort = mode === 'SELL' && !hasLong;
+  const covers = mode === 'BUY' && isShortPosition;
+  const opensPosition = (mode === 'BUY' && !isShortPosition) || sellsShort;
+  const margin = isFutures && contract && price && opensPosition ? initialMargin(contract, price, qty) * usdRate : 0;
+  const marginInUse = positions.reduce((sum, p) => sum + (p.margin ?? 0), 0);
+  const availableCash = cashBalance - marginInUse;
+  const isMarginAccount = accountType === 'margin';
+  const marginSummary = getMarginSummary(cashBalance, positions);
+  const power = buyingPower(accountType, cashBalance, positions, assetType);
+  const financingPaid = -cashDeposits
+    .filter(d => d.kind === 'margin_interest' || d.kind === 'borrow_fee')
+    .reduce((sum, d) => sum + d.amount, 0);
+  const isMarket = orderType === 'market';
+  const needsLimit = orderType === 'limit' || orderType === 'stop_limit';
+  const needsStop = orderType === 'stop' || orderType === 'stop_limit';
+  const needsTrail = orderType === 'trailing_stop';
+  // Brackets protect entries, so only BUYs carry them
+  const bracket: BracketSpec | undefined = mode === 'BUY' && useBracket
+    ? {
+        ...(stopLossPercent ? { stop_loss_percent: parseFloat(stopLossPercent) } : {}),
+        ...(takeProfitPercent ? { take_profit_percent: parseFloat(takeProfitPercent) } : {}),
+        ...(trailingStop ? { trailing_stop: true } : {}),
+      }
+    : undefined;
+  // Only entries are journaled; their exits are reviewed against the plan
+  const journalsTrade = useJournal && opensPosition;
+  const setups = useMemo(() => knownSetups(journal), [journal]);
+  // Under specific identification a market sale of a long names its tax lots
+  const picksLots = taxLotMethod === 'specific_id' && mode === 'SELL' && hasLong && isMarket;
+  const openLots = useMemo(
+    () => (picksLots
+      ? matchLots(trades, 'specific_id').openLots.filter(l => l.symbol === selectedSymbol && l.direction === 'long')
+      : []),
+    [picksLots, trades, selectedSymbol]
+  );
+  const lotSelections = openLots.length > 1 ? lotSelectionsFromDraft(lotDraft) : [];
+  // Working orders wait for their own prices, so they don't need a live quote
+  const canTrade = isMarket ? price !== null && price > 0 && qty > 0 : !!selectedSymbol && qty > 0;
 
   const filteredAssets = useMemo(() => 
     ASSETS.filter(a => 
@@ -123,45 +256,232 @@ export default function TradingPage() {
     [searchQuery]
   );
 
+  // Sells close at most the long held, covers at most the short, and short
+  // sales need a margin account
+  const checkHoldings = (): string | null => {
+    if (mode === 'SELL' && hasLong && qty > (position?.quantity || 0)) {
+      return `You only own ${position?.quantity} units of ${selectedSymbol}. Close it before selling short.`;
+    }
+    if (sellsShort && !isMarginAccount) {
+      return position ? `You're already short ${selectedSymbol}` : `You don't own ${selectedSymbol}. Short selling needs a margin account.`;
+    }
+    if (sellsShort && assetType === 'options') {
+      return 'Writing options isn\'t supported';
+    }
+    if (covers && qty > (position?.quantity || 0)) {
+      return `You're short ${position?.quantity} units of ${selectedSymbol}. Cover it before buying more.`;
+    }
+    return null;
+  };
+
+  // USD exposure the order adds: an option's shares at the strike, the
+  // traded value of anything else
+  const exposureAt = (atPrice: number): number => (contract?.strike !== undefined
+    ? qty * contract.strike * contract.multiplier
+    : contractValue(qty, atPrice, contract)) * usdRate;
+
+  // Check the order against recent history first; warnings hold it until the
+  // trader cancels or goes ahead
+  const guardTrade = (exposure: number, orderPrice: number | undefined, proceed: () => void) => {
+    if (!guardrailsEnabled) {
+      proceed();
+      return;
+    }
+    const order: PreTradeOrder = {
+      symbol: selectedSymbol,
+      action: mode,
+      quantity: qty,
+      ...(orderPrice !== undefined ? { price: orderPrice } : {}),
+      notional: exposure,
+      opensPosition,
+    };
+    const warnings = checkPreTrade(order, { trades, positions, totalValue });
+    if (warnings.length === 0) {
+      proceed();
+      return;
+    }
+    setGuardrailPrompt({ order, warnings, proceed });
+  };
+
+  // Save the plan against the fill, or against the working order until it fills
+  const saveJournal = (fill: { trade_id?: string; order_id?: string }) => {
+    if (!journalsTrade) return;
+    addJournalEntry(createJournalEntry(planFromDraft(planDraft), { symbol: selectedSymbol, action: mode, ...fill }, currentSessionId));
+    setPlanDraft({ ...emptyPlanDraft, setup: planDraft.setup });
+  };
+
+  // Partial fills say what didn't fill; the rest of a market order is cancelled
+  const announceFill = (trade: Trade, message: string) => {
+    if (trade.requested_quantity !== undefined) {
+      toast.warning('Partial Fill', `${message}. The other ${trade.requested_quantity - trade.quantity} didn't fill at this size and were cancelled.`);
+    } else {
+      toast.success('Trade Executed', message);
+    }
+  };
+
+  const resolveGuardrail = (decision: GuardrailEvent['decision']) => {
+    if (!guardrailPrompt) return;
+    logGuardrailEvent(createGuardrailEvent(guardrailPrompt.order, guardrailPrompt.warnings, decision, currentSessionId));
+    setGuardrailPrompt(null);
+    if (decision === 'overridden') {
+      guardrailPrompt.proceed();
+    } else {
+      toast.info('Order Cancelled', 'Nothing was sent. Your coach can go over this with you.');
+    }
+  };
+
+  const handlePlaceOrder = () => {
+    if (orderType === 'market') return;
+    const request = {
+      symbol: selectedSymbol,
+      action: mode,
+      order_type: orderType,
+      quantity: qty,
+      ...(needsLimit ? { limit_price: parseFloat(limitPrice) } : {}),
+      ...(needsStop ? { stop_price: parseFloat(stopPrice) } : {}),
+      ...(needsTrail ? { trail_percent: parseFloat(trailPercent) } : {}),
+      time_in_force: timeInForce,
+      asset_type: assetType,
+      ...(contract ? { contract } : {}),
+      fee_schedule: feeSchedule.id,
+      ...(bracket ? { bracket } : {}),
+    };
+
+    const error = validateOrder(request);
+    if (error) {
+      toast.warning('Invalid Order', error);
+      return;
+    }
+    // Buying power is checked when the order fills; holdings are checked up front too
+    const holdingsError = checkHoldings();
+    if (holdingsError) {
+      toast.error('Insufficient Holdings', holdingsError);
+      return;
+    }
+
+    const order = createOrder(request, tradingDayBoundaries[assetType]);
+    // Sized at the price it's expected to fill at
+    const expectedPrice = order.limit_price ?? order.stop_price ?? price ?? 0;
+    guardTrade(exposureAt(expectedPrice), undefined, () => {
+      placeOrder(order);
+      saveJournal({ order_id: order.id });
+      toast.success('Order Placed', describeOrder(order));
+      setQuantity('');
+    });
+  };
+
+  // Tells the trader a market order can't fill while the market is closed,
+  // before sending it or when it was turned away (the market can close while
+  // a guardrail warning is open)
+  const rejectedForMarketHours = (): boolean => {
+    if (!realisticExecution || !enforceMarketHours || isMarketOpen(executionModel.marketHours)) return false;
+    toast.warning('Market Closed', `${selectedSymbol} trades ${describeMarketHours(executionModel.marketHours)}. Place a limit or stop order to fill at the open.`);
+    return true;
+  };
+
   const handleTrade = () => {
     if (!selectedSymbol || qty <= 0) {
       toast.warning('Invalid Trade', 'Please select an asset and enter a quantity');
       return;
     }
 
+    const bracketError = bracket ? validateBracket(bracket) : null;
+    if (bracketError) {
+      toast.warning('Invalid Bracket', bracketError);
+      return;
+    }
+
+    const planError = journalsTrade ? validatePlan(planFromDraft(planDraft), mode) : null;
+    if (planError) {
+      toast.warning('Journal Incomplete', planError);
+      return;
+    }
+
+    const lotError = validateLotSelections(lotSelections, openLots, qty);
+    if (lotError) {
+      toast.warning('Invalid Lots', lotError);
+      return;
+    }
+
+    if (!isMarket) {
+      handlePlaceOrder();
+      return;
+    }
+
     if (!price || price <= 0) {
       toast.error('Price Unavailable', 'Cannot trade without real-time price data. Please wait or try again.');
       return;
     }
 
-    if (mode === 'BUY') {
-      if (total + fee > cashBalance) {
-        toast.error('Insufficient Funds', `You need ${formatCurrency(total + fee)} but only have ${formatCurrency(cashBalance)}`);
-        return;
-      }
-      const success = executeBuy(
-        selectedSymbol, 
-        qty, 
-        price, 
-        fee, 
-        selectedAsset?.type as AssetType || 'stocks'
-      );
-      if (success) {
-        toast.success('Trade Executed', `Bought ${qty} ${selectedSymbol} at ${formatCurrency(price)}`);
-        setQuantity('');
-      }
-    } else {
-      const owned = position?.quantity || 0;
-      if (qty > owned) {
-        toast.error('Insufficient Holdings', `You only own ${owned} units of ${selectedSymbol}`);
+    // Working orders can wait for the open; market orders can't
+    if (rejectedForMarketHours()) return;
+
+    const holdingsError = checkHoldings();
+    if (holdingsError) {
+      toast.error('Insufficient Holdings', holdingsError);
+      return;
+    }
+
+    if (opensPosition) {
+      // Cash accounts pay in full; margin accounts spend buying power
+      const required = isMarginAccount
+        ? (isFutures ? margin : total * usdRate)
+        : Math.abs(cashAmount) + margin;
+      const available = isMarginAccount ? power : availableCash;
+      if (required > available) {
+        toast.error(
+          'Insufficient Funds',
+          `You need ${formatCurrency(required)} but only have ${formatCurrency(available)}${isMarginAccount ? ' of buying power' : ''}`
+        );
         return;
       }
-      const success = executeSell(selectedSymbol, qty, price, fee);
-      if (success) {
-        toast.success('Trade Executed', `Sold ${qty} ${selectedSymbol} at ${formatCurrency(price)}`);
-        setQuantity('');
-      }
     }
+
+    const execute = () => {
+      if (mode === 'BUY') {
+        const success = executeBuy(
+          selectedSymbol, 
+          qty, 
+          price, 
+          fee, 
+          assetType,
+          contract
+        );
+        if (success) {
+          const trade = usePortfolioStore.getState().trades[0];
+          if (bracket) attachBracket(trade.id, bracket, feeSchedule.id);
+          saveJournal({ trade_id: trade.id });
+          announceFill(
+            trade,
+            `${covers ? 'Covered' : 'Bought'} ${trade.quantity} ${selectedSymbol} at ${formatCurrency(trade.price, { currency: quoteCurrency })}${bracket ? ' with bracket exits' : ''}`
+          );
+          setQuantity('');
+        } else if (!rejectedForMarketHours()) {
+          toast.error('Trade Rejected', 'Not enough buying power for this order');
+        }
+      } else {
+        const success = executeSell(
+          selectedSymbol,
+          qty,
+          price,
+          fee,
+          assetType,
+          contract,
+          lotSelections.length > 0 ? { lot_selections: lotSelections } : undefined
+        );
+        if (success) {
+          const trade = usePortfolioStore.getState().trades[0];
+          saveJournal({ trade_id: trade.id });
+          announceFill(trade, `${sellsShort ? 'Sold short' : 'Sold'} ${trade.quantity} ${selectedSymbol} at ${formatCurrency(trade.price, { currency: quoteCurrency })}`);
+          setQuantity('');
+          setLotDraft({});
+        } else if (!rejectedForMarketHours()) {
+          toast.error('Trade Rejected', 'Not enough equity to carry this short');
+        }
+      }
+    };
+
+    guardTrade(exposureAt(price), price, execute);
   };
 
   return (
@@ -172,6 +492,8 @@ export default function TradingPage() {
         <p className="text-theme-muted">Practice trading with real-time prices</p>
       </div>
 
+      <ReviewPrompt />
+
       <div className="grid lg:grid-cols-2 gap-6">
         {/* Left Column - Trade Form */}
         <div className="space-y-6">
@@ -181,11 +503,74 @@ export default function TradingPage() {
               <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center">
                 <Wallet className="w-5 h-5 text-emerald-400" />
               </div>
-              <span className="text-slate-400">Available Cash</span>
+              <span className="text-slate-400">{isMarginAccount ? 'Buying Power' : 'Available Cash'}</span>
+              <div className="ml-auto flex rounded-lg border border-theme-soft overflow-hidden text-xs">
+                {(['cash', 'margin'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => {
+                      if (!setAccountType(type)) {
+                        toast.warning('Account Not Changed', 'Repay the margin loan and cover shorts before switching to cash');
+                      }
+                    }}
+                    className={`px-3 py-1 font-medium transition-all ${
+                      accountType === type ? 'bg-mild text-theme-main' : 'text-theme-muted hover:text-theme-main'
+                    }`}
+                  >
+                    {type === 'cash' ? 'Cash' : 'Margin'}
+                  </button>
+                ))}
+              </div>
             </div>
-            <p className="text-4xl font-bold text-white">{formatCurrency(cashBalance)}</p>
+            <p className="text-4xl font-bold text-white">
+              {formatCurrency(isMarginAccount ? buyingPower(accountType, cashBalance, positions, 'stocks') : availableCash)}
+            </p>
+            {marginInUse > 0 && (
+              <p className="text-slate-400 text-sm mt-1">{formatCurrency(marginInUse)} held as futures margin</p>
+            )}
+            {isMarginAccount && (
+              <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
+                <span className="text-slate-400">Equity</span>
+                <span className="text-theme-main text-right">{formatCurrency(marginSummary.equity)}</span>
+                <span className="text-slate-400">{cashBalance < 0 ? 'Margin loan' : 'Cash'}</span>
+                <span className="text-theme-main text-right">{formatCurrency(Math.abs(cashBalance))}</span>
+                <span className="text-slate-400">Maintenance requirement</span>
+                <span className="text-theme-main text-right">{formatCurrency(marginSummary.maintenanceRequirement)}</span>
+                {marginSummary.shortValue > 0 && (
+                  <>
+                    <span className="text-slate-400">Sold short</span>
+                    <span className="text-theme-main text-right">{formatCurrency(marginSummary.shortValue)}</span>
+                  </>
+                )}
+                {financingPaid > 0 && (
+                  <>
+                    <span className="text-slate-400">Interest and borrow fees</span>
+                    <span className="text-theme-main text-right">{formatCurrency(financingPaid)}</span>
+                  </>
+                )}
+                <p className="col-span-2 text-slate-500 text-xs mt-1">
+                  Stock buying power at {config.margin.rates.initial.stocks * 100}% initial margin. Borrowed cash accrues{' '}
+                  {config.margin.debitInterestRate * 100}% a year and shorts {config.margin.borrowFeeRate * 100}%.
+                </p>
+              </div>
+            )}
           </div>
 
+          {/* Margin Call */}
+          {marginCall && (
+            <div className="p-5 rounded-xl border border-red-500/50 bg-red-500/10">
+              <div className="flex items-center gap-2 text-red-400 font-semibold mb-1">
+                <AlertCircle className="w-5 h-5" />
+                Margin Call
+              </div>
+              <p className="text-red-400 text-sm">
+                Equity of {formatCurrency(marginCall.equity)} is below the {formatCurrency(marginCall.requirement)} maintenance
+                requirement. Deposit cash or close positions by {new Date(marginCall.deadline).toLocaleTimeString()}, or
+                positions will be liquidated.
+              </p>
+            </div>
+          )}
+
           {/* Asset Selection */}
           <div className="glass-card p-6">
             <label className="text-theme-main font-semibold mb-4 block">Select Asset</label>
@@ -228,14 +613,16 @@ export default function TradingPage() {
                       <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
                         asset.type === 'stocks' ? 'bg-blueSmoke/25' :
                         asset.type === 'forex' ? 'bg-limeSoft/30' :
-                        asset.type === 'commodities' ? 'bg-amber-500/20' : 'bg-antiqueIvory'
+                        asset.type === 'commodities' ? 'bg-amber-500/20' :
+                        asset.type === 'futures' ? 'bg-indigo-500/20' : 'bg-antiqueIvory'
                       }`}>
                         <span className={`text-xs font-bold ${
                           asset.type === 'stocks' ? 'text-blueSmoke' :
                           asset.type === 'forex' ? 'text-limeSoft' :
-                          asset.type === 'commodities' ? 'text-amber-500' : 'text-theme-muted'
+                          asset.type === 'commodities' ? 'text-amber-500' :
+                          asset.type === 'futures' ? 'text-indigo-400' : 'text-theme-muted'
                         }`}>
-                          {asset.symbol.slice(0, 3)}
+                          {asset.symbol.replace('/', '').slice(0, 3)}
                         </span>
                       </div>
                       <div className="text-left">
@@ -265,12 +652,22 @@ export default function TradingPage() {
                 <div>
                   <p className="text-2xl font-bold text-theme-main">{selectedSymbol}</p>
                   <p className="text-slate-400 text-sm">{selectedAsset?.name}</p>
-                  {position && (
+                  {contract && (
+                    <p className="text-slate-400 text-xs mt-1">
+                      {contract.underlying} expiring {contract.expiry} · {contract.multiplier}× multiplier · {formatCurrency(contract.tick_value)} per tick
+                    </p>
+                  )}
+                  {position && (isShortPosition ? (
+                    <div className="flex items-center gap-1 mt-2 text-red-400 text-sm">
+                      <TrendingDown className="w-4 h-4" />
+                      You're short {position.quantity} units
+                    </div>
+                  ) : (
                     <div className="flex items-center gap-1 mt-2 text-emerald-400 text-sm">
                       <TrendingUp className="w-4 h-4" />
                       You own {position.quantity} units
                     </div>
-                  )}
+                  ))}
                 </div>
                 <div className="text-right">
                   {isLoadingPrice ? (
@@ -359,7 +756,7 @@ export default function TradingPage() {
             </div>
 
             {/* Max button for selling */}
-            {mode === 'SELL' && position && (
+            {mode === 'SELL' && hasLong && position && (
               <button
                 onClick={() => setQuantity(position.quantity.toString())}
                 className="w-full mt-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium transition-all"
@@ -367,28 +764,224 @@ export default function TradingPage() {
                 Sell All ({position.quantity})
               </button>
             )}
+            {covers && position && (
+              <button
+                onClick={() => setQuantity(position.quantity.toString())}
+                className="w-full mt-3 py-2 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 text-sm font-medium transition-all"
+              >
+                Cover All ({position.quantity})
+              </button>
+            )}
+          </div>
+
+          {/* Order Type */}
+          <div className="glass-card p-6">
+            <label className="text-theme-main font-semibold mb-4 block">Order Type</label>
+            <div className="grid grid-cols-3 gap-2">
+              {ORDER_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setOrderType(type)}
+                  className={`py-2 rounded-lg border text-sm font-medium transition-all ${
+                    orderType === type
+                      ? 'bg-mild border-blueSmoke text-theme-main'
+                      : 'bg-theme-surface-2 hover:bg-mild border-theme-soft text-theme-muted'
+                  }`}
+                >
+                  {type === 'market' ? 'Market' : getOrderTypeLabel(type)}
+                </button>
+              ))}
+            </div>
+
+            {!isMarket && (
+              <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  {needsStop && (
+                    <label className="text-slate-400 text-sm">
+                      Stop price
+                      <input
+                        type="number"
+                        value={stopPrice}
+                        onChange={(e) => setStopPrice(e.target.value)}
+                        placeholder={price ? price.toString() : ''}
+                        className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20"
+                      />
+                    </label>
+                  )}
+                  {needsTrail && (
+                    <label className="text-slate-400 text-sm">
+                      Trail (%)
+                      <input
+                        type="number"
+                        value={trailPercent}
+                        onChange={(e) => setTrailPercent(e.target.value)}
+                        placeholder="5"
+                        className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20"
+                      />
+                    </label>
+                  )}
+                  {needsLimit && (
+                    <label className="text-slate-400 text-sm">
+                      Limit price
+                      <input
+                        type="number"
+                        value={limitPrice}
+                        onChange={(e) => setLimitPrice(e.target.value)}
+                        placeholder={price ? price.toString() : ''}
+                        className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20"
+                      />
+                    </label>
+                  )}
+                </div>
+                <label className="text-slate-400 text-sm block">
+                  Time in force
+                  <select
+                    value={timeInForce}
+                    onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                    className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main"
+                  >
+                    <option value="day">Day (expires at the end of the trading day)</option>
+                    <option value="gtc">Good till cancelled</option>
+                  </select>
+                </label>
+                <p className="text-slate-500 text-xs">
+                  Checked against prices every 30 seconds. Fees and cash are settled when the order fills.
+                </p>
+              </div>
+            )}
+
+            {mode === 'BUY' && (
+              <div className="mt-4 pt-4 border-t border-theme-soft space-y-3">
+                <label className="flex items-center gap-2 text-theme-main text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={useBracket}
+                    onChange={(e) => setUseBracket(e.target.checked)}
+                  />
+                  Attach stop-loss and take-profit (bracket)
+                </label>
+                {useBracket && (
+                  <>
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="text-slate-400 text-sm">
+                        Stop-loss (% below entry)
+                        <input
+                          type="number"
+                          value={stopLossPercent}
+                          onChange={(e) => setStopLossPercent(e.target.value)}
+                          className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20"
+                        />
+                      </label>
+                      <label className="text-slate-400 text-sm">
+                        Take-profit (% above entry)
+                        <input
+                          type="number"
+                          value={takeProfitPercent}
+                          onChange={(e) => setTakeProfitPercent(e.target.value)}
+                          className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20"
+                        />
+                      </label>
+                    </div>
+                    <label className="flex items-center gap-2 text-slate-400 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={trailingStop}
+                        onChange={(e) => setTrailingStop(e.target.checked)}
+                      />
+                      Trail the stop-loss behind new highs
+                    </label>
+                    <p className="text-slate-500 text-xs">
+                      Both exits are placed when the entry fills. Whichever fills first cancels the other.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            {openLots.length > 1 && (
+              <div className="mt-4 pt-4 border-t border-theme-soft">
+                <p className="text-theme-main text-sm font-medium mb-2">Tax lots</p>
+                <LotPicker lots={openLots} draft={lotDraft} onChange={setLotDraft} currency={quoteCurrency} />
+              </div>
+            )}
+
+            {opensPosition && (
+              <div className="mt-4 pt-4 border-t border-theme-soft space-y-3">
+                <label className="flex items-center gap-2 text-theme-main text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={useJournal}
+                    onChange={(e) => setUseJournal(e.target.checked)}
+                  />
+                  Journal this trade
+                </label>
+                {useJournal && <TradePlanForm draft={planDraft} onChange={setPlanDraft} setups={setups} />}
+              </div>
+            )}
           </div>
 
           {/* Order Summary */}
-          {qty > 0 && price && price > 0 && (
+          {isMarket && qty > 0 && price && price > 0 && (
             <div className="glass-card p-6">
               <p className="text-slate-400 text-sm mb-4">Order Summary</p>
               <div className="space-y-3">
                 <div className="flex justify-between">
-                  <span className="text-slate-400">{qty} × {formatCurrency(price)}</span>
-                  <span className="text-theme-main">{formatCurrency(total)}</span>
+                  <span className="text-slate-400">
+                    {qty} × {formatCurrency(price, { currency: quoteCurrency })}{contract ? ` × ${contract.multiplier}` : ''}
+                  </span>
+                  <span className="text-theme-main">{formatCurrency(total, { currency: quoteCurrency })}</span>
                 </div>
+                {margin > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Initial margin (set aside)</span>
+                    <span className="text-theme-main">{formatCurrency(margin)}</span>
+                  </div>
+                )}
+                {expectedFill && expectedFill.spreadCost > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">
+                      Spread & slippage (fills near {formatCurrency(expectedFill.price, { currency: quoteCurrency })})
+                    </span>
+                    <span className="text-theme-main">{formatCurrency(expectedFill.spreadCost, { currency: quoteCurrency })}</span>
+                  </div>
+                )}
+                {expectedFill?.isPartial && (
+                  <p className="text-amber-400 text-xs">
+                    Only about {expectedFill.quantity} of {qty} can fill at once at this size; the rest will be cancelled
+                  </p>
+                )}
                 <div className="flex justify-between">
-                  <span className="text-slate-400">Fee (0.1%)</span>
-                  <span className="text-theme-main">{formatCurrency(fee)}</span>
+                  <span className="text-slate-400">Fees ({feeSchedule.name})</span>
+                  <span className="text-theme-main">{formatCurrency(fee, { currency: quoteCurrency })}</span>
                 </div>
+                {feeBreakdown && feeBreakdown.total > 0 && (
+                  <div className="text-xs text-slate-500 space-y-0.5 pl-2">
+                    {([
+                      ['Commission', feeBreakdown.commission],
+                      ['Spread', feeBreakdown.spread],
+                      ['Exchange', feeBreakdown.exchange],
+                      ['Regulatory', feeBreakdown.regulatory],
+                    ] as const).filter(([, amount]) => amount > 0).map(([label, amount]) => (
+                      <div key={label} className="flex justify-between">
+                        <span>{label}</span>
+                        <span>{formatCurrency(amount, { currency: quoteCurrency })}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="h-px bg-theme-surface-2 border-t border-theme-soft" />
                 <div className="flex justify-between">
-                  <span className="text-theme-main font-semibold">Total</span>
+                  <span className="text-theme-main font-semibold">{isFutures ? 'Fees due now' : 'Total'}</span>
                   <span className="text-xl font-bold text-theme-main">
-                    {formatCurrency(mode === 'BUY' ? total + fee : total - fee)}
+                    {formatCurrency(isFutures ? fee : mode === 'BUY' ? total + fee : total - fee, { currency: quoteCurrency })}
                   </span>
                 </div>
+                {quoteCurrency !== 'USD' && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-400">Cash {mode === 'BUY' ? 'debited' : 'credited'} at spot</span>
+                    <span className="text-theme-main">{formatCurrency(cashAmount)}</span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -396,9 +989,9 @@ export default function TradingPage() {
           {/* Execute Button */}
           <button
             onClick={handleTrade}
-            disabled={!canTrade || isLoadingPrice || priceError}
+            disabled={!canTrade || (isMarket && (isLoadingPrice || priceError))}
             className={`w-full py-5 rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2 ${
-              canTrade && !isLoadingPrice && !priceError
+              canTrade && (!isMarket || (!isLoadingPrice && !priceError))
                 ? mode === 'BUY'
                   ? 'bg-gradient-to-r from-emerald-500 to-emerald-600 text-white hover:shadow-lg hover:shadow-emerald-500/30'
                   : 'bg-gradient-to-r from-red-500 to-red-600 text-white hover:shadow-lg hover:shadow-red-500/30'
@@ -408,16 +1001,22 @@ export default function TradingPage() {
             <Zap className="w-5 h-5" />
             {!selectedSymbol 
               ? 'Select an Asset' 
-              : isLoadingPrice
+              : isMarket && isLoadingPrice
                 ? 'Fetching Price...'
-                : priceError
+                : isMarket && priceError
                   ? 'Price Unavailable'
                   : qty <= 0 
                     ? 'Enter Quantity' 
-                    : `${mode} ${qty} ${selectedSymbol}`
+                    : isMarket
+                      ? `${covers ? 'COVER' : sellsShort ? 'SELL SHORT' : mode} ${qty} ${selectedSymbol}`
+                      : `Place ${getOrderTypeLabel(orderType)} ${mode} ${qty} ${selectedSymbol}`
             }
           </button>
 
+          <OpenOrders />
+
+          <AccountLedger />
+
           {/* Positions */}
           {positions.length > 0 && (
             <div className="glass-card p-6">
@@ -430,13 +1029,15 @@ export default function TradingPage() {
                       key={p.symbol}
                       onClick={() => {
                         setSelectedSymbol(p.symbol);
-                        setMode('SELL');
+                        setMode(p.side === 'short' ? 'BUY' : 'SELL');
                       }}
                       className="w-full flex items-center justify-between p-3 rounded-xl bg-white/5 hover:bg-white/10 transition-all"
                     >
                       <div className="text-left">
                         <p className="text-theme-main font-medium">{p.symbol}</p>
-                        <p className="text-slate-400 text-xs">{p.quantity} units @ {formatCurrency(p.avg_cost)}</p>
+                        <p className="text-slate-400 text-xs">
+                          {p.side === 'short' ? 'Short ' : ''}{p.quantity} units @ {formatCurrency(p.avg_cost, { currency: p.currency || 'USD' })}
+                        </p>
                       </div>
                       <div className="text-right">
                         <p className="text-theme-main">{formatCurrency(p.current_value)}</p>
@@ -455,6 +1056,17 @@ export default function TradingPage() {
           )}
         </div>
       </div>
+
+      {/* Pre-trade guardrail warning */}
+      {guardrailPrompt && (
+        <GuardrailModal
+          warnings={guardrailPrompt.warnings}
+          orderSummary={`${guardrailPrompt.order.action} ${guardrailPrompt.order.quantity} ${guardrailPrompt.order.symbol}`}
+          enforceCooldown={enforceGuardrailCooldown}
+          onProceed={() => resolveGuardrail('overridden')}
+          onCancel={() => resolveGuardrail('cancelled')}
+        />
+      )}
     </div>
   );
 }
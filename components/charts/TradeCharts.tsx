@@ -3,6 +3,10 @@
 import { useMemo } from 'react';
 import { Trade } from '@/types';
 import { BiasAnalysisResult } from '@/lib/services/biasDetector';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { getTradingDayForAsset, getSessionHour } from '@/lib/utils/timezone';
+import { formatCurrency } from '@/lib/utils/formatters';
 import {
   LineChart,
   Line,
@@ -65,27 +69,28 @@ interface PnLChartProps {
 }
 
 export function CumulativePnLChart({ trades, height = 200 }: PnLChartProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
   const data = useMemo(() => {
-    const sorted = [...trades].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    // Closed round trips, already ordered by exit time
+    const roundTrips = buildRoundTrips(trades);
     
     let cumulative = 0;
-    const fullData = sorted.map((trade, idx) => {
-      cumulative += trade.pnl || 0;
+    const fullData = roundTrips.map((trip, idx) => {
+      cumulative += trip.pnl;
       return {
         index: idx + 1,
-        date: new Date(trade.timestamp).toLocaleDateString(),
+        date: getTradingDayForAsset(trip.exit.timestamp, trip.asset_type, tradingDayBoundaries),
         pnl: cumulative,
-        tradePnl: trade.pnl || 0,
+        tradePnl: trip.pnl,
       };
     });
     
     // Sample for large datasets
     return sampleData(fullData);
-  }, [trades]);
+  }, [trades, tradingDayBoundaries]);
 
-  if (trades.length === 0) return null;
+  if (data.length === 0) return null;
 
   const minPnl = data.reduce((min, d) => d.pnl < min ? d.pnl : min, data[0]?.pnl ?? 0);
   const maxPnl = data.reduce((max, d) => d.pnl > max ? d.pnl : max, data[0]?.pnl ?? 0);
@@ -112,7 +117,7 @@ export function CumulativePnLChart({ trades, height = 200 }: PnLChartProps) {
             stroke={COLORS.text}
             tick={{ fontSize: 10 }}
             domain={[minPnl * 1.1, maxPnl * 1.1]}
-            tickFormatter={(v) => `$${v.toFixed(0)}`}
+            tickFormatter={(v) => formatCurrency(v, { currency: baseCurrency, decimals: 0 })}
           />
           <Tooltip 
             contentStyle={{ 
@@ -121,7 +126,7 @@ export function CumulativePnLChart({ trades, height = 200 }: PnLChartProps) {
               borderRadius: '8px',
             }}
             labelStyle={{ color: COLORS.text }}
-            formatter={(value: number) => [`$${value.toFixed(2)}`, 'Cumulative P&L']}
+            formatter={(value: number) => [formatCurrency(value, { currency: baseCurrency }), 'Cumulative P&L']}
           />
           <Area 
             type="monotone" 
@@ -146,9 +151,10 @@ interface WinLossChartProps {
 
 export function WinLossChart({ trades, height = 200 }: WinLossChartProps) {
   const data = useMemo(() => {
-    const wins = trades.filter(t => (t.pnl || 0) > 0).length;
-    const losses = trades.filter(t => (t.pnl || 0) < 0).length;
-    const breakeven = trades.filter(t => (t.pnl || 0) === 0).length;
+    const roundTrips = buildRoundTrips(trades);
+    const wins = roundTrips.filter(rt => rt.pnl > 0).length;
+    const losses = roundTrips.filter(rt => rt.pnl < 0).length;
+    const breakeven = roundTrips.filter(rt => rt.pnl === 0).length;
     
     return [
       { name: 'Wins', value: wins, color: COLORS.profit },
@@ -157,7 +163,7 @@ export function WinLossChart({ trades, height = 200 }: WinLossChartProps) {
     ].filter(d => d.value > 0);
   }, [trades]);
 
-  if (trades.length === 0) return null;
+  if (data.length === 0) return null;
 
   return (
     <div className="glass-card p-4">
@@ -201,6 +207,8 @@ interface FrequencyChartProps {
 }
 
 export function TradingFrequencyChart({ trades, height = 200 }: FrequencyChartProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
   const data = useMemo(() => {
     const hourCounts: Record<number, { trades: number; pnl: number }> = {};
     
@@ -209,7 +217,9 @@ export function TradingFrequencyChart({ trades, height = 200 }: FrequencyChartPr
     }
     
     trades.forEach(trade => {
-      const hour = new Date(trade.timestamp).getHours();
+      // Hour in the asset's session zone, so the same data plots the same everywhere
+      const boundary = tradingDayBoundaries[trade.asset_type] || tradingDayBoundaries.stocks;
+      const hour = getSessionHour(trade.timestamp, boundary);
       hourCounts[hour].trades++;
       hourCounts[hour].pnl += trade.pnl || 0;
     });
@@ -220,7 +230,7 @@ export function TradingFrequencyChart({ trades, height = 200 }: FrequencyChartPr
       pnl: data.pnl,
       avgPnl: data.trades > 0 ? data.pnl / data.trades : 0,
     }));
-  }, [trades]);
+  }, [trades, tradingDayBoundaries]);
 
   if (trades.length === 0) return null;
 
@@ -247,7 +257,7 @@ export function TradingFrequencyChart({ trades, height = 200 }: FrequencyChartPr
               borderRadius: '8px',
             }}
             formatter={(value: number, name: string) => [
-              name === 'trades' ? value : `$${value.toFixed(2)}`,
+              name === 'trades' ? value : formatCurrency(value, { currency: baseCurrency }),
               name === 'trades' ? 'Trades' : 'Avg P&L'
             ]}
           />
@@ -335,6 +345,7 @@ interface TradeSizeChartProps {
 }
 
 export function TradeSizeChart({ trades, height = 200 }: TradeSizeChartProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
   const data = useMemo(() => {
     const sorted = [...trades].sort((a, b) => 
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
@@ -365,7 +376,7 @@ export function TradeSizeChart({ trades, height = 200 }: TradeSizeChartProps) {
           <YAxis 
             stroke={COLORS.text}
             tick={{ fontSize: 10 }}
-            tickFormatter={(v) => `$${(v/1000).toFixed(0)}k`}
+            tickFormatter={(v) => `${formatCurrency(v / 1000, { currency: baseCurrency, decimals: 0 })}k`}
           />
           <Tooltip 
             contentStyle={{ 
@@ -373,7 +384,7 @@ export function TradeSizeChart({ trades, height = 200 }: TradeSizeChartProps) {
               border: '1px solid #475569',
               borderRadius: '8px',
             }}
-            formatter={(value: number) => [`$${value.toFixed(2)}`, 'Position Size']}
+            formatter={(value: number) => [formatCurrency(value, { currency: baseCurrency }), 'Position Size']}
           />
           <Bar 
             dataKey="size" 
@@ -402,16 +413,17 @@ interface AssetPnLChartProps {
 }
 
 export function AssetPnLChart({ trades, height = 200 }: AssetPnLChartProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
   const data = useMemo(() => {
     const assetPnL: Record<string, { pnl: number; trades: number }> = {};
     
-    trades.forEach(trade => {
-      if (!trade.symbol) return;
-      if (!assetPnL[trade.symbol]) {
-        assetPnL[trade.symbol] = { pnl: 0, trades: 0 };
+    buildRoundTrips(trades).forEach(trip => {
+      if (!trip.symbol) return;
+      if (!assetPnL[trip.symbol]) {
+        assetPnL[trip.symbol] = { pnl: 0, trades: 0 };
       }
-      assetPnL[trade.symbol].pnl += trade.pnl || 0;
-      assetPnL[trade.symbol].trades++;
+      assetPnL[trip.symbol].pnl += trip.pnl;
+      assetPnL[trip.symbol].trades++;
     });
     
     return Object.entries(assetPnL)
@@ -436,7 +448,7 @@ export function AssetPnLChart({ trades, height = 200 }: AssetPnLChartProps) {
             type="number"
             stroke={COLORS.text}
             tick={{ fontSize: 10 }}
-            tickFormatter={(v) => `$${v.toFixed(0)}`}
+            tickFormatter={(v) => formatCurrency(v, { currency: baseCurrency, decimals: 0 })}
           />
           <YAxis 
             type="category"
@@ -452,7 +464,7 @@ export function AssetPnLChart({ trades, height = 200 }: AssetPnLChartProps) {
               borderRadius: '8px',
             }}
             formatter={(value: number, name: string) => [
-              `$${value.toFixed(2)}`,
+              formatCurrency(value, { currency: baseCurrency }),
               name === 'pnl' ? 'P&L' : 'Trades'
             ]}
           />
@@ -483,15 +495,13 @@ interface DrawdownChartProps {
 
 export function DrawdownChart({ trades, height = 200 }: DrawdownChartProps) {
   const data = useMemo(() => {
-    const sorted = [...trades].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const roundTrips = buildRoundTrips(trades);
     
     let cumulative = 0;
     let peak = 0;
     
-    const fullData = sorted.map((trade, idx) => {
-      cumulative += trade.pnl || 0;
+    const fullData = roundTrips.map((trip, idx) => {
+      cumulative += trip.pnl;
       peak = Math.max(peak, cumulative);
       const drawdown = peak > 0 ? ((cumulative - peak) / peak) * 100 : 0;
       
@@ -505,7 +515,7 @@ export function DrawdownChart({ trades, height = 200 }: DrawdownChartProps) {
     return sampleData(fullData);
   }, [trades]);
 
-  if (trades.length === 0) return null;
+  if (data.length === 0) return null;
 
   const maxDrawdown = data.reduce((min, d) => d.drawdown < min ? d.drawdown : min, data[0]?.drawdown ?? 0);
 
@@ -563,30 +573,29 @@ interface StreakChartProps {
 }
 
 export function StreakChart({ trades, height = 150 }: StreakChartProps) {
+  const baseCurrency = useSettingsStore((state) => state.baseCurrency);
   const data = useMemo(() => {
-    const sorted = [...trades].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const roundTrips = buildRoundTrips(trades);
     
     const streaks: { type: 'win' | 'loss'; length: number; pnl: number }[] = [];
     let currentType: 'win' | 'loss' | null = null;
     let currentLength = 0;
     let currentPnl = 0;
     
-    sorted.forEach(trade => {
-      const isWin = (trade.pnl || 0) > 0;
+    roundTrips.forEach(trip => {
+      const isWin = trip.pnl > 0;
       const type = isWin ? 'win' : 'loss';
       
       if (type === currentType) {
         currentLength++;
-        currentPnl += trade.pnl || 0;
+        currentPnl += trip.pnl;
       } else {
         if (currentType !== null) {
           streaks.push({ type: currentType, length: currentLength, pnl: currentPnl });
         }
         currentType = type;
         currentLength = 1;
-        currentPnl = trade.pnl || 0;
+        currentPnl = trip.pnl;
       }
     });
     
@@ -620,7 +629,7 @@ export function StreakChart({ trades, height = 150 }: StreakChartProps) {
               borderRadius: '8px',
             }}
             formatter={(value: number, name: string) => [
-              name === 'length' ? `${value} trades` : `$${value.toFixed(2)}`,
+              name === 'length' ? `${value} trades` : formatCurrency(value, { currency: baseCurrency }),
               name === 'length' ? 'Streak Length' : 'P&L'
             ]}
           />
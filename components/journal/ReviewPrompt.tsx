@@ -0,0 +1,122 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { attachRoundTrips, createReview, pendingReviews } from '@/lib/services/tradeJournal';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { mistakeCategories, getAllMistakeCategories } from '@/constants/journal';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { toast } from '@/components/shared/Toast';
+import { MistakeCategory } from '@/types';
+import { NotebookPen } from 'lucide-react';
+
+// Asks about the oldest closed trade whose plan hasn't been reviewed yet
+export default function ReviewPrompt() {
+  const { journal, trades, reviewJournalEntry } = usePortfolioStore();
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [followedPlan, setFollowedPlan] = useState<boolean | null>(null);
+  const [mistake, setMistake] = useState<MistakeCategory>('none');
+  const [lesson, setLesson] = useState('');
+
+  const pending = useMemo(
+    () => pendingReviews(attachRoundTrips(journal, buildRoundTrips(trades))).filter(j => !skipped.includes(j.entry.id)),
+    [journal, trades, skipped]
+  );
+
+  if (pending.length === 0) return null;
+  const { entry, pnl } = pending[0];
+
+  const reset = () => {
+    setFollowedPlan(null);
+    setMistake('none');
+    setLesson('');
+  };
+
+  const handleSave = () => {
+    if (followedPlan === null) {
+      toast.warning('Review Not Saved', 'Say whether you followed your plan');
+      return;
+    }
+    reviewJournalEntry(entry.id, createReview({ followed_plan: followedPlan, mistake, lesson }));
+    toast.success('Review Saved', `${entry.symbol} ${entry.setup}`);
+    reset();
+  };
+
+  const handleSkip = () => {
+    setSkipped([...skipped, entry.id]);
+    reset();
+  };
+
+  return (
+    <div className="glass-card p-6 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <NotebookPen className="w-5 h-5 text-theme-accent" />
+          <h3 className="text-theme-main font-semibold">Review your {entry.symbol} trade</h3>
+        </div>
+        {pending.length > 1 && <span className="text-slate-400 text-xs">{pending.length - 1} more waiting</span>}
+      </div>
+      <div className="p-3 rounded-xl bg-white/5 mb-4 text-sm">
+        <p className="text-theme-main">
+          <span className="text-slate-400">[{entry.setup}]</span> {entry.thesis}
+        </p>
+        {pnl !== null && (
+          <p className={`mt-1 ${pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            Closed for {pnl >= 0 ? 'a gain' : 'a loss'} of {formatCurrency(Math.abs(pnl))}
+          </p>
+        )}
+      </div>
+
+      <p className="text-slate-400 text-sm mb-2">Did you follow your plan?</p>
+      <div className="flex gap-2 mb-3">
+        {([true, false] as const).map(value => (
+          <button
+            key={String(value)}
+            onClick={() => setFollowedPlan(value)}
+            className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+              followedPlan === value ? 'bg-blueSmoke text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'
+            }`}
+          >
+            {value ? 'Yes' : 'No'}
+          </button>
+        ))}
+      </div>
+      <label className="text-slate-400 text-sm block mb-3">
+        Biggest mistake
+        <select
+          value={mistake}
+          onChange={(e) => setMistake(e.target.value as MistakeCategory)}
+          className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main"
+        >
+          {getAllMistakeCategories().map(category => (
+            <option key={category} value={category}>{mistakeCategories[category]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-slate-400 text-sm block mb-4">
+        Lesson
+        <input
+          type="text"
+          value={lesson}
+          onChange={(e) => setLesson(e.target.value)}
+          placeholder="Optional"
+          className="w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke"
+        />
+      </label>
+      <div className="flex gap-3">
+        <button
+          onClick={handleSkip}
+          className="flex-1 py-3 rounded-xl bg-white/10 text-theme-main font-medium hover:bg-white/20 transition-all"
+        >
+          Later
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-1 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-500 text-white font-medium hover:shadow-lg hover:shadow-emerald-500/25 transition-all"
+        >
+          Save review
+        </button>
+      </div>
+    </div>
+  );
+}
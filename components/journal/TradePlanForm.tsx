@@ -0,0 +1,132 @@
+'use client';
+
+import { JournalEmotion, TradePlan } from '@/types';
+import { journalEmotions, getAllEmotions } from '@/constants/journal';
+
+// The form's fields as typed, before they're parsed into a plan
+export interface PlanDraft {
+  setup: string;
+  thesis: string;
+  plannedStop: string;
+  plannedTarget: string;
+  confidence: TradePlan['confidence'];
+  emotion: JournalEmotion;
+}
+
+export const emptyPlanDraft: PlanDraft = {
+  setup: '',
+  thesis: '',
+  plannedStop: '',
+  plannedTarget: '',
+  confidence: 3,
+  emotion: 'calm',
+};
+
+export function planFromDraft(draft: PlanDraft): TradePlan {
+  return {
+    setup: draft.setup,
+    thesis: draft.thesis,
+    ...(draft.plannedStop ? { planned_stop: parseFloat(draft.plannedStop) } : {}),
+    ...(draft.plannedTarget ? { planned_target: parseFloat(draft.plannedTarget) } : {}),
+    confidence: draft.confidence,
+    emotion: draft.emotion,
+  };
+}
+
+interface TradePlanFormProps {
+  draft: PlanDraft;
+  onChange: (draft: PlanDraft) => void;
+  setups: string[]; // Earlier setup tags to suggest
+}
+
+const CONFIDENCE_LEVELS: TradePlan['confidence'][] = [1, 2, 3, 4, 5];
+
+export default function TradePlanForm({ draft, onChange, setups }: TradePlanFormProps) {
+  const update = (changes: Partial<PlanDraft>) => onChange({ ...draft, ...changes });
+  const inputClass = 'w-full mt-1 p-3 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main focus:border-blueSmoke focus:ring-2 focus:ring-blueSmoke/20';
+
+  return (
+    <div className="space-y-3">
+      <label className="text-slate-400 text-sm block">
+        Setup or strategy
+        <input
+          type="text"
+          list="journal-setups"
+          value={draft.setup}
+          onChange={(e) => update({ setup: e.target.value })}
+          placeholder="e.g. Breakout, Earnings drift"
+          className={inputClass}
+        />
+        <datalist id="journal-setups">
+          {setups.map(setup => <option key={setup} value={setup} />)}
+        </datalist>
+      </label>
+      <label className="text-slate-400 text-sm block">
+        Thesis
+        <textarea
+          value={draft.thesis}
+          onChange={(e) => update({ thesis: e.target.value })}
+          placeholder="Why this trade, and what would prove you wrong?"
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-slate-400 text-sm">
+          Planned stop
+          <input
+            type="number"
+            value={draft.plannedStop}
+            onChange={(e) => update({ plannedStop: e.target.value })}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-slate-400 text-sm">
+          Planned target
+          <input
+            type="number"
+            value={draft.plannedTarget}
+            onChange={(e) => update({ plannedTarget: e.target.value })}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div>
+        <p className="text-slate-400 text-sm mb-1">Confidence</p>
+        <div className="flex gap-2">
+          {CONFIDENCE_LEVELS.map(level => (
+            <button
+              key={level}
+              type="button"
+              onClick={() => update({ confidence: level })}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                draft.confidence === level ? 'bg-blueSmoke text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-slate-400 text-sm mb-1">How are you feeling?</p>
+        <div className="flex flex-wrap gap-2">
+          {getAllEmotions().map(emotion => (
+            <button
+              key={emotion}
+              type="button"
+              onClick={() => update({ emotion })}
+              className={`px-3 py-1.5 rounded-full text-sm transition-all ${
+                draft.emotion === emotion ? 'bg-blueSmoke text-white' : 'bg-white/5 text-slate-400 hover:bg-white/10'
+              }`}
+            >
+              {journalEmotions[emotion].icon} {journalEmotions[emotion].label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,12 +9,15 @@ import {
   MessageCircle, 
   Settings,
   Sprout,
+  NotebookPen,
   Zap
 } from 'lucide-react';
+import SessionPicker from '@/components/layout/SessionPicker';
 
 const navItems = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/insights', label: 'Insights', icon: Brain },
+  { href: '/journal', label: 'Journal', icon: NotebookPen },
   { href: '/trading', label: 'Trade', icon: TrendingUp, isMain: true },
   { href: '/coach', label: 'Coach', icon: MessageCircle },
   { href: '/growth', label: 'Growth', icon: Sprout },
@@ -44,6 +47,9 @@ export default function Navbar() {
           </div>
         </div>
 
+        {/* Active trading session */}
+        <SessionPicker />
+
         {/* Nav Items */}
         <nav className="flex-1 space-y-2">
           {navItems.map((item) => {
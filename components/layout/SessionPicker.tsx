@@ -0,0 +1,51 @@
+'use client';
+
+import Link from 'next/link';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { toast } from '@/components/shared/Toast';
+import { Layers, Settings2 } from 'lucide-react';
+
+export default function SessionPicker() {
+  const { sessions, currentSessionId, switchSession } = usePortfolioStore();
+  const openSessions = sessions.filter(s => s.status !== 'archived');
+
+  const handleSwitch = (sessionId: string) => {
+    if (!switchSession(sessionId)) {
+      toast.error('Session Unavailable', 'That session was archived');
+      return;
+    }
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) toast.info('Session Switched', session.name);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label htmlFor="session-picker" className="flex items-center gap-2 text-xs text-theme-muted font-medium">
+          <Layers className="w-3.5 h-3.5" />
+          Session
+        </label>
+        <Link
+          href="/sessions"
+          className="flex items-center gap-1 text-xs text-theme-muted hover:text-blueSmoke transition-colors"
+          title="Manage and compare sessions"
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+          Manage
+        </Link>
+      </div>
+      <select
+        id="session-picker"
+        value={currentSessionId}
+        onChange={(e) => handleSwitch(e.target.value)}
+        className="w-full p-2.5 bg-theme-surface-2 border border-theme-soft rounded-xl text-theme-main text-sm focus:border-blueSmoke"
+      >
+        {openSessions.map(session => (
+          <option key={session.id} value={session.id}>
+            {session.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { PerformanceMetrics } from '@/lib/services/performanceAnalytics';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { config } from '@/constants/config';
+
+interface PerformanceSummaryProps {
+  performance: PerformanceMetrics;
+  baseCurrency: string; // Expectancy is in the trades' base currency
+  compact?: boolean; // Headline numbers only, for the dashboard
+}
+
+interface Metric {
+  label: string;
+  value: string;
+  tone?: 'positive' | 'negative';
+  hint?: string;
+}
+
+const NOT_YET = '—';
+
+function percent(value: number | null, signed: boolean = true): string {
+  if (value === null) return NOT_YET;
+  return `${signed && value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+function ratio(value: number | null): string {
+  return value === null ? NOT_YET : value.toFixed(2);
+}
+
+function tone(value: number | null, breakEven: number = 0): Metric['tone'] {
+  if (value === null) return undefined;
+  return value >= breakEven ? 'positive' : 'negative';
+}
+
+// Returns from the equity history with deposits taken out, and what each
+// closed trade earned
+export default function PerformanceSummary({ performance, baseCurrency, compact = false }: PerformanceSummaryProps) {
+  const { returns, trades } = performance;
+  const drawdown: Metric = {
+    label: 'Max drawdown',
+    value: returns.maxDrawdown > 0 ? `-${(returns.maxDrawdown * 100).toFixed(1)}%` : NOT_YET,
+    tone: returns.maxDrawdown > 0 ? 'negative' : undefined,
+    hint: returns.maxDrawdown > 0
+      ? returns.recoveryDays !== null ? `Recovered in ${returns.recoveryDays.toFixed(1)} days` : 'Not recovered yet'
+      : undefined,
+  };
+
+  const headline: Metric[] = [
+    { label: 'Time-weighted return', value: percent(returns.timeWeightedReturn), tone: tone(returns.timeWeightedReturn) },
+    { label: 'Sharpe ratio', value: ratio(returns.sharpeRatio), tone: tone(returns.sharpeRatio) },
+    drawdown,
+    { label: 'Profit factor', value: ratio(trades.profitFactor), tone: tone(trades.profitFactor, 1) },
+  ];
+  const metrics: Metric[] = compact ? headline : [
+    headline[0],
+    {
+      label: 'Money-weighted return',
+      value: percent(returns.moneyWeightedReturn),
+      tone: tone(returns.moneyWeightedReturn),
+      hint: returns.netFlows !== 0 ? 'Weighs deposits by time invested' : undefined,
+    },
+    { label: 'Annualized return', value: percent(returns.annualizedReturn), tone: tone(returns.annualizedReturn) },
+    { label: 'Volatility', value: percent(returns.volatility, false), hint: 'Annualized' },
+    headline[1],
+    { label: 'Sortino ratio', value: ratio(returns.sortinoRatio), tone: tone(returns.sortinoRatio) },
+    { label: 'Calmar ratio', value: ratio(returns.calmarRatio), tone: tone(returns.calmarRatio) },
+    drawdown,
+    headline[3],
+    {
+      label: 'Expectancy',
+      value: trades.expectancy === null ? NOT_YET : formatCurrency(trades.expectancy, { currency: baseCurrency }),
+      tone: tone(trades.expectancy),
+      hint: 'Per round trip',
+    },
+    {
+      label: 'Average R-multiple',
+      value: trades.averageR === null ? NOT_YET : `${trades.averageR.toFixed(2)}R`,
+      tone: tone(trades.averageR),
+      hint: trades.rTrades > 0 ? `${trades.rTrades} trades with a planned stop` : 'Needs journaled stops',
+    },
+    {
+      label: 'Win rate',
+      value: percent(trades.winRate, false),
+      hint: `${trades.closedTrades} closed round trips${trades.breakevenTrades > 0 ? `, ${trades.breakevenTrades} breakeven` : ''}`,
+    },
+  ];
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {metrics.map(metric => (
+          <div key={metric.label} className="p-3 rounded-xl bg-white/5">
+            <p className={`text-lg font-bold ${
+              metric.tone === 'positive' ? 'text-emerald-400' : metric.tone === 'negative' ? 'text-red-400' : 'text-theme-main'
+            }`}>
+              {metric.value}
+            </p>
+            <p className="text-slate-400 text-xs">{metric.label}</p>
+            {!compact && metric.hint && <p className="text-slate-500 text-xs mt-1">{metric.hint}</p>}
+          </div>
+        ))}
+      </div>
+      {returns.annualizedReturn === null && (
+        <p className="text-slate-400 text-xs mt-3">
+          Annualized figures and ratios need {config.performance.minHistoryDays} days of equity history.
+        </p>
+      )}
+    </div>
+  );
+}
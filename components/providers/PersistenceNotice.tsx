@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { toast } from '@/components/shared/Toast';
+
+/**
+ * Tells the user once when their saved portfolio couldn't be fully loaded
+ * - Damaged entries skipped, or the whole portfolio started over
+ * - Names the storage key the original data was copied to
+ * - No UI of its own
+ */
+export function PersistenceNotice() {
+  const { persistenceIssue, clearPersistenceIssue } = usePortfolioStore();
+
+  useEffect(() => {
+    if (!persistenceIssue) return;
+    const backup = persistenceIssue.backupKey
+      ? `. The original was kept as "${persistenceIssue.backupKey}".`
+      : '.';
+    toast.warning('Portfolio Recovered', `${persistenceIssue.message}${backup}`);
+    clearPersistenceIssue();
+  }, [persistenceIssue, clearPersistenceIssue]);
+
+  return null;
+}
+
+export default PersistenceNotice;
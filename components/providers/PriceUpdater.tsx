@@ -4,23 +4,27 @@ import { useEffect, useRef } from 'react';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
 
 /**
- * Background component that updates position prices
+ * Background component that updates position prices and works open orders
  * - Waits 3 seconds after mount before first fetch (non-blocking)
- * - Only fetches if there are positions to update
+ * - Only fetches if there are positions or open orders to update
  * - Updates every 30 seconds
  * - Completely silent - no UI, no errors shown
  */
 export function PriceUpdater() {
-  const { positions, updatePrices } = usePortfolioStore();
+  const { positions, orders, updatePrices } = usePortfolioStore();
   const isMounted = useRef(true);
+  const openOrderCount = orders.filter(o => o.status === 'open').length;
 
   useEffect(() => {
     isMounted.current = true;
     
-    // Don't do anything if no positions
-    if (positions.length === 0) return;
+    const symbols = Array.from(new Set([
+      ...positions.map(p => p.symbol),
+      ...orders.filter(o => o.status === 'open').map(o => o.symbol),
+    ]));
 
-    const symbols = positions.map(p => p.symbol);
+    // Don't do anything if nothing needs a price
+    if (symbols.length === 0) return;
 
     const fetchAndUpdate = async () => {
       if (!isMounted.current) return;
@@ -59,7 +63,7 @@ export function PriceUpdater() {
       clearTimeout(initialDelay);
       clearInterval(interval);
     };
-  }, [positions.length]); // Only re-run when position count changes
+  }, [positions.length, openOrderCount]); // Only re-run when position or open order count changes
 
   return null;
 }
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LedgerEvent, OrderCancelledEvent, PendingOrder } from '@/types';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { replayLedger, undoableFill, undoDeadline, undoneFillIds } from '@/lib/services/portfolioLedger';
+import { describeOrder } from '@/lib/services/orderBook';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { toast } from '@/components/shared/Toast';
+import { History, Undo2 } from 'lucide-react';
+
+const RECENT_EVENTS = 8;
+const CLOCK_TICK_MS = 15_000;
+
+const ENDED_LABELS: Record<OrderCancelledEvent['status'], string> = {
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  rejected: 'Rejected',
+};
+
+const CASH_LABELS: Record<string, string> = {
+  deposit: 'Deposit',
+  growth_income: 'Growth income',
+  margin_interest: 'Margin interest',
+  borrow_fee: 'Borrow fee',
+};
+
+// An order's terms as of an event, with the changes logged up to it
+function orderAsOf(orderId: string, ledger: LedgerEvent[], through: LedgerEvent): PendingOrder | undefined {
+  let order: PendingOrder | undefined;
+  for (const event of ledger) {
+    if (event.type === 'order_placed' && event.order.id === orderId) order = event.order;
+    if (event.type === 'order_modified' && event.order_id === orderId && order) order = { ...order, ...event.changes };
+    if (event === through) break;
+  }
+  return order;
+}
+
+function describeEvent(event: LedgerEvent, ledger: LedgerEvent[]): string {
+  switch (event.type) {
+    case 'opening_balance':
+      return `Opened with ${formatCurrency(event.cash)}${event.positions.length > 0 ? ` and ${event.positions.length} positions` : ''}`;
+    case 'order_placed':
+      return `Placed ${describeOrder(event.order)}`;
+    case 'order_modified': {
+      const order = orderAsOf(event.order_id, ledger, event);
+      return order ? `Changed order to ${describeOrder(order)}` : 'Changed an order';
+    }
+    case 'order_cancelled': {
+      const order = orderAsOf(event.order_id, ledger, event);
+      return `${ENDED_LABELS[event.status]} ${order ? describeOrder(order) : 'an order'}${event.reason ? `: ${event.reason}` : ''}`;
+    }
+    case 'fill':
+      return `${event.trade.action} ${event.trade.quantity} ${event.trade.symbol} at ${formatCurrency(event.trade.price, { currency: event.trade.currency || 'USD' })}`;
+    case 'cash':
+      return `${CASH_LABELS[event.source ?? event.deposit.kind ?? 'deposit']} ${event.deposit.amount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(event.deposit.amount))}`;
+    case 'mark':
+      return `Marked ${event.marks.map(m => m.symbol).join(', ')} to market`;
+    case 'reset':
+      return `Reset to ${formatCurrency(event.starting_cash)}`;
+    case 'undo': {
+      const target = ledger.find(e => e.id === event.target_event_id);
+      return target ? `Undid ${describeEvent(target, ledger)}` : 'Undid a fill';
+    }
+  }
+}
+
+// datetime-local wants local wall time without a zone
+function toLocalInput(date: Date): string {
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+// The account's event ledger: undo for the latest market fill, recent events,
+// and the account replayed as it stood at a chosen moment
+export default function AccountLedger() {
+  const { ledger, undoLastTrade } = usePortfolioStore();
+  const [now, setNow] = useState(() => new Date());
+  const [pointInTime, setPointInTime] = useState('');
+
+  // The undo window closes on its own
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const undoable = undoableFill(ledger, now);
+  const undone = useMemo(() => undoneFillIds(ledger), [ledger]);
+  // Marks only feed the equity curve; the list is for what the trader did
+  const recent = useMemo(() => ledger.filter(e => e.type !== 'mark').slice(-RECENT_EVENTS).reverse(), [ledger]);
+  const reconstruction = useMemo(
+    () => (pointInTime ? replayLedger(ledger, new Date(pointInTime)) : undefined),
+    [ledger, pointInTime]
+  );
+
+  const handleUndo = () => {
+    const trade = undoLastTrade();
+    if (trade) {
+      toast.info('Trade Undone', `${trade.action} ${trade.quantity} ${trade.symbol} was taken back. It stays in the ledger, flagged.`);
+    } else {
+      toast.error('Nothing to Undo', 'Only the latest market fill can be undone, shortly after it happens');
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-theme-accent" />
+        <h3 className="text-theme-main font-semibold">Ledger</h3>
+        <span className="text-slate-400 text-sm">({ledger.length} events)</span>
+      </div>
+
+      {undoable && (
+        <div className="flex items-center justify-between gap-3 p-3 mb-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <div className="text-sm">
+            <p className="text-theme-main">{describeEvent(undoable, ledger)}</p>
+            <p className="text-slate-400 text-xs">
+              Undo available until {undoDeadline(undoable).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          </div>
+          <button
+            onClick={handleUndo}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 text-sm font-medium transition-all"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1 mb-4">
+        {recent.map(event => (
+          <div key={event.id} className="flex justify-between gap-3 text-xs">
+            <span>
+              <span className={undone.has(event.id) ? 'text-slate-500 line-through' : 'text-slate-300'}>{describeEvent(event, ledger)}</span>
+              {undone.has(event.id) && <span className="ml-2 text-amber-400">Undone</span>}
+            </span>
+            <span className="text-slate-500 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-4 border-t border-theme-soft">
+        <label className="text-slate-400 text-sm block mb-2">
+          Portfolio as of
+          <input
+            type="datetime-local"
+            value={pointInTime}
+            max={toLocalInput(now)}
+            onChange={(e) => setPointInTime(e.target.value)}
+            className="w-full mt-1 p-2 bg-theme-surface-2 border border-theme-soft rounded-lg text-theme-main text-sm focus:border-blueSmoke"
+          />
+        </label>
+        {reconstruction === null && (
+          <p className="text-slate-400 text-xs">The ledger doesn&apos;t go back that far</p>
+        )}
+        {reconstruction && (
+          <div className="text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Cash</span>
+              <span className="text-theme-main">{formatCurrency(reconstruction.cashBalance)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Equity at last fills</span>
+              <span className="text-theme-main">{formatCurrency(reconstruction.equity)}</span>
+            </div>
+            {reconstruction.positions.map(p => (
+              <div key={p.symbol} className="flex justify-between text-xs">
+                <span className="text-slate-400">
+                  {p.side === 'short' ? 'Short ' : ''}{p.quantity} {p.symbol} @ {formatCurrency(p.avg_cost, { currency: p.currency || 'USD' })}
+                </span>
+                <span className="text-theme-main">{formatCurrency(p.current_value)}</span>
+              </div>
+            ))}
+            {reconstruction.positions.length === 0 && <p className="text-slate-400 text-xs">No open positions</p>}
+            {reconstruction.orders.map(o => (
+              <div key={o.id} className="flex justify-between text-xs">
+                <span className="text-slate-400">Working</span>
+                <span className="text-theme-main">{describeOrder(o)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ColumnMapping, TradeField, TradeSide } from '@/types';
+import { tokenizeCSV } from '@/lib/utils/csvTokenizer';
+import { TRADE_FIELDS, getMissingFields, suggestColumnMapping } from '@/lib/utils/tradeParser';
+import { useImportProfileStore } from '@/lib/stores/importProfileStore';
+import { Columns, Save, Trash2, X, AlertCircle } from 'lucide-react';
+
+interface ColumnMappingWizardProps {
+  content: string;
+  initialMapping?: ColumnMapping;
+  onApply: (mapping: ColumnMapping, headers: string[], profileName?: string) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<TradeField, string> = {
+  timestamp: 'Timestamp',
+  asset: 'Asset / Symbol',
+  side: 'Side (Buy/Sell)',
+  quantity: 'Quantity',
+  entry_price: 'Entry Price',
+  exit_price: 'Exit Price',
+  profit_loss: 'Profit / Loss',
+  fees: 'Fees / Commission',
+  currency: 'Currency',
+  balance: 'Balance',
+};
+
+const PREVIEW_ROWS = 5;
+const MAX_SIDE_VALUES = 12;
+
+export default function ColumnMappingWizard({ content, initialMapping, onApply, onCancel }: ColumnMappingWizardProps) {
+  const { profiles, deleteProfile } = useImportProfileStore();
+  const table = useMemo(() => tokenizeCSV(content), [content]);
+  const headers = table.headers;
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() => initialMapping || suggestColumnMapping(headers));
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+
+  const missing = getMissingFields(mapping);
+
+  // Field currently assigned to each source column
+  const fieldForHeader = (header: string): TradeField | '' => {
+    const entry = Object.entries(mapping.columns).find(([, h]) => h === header);
+    return entry ? (entry[0] as TradeField) : '';
+  };
+
+  const assignColumn = (header: string, field: TradeField | '') => {
+    setMapping(prev => {
+      const columns = { ...prev.columns };
+      // A column maps to at most one field and a field to one column
+      (Object.keys(columns) as TradeField[]).forEach(key => {
+        if (columns[key] === header) delete columns[key];
+      });
+      if (field) columns[field] = header;
+      return { ...prev, columns };
+    });
+  };
+
+  // Distinct raw values in the side column, for the value transform table
+  const sideValues = useMemo(() => {
+    const idx = mapping.columns.side ? headers.indexOf(mapping.columns.side) : -1;
+    if (idx === -1) return [];
+    const values = new Set<string>();
+    for (const record of table.records) {
+      const value = (record.cells[idx] || '').trim().toUpperCase();
+      if (value) values.add(value);
+      if (values.size >= MAX_SIDE_VALUES) break;
+    }
+    return Array.from(values);
+  }, [mapping.columns.side, headers, table.records]);
+
+  const setSideValue = (raw: string, side: TradeSide | '') => {
+    setMapping(prev => {
+      const values = { ...prev.sideValues };
+      if (side) values[raw] = side;
+      else delete values[raw];
+      return { ...prev, sideValues: values };
+    });
+  };
+
+  const handleApply = () => {
+    if (missing.length > 0) return;
+    onApply(mapping, headers, saveProfile ? profileName : undefined);
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-4 border border-indigo-500/30">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Columns className="w-5 h-5 text-indigo-400" />
+          <h4 className="text-white font-semibold">Map Columns</h4>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-slate-400 hover:text-white transition-colors p-1"
+          title="Cancel mapping"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-slate-400 text-sm">
+        Assign each column in your file to a trade field. Unassigned columns are ignored.
+      </p>
+
+      {/* Preview with per-column field selectors */}
+      <div className="overflow-x-auto rounded-lg border border-white/10">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-white/5">
+              {headers.map((header, idx) => (
+                <th key={`${header}-${idx}`} className="p-2 text-left align-top min-w-[120px]">
+                  <select
+                    value={fieldForHeader(header)}
+                    onChange={(e) => assignColumn(header, e.target.value as TradeField | '')}
+                    className="w-full bg-white/5 border border-white/10 rounded px-1 py-1 text-white mb-1"
+                  >
+                    <option value="" className="bg-slate-900">— ignore —</option>
+                    {TRADE_FIELDS.map(field => (
+                      <option key={field} value={field} className="bg-slate-900">
+                        {FIELD_LABELS[field]}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-slate-300 font-medium block truncate">{header || `Column ${idx + 1}`}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.records.slice(0, PREVIEW_ROWS).map(record => (
+              <tr key={record.line} className="border-t border-white/5">
+                {headers.map((_, idx) => (
+                  <td key={idx} className="p-2 text-slate-400 truncate max-w-[160px]">
+                    {record.cells[idx] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Side transform */}
+      <div className="space-y-2">
+        <p className="text-white text-sm font-medium">Trade side</p>
+        <div className="flex flex-wrap gap-4 text-sm">
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="radio"
+              checked={mapping.sideSource === 'column'}
+              onChange={() => setMapping(prev => ({ ...prev, sideSource: 'column' }))}
+            />
+            From the side column
+          </label>
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="radio"
+              checked={mapping.sideSource === 'quantity_sign'}
+              onChange={() => setMapping(prev => ({ ...prev, sideSource: 'quantity_sign' }))}
+            />
+            From quantity sign (negative = SELL)
+          </label>
+        </div>
+
+        {mapping.sideSource === 'column' && sideValues.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {sideValues.map(raw => (
+              <div key={raw} className="flex items-center gap-2 bg-white/5 rounded-lg px-2 py-1">
+                <span className="text-slate-300 text-xs truncate flex-1">&quot;{raw}&quot; →</span>
+                <select
+                  value={mapping.sideValues[raw] || ''}
+                  onChange={(e) => setSideValue(raw, e.target.value as TradeSide | '')}
+                  className="bg-transparent border border-white/10 rounded px-1 text-xs text-white"
+                >
+                  <option value="" className="bg-slate-900">as is</option>
+                  <option value="BUY" className="bg-slate-900">BUY</option>
+                  <option value="SELL" className="bg-slate-900">SELL</option>
+                  <option value="SHORT" className="bg-slate-900">SHORT (open short)</option>
+                  <option value="COVER" className="bg-slate-900">COVER (close short)</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {missing.length > 0 && (
+        <div className="flex items-center gap-2 text-amber-300 text-xs bg-amber-500/10 rounded-lg p-2">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          Still required: {missing.map(field => FIELD_LABELS[field]).join(', ')}
+        </div>
+      )}
+
+      {/* Save as profile */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+          <Save className="w-4 h-4 text-slate-400" />
+          Save as profile
+        </label>
+        {saveProfile && (
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="e.g. My Excel journal"
+            className="flex-1 min-w-[160px] bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white placeholder:text-slate-500"
+          />
+        )}
+        <button
+          onClick={handleApply}
+          disabled={missing.length > 0}
+          className={`ml-auto px-4 py-2 rounded-lg font-medium transition-all ${
+            missing.length === 0
+              ? 'bg-indigo-500 text-white hover:bg-indigo-400'
+              : 'bg-white/5 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          Apply Mapping
+        </button>
+      </div>
+
+      {/* Saved profiles */}
+      {profiles.length > 0 && (
+        <div className="border-t border-white/10 pt-3">
+          <p className="text-slate-400 text-xs mb-2">Saved profiles (applied automatically to matching headers)</p>
+          <div className="flex flex-wrap gap-2">
+            {profiles.map(profile => (
+              <span key={profile.id} className="flex items-center gap-1 bg-white/5 rounded-full pl-3 pr-1 py-0.5 text-xs text-slate-300">
+                {profile.name}
+                <button
+                  onClick={() => deleteProfile(profile.id)}
+                  className="text-slate-500 hover:text-red-400 p-1"
+                  title="Delete profile"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GuardrailWarning } from '@/types';
+import { cooldownRemaining } from '@/lib/services/guardrails';
+import { getBiasIcon } from '@/constants/biasDefinitions';
+import { ShieldAlert } from 'lucide-react';
+
+interface GuardrailModalProps {
+  warnings: GuardrailWarning[];
+  orderSummary: string; // e.g. "BUY 50 AAPL"
+  enforceCooldown: boolean;
+  onProceed: () => void;
+  onCancel: () => void;
+}
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function formatEvidenceValue(value: number | string): string {
+  return typeof value === 'number' ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }) : value;
+}
+
+export default function GuardrailModal({ warnings, orderSummary, enforceCooldown, onProceed, onCancel }: GuardrailModalProps) {
+  const [remaining, setRemaining] = useState(() => (enforceCooldown ? cooldownRemaining(warnings) : 0));
+
+  // Tick the cooldown down while the trader waits
+  useEffect(() => {
+    if (!enforceCooldown) return;
+    const interval = setInterval(() => setRemaining(cooldownRemaining(warnings)), 1000);
+    return () => clearInterval(interval);
+  }, [enforceCooldown, warnings]);
+
+  const isCoolingDown = remaining > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="glass-card p-6 max-w-md w-full">
+        <div className="w-14 h-14 rounded-2xl bg-amber-500/20 flex items-center justify-center mx-auto mb-4">
+          <ShieldAlert className="w-7 h-7 text-amber-400" />
+        </div>
+        <h3 className="text-xl font-bold text-theme-main text-center mb-1">Before you {orderSummary}</h3>
+        <p className="text-slate-400 text-center text-sm mb-5">
+          This order matches {warnings.length === 1 ? 'a pattern' : 'patterns'} from your trading history
+        </p>
+
+        <div className="space-y-3 mb-6">
+          {warnings.map(warning => (
+            <div key={warning.rule} className="p-3 rounded-xl bg-white/5">
+              <p className="text-theme-main font-medium mb-1">
+                {getBiasIcon(warning.rule)} {warning.title}
+              </p>
+              <p className="text-slate-400 text-sm mb-2">{warning.message}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-400">
+                {Object.entries(warning.evidence).map(([key, value]) => (
+                  <span key={key}>
+                    {key.replace(/_/g, ' ')}: <span className="text-theme-main">{formatEvidenceValue(value)}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {isCoolingDown && (
+          <p className="text-amber-400 text-sm text-center mb-4">
+            Cooldown after your loss: {formatCountdown(remaining)} left
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl bg-white/10 text-theme-main font-medium hover:bg-white/20 transition-all"
+          >
+            Cancel order
+          </button>
+          <button
+            onClick={onProceed}
+            disabled={isCoolingDown}
+            className="flex-1 py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium hover:shadow-lg hover:shadow-amber-500/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Place anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { LotSelection } from '@/types';
+import { OpenLot } from '@/lib/services/roundTrips';
+import { formatCurrency } from '@/lib/utils/formatters';
+
+// Quantity typed against each lot, by the trade that opened it
+export type LotDraft = Record<string, string>;
+
+export function lotSelectionsFromDraft(draft: LotDraft): LotSelection[] {
+  return Object.entries(draft)
+    .map(([trade_id, quantity]) => ({ trade_id, quantity: parseFloat(quantity) || 0 }))
+    .filter(selection => selection.quantity > 0);
+}
+
+// Returns an error message, or null when the selections fit the sale
+export function validateLotSelections(selections: LotSelection[], lots: OpenLot[], quantity: number): string | null {
+  for (const selection of selections) {
+    const lot = lots.find(l => l.trade_id === selection.trade_id);
+    if (!lot || selection.quantity > lot.quantity) return 'A lot can\'t sell more than it holds';
+  }
+  const selected = selections.reduce((sum, s) => sum + s.quantity, 0);
+  if (selected > quantity) return `The lots add up to ${selected}, more than the ${quantity} being sold`;
+  return null;
+}
+
+interface LotPickerProps {
+  lots: OpenLot[];
+  draft: LotDraft;
+  onChange: (draft: LotDraft) => void;
+  currency: string;
+}
+
+// Specific identification: the trader names the lots a sale disposes of.
+// Whatever isn't named comes from the oldest lots.
+export default function LotPicker({ lots, draft, onChange, currency }: LotPickerProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-slate-400 text-xs">Pick the lots to sell; the rest come from the oldest</p>
+      {lots.map(lot => (
+        <div key={lot.trade_id} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-white/5">
+          <div className="text-xs">
+            <p className="text-theme-main">{lot.quantity} @ {formatCurrency(lot.price, { currency })}</p>
+            <p className="text-slate-400">Bought {new Date(lot.timestamp).toLocaleDateString()}</p>
+          </div>
+          <input
+            type="number"
+            min={0}
+            max={lot.quantity}
+            value={draft[lot.trade_id] ?? ''}
+            onChange={(e) => onChange({ ...draft, [lot.trade_id]: e.target.value })}
+            placeholder="0"
+            className="w-24 p-2 bg-theme-surface-2 border border-theme-soft rounded-lg text-theme-main text-sm focus:border-blueSmoke"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
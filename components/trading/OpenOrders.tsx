@@ -0,0 +1,210 @@
+'use client';
+
+import { useState } from 'react';
+import { PendingOrder } from '@/types';
+import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { describeOrder, getOrderTypeLabel, validateOrder } from '@/lib/services/orderBook';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { toast } from '@/components/shared/Toast';
+import { ListOrdered, Pencil, X, Check } from 'lucide-react';
+
+const RECENT_CLOSED = 5;
+
+const STATUS_STYLES: Record<PendingOrder['status'], string> = {
+  open: 'text-blueSmoke',
+  filled: 'text-emerald-400',
+  cancelled: 'text-slate-400',
+  expired: 'text-slate-400',
+  rejected: 'text-red-400',
+};
+
+const BRACKET_ROLE_LABELS: Record<NonNullable<PendingOrder['bracket_role']>, string> = {
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+};
+
+interface OrderDraft {
+  quantity: string;
+  limit_price: string;
+  stop_price: string;
+  trail_percent: string;
+}
+
+function toDraft(order: PendingOrder): OrderDraft {
+  return {
+    quantity: order.quantity.toString(),
+    limit_price: order.limit_price?.toString() ?? '',
+    stop_price: order.stop_price?.toString() ?? '',
+    trail_percent: order.trail_percent?.toString() ?? '',
+  };
+}
+
+export default function OpenOrders() {
+  const { orders, modifyOrder, cancelOrder } = usePortfolioStore();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<OrderDraft>({ quantity: '', limit_price: '', stop_price: '', trail_percent: '' });
+
+  const openOrders = orders.filter(o => o.status === 'open');
+  const closedOrders = orders.filter(o => o.status !== 'open').slice(0, RECENT_CLOSED);
+
+  if (orders.length === 0) return null;
+
+  const startEditing = (order: PendingOrder) => {
+    setEditingId(order.id);
+    setDraft(toDraft(order));
+  };
+
+  const saveEdit = (order: PendingOrder) => {
+    const changes = {
+      quantity: parseFloat(draft.quantity),
+      ...(order.limit_price !== undefined ? { limit_price: parseFloat(draft.limit_price) } : {}),
+      ...(order.stop_price !== undefined && order.trail_percent === undefined ? { stop_price: parseFloat(draft.stop_price) } : {}),
+      ...(order.trail_percent !== undefined ? { trail_percent: parseFloat(draft.trail_percent) } : {}),
+    };
+    const error = validateOrder({ ...order, ...changes });
+    if (error) {
+      toast.warning('Invalid Order', error);
+      return;
+    }
+    if (modifyOrder(order.id, changes)) {
+      toast.success('Order Updated', describeOrder({ ...order, ...changes }));
+      setEditingId(null);
+    } else {
+      toast.error('Order Not Updated', 'The order is no longer open');
+      setEditingId(null);
+    }
+  };
+
+  const handleCancel = (order: PendingOrder) => {
+    cancelOrder(order.id);
+    toast.info('Order Cancelled', describeOrder(order));
+    if (editingId === order.id) setEditingId(null);
+  };
+
+  const inputClass = 'w-full p-2 bg-theme-surface-2 border border-theme-soft rounded-lg text-theme-main text-sm focus:border-blueSmoke';
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ListOrdered className="w-5 h-5 text-theme-accent" />
+        <h3 className="text-theme-main font-semibold">Open Orders</h3>
+        <span className="text-slate-400 text-sm">({openOrders.length})</span>
+      </div>
+
+      {openOrders.length === 0 ? (
+        <p className="text-slate-400 text-sm">No working orders</p>
+      ) : (
+        <div className="space-y-2">
+          {openOrders.map((order) => (
+            <div key={order.id} className="p-3 rounded-xl bg-white/5">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-left">
+                  <p className="text-theme-main font-medium">
+                    <span className={order.action === 'BUY' ? 'text-emerald-400' : 'text-red-400'}>{order.action}</span>{' '}
+                    {order.quantity} {order.symbol}
+                  </p>
+                  <p className="text-slate-400 text-xs">
+                    {order.bracket_role && `${BRACKET_ROLE_LABELS[order.bracket_role]} · `}
+                    {getOrderTypeLabel(order.order_type)}
+                    {order.trail_percent !== undefined && ` ${order.trail_percent}%`}
+                    {order.stop_price !== undefined && ` · stop ${formatCurrency(order.stop_price)}`}
+                    {order.limit_price !== undefined && ` · limit ${formatCurrency(order.limit_price)}`}
+                    {` · ${order.time_in_force === 'day' ? 'Day' : 'GTC'}`}
+                    {order.triggered_at && ' · stop triggered'}
+                    {order.bracket && ' · with bracket'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => (editingId === order.id ? setEditingId(null) : startEditing(order))}
+                    className="p-2 rounded-lg hover:bg-white/10 text-slate-400 hover:text-theme-main transition-all"
+                    title="Modify order"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleCancel(order)}
+                    className="p-2 rounded-lg hover:bg-red-500/20 text-slate-400 hover:text-red-400 transition-all"
+                    title="Cancel order"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {editingId === order.id && (
+                <div className="mt-3 flex items-end gap-2">
+                  <label className="flex-1 text-xs text-slate-400">
+                    Quantity
+                    <input
+                      type="number"
+                      value={draft.quantity}
+                      onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                  {order.trail_percent !== undefined && (
+                    <label className="flex-1 text-xs text-slate-400">
+                      Trail (%)
+                      <input
+                        type="number"
+                        value={draft.trail_percent}
+                        onChange={(e) => setDraft({ ...draft, trail_percent: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  )}
+                  {order.stop_price !== undefined && order.trail_percent === undefined && (
+                    <label className="flex-1 text-xs text-slate-400">
+                      Stop
+                      <input
+                        type="number"
+                        value={draft.stop_price}
+                        onChange={(e) => setDraft({ ...draft, stop_price: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  )}
+                  {order.limit_price !== undefined && (
+                    <label className="flex-1 text-xs text-slate-400">
+                      Limit
+                      <input
+                        type="number"
+                        value={draft.limit_price}
+                        onChange={(e) => setDraft({ ...draft, limit_price: e.target.value })}
+                        className={inputClass}
+                      />
+                    </label>
+                  )}
+                  <button
+                    onClick={() => saveEdit(order)}
+                    className="p-2 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 transition-all"
+                    title="Save changes"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {closedOrders.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-theme-soft space-y-1">
+          <p className="text-slate-400 text-xs mb-2">Recent</p>
+          {closedOrders.map((order) => (
+            <div key={order.id} className="flex justify-between text-xs">
+              <span className="text-slate-400">{getOrderTypeLabel(order.order_type)} · {describeOrder(order)}</span>
+              <span className={STATUS_STYLES[order.status]} title={order.status_reason}>
+                {order.status === 'filled' && order.fill_price !== undefined
+                  ? `Filled @ ${formatCurrency(order.fill_price)}`
+                  : order.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,26 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
-import { parseCSV, downloadCSV } from '@/lib/utils/tradeParser';
-import { analyzeBiases, BiasAnalysisResult } from '@/lib/services/biasDetector';
+import { EXPORTERS, downloadTrades, getExporter } from '@/lib/utils/exporters/registry';
+import { IMPORTERS, getImporter, detectImportFormat } from '@/lib/utils/importers/registry';
+import { NUMBER_FORMAT_PRESETS, serializeCSV } from '@/lib/utils/csvTokenizer';
+import { readWorkbook, isLegacyExcel, WorksheetData } from '@/lib/utils/xlsxReader';
+import { readHeaderLine } from '@/lib/utils/importers/shared';
+import { useImportProfileStore } from '@/lib/stores/importProfileStore';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { COMMON_TIME_ZONES, getLocalTimeZone } from '@/lib/utils/timezone';
+import { runImportJob, runAnalysisJob, isAbortError } from '@/lib/workers/importWorkerClient';
+import { AnalysisJobResult, JobProgress } from '@/lib/workers/protocol';
+import { combineAuditScores, getDataQualityLabel } from '@/lib/services/importAudit';
+import useBaseCurrencyTrades from '@/hooks/useBaseCurrencyTrades';
+import { resolveFeeSchedules } from '@/lib/services/feeCalculator';
+import { formatCurrency } from '@/lib/utils/formatters';
 import { getBiasDefinition } from '@/constants/biasDefinitions';
 import { getSeverityColor, getScoreColor } from '@/constants/colors';
-import { Trade } from '@/types';
+import { ImportFormatId, NumberFormat, ColumnMapping, AuditIssueType, ExportFormatId } from '@/types';
 import { toast } from '@/components/shared/Toast';
+import ColumnMappingWizard from '@/components/trading/ColumnMappingWizard';
 import { 
   Upload, 
   FileSpreadsheet, 
@@ -25,6 +38,9 @@ import {
   AlertTriangle,
   Shield,
   LineChart,
+  Columns,
+  Layers,
+  ShieldCheck,
 } from 'lucide-react';
 import {
   CumulativePnLChart,
@@ -41,70 +57,366 @@ interface UploadStats {
   totalRows: number;
   successfulRows: number;
   errors: string[];
+  warnings: string[];
 }
 
+interface LoadedFile {
+  name: string;
+  source: File | string; // Re-parsed from here on every override; never read whole on the UI thread
+  preview: string; // Leading lines, for header detection and the mapping wizard
+}
+
+interface ImportRunOptions {
+  format?: ImportFormatId;
+  numberFormat?: NumberFormat;
+  mapping?: ColumnMapping;
+  timeZone?: string;
+}
+
+interface LoadedWorkbook {
+  fileName: string;
+  sheets: WorksheetData[];
+  selectedSheet: string;
+}
+
+// Prefer the first sheet an importer recognises, then the first non-empty one
+function pickDefaultSheet(sheets: WorksheetData[]): WorksheetData | undefined {
+  return sheets.find(sheet => detectImportFormat(serializeCSV(sheet.rows)) !== null) ||
+    sheets.find(sheet => sheet.rows.length > 1);
+}
+
+// Enough of the file for header detection and the mapping wizard's preview
+const PREVIEW_BYTES = 64 * 1024;
+
+async function readPreview(file: File): Promise<string> {
+  const text = await file.slice(0, PREVIEW_BYTES).text();
+  if (file.size <= PREVIEW_BYTES) return text;
+  // Drop the partial last line
+  return text.slice(0, Math.max(0, text.lastIndexOf('\n')));
+}
+
+function sheetToLoadedFile(fileName: string, sheet: WorksheetData): LoadedFile {
+  const content = serializeCSV(sheet.rows);
+  return { name: `${fileName} › ${sheet.name}`, source: content, preview: content.slice(0, PREVIEW_BYTES) };
+}
+
+function JobProgressBar({ progress, onCancel }: { progress: JobProgress; onCancel: () => void }) {
+  const percent = progress.total > 0 ? Math.min(100, (progress.completed / progress.total) * 100) : null;
+  return (
+    <div className="mt-3 max-w-sm mx-auto space-y-2">
+      <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={`h-full bg-indigo-500 transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-400">{progress.label}</span>
+        <button
+          onClick={(e) => {
+            // The upload area behind this button opens the file picker on click
+            e.stopPropagation();
+            onCancel();
+          }}
+          className="text-slate-400 hover:text-red-400 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const AUDIT_ISSUE_LABELS: Record<AuditIssueType, string> = {
+  rejected_rows: 'Unreadable rows',
+  balance_jump: 'Balance jumps',
+  out_of_order: 'Out of order',
+  invalid_price: 'Invalid prices',
+  invalid_quantity: 'Invalid quantities',
+  duplicate_row: 'Repeated rows',
+};
+
+// Below this the bias conclusions are flagged as resting on a broken file
+const UNRELIABLE_DATA_SCORE = 50;
+
 export default function TradeHistoryUpload() {
-  const { trades } = usePortfolioStore();
+  const {
+    trades,
+    startingCash,
+    cashDeposits,
+    importedTrades,
+    importBatches,
+    importTrades,
+    acceptIncomingConflicts,
+    clearImportedTrades,
+  } = usePortfolioStore();
+  const { saveProfile, markUsed, findProfileForHeaders } = useImportProfileStore();
+  const { importTimeZone, setImportTimeZone, tradingDayBoundaries, feeScheduleId, assetFeeSchedules } = useSettingsStore();
+  // Analysis and charts sum P&L across symbols, so they get base-currency trades
+  const { trades: baseImportedTrades, baseCurrency, missingCurrencies } = useBaseCurrencyTrades(importedTrades);
   
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadStats, setUploadStats] = useState<UploadStats | null>(null);
-  const [importedTrades, setImportedTrades] = useState<Trade[]>([]);
-  const [analysisResult, setAnalysisResult] = useState<BiasAnalysisResult | null>(null);
+  const [loadedFile, setLoadedFile] = useState<LoadedFile | null>(null);
+  const [workbook, setWorkbook] = useState<LoadedWorkbook | null>(null);
+  const [importFormat, setImportFormat] = useState<ImportFormatId | null>(null);
+  // Index into NUMBER_FORMAT_PRESETS, or -1 to detect from the file
+  const [numberFormatPreset, setNumberFormatPreset] = useState(-1);
+  const [activeMapping, setActiveMapping] = useState<ColumnMapping | null>(null);
+  const [showMapping, setShowMapping] = useState(false);
+  // Merge new files into the current dataset instead of replacing it
+  const [appendMode, setAppendMode] = useState(true);
+  const [lastBatchId, setLastBatchId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormatId>('csv');
+  // Batch created from the file currently loaded; re-parsing it replaces that batch
+  const currentBatchRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Parsing and analysis run in a worker; these track the job in flight
+  const [importProgress, setImportProgress] = useState<JobProgress | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<JobProgress | null>(null);
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJobResult | null>(null);
+  const importControllerRef = useRef<AbortController | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  const analysisResult = importedTrades.length > 0 ? analysisJob?.analysis || null : null;
+  const lastBatch = importBatches.find(b => b.id === lastBatchId) || null;
+  const auditedBatches = importBatches.filter(b => b.audit);
+  const dataQualityScore = combineAuditScores(importBatches.map(b => b.audit));
+
+  // Re-analyze whenever the merged dataset, its conversion or the trading-day settings change
+  useEffect(() => {
+    if (baseImportedTrades.length === 0) {
+      setAnalysisJob(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    runAnalysisJob(
+      { trades: baseImportedTrades, boundaries: tradingDayBoundaries, baseCurrency },
+      setAnalysisProgress,
+      controller.signal
+    )
+      .then(setAnalysisJob)
+      .catch(err => {
+        if (!isAbortError(err)) {
+          toast.error('Analysis Failed', err instanceof Error ? err.message : 'Bias analysis failed');
+        }
+      })
+      .finally(() => {
+        if (analysisControllerRef.current === controller) {
+          analysisControllerRef.current = null;
+          setAnalysisProgress(null);
+        }
+      });
+
+    return () => controller.abort();
+  }, [baseImportedTrades, baseCurrency, tradingDayBoundaries]);
+
+  const handleCancel = useCallback(() => {
+    importControllerRef.current?.abort();
+    analysisControllerRef.current?.abort();
+  }, []);
+
+  // Parse with the given format (or auto-detect) and analyze the result
+  const runImport = useCallback(async (file: LoadedFile, options: ImportRunOptions = {}) => {
+    // A newer parse of the same file supersedes one still running
+    importControllerRef.current?.abort();
+    const controller = new AbortController();
+    importControllerRef.current = controller;
+    setIsProcessing(true);
+
+    let result;
+    try {
+      result = await runImportJob(
+        {
+          source: file.source,
+          fileName: file.name,
+          options: {
+            timeZone: importTimeZone || undefined,
+            // Rows without a fees column are charged at the user's broker rates
+            feeSchedules: resolveFeeSchedules(feeScheduleId, assetFeeSchedules),
+            ...options,
+          },
+          baseCurrency,
+        },
+        setImportProgress,
+        controller.signal
+      );
+    } catch (err) {
+      if (isAbortError(err)) {
+        if (importControllerRef.current === controller) {
+          toast.info('Import Cancelled', `Stopped reading ${file.name}`);
+        }
+      } else {
+        toast.error('Parse Error', err instanceof Error ? err.message : 'Failed to parse file');
+      }
+      return;
+    } finally {
+      if (importControllerRef.current === controller) {
+        importControllerRef.current = null;
+        setIsProcessing(false);
+        setImportProgress(null);
+      }
+    }
+
+    setImportFormat(result.format);
+    setUploadStats({
+      totalRows: result.totalRows,
+      successfulRows: result.successfulRows,
+      errors: result.errors,
+      warnings: result.warnings,
+    });
+
+    if (result.trades.length > 0) {
+      // Merge into the imported dataset; bias analysis re-runs on the merged trades
+      const batch = importTrades(
+        result.trades,
+        { fileName: file.name, format: result.format, audit: result.audit },
+        { mode: appendMode ? 'append' : 'replace', replaceBatchId: currentBatchRef.current || undefined }
+      );
+      currentBatchRef.current = batch.id;
+      setLastBatchId(batch.id);
+      
+      const skipped = batch.duplicates + batch.conflicts.length;
+      toast.success(
+        'Analysis Complete', 
+        `Added ${batch.added} trades from ${file.name} (${getImporter(result.format)?.label})` +
+          (skipped > 0 ? `, ${skipped} already imported` : '')
+      );
+    } else {
+      // Columns we couldn't recognise: let the user map them by hand
+      if (result.format === 'generic') {
+        setShowMapping(true);
+        toast.warning('Map Your Columns', 'We could not read this layout automatically');
+      } else {
+        toast.error('Import Failed', 'No valid trades found in file');
+      }
+    }
+  }, [appendMode, importTrades, importTimeZone, feeScheduleId, assetFeeSchedules, baseCurrency]);
+
+  // New file or sheet: apply the saved profile for its header set, otherwise auto-detect
+  const importLoadedFile = useCallback(async (loaded: LoadedFile, numberFormat?: NumberFormat) => {
+    setLoadedFile(loaded);
+    setShowMapping(false);
+
+    const profile = findProfileForHeaders(readHeaderLine(loaded.preview));
+    if (profile) {
+      markUsed(profile.id);
+      setActiveMapping(profile.mapping);
+      toast.info('Profile Applied', `Using saved column mapping "${profile.name}"`);
+      await runImport(loaded, { format: 'generic', numberFormat, mapping: profile.mapping });
+    } else {
+      setActiveMapping(null);
+      await runImport(loaded, { numberFormat });
+    }
+  }, [findProfileForHeaders, markUsed, runImport]);
+
   const processFile = useCallback(async (file: File) => {
     setIsProcessing(true);
     setUploadStats(null);
-    setAnalysisResult(null);
+    currentBatchRef.current = null;
 
     try {
       // Check file type
       const validTypes = ['text/csv', 'text/plain', 'application/vnd.ms-excel', 
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/json'];
       const isValidType = validTypes.includes(file.type) || 
-        file.name.endsWith('.csv') || 
-        file.name.endsWith('.txt') ||
-        file.name.endsWith('.tsv');
+        /\.(csv|txt|tsv|xml|html?|xlsx|xlsm|xls|json)$/i.test(file.name);
       
       if (!isValidType) {
-        toast.error('Invalid File', 'Please upload a CSV or text file');
+        toast.error('Invalid File', 'Please upload a CSV, Excel, XML or HTML statement, or a JSON backup');
         setIsProcessing(false);
         return;
       }
 
-      // Read file content
-      const content = await file.text();
-      
-      // Parse CSV
-      const result = parseCSV(content);
-      
-      setUploadStats({
-        totalRows: result.totalRows,
-        successfulRows: result.successfulRows,
-        errors: result.errors,
-      });
+      const numberFormat = NUMBER_FORMAT_PRESETS[numberFormatPreset]?.format;
 
-      if (result.trades.length > 0) {
-        setImportedTrades(result.trades);
-        
-        // Run bias analysis on imported trades
-        const analysis = analyzeBiases(result.trades, []);
-        setAnalysisResult(analysis);
-        
-        toast.success(
-          'Analysis Complete', 
-          `Analyzed ${result.trades.length} trades from ${file.name}`
-        );
-      } else {
-        toast.error('Import Failed', 'No valid trades found in file');
+      // Excel workbooks are binary; CSV files also report the ms-excel MIME type, so go by extension
+      if (/\.(xlsx|xlsm|xls)$/i.test(file.name)) {
+        const buffer = await file.arrayBuffer();
+        if (isLegacyExcel(buffer)) {
+          toast.error('Unsupported Excel Format', 'Legacy .xls workbooks are not supported. Save as .xlsx or CSV and upload again.');
+          return;
+        }
+
+        const { sheets } = await readWorkbook(buffer);
+        const sheet = pickDefaultSheet(sheets);
+        if (!sheet) {
+          toast.error('Import Failed', 'The workbook has no sheets with data');
+          return;
+        }
+
+        setWorkbook({ fileName: file.name, sheets, selectedSheet: sheet.name });
+        await importLoadedFile(sheetToLoadedFile(file.name, sheet), numberFormat);
+        return;
       }
+
+      // The worker reads the file in chunks; only the first lines are read here
+      setWorkbook(null);
+      await importLoadedFile({ name: file.name, source: file, preview: await readPreview(file) }, numberFormat);
     } catch (err) {
       toast.error('Parse Error', err instanceof Error ? err.message : 'Failed to parse file');
     } finally {
       setIsProcessing(false);
     }
-  }, []);
+  }, [importLoadedFile, numberFormatPreset]);
+
+  const handleFormatChange = useCallback((format: ImportFormatId) => {
+    if (!loadedFile) return;
+    setShowMapping(false);
+    runImport(loadedFile, {
+      format,
+      numberFormat: NUMBER_FORMAT_PRESETS[numberFormatPreset]?.format,
+      mapping: format === 'generic' ? activeMapping || undefined : undefined,
+    });
+  }, [loadedFile, runImport, numberFormatPreset, activeMapping]);
+
+  const handleSheetChange = useCallback((sheetName: string) => {
+    const sheet = workbook?.sheets.find(s => s.name === sheetName);
+    if (!workbook || !sheet) return;
+    setWorkbook({ ...workbook, selectedSheet: sheet.name });
+
+    importLoadedFile(sheetToLoadedFile(workbook.fileName, sheet), NUMBER_FORMAT_PRESETS[numberFormatPreset]?.format);
+  }, [workbook, importLoadedFile, numberFormatPreset]);
+
+  const handleNumberFormatChange = useCallback((preset: number) => {
+    setNumberFormatPreset(preset);
+    if (!loadedFile) return;
+    runImport(loadedFile, {
+      format: importFormat || undefined,
+      numberFormat: NUMBER_FORMAT_PRESETS[preset]?.format,
+      mapping: importFormat === 'generic' ? activeMapping || undefined : undefined,
+    });
+  }, [loadedFile, importFormat, runImport, activeMapping]);
+
+  const handleTimeZoneChange = useCallback((timeZone: string | null) => {
+    setImportTimeZone(timeZone);
+    if (!loadedFile) return;
+    runImport(loadedFile, {
+      format: importFormat || undefined,
+      numberFormat: NUMBER_FORMAT_PRESETS[numberFormatPreset]?.format,
+      mapping: importFormat === 'generic' ? activeMapping || undefined : undefined,
+      timeZone: timeZone || undefined,
+    });
+  }, [loadedFile, importFormat, runImport, numberFormatPreset, activeMapping, setImportTimeZone]);
+
+  const handleApplyMapping = useCallback((mapping: ColumnMapping, headers: string[], profileName?: string) => {
+    if (!loadedFile) return;
+    if (profileName !== undefined) {
+      const profile = saveProfile(profileName, headers, mapping);
+      toast.success('Profile Saved', `"${profile.name}" will be applied to files with these columns`);
+    }
+    setActiveMapping(mapping);
+    setShowMapping(false);
+    runImport(loadedFile, {
+      format: 'generic',
+      numberFormat: NUMBER_FORMAT_PRESETS[numberFormatPreset]?.format,
+      mapping,
+    });
+  }, [loadedFile, saveProfile, runImport, numberFormatPreset]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -142,15 +454,31 @@ export default function TradeHistoryUpload() {
       toast.warning('No Trades', 'No paper trades to export yet');
       return;
     }
-    downloadCSV(trades, `biascoach_trades_${new Date().toISOString().split('T')[0]}.csv`);
-    toast.success('Export Complete', `Downloaded ${trades.length} trades`);
-  }, [trades]);
+    const exportedAt = new Date().toISOString();
+    try {
+      downloadTrades(
+        trades,
+        exportFormat,
+        { startingCash, deposits: cashDeposits, exportedAt },
+        `biascoach_trades_${exportedAt.split('T')[0]}`
+      );
+      toast.success('Export Complete', `Downloaded ${trades.length} trades as ${getExporter(exportFormat)?.label || exportFormat}`);
+    } catch (err) {
+      toast.error('Export Failed', err instanceof Error ? err.message : 'Could not build the export file');
+    }
+  }, [trades, exportFormat, startingCash, cashDeposits]);
 
   const handleClearAnalysis = useCallback(() => {
-    setImportedTrades([]);
-    setAnalysisResult(null);
+    clearImportedTrades();
+    currentBatchRef.current = null;
+    setLastBatchId(null);
     setUploadStats(null);
-  }, []);
+    setLoadedFile(null);
+    setWorkbook(null);
+    setImportFormat(null);
+    setActiveMapping(null);
+    setShowMapping(false);
+  }, [clearImportedTrades]);
 
   const getScoreLabel = (score: number) => {
     if (score >= 80) return 'Excellent';
@@ -176,7 +504,7 @@ export default function TradeHistoryUpload() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,.txt,.tsv"
+          accept=".csv,.txt,.tsv,.xlsx,.xlsm,.xls,.xml,.htm,.html,.json"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -186,6 +514,7 @@ export default function TradeHistoryUpload() {
             <>
               <Loader2 className="w-10 h-10 mx-auto mb-3 text-indigo-400 animate-spin" />
               <p className="text-white font-medium">Analyzing trading history...</p>
+              {importProgress && <JobProgressBar progress={importProgress} onCancel={handleCancel} />}
             </>
           ) : (
             <>
@@ -194,18 +523,103 @@ export default function TradeHistoryUpload() {
                 {isDragging ? 'Drop to analyze' : 'Upload Trading History for Analysis'}
               </p>
               <p className="text-slate-400 text-sm">
-                Drag & drop a CSV file or click to browse
+                Drag & drop a CSV, Excel workbook or broker statement, or click to browse
               </p>
               <p className="text-slate-500 text-xs mt-2">
-                Format: timestamp, asset, side, quantity, entry_price, exit_price, profit_loss, balance
+                Standard CSV, IBKR Flex Query, Questrade, Wealthsimple or MetaTrader history
               </p>
             </>
           )}
         </div>
       </div>
 
+      {/* Detected Format (override if detection picked the wrong layout) */}
+      {loadedFile && importFormat && !isProcessing && (
+        <div className="glass-card p-3 flex items-center gap-3">
+          <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+          <span className="text-slate-300 text-sm truncate flex-1">{loadedFile.name}</span>
+          {workbook && workbook.sheets.length > 1 && (
+            <>
+              <label className="text-slate-400 text-xs" htmlFor="import-sheet">Sheet</label>
+              <select
+                id="import-sheet"
+                value={workbook.selectedSheet}
+                onChange={(e) => handleSheetChange(e.target.value)}
+                className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+              >
+                {workbook.sheets.map(sheet => (
+                  <option key={sheet.name} value={sheet.name} className="bg-slate-900">
+                    {sheet.name}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+          <label className="text-slate-400 text-xs" htmlFor="import-format">Format</label>
+          <select
+            id="import-format"
+            value={importFormat}
+            onChange={(e) => handleFormatChange(e.target.value as ImportFormatId)}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+          >
+            {IMPORTERS.map(importer => (
+              <option key={importer.id} value={importer.id} className="bg-slate-900">
+                {importer.label}
+              </option>
+            ))}
+          </select>
+          <label className="text-slate-400 text-xs" htmlFor="import-number-format">Numbers</label>
+          <select
+            id="import-number-format"
+            value={numberFormatPreset}
+            onChange={(e) => handleNumberFormatChange(Number(e.target.value))}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+          >
+            <option value={-1} className="bg-slate-900">Auto</option>
+            {NUMBER_FORMAT_PRESETS.map((preset, idx) => (
+              <option key={preset.label} value={idx} className="bg-slate-900">
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <label className="text-slate-400 text-xs" htmlFor="import-timezone">Time zone</label>
+          <select
+            id="import-timezone"
+            value={importTimeZone || ''}
+            onChange={(e) => handleTimeZoneChange(e.target.value || null)}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+            title="Zone the file's times were recorded in"
+          >
+            <option value="" className="bg-slate-900">Browser ({getLocalTimeZone()})</option>
+            {COMMON_TIME_ZONES.map(zone => (
+              <option key={zone} value={zone} className="bg-slate-900">
+                {zone}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowMapping(true)}
+            className="text-slate-400 hover:text-white transition-colors p-1"
+            title="Map columns manually"
+          >
+            <Columns className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Column Mapping Wizard */}
+      {showMapping && loadedFile && !isProcessing && (
+        <ColumnMappingWizard
+          key={loadedFile.name}
+          content={loadedFile.preview}
+          initialMapping={activeMapping || undefined}
+          onApply={handleApplyMapping}
+          onCancel={() => setShowMapping(false)}
+        />
+      )}
+
       {/* Upload Stats */}
-      {uploadStats && !analysisResult && (
+      {uploadStats && (!analysisResult || uploadStats.successfulRows === 0) && (
         <div className={`glass-card p-4 ${uploadStats.errors.length > 0 ? 'border border-amber-500/30' : 'border border-emerald-500/30'}`}>
           <div className="flex items-center gap-3 mb-3">
             {uploadStats.errors.length === 0 ? (
@@ -229,6 +643,85 @@ export default function TradeHistoryUpload() {
               ))}
             </div>
           )}
+
+          {uploadStats.warnings.length > 0 && (
+            <div className="bg-white/5 rounded-lg p-3 mt-2 max-h-32 overflow-y-auto">
+              {uploadStats.warnings.map((warning, idx) => (
+                <p key={idx} className="text-slate-400 text-xs mb-1">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Background analysis of the merged dataset */}
+      {analysisProgress && !isProcessing && (
+        <div className="glass-card p-4 text-center">
+          <p className="text-white text-sm font-medium">Detecting biases in {importedTrades.length.toLocaleString()} trades...</p>
+          <JobProgressBar progress={analysisProgress} onCancel={handleCancel} />
+        </div>
+      )}
+
+      {/* Merge Summary */}
+      {lastBatch && analysisResult && (
+        <div className="glass-card p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            <Layers className="w-4 h-4 text-indigo-400" />
+            <span className="text-white font-medium truncate">{lastBatch.file_name}</span>
+            <span className="text-emerald-400">{lastBatch.added} new</span>
+            <span className="text-slate-400">· {lastBatch.duplicates} duplicates skipped</span>
+            {lastBatch.conflicts.length > 0 && (
+              <span className="text-amber-400">· {lastBatch.conflicts.length} conflicting</span>
+            )}
+          </div>
+
+          {lastBatch.conflicts.length > 0 && (
+            <div className="bg-amber-500/10 rounded-lg p-3 space-y-1">
+              <p className="text-amber-300 text-xs mb-1">
+                These rows match trades already imported but with different values. The existing values were kept.
+              </p>
+              {lastBatch.conflicts.slice(0, 5).map(conflict => (
+                <p key={conflict.incoming.id} className="text-slate-300 text-xs">
+                  {conflict.incoming.action} {conflict.incoming.quantity} {conflict.incoming.symbol} @ {conflict.incoming.price}
+                  {' '}({new Date(conflict.incoming.timestamp).toLocaleString()}) — differs in {conflict.fields.join(', ')}
+                  {' '}(was {conflict.existing.source_file})
+                </p>
+              ))}
+              {lastBatch.conflicts.length > 5 && (
+                <p className="text-slate-500 text-xs">…and {lastBatch.conflicts.length - 5} more</p>
+              )}
+              <button
+                onClick={() => acceptIncomingConflicts(lastBatch.id)}
+                className="mt-2 px-3 py-1 rounded-lg text-xs font-medium bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+              >
+                Use new values
+              </button>
+            </div>
+          )}
+
+          {importBatches.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {importBatches.map(batch => (
+                <span key={batch.id} className="bg-white/5 rounded-full px-3 py-0.5 text-xs text-slate-400">
+                  {batch.file_name} · {importedTrades.filter(t => t.import_batch_id === batch.id).length}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Import Warnings (shown alongside results) */}
+      {analysisResult && uploadStats && uploadStats.warnings.length > 0 && (
+        <div className="glass-card p-3 border border-white/10">
+          {uploadStats.warnings.map((warning, idx) => (
+            <p key={idx} className="text-slate-400 text-xs flex items-start gap-1.5 mb-1 last:mb-0">
+              <AlertCircle className="w-3 h-3 text-amber-400 shrink-0 mt-0.5" />
+              {warning}
+            </p>
+          ))}
         </div>
       )}
 
@@ -243,7 +736,10 @@ export default function TradeHistoryUpload() {
               </div>
               <div>
                 <h3 className="text-white font-semibold">Uploaded Data Analysis</h3>
-                <p className="text-slate-400 text-sm">{importedTrades.length} trades analyzed</p>
+                <p className="text-slate-400 text-sm">
+                  {importedTrades.length} trades analyzed
+                  {importBatches.length > 1 && ` from ${importBatches.length} files`}
+                </p>
               </div>
             </div>
             <button
@@ -304,6 +800,82 @@ export default function TradeHistoryUpload() {
             </div>
           </div>
 
+          {/* Data Quality */}
+          {dataQualityScore !== null && (
+            <div className="glass-card p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5 text-indigo-400" />
+                  <h4 className="text-white font-semibold">Data Quality</h4>
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-medium"
+                    style={{ backgroundColor: `${getScoreColor(dataQualityScore)}20`, color: getScoreColor(dataQualityScore) }}
+                  >
+                    {getDataQualityLabel(dataQualityScore)}
+                  </span>
+                </div>
+                <span className="text-2xl font-bold text-white">
+                  {dataQualityScore}<span className="text-slate-400 text-xs font-normal"> / 100</span>
+                </span>
+              </div>
+
+              {dataQualityScore < UNRELIABLE_DATA_SCORE && (
+                <div className="flex items-start gap-2 bg-red-500/10 border border-red-500/30 rounded-lg p-2 mb-3">
+                  <AlertTriangle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+                  <p className="text-red-300 text-xs">
+                    The imported data has serious problems. Treat the bias analysis below with caution until the file is fixed.
+                  </p>
+                </div>
+              )}
+
+              {auditedBatches.map(batch => {
+                const audit = batch.audit!;
+                const flagged = (Object.keys(audit.counts) as AuditIssueType[]).filter(type => audit.counts[type] > 0);
+                return (
+                  <div key={batch.id} className="border-t border-white/10 pt-2 mt-2 first:border-0 first:pt-0 first:mt-0">
+                    <div className="flex items-center justify-between text-xs mb-1">
+                      <span className="text-slate-300 truncate">{batch.file_name}</span>
+                      <span className="text-slate-400 shrink-0 ml-2">
+                        {audit.balance
+                          ? `${audit.balance.reconciled}/${audit.balance.checked} balance steps reconciled`
+                          : 'No running balance to reconcile'}
+                      </span>
+                    </div>
+                    {audit.balance && Math.abs(audit.balance.unexplained_total) >= 0.01 && (
+                      <p className="text-slate-400 text-xs mb-1">
+                        Unexplained balance change: {audit.balance.unexplained_total < 0 ? '-' : '+'}${Math.abs(audit.balance.unexplained_total).toFixed(2)}
+                      </p>
+                    )}
+                    {flagged.length === 0 ? (
+                      <p className="text-emerald-400 text-xs flex items-center gap-1">
+                        <CheckCircle2 className="w-3 h-3" /> No issues found in {audit.checked_rows} rows
+                      </p>
+                    ) : (
+                      <>
+                        <div className="flex flex-wrap gap-1.5 mb-1">
+                          {flagged.map(type => (
+                            <span key={type} className="bg-amber-500/10 text-amber-300 rounded-full px-2 py-0.5 text-xs">
+                              {AUDIT_ISSUE_LABELS[type]}: {audit.counts[type]}
+                            </span>
+                          ))}
+                        </div>
+                        {audit.issues.slice(0, 3).map((issue, idx) => (
+                          <p key={idx} className="text-slate-400 text-xs flex items-start gap-1.5">
+                            <AlertCircle className={`w-3 h-3 shrink-0 mt-0.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`} />
+                            {issue.message}
+                          </p>
+                        ))}
+                        {audit.issues.length > 3 && (
+                          <p className="text-slate-500 text-xs">…and {audit.issues.length - 3} more</p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Trade Stats */}
           <div className="grid grid-cols-3 gap-3">
             <div className="glass-card p-4 text-center">
@@ -314,14 +886,14 @@ export default function TradeHistoryUpload() {
             <div className="glass-card p-4 text-center">
               <TrendingUp className="w-5 h-5 text-emerald-400 mx-auto mb-2" />
               <p className="text-xl font-bold text-emerald-400">
-                {importedTrades.filter(t => (t.pnl || 0) > 0).length}
+                {analysisJob?.winningRoundTrips ?? 0}
               </p>
               <p className="text-slate-400 text-xs">Winning</p>
             </div>
             <div className="glass-card p-4 text-center">
               <Clock className="w-5 h-5 text-purple-400 mx-auto mb-2" />
               <p className="text-xl font-bold text-white">
-                {new Set(importedTrades.map(t => t.timestamp.split('T')[0])).size}
+                {analysisJob?.tradingDays ?? 0}
               </p>
               <p className="text-slate-400 text-xs">Trading Days</p>
             </div>
@@ -332,25 +904,40 @@ export default function TradeHistoryUpload() {
             <h4 className="text-white font-semibold flex items-center gap-2">
               <LineChart className="w-4 h-4 text-indigo-400" />
               Graphical Insights
+              <span className="text-slate-400 text-xs font-normal">in {baseCurrency}</span>
             </h4>
+
+            {analysisJob && Math.abs(analysisJob.fxPnl) >= 0.01 && (
+              <p className="text-slate-400 text-xs">
+                {formatCurrency(analysisJob.fxPnl, { currency: baseCurrency, showSign: true })} of realized P&L came from exchange rate moves between entry and exit.
+              </p>
+            )}
+            {missingCurrencies.length > 0 && (
+              <div className="flex items-start gap-2 bg-amber-500/10 border border-amber-500/30 rounded-lg p-2">
+                <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+                <p className="text-amber-300 text-xs">
+                  No exchange rate for {missingCurrencies.join(', ')}; those trades are left unconverted. Add rates under Settings → Currency.
+                </p>
+              </div>
+            )}
             
             {/* Row 1: Main Performance Charts */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
-              <CumulativePnLChart trades={importedTrades} height={180} />
+              <CumulativePnLChart trades={baseImportedTrades} height={180} />
               <BiasRadarChart analysis={analysisResult} height={220} />
             </div>
             
             {/* Row 2: Distribution & Frequency */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              <WinLossChart trades={importedTrades} height={160} />
-              <TradingFrequencyChart trades={importedTrades} height={160} />
-              <AssetPnLChart trades={importedTrades} height={160} />
+              <WinLossChart trades={baseImportedTrades} height={160} />
+              <TradingFrequencyChart trades={baseImportedTrades} height={160} />
+              <AssetPnLChart trades={baseImportedTrades} height={160} />
             </div>
             
             {/* Row 3: Risk Analysis */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
-              <DrawdownChart trades={importedTrades} height={160} />
-              <StreakChart trades={importedTrades} height={140} />
+              <DrawdownChart trades={baseImportedTrades} height={160} />
+              <StreakChart trades={baseImportedTrades} height={140} />
             </div>
           </div>
 
@@ -419,19 +1006,33 @@ export default function TradeHistoryUpload() {
         </div>
       )}
 
-      {/* Export Paper Trades Button */}
-      <button
-        onClick={handleExport}
-        disabled={trades.length === 0}
-        className={`w-full py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
-          trades.length > 0
-            ? 'bg-white/5 text-white hover:bg-white/10 border border-white/10'
-            : 'bg-white/5 text-slate-500 cursor-not-allowed'
-        }`}
-      >
-        <Download className="w-4 h-4" />
-        Export My Paper Trades ({trades.length})
-      </button>
+      {/* Export Paper Trades */}
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={trades.length === 0}
+          className={`flex-1 py-3 rounded-xl font-medium transition-all flex items-center justify-center gap-2 ${
+            trades.length > 0
+              ? 'bg-white/5 text-white hover:bg-white/10 border border-white/10'
+              : 'bg-white/5 text-slate-500 cursor-not-allowed'
+          }`}
+        >
+          <Download className="w-4 h-4" />
+          Export My Paper Trades ({trades.length})
+        </button>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormatId)}
+          title={getExporter(exportFormat)?.description}
+          className="bg-white/5 border border-white/10 rounded-xl px-3 text-sm text-white"
+        >
+          {EXPORTERS.map(exporter => (
+            <option key={exporter.id} value={exporter.id} className="bg-slate-900">
+              {exporter.label}
+            </option>
+          ))}
+        </select>
+      </div>
 
       {/* Info Note */}
       <p className="text-slate-500 text-xs text-center">
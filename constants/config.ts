@@ -1,5 +1,12 @@
 // BiasCoach Configuration
 
+import { ExecutionModels, LotMatchingMethod, MarginRates, MarketHours, TaxJurisdiction, TradingDayBoundaries } from '@/types';
+
+// Regular hours only; pre- and post-market sessions aren't simulated
+const US_EQUITY_HOURS: MarketHours = { timeZone: 'America/New_York', open: 9 * 60 + 30, close: 16 * 60, days: [1, 2, 3, 4, 5] };
+// Sunday to Friday with a daily break from 17:00 to 18:00 New York
+const GLOBEX_HOURS: MarketHours = { timeZone: 'America/New_York', open: 18 * 60, close: 17 * 60, days: [0, 1, 2, 3, 4] };
+
 export const config = {
   // Price Data
   priceApi: {
@@ -10,14 +17,103 @@ export const config = {
   // Trading Configuration
   trading: {
     defaultFeeRate: 0.001, // 0.1% per trade
+    defaultFeeSchedule: 'flat', // See constants/feeSchedules.ts
     minTradeValue: 1,
     maxPositionPercent: 0.5, // Max 50% in single position
     defaultStartingBalance: 100000, // $100k paper trading
+    defaultStopLossPercent: 5, // Bracket exits, as a share of the entry price
+    defaultTakeProfitPercent: 10,
+  },
+
+  // Paper fill realism (lib/services/executionModel.ts). Forex schedules that
+  // already charge a spread as a fee skip the model's spread.
+  execution: {
+    models: {
+      stocks: { spreadBps: 2, slippageBps: 1, slippageNotional: 10000, maxFillNotional: 1000000, marketHours: US_EQUITY_HOURS },
+      etfs: { spreadBps: 1, slippageBps: 0.5, slippageNotional: 10000, maxFillNotional: 2000000, marketHours: US_EQUITY_HOURS },
+      forex: { spreadPips: 1, slippageBps: 0.2, slippageNotional: 100000, maxFillNotional: 5000000, marketHours: { timeZone: 'America/New_York', open: 17 * 60, close: 17 * 60, days: [0, 1, 2, 3, 4] } },
+      commodities: { spreadBps: 5, slippageBps: 2, slippageNotional: 10000, maxFillNotional: 500000, marketHours: GLOBEX_HOURS },
+      options: { spreadBps: 50, slippageBps: 10, slippageNotional: 10000, maxFillNotional: 250000, marketHours: US_EQUITY_HOURS },
+      futures: { spreadBps: 1, slippageBps: 0.5, slippageNotional: 100000, maxFillNotional: 5000000, marketHours: GLOBEX_HOURS },
+      cash: { slippageBps: 0, slippageNotional: 10000 },
+    } as ExecutionModels,
+  },
+
+  // Realized-gains tax report (lib/services/taxLots.ts). US rules by default;
+  // Canada uses average cost and the same 30-day superficial loss window.
+  tax: {
+    defaultLotMethod: 'fifo' as LotMatchingMethod,
+    defaultJurisdiction: 'us' as TaxJurisdiction,
+    longTermMonths: 12, // Held longer than this is a long-term gain
+    washSaleDays: 30, // Buys this close to a loss, before or after, disallow it
+  },
+
+  // Paper account ledger (lib/services/portfolioLedger.ts)
+  ledger: {
+    undoWindowMinutes: 5, // How long after a market fill it can still be undone
+  },
+
+  // Risk-adjusted returns (lib/services/performanceAnalytics.ts)
+  performance: {
+    riskFreeRate: 0.04, // Annual, for the Sharpe and Sortino ratios
+    minHistoryDays: 7, // Equity history needed before returns are annualized
+    minReturnPeriods: 20, // Equity points needed before volatility is measured
+  },
+
+  // Pre-trade guardrails (paper trading). Concentration uses
+  // trading.maxPositionPercent.
+  guardrails: {
+    revengeWindowMinutes: 30, // Orders this soon after a realized loss get a warning
+    revengeMinLossPercent: 1, // Losses under this share of the closing trade's value don't count
+    cooldownMinutes: 15, // How long after a loss orders wait when cooldowns are enforced
+    sizeMultiple: 2, // Warn above this multiple of the rolling average entry size
+    sizeLookbackTrades: 10, // Entries in the rolling average
+    minTradesForSizeCheck: 3,
+  },
+
+  // Margin Accounts (paper trading). Reg T for US stocks; futures use the
+  // exchange margin on the position instead.
+  margin: {
+    rates: {
+      initial: { stocks: 0.5, etfs: 0.5, forex: 0.05, commodities: 0.5, options: 1, futures: 1, cash: 1 },
+      maintenance: { stocks: 0.25, etfs: 0.25, forex: 0.03, commodities: 0.3, options: 1, futures: 1, cash: 1 },
+    } as MarginRates,
+    shortMaintenance: 0.3, // Shorts need more cover: their loss has no ceiling
+    futuresMaintenanceRatio: 0.9, // Maintenance as a share of the initial margin posted
+    debitInterestRate: 0.08, // Annual, on borrowed cash
+    borrowFeeRate: 0.03, // Annual, on the value of shares sold short
+    callGraceMinutes: 15, // Time to restore equity before positions are liquidated
+    financingIntervalMinutes: 60, // How often accrued interest and borrow fees are charged to cash
+  },
+
+  // Options and Futures
+  derivatives: {
+    optionMultiplier: 100, // US equity options cover 100 shares
+    optionTickSize: 0.01,
+    futuresMarginRate: 0.1, // Initial margin for futures roots we don't list, as a share of contract value
+  },
+
+  // Currency Configuration
+  currency: {
+    accountCurrency: 'USD', // Paper cash and fallback prices are in US dollars
+    baseCurrency: 'USD', // Default currency reports are expressed in
+    supported: ['USD', 'CAD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'NZD'],
   },
 
   // Analysis Configuration
   analysis: {
     minTradesForAnalysis: 10,
+    lotMatchingMethod: 'fifo' as LotMatchingMethod, // How closing fills are paired with open lots
+    // Session boundaries used to bucket trades into trading days
+    tradingDayBoundaries: {
+      stocks: { timeZone: 'America/New_York', rollHour: 0 },
+      etfs: { timeZone: 'America/New_York', rollHour: 0 },
+      forex: { timeZone: 'America/New_York', rollHour: 17 }, // Forex rolls at 5pm New York
+      commodities: { timeZone: 'America/New_York', rollHour: 18 }, // Globex reopens at 6pm
+      options: { timeZone: 'America/New_York', rollHour: 0 },
+      futures: { timeZone: 'America/New_York', rollHour: 18 },
+      cash: { timeZone: 'UTC', rollHour: 0 },
+    } as TradingDayBoundaries,
     reanalysisThreshold: 10, // Re-analyze every N trades
     cacheDurationMs: 5 * 60 * 1000, // 5 minutes
   },
@@ -82,6 +178,15 @@ export const tradableSymbols = {
     { symbol: 'SILVER', name: 'Silver' },
     { symbol: 'OIL', name: 'Crude Oil' },
   ],
+  // Continuous front-month contracts (see lib/services/contracts.ts)
+  futures: [
+    { symbol: '/MES', name: 'Micro E-mini S&P 500' },
+    { symbol: '/MNQ', name: 'Micro E-mini Nasdaq-100' },
+    { symbol: '/MYM', name: 'Micro E-mini Dow' },
+    { symbol: '/M2K', name: 'Micro E-mini Russell 2000' },
+    { symbol: '/MGC', name: 'Micro Gold' },
+    { symbol: '/MCL', name: 'Micro WTI Crude Oil' },
+  ],
 };
 
 // Fallback prices for demo/offline mode
@@ -118,6 +223,12 @@ export const fallbackPrices: Record<string, number> = {
   'GOLD': 2875.50,
   'SILVER': 32.50,
   'OIL': 71.25,
+  '/MES': 6050.00,
+  '/MNQ': 21500.00,
+  '/MYM': 44000.00,
+  '/M2K': 2280.00,
+  '/MGC': 2900.00,
+  '/MCL': 71.25,
 };
 
 // Get price helper
@@ -132,6 +243,7 @@ export const getAllAssets = () => {
     ...tradableSymbols.forex.map(s => ({ ...s, type: 'forex' as const })),
     ...tradableSymbols.etfs.map(s => ({ ...s, type: 'etfs' as const })),
     ...tradableSymbols.commodities.map(s => ({ ...s, type: 'commodities' as const })),
+    ...tradableSymbols.futures.map(s => ({ ...s, type: 'futures' as const })),
   ];
 };
 
@@ -0,0 +1,96 @@
+// Broker Fee Schedules
+// Built-in pricing profiles. Rates are the published retail schedules at the
+// time of writing; regulatory rates change a few times a year.
+
+import { FeeSchedule } from '@/types';
+import { config } from '@/constants/config';
+
+export const feeSchedules: Record<string, FeeSchedule> = {
+  flat: {
+    id: 'flat',
+    name: 'Flat 0.1%',
+    description: '0.1% of every trade (the app default)',
+    percentage: config.trading.defaultFeeRate,
+  },
+  commission_free: {
+    id: 'commission_free',
+    name: 'Commission-free (US)',
+    description: 'No commission; SEC and FINRA TAF fees on sells',
+    secFeeRate: 0.0000278,
+    tafPerUnit: 0.000166,
+    tafMaxPerOrder: 8.30,
+  },
+  ibkr_fixed: {
+    id: 'ibkr_fixed',
+    name: 'Interactive Brokers Fixed',
+    description: '$0.005/share, $1 minimum, capped at 1% of trade value',
+    perUnit: 0.005,
+    minPerOrder: 1,
+    maxPercentOfNotional: 0.01,
+  },
+  ibkr_tiered: {
+    id: 'ibkr_tiered',
+    name: 'Interactive Brokers Tiered',
+    description: 'Per-share rate falls with monthly volume, plus exchange and regulatory fees',
+    tiers: [
+      { fromVolume: 0, perUnit: 0.0035 },
+      { fromVolume: 300_000, perUnit: 0.002 },
+      { fromVolume: 3_000_000, perUnit: 0.0015 },
+      { fromVolume: 20_000_000, perUnit: 0.001 },
+      { fromVolume: 100_000_000, perUnit: 0.0005 },
+    ],
+    tierVolume: 'units',
+    minPerOrder: 0.35,
+    maxPercentOfNotional: 0.01,
+    exchangePerUnit: 0.003,
+    secFeeRate: 0.0000278,
+    tafPerUnit: 0.000166,
+    tafMaxPerOrder: 8.30,
+  },
+  questrade: {
+    id: 'questrade',
+    name: 'Questrade',
+    description: '1¢/share, $4.95 minimum, $9.95 maximum per order',
+    perUnit: 0.01,
+    minPerOrder: 4.95,
+    maxPerOrder: 9.95,
+  },
+  options_per_contract: {
+    id: 'options_per_contract',
+    name: 'Options $0.65/contract',
+    description: '$0.65 per contract, $1 minimum, plus SEC fees on sells',
+    perUnit: 0.65,
+    minPerOrder: 1,
+    secFeeRate: 0.0000278,
+  },
+  futures_per_contract: {
+    id: 'futures_per_contract',
+    name: 'Futures $0.85/contract',
+    description: '$0.85 per contract plus about $0.35 exchange and clearing fees',
+    perUnit: 0.85,
+    exchangePerUnit: 0.35,
+  },
+  forex_spread: {
+    id: 'forex_spread',
+    name: 'Forex spread (1.2 pips)',
+    description: 'No commission; the cost is the bid/ask spread',
+    spreadPips: 1.2,
+  },
+  forex_ecn: {
+    id: 'forex_ecn',
+    name: 'Forex ECN',
+    description: '0.2 pip raw spread plus 0.003% commission per side',
+    spreadPips: 0.2,
+    percentage: 0.00003,
+  },
+};
+
+export const getFeeSchedule = (id: string): FeeSchedule => {
+  return feeSchedules[id] || feeSchedules[config.trading.defaultFeeSchedule];
+};
+
+export const getAllFeeSchedules = (): FeeSchedule[] => {
+  return Object.values(feeSchedules);
+};
+
+export default feeSchedules;
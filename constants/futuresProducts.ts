@@ -0,0 +1,27 @@
+// Futures Products
+// CME listings the app recognises in symbols such as "MESZ4" or "/MES".
+// Margins are approximate exchange minimums; brokers set their own and both
+// move with volatility.
+
+import { FuturesProduct } from '@/types';
+
+export const futuresProducts: Record<string, FuturesProduct> = {
+  ES: { root: 'ES', name: 'E-mini S&P 500', multiplier: 50, tickSize: 0.25, months: 'HMUZ', initialMargin: 22000 },
+  MES: { root: 'MES', name: 'Micro E-mini S&P 500', multiplier: 5, tickSize: 0.25, months: 'HMUZ', initialMargin: 2200 },
+  NQ: { root: 'NQ', name: 'E-mini Nasdaq-100', multiplier: 20, tickSize: 0.25, months: 'HMUZ', initialMargin: 32000 },
+  MNQ: { root: 'MNQ', name: 'Micro E-mini Nasdaq-100', multiplier: 2, tickSize: 0.25, months: 'HMUZ', initialMargin: 3200 },
+  YM: { root: 'YM', name: 'E-mini Dow', multiplier: 5, tickSize: 1, months: 'HMUZ', initialMargin: 15000 },
+  MYM: { root: 'MYM', name: 'Micro E-mini Dow', multiplier: 0.5, tickSize: 1, months: 'HMUZ', initialMargin: 1500 },
+  RTY: { root: 'RTY', name: 'E-mini Russell 2000', multiplier: 50, tickSize: 0.1, months: 'HMUZ', initialMargin: 10000 },
+  M2K: { root: 'M2K', name: 'Micro E-mini Russell 2000', multiplier: 5, tickSize: 0.1, months: 'HMUZ', initialMargin: 1000 },
+  CL: { root: 'CL', name: 'Crude Oil', multiplier: 1000, tickSize: 0.01, months: 'FGHJKMNQUVXZ', initialMargin: 6000 },
+  MCL: { root: 'MCL', name: 'Micro WTI Crude Oil', multiplier: 100, tickSize: 0.01, months: 'FGHJKMNQUVXZ', initialMargin: 600 },
+  GC: { root: 'GC', name: 'Gold', multiplier: 100, tickSize: 0.1, months: 'GJMQVZ', initialMargin: 12000 },
+  MGC: { root: 'MGC', name: 'Micro Gold', multiplier: 10, tickSize: 0.1, months: 'GJMQVZ', initialMargin: 1200 },
+};
+
+export const getFuturesProduct = (root: string): FuturesProduct | undefined => {
+  return futuresProducts[root.toUpperCase()];
+};
+
+export default futuresProducts;
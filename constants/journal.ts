@@ -0,0 +1,38 @@
+// Trade Journal Options
+// Emotions and mistake categories offered when writing and reviewing entries.
+
+import { JournalEmotion, MistakeCategory } from '@/types';
+
+export const journalEmotions: Record<JournalEmotion, { label: string; icon: string }> = {
+  calm: { label: 'Calm', icon: '😌' },
+  confident: { label: 'Confident', icon: '💪' },
+  excited: { label: 'Excited', icon: '🤩' },
+  anxious: { label: 'Anxious', icon: '😬' },
+  fearful: { label: 'Fearful', icon: '😨' },
+  frustrated: { label: 'Frustrated', icon: '😤' },
+  bored: { label: 'Bored', icon: '🥱' },
+  greedy: { label: 'Greedy', icon: '🤑' },
+};
+
+export const mistakeCategories: Record<MistakeCategory, string> = {
+  none: 'No mistake',
+  entered_early: 'Entered too early',
+  entered_late: 'Entered too late',
+  oversized: 'Position too big',
+  no_stop: 'No stop',
+  moved_stop: 'Moved the stop',
+  exited_early: 'Exited too early',
+  held_too_long: 'Held too long',
+  chased: 'Chased the price',
+  revenge: 'Revenge trade',
+};
+
+export const getAllEmotions = (): JournalEmotion[] => {
+  return Object.keys(journalEmotions) as JournalEmotion[];
+};
+
+export const getAllMistakeCategories = (): MistakeCategory[] => {
+  return Object.keys(mistakeCategories) as MistakeCategory[];
+};
+
+export default journalEmotions;
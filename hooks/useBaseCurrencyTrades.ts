@@ -0,0 +1,28 @@
+'use client';
+
+import { useMemo } from 'react';
+import { shallow } from 'zustand/shallow';
+import { Trade } from '@/types';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { convertTradesToBase, CurrencyConversionResult } from '@/lib/services/currencyConverter';
+
+/**
+ * Trades restated in the user's base currency at trade-time rates, for
+ * anything that sums prices, fees or P&L across symbols
+ */
+export function useBaseCurrencyTrades(trades: Trade[]): CurrencyConversionResult {
+  const { baseCurrency, fxRates } = useSettingsStore(
+    (state) => ({
+      baseCurrency: state.baseCurrency,
+      fxRates: state.fxRates,
+    }),
+    shallow
+  );
+
+  return useMemo(
+    () => convertTradesToBase(trades, { baseCurrency, rates: fxRates }),
+    [trades, baseCurrency, fxRates]
+  );
+}
+
+export default useBaseCurrencyTrades;
@@ -3,7 +3,9 @@
 import { useMemo } from 'react';
 import { shallow } from 'zustand/shallow';
 import { usePortfolioStore } from '@/lib/stores/portfolioStore';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
 import { BehaviorReport, computeBehaviorReport } from '@/lib/services/behaviorReport';
+import useBaseCurrencyTrades from '@/hooks/useBaseCurrencyTrades';
 
 interface BehaviorInputs {
   tradesCount: number;
@@ -17,21 +19,34 @@ interface UseBehaviorReportResult {
 }
 
 export function useBehaviorReport(): UseBehaviorReportResult {
-  const { trades, positions } = usePortfolioStore(
+  const { trades, positions, portfolioHistory, cashDeposits, journal } = usePortfolioStore(
     (state) => ({
       trades: state.trades,
       positions: state.positions,
+      portfolioHistory: state.portfolioHistory,
+      cashDeposits: state.cashDeposits,
+      journal: state.journal,
     }),
     shallow
   );
+  const tradingDayBoundaries = useSettingsStore((state) => state.tradingDayBoundaries);
+  const { trades: baseTrades, baseCurrency } = useBaseCurrencyTrades(trades);
 
   const report = useMemo(() => {
     // Recompute only when trading-relevant slices change.
     if (trades.length === 0 && positions.length === 0) {
       return undefined;
     }
-    return computeBehaviorReport({ trades, positions });
-  }, [trades, positions]);
+    return computeBehaviorReport({
+      trades: baseTrades,
+      positions,
+      tradingDayBoundaries,
+      baseCurrency,
+      equityHistory: portfolioHistory,
+      deposits: cashDeposits,
+      journal,
+    });
+  }, [baseTrades, positions, tradingDayBoundaries, baseCurrency, portfolioHistory, cashDeposits, journal]);
 
   return {
     report,
@@ -1,5 +1,9 @@
-import { BiasDetection, Position, Trade } from '@/types';
+import { BiasDetection, CashDeposit, JournalEntry, Position, Trade, TradingDayBoundaries } from '@/types';
 import { analyzeBiases } from '@/lib/services/biasDetector';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { totalFxPnl } from '@/lib/services/currencyConverter';
+import { computePerformance, EquityPoint, PerformanceMetrics } from '@/lib/services/performanceAnalytics';
+import { config } from '@/constants/config';
 
 export interface BehaviorHighlights {
   topConcerns: BiasDetection[];
@@ -14,11 +18,19 @@ export interface BehaviorReport {
   disciplineScore: number;
   biases: BiasDetection[];
   highlights: BehaviorHighlights;
+  baseCurrency: string;
+  fxPnl: number; // Realized P&L from exchange rate moves, in baseCurrency
+  performance: PerformanceMetrics; // Returns are in the account currency, trade statistics in baseCurrency
 }
 
 export interface ComputeBehaviorReportInput {
   trades: Trade[];
   positions?: Position[];
+  tradingDayBoundaries?: TradingDayBoundaries;
+  baseCurrency?: string; // Currency the trades were converted to
+  equityHistory?: EquityPoint[];
+  deposits?: CashDeposit[];
+  journal?: JournalEntry[]; // Planned stops, for R-multiples
 }
 
 function buildGoldenEraMessage(
@@ -42,8 +54,17 @@ function buildGoldenEraMessage(
 }
 
 export function computeBehaviorReport(input: ComputeBehaviorReportInput): BehaviorReport {
-  const { trades, positions = [] } = input;
-  const analysis = analyzeBiases(trades, positions);
+  const {
+    trades,
+    positions = [],
+    tradingDayBoundaries,
+    baseCurrency = config.currency.baseCurrency,
+    equityHistory = [],
+    deposits = [],
+    journal = [],
+  } = input;
+  const roundTrips = buildRoundTrips(trades);
+  const analysis = analyzeBiases(trades, positions, roundTrips, tradingDayBoundaries, baseCurrency);
   const sortedBiases = [...analysis.biases].sort((a, b) => {
     if (b.score !== a.score) return b.score - a.score;
     return a.id.localeCompare(b.id);
@@ -64,6 +85,9 @@ export function computeBehaviorReport(input: ComputeBehaviorReportInput): Behavi
       highCount,
       message: buildGoldenEraMessage(analysis.disciplineScore, criticalCount, highCount),
     },
+    baseCurrency,
+    fxPnl: totalFxPnl(roundTrips),
+    performance: computePerformance({ history: equityHistory, deposits, roundTrips, trades, journal }),
   };
 }
 
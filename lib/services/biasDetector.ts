@@ -3,7 +3,12 @@
 // Bonaparte & Cooper (2025), Kahneman & Tversky, Gervais & Odean (2001),
 // Schnytzer & Westreich (2015), Statman (1987)
 
-import { Trade, BiasDetection, BiasType, Severity, Position } from '@/types';
+import { Trade, BiasDetection, BiasType, Severity, Position, RoundTrip, TradingDayBoundaries } from '@/types';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { notionalExposure, positionExposure, tradeLeverage, underlyingOf } from '@/lib/services/contracts';
+import { getTradingDayForAsset } from '@/lib/utils/timezone';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { config } from '@/constants/config';
 
 // ============================================
 // Types
@@ -27,23 +32,23 @@ function getSeverity(score: number): Severity {
   return 'low';
 }
 
-function groupTradesByDay(trades: Trade[]): Map<string, Trade[]> {
+// Buckets by each asset class's trading day, not the viewer's calendar day
+function groupTradesByDay(trades: Trade[], boundaries: TradingDayBoundaries): Map<string, Trade[]> {
   const groups = new Map<string, Trade[]>();
   for (const trade of trades) {
-    const day = trade.timestamp.split('T')[0];
+    const day = getTradingDayForAsset(trade.timestamp, trade.asset_type, boundaries);
     if (!groups.has(day)) groups.set(day, []);
     groups.get(day)!.push(trade);
   }
   return groups;
 }
 
-function groupTradesBySymbol(trades: Trade[]): Map<string, Trade[]> {
-  const groups = new Map<string, Trade[]>();
-  for (const trade of trades) {
-    if (!groups.has(trade.symbol)) groups.set(trade.symbol, []);
-    groups.get(trade.symbol)!.push(trade);
-  }
-  return groups;
+// Parse each timestamp once instead of inside the comparator
+function sortChronologically(trades: Trade[]): Trade[] {
+  return trades
+    .map(trade => ({ trade, time: new Date(trade.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time)
+    .map(entry => entry.trade);
 }
 
 function daysBetween(date1: string, date2: string): number {
@@ -58,10 +63,6 @@ function minutesBetween(date1: string, date2: string): number {
   return Math.abs(d2.getTime() - d1.getTime()) / (1000 * 60);
 }
 
-function hoursBetween(date1: string, date2: string): number {
-  return minutesBetween(date1, date2) / 60;
-}
-
 function stableHash(input: string): string {
   let hash = 5381;
   for (let i = 0; i < input.length; i++) {
@@ -128,12 +129,16 @@ function buildDeterministicBiasId(
 // Key finding: Top quintile trades 258% annually, underperforms by 6.5%
 // ============================================
 
-function detectOvertrading(trades: Trade[]): DetectionResult {
+function detectOvertrading(
+  trades: Trade[],
+  roundTrips: RoundTrip[],
+  boundaries: TradingDayBoundaries
+): DetectionResult {
   if (trades.length < 3) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const tradesByDay = groupTradesByDay(trades);
+  const tradesByDay = groupTradesByDay(trades, boundaries);
   const dailyCounts = Array.from(tradesByDay.values()).map(t => t.length);
   const avgDailyTrades = dailyCounts.reduce((a, b) => a + b, 0) / dailyCounts.length;
   const maxDailyTrades = Math.max(...dailyCounts);
@@ -145,23 +150,10 @@ function detectOvertrading(trades: Trade[]): DetectionResult {
   const estimatedPortfolioValue = avgTradeValue * 10; // Assume ~10 position portfolio
   const annualTurnover = (totalTradedValue / estimatedPortfolioValue) * (365 / Math.max(tradingDays, 1));
 
-  // Calculate short holding periods
-  const symbolTrades = groupTradesBySymbol(trades);
-  let shortHolds = 0;
-  let totalRoundTrips = 0;
-
-  for (const [, symTrades] of symbolTrades) {
-    const sorted = [...symTrades].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    for (let i = 1; i < sorted.length; i++) {
-      if (sorted[i - 1].action === 'BUY' && sorted[i].action === 'SELL') {
-        totalRoundTrips++;
-        const holdHours = hoursBetween(sorted[i - 1].timestamp, sorted[i].timestamp);
-        if (holdHours < 4) shortHolds++;
-      }
-    }
-  }
+  // Calculate short holding periods from lot-matched round trips
+  const timedTrips = roundTrips.filter(rt => rt.holding_minutes !== null);
+  const totalRoundTrips = timedTrips.length;
+  const shortHolds = timedTrips.filter(rt => (rt.holding_minutes as number) / 60 < 4).length;
 
   const pctShortHolds = totalRoundTrips > 0 ? (shortHolds / totalRoundTrips) * 100 : 0;
 
@@ -219,44 +211,42 @@ function detectOvertrading(trades: Trade[]): DetectionResult {
 // Key indicators: Avg loss > Avg win, letting losses run, cutting winners early
 // ============================================
 
-function detectLossAversion(trades: Trade[]): DetectionResult {
-  if (trades.length < 5) {
+function detectLossAversion(roundTrips: RoundTrip[], currency: string): DetectionResult {
+  if (roundTrips.length < 5) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  // Separate winning and losing trades
-  const winners = trades.filter(t => (t.pnl || 0) > 0);
-  const losers = trades.filter(t => (t.pnl || 0) < 0);
-  const affectedTrades: string[] = losers.map(t => t.id);
+  // Separate winning and losing round trips
+  const winners = roundTrips.filter(rt => rt.pnl > 0);
+  const losers = roundTrips.filter(rt => rt.pnl < 0);
+  const affectedTrades: string[] = losers.map(rt => rt.exit.trade_ids[0]);
 
   if (winners.length === 0 || losers.length === 0) {
     return { score: 15, evidence: {}, intervention: 'Not enough mixed results to analyze.', affectedTrades: [] };
   }
 
   // Calculate average win and loss sizes
-  const avgWin = winners.reduce((sum, t) => sum + (t.pnl || 0), 0) / winners.length;
-  const avgLoss = Math.abs(losers.reduce((sum, t) => sum + (t.pnl || 0), 0) / losers.length);
+  const avgWin = winners.reduce((sum, rt) => sum + rt.pnl, 0) / winners.length;
+  const avgLoss = Math.abs(losers.reduce((sum, rt) => sum + rt.pnl, 0) / losers.length);
 
   // Loss/Win ratio - loss aversion means avg loss > avg win (letting losses run)
   const lossWinRatio = avgWin > 0 ? avgLoss / avgWin : 0;
 
   // Win rate
-  const winRate = (winners.length / trades.length) * 100;
+  const winRate = (winners.length / roundTrips.length) * 100;
 
   // Calculate largest loss vs largest win
-  const maxWin = winners.reduce((max, t) => (t.pnl || 0) > max ? (t.pnl || 0) : max, 0);
-  const maxLoss = Math.abs(losers.reduce((min, t) => (t.pnl || 0) < min ? (t.pnl || 0) : min, 0));
+  const maxWin = winners.reduce((max, rt) => rt.pnl > max ? rt.pnl : max, 0);
+  const maxLoss = Math.abs(losers.reduce((min, rt) => rt.pnl < min ? rt.pnl : min, 0));
   const maxLossWinRatio = maxWin > 0 ? maxLoss / maxWin : 0;
 
   // Consecutive loss behavior - do they let losing streaks continue?
   let maxLossStreak = 0;
   let currentLossStreak = 0;
-  const sortedTrades = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
   
-  for (const trade of sortedTrades) {
-    if ((trade.pnl || 0) < 0) {
+  // Round trips arrive ordered by exit time
+  for (const trip of roundTrips) {
+    if (trip.pnl < 0) {
       currentLossStreak++;
       maxLossStreak = Math.max(maxLossStreak, currentLossStreak);
     } else {
@@ -264,6 +254,23 @@ function detectLossAversion(trades: Trade[]): DetectionResult {
     }
   }
 
+  // Paper exits record whether a bracket stop or the trader closed them.
+  // Losses a stop took were cut on plan; ones closed by hand show how far
+  // losses run without one.
+  const plannedLosers = losers.filter(rt => rt.exit_plan === 'bracket');
+  const discretionaryLosers = losers.filter(rt => rt.exit_plan === 'discretionary');
+  const hasExitPlans = plannedLosers.length + discretionaryLosers.length > 0;
+  const avgPlannedLoss = plannedLosers.length > 0
+    ? Math.abs(plannedLosers.reduce((sum, rt) => sum + rt.pnl, 0) / plannedLosers.length)
+    : 0;
+  const avgDiscretionaryLoss = discretionaryLosers.length > 0
+    ? Math.abs(discretionaryLosers.reduce((sum, rt) => sum + rt.pnl, 0) / discretionaryLosers.length)
+    : 0;
+  const pctLossesPlanned = hasExitPlans
+    ? (plannedLosers.length / (plannedLosers.length + discretionaryLosers.length)) * 100
+    : 0;
+  const overridesStops = plannedLosers.length > 0 && avgDiscretionaryLoss >= avgPlannedLoss * 1.5;
+
   // Loss aversion scoring:
   // - High avg loss vs avg win = letting losses run
   // - Low win rate with high loss/win ratio = classic loss aversion
@@ -290,18 +297,26 @@ function detectLossAversion(trades: Trade[]): DetectionResult {
   // Loss streak behavior
   if (maxLossStreak >= 5) score += 10;
 
+  // Losses closed by hand run well past the planned stops
+  if (overridesStops) score += 10;
+
   score = Math.min(100, score);
 
   let intervention = '';
   if (score >= 75) {
-    intervention = `Critical loss aversion: Avg loss ($${avgLoss.toFixed(0)}) is ${lossWinRatio.toFixed(1)}x larger than avg win ($${avgWin.toFixed(0)}). You're letting losses run while cutting winners early. Set strict stop-losses.`;
+    intervention = `Critical loss aversion: Avg loss (${formatCurrency(avgLoss, { currency, decimals: 0 })}) is ${lossWinRatio.toFixed(1)}x larger than avg win (${formatCurrency(avgWin, { currency, decimals: 0 })}). You're letting losses run while cutting winners early. Set strict stop-losses.`;
   } else if (score >= 50) {
-    intervention = `Moderate loss aversion detected. Avg loss ($${avgLoss.toFixed(0)}) exceeds avg win ($${avgWin.toFixed(0)}). Consider tighter stop-losses.`;
+    intervention = `Moderate loss aversion detected. Avg loss (${formatCurrency(avgLoss, { currency, decimals: 0 })}) exceeds avg win (${formatCurrency(avgWin, { currency, decimals: 0 })}). Consider tighter stop-losses.`;
   } else if (score >= 25) {
     intervention = `Mild loss aversion tendency. Monitor your loss sizes carefully.`;
   } else {
     intervention = 'Good balance between wins and losses.';
   }
+  if (overridesStops) {
+    intervention += ` Losses you closed by hand averaged ${formatCurrency(avgDiscretionaryLoss, { currency, decimals: 0 })} against ${formatCurrency(avgPlannedLoss, { currency, decimals: 0 })} at your bracket stops.`;
+  } else if (hasExitPlans && plannedLosers.length === 0 && score >= 50) {
+    intervention += ' None of your losing exits were planned: attach a stop-loss when you enter.';
+  }
 
   return {
     score,
@@ -313,6 +328,11 @@ function detectLossAversion(trades: Trade[]): DetectionResult {
       max_win: Number(maxWin.toFixed(2)),
       max_loss: Number(maxLoss.toFixed(2)),
       max_loss_streak: maxLossStreak,
+      ...(hasExitPlans ? {
+        pct_losses_planned_exit: Number(pctLossesPlanned.toFixed(1)),
+        avg_planned_loss: Number(avgPlannedLoss.toFixed(2)),
+        avg_discretionary_loss: Number(avgDiscretionaryLoss.toFixed(2)),
+      } : {}),
     },
     intervention,
     affectedTrades,
@@ -326,15 +346,12 @@ function detectLossAversion(trades: Trade[]): DetectionResult {
 // Thresholds: <30 min reentry + >30% size increase = revenge pattern
 // ============================================
 
-function detectRevengeTrading(trades: Trade[]): DetectionResult {
-  if (trades.length < 3) {
+// Expects trades in chronological order
+function detectRevengeTrading(sorted: Trade[]): DetectionResult {
+  if (sorted.length < 3) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const sorted = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
   const revengeInstances: {
     lossAmount: number;
     timeToReentry: number;
@@ -354,7 +371,7 @@ function detectRevengeTrading(trades: Trade[]): DetectionResult {
 
     if (isSignificantLoss || pnl < -50) { // $50 or 2% loss threshold
       const timeGap = minutesBetween(prevTrade.timestamp, currTrade.timestamp);
-      const sizeRatio = currTrade.total_value / prevTrade.total_value;
+      const sizeRatio = notionalExposure(currTrade) / notionalExposure(prevTrade);
 
       // Bonaparte thresholds: <30 min reentry, >30% size increase
       const rapidReentry = timeGap < 30;
@@ -422,20 +439,19 @@ function detectRevengeTrading(trades: Trade[]): DetectionResult {
 // 4. Disposition Effect Detector
 // Research: Odean (1998), Kim (2021)
 // Disposition effect: Taking small profits quickly, letting losses grow
-// For complete trades: compare win sizes vs loss sizes, and behavior after wins/losses
+// For complete trades: compare win sizes vs loss sizes, holding times, and behavior after wins/losses
 // ============================================
 
-function detectDispositionEffect(trades: Trade[]): DetectionResult {
-  if (trades.length < 5) {
+function detectDispositionEffect(roundTrips: RoundTrip[], currency: string): DetectionResult {
+  if (roundTrips.length < 5) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const sorted = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
+  // Round trips arrive ordered by exit time
+  const sorted = roundTrips;
 
-  const winners = trades.filter(t => (t.pnl || 0) > 0);
-  const losers = trades.filter(t => (t.pnl || 0) < 0);
+  const winners = roundTrips.filter(rt => rt.pnl > 0);
+  const losers = roundTrips.filter(rt => rt.pnl < 0);
   const affectedTrades: string[] = [];
 
   if (winners.length === 0 || losers.length === 0) {
@@ -443,8 +459,8 @@ function detectDispositionEffect(trades: Trade[]): DetectionResult {
   }
 
   // Average win size vs loss size
-  const avgWinSize = winners.reduce((sum, t) => sum + (t.pnl || 0), 0) / winners.length;
-  const avgLossSize = Math.abs(losers.reduce((sum, t) => sum + (t.pnl || 0), 0) / losers.length);
+  const avgWinSize = winners.reduce((sum, rt) => sum + rt.pnl, 0) / winners.length;
+  const avgLossSize = Math.abs(losers.reduce((sum, rt) => sum + rt.pnl, 0) / losers.length);
 
   // Disposition effect: Small wins, big losses
   // Ratio < 1 means wins are smaller than losses = disposition effect
@@ -458,22 +474,39 @@ function detectDispositionEffect(trades: Trade[]): DetectionResult {
     const curr = sorted[i];
     const next = sorted[i + 1];
     
-    if ((curr.pnl || 0) > 0) {
+    if (curr.pnl > 0) {
       totalWinFollowups++;
-      const timeBetween = minutesBetween(curr.timestamp, next.timestamp);
+      const timeBetween = minutesBetween(curr.exit.timestamp, next.exit.timestamp);
       // Quick trade after a win (within 5 minutes) suggests taking quick profits
       if (timeBetween < 5) {
         quickExitsAfterWin++;
-        affectedTrades.push(curr.id);
+        affectedTrades.push(curr.exit.trade_ids[0]);
       }
     }
   }
 
   const pctQuickAfterWin = totalWinFollowups > 0 ? (quickExitsAfterWin / totalWinFollowups) * 100 : 0;
 
-  // Check for profit taking pattern: many small wins
-  const smallWins = winners.filter(t => (t.pnl || 0) < avgWinSize * 0.5).length;
-  const pctSmallWins = (smallWins / winners.length) * 100;
+  // Check for profit taking pattern: many small wins. Wins a bracket
+  // take-profit closed were targeted before entry, so they don't count as
+  // cutting winners early.
+  const plannedWins = winners.filter(rt => rt.exit_plan === 'bracket').length;
+  const unplannedWinners = winners.filter(rt => rt.exit_plan !== 'bracket');
+  const smallWins = unplannedWinners.filter(rt => rt.pnl < avgWinSize * 0.5).length;
+  const pctSmallWins = unplannedWinners.length > 0 ? (smallWins / unplannedWinners.length) * 100 : 0;
+  const hasExitPlans = roundTrips.some(rt => rt.exit_plan !== undefined);
+  const pctWinsPlanned = (plannedWins / winners.length) * 100;
+
+  // Odean (1998): losers are held longer than winners
+  const timedWinners = winners.filter(rt => rt.holding_minutes !== null);
+  const timedLosers = losers.filter(rt => rt.holding_minutes !== null);
+  const avgWinnerHoldHours = timedWinners.length > 0
+    ? timedWinners.reduce((sum, rt) => sum + (rt.holding_minutes as number), 0) / timedWinners.length / 60
+    : 0;
+  const avgLoserHoldHours = timedLosers.length > 0
+    ? timedLosers.reduce((sum, rt) => sum + (rt.holding_minutes as number), 0) / timedLosers.length / 60
+    : 0;
+  const holdRatio = avgWinnerHoldHours > 0 ? avgLoserHoldHours / avgWinnerHoldHours : 0;
 
   // Scoring
   let score = 0;
@@ -493,11 +526,14 @@ function detectDispositionEffect(trades: Trade[]): DetectionResult {
   if (pctQuickAfterWin > 50) score += 20;
   else if (pctQuickAfterWin > 30) score += 10;
 
+  // Holding losers much longer than winners
+  if (holdRatio >= 1.5) score += 15;
+
   score = Math.min(100, score);
 
   let intervention = '';
   if (score >= 75) {
-    intervention = `Strong disposition effect: Avg win ($${avgWinSize.toFixed(0)}) is only ${(winLossRatio * 100).toFixed(0)}% of avg loss ($${avgLossSize.toFixed(0)}). Let winners run longer!`;
+    intervention = `Strong disposition effect: Avg win (${formatCurrency(avgWinSize, { currency, decimals: 0 })}) is only ${(winLossRatio * 100).toFixed(0)}% of avg loss (${formatCurrency(avgLossSize, { currency, decimals: 0 })}). Let winners run longer!`;
   } else if (score >= 50) {
     intervention = `Disposition effect detected: Taking profits too quickly. ${pctSmallWins.toFixed(0)}% of wins are below average.`;
   } else if (score >= 25) {
@@ -514,6 +550,9 @@ function detectDispositionEffect(trades: Trade[]): DetectionResult {
       win_loss_ratio: Number(winLossRatio.toFixed(2)),
       pct_small_wins: Number(pctSmallWins.toFixed(1)),
       pct_quick_after_win: Number(pctQuickAfterWin.toFixed(1)),
+      avg_winner_hold_hours: Number(avgWinnerHoldHours.toFixed(2)),
+      avg_loser_hold_hours: Number(avgLoserHoldHours.toFixed(2)),
+      ...(hasExitPlans ? { pct_wins_planned_exit: Number(pctWinsPlanned.toFixed(1)) } : {}),
     },
     intervention,
     affectedTrades,
@@ -527,18 +566,16 @@ function detectDispositionEffect(trades: Trade[]): DetectionResult {
 // Thresholds: >25% size increase during losing streak = escalation
 // ============================================
 
-function detectRiskEscalation(trades: Trade[]): DetectionResult {
-  if (trades.length < 4) {
+// Expects trades in chronological order
+function detectRiskEscalation(sorted: Trade[]): DetectionResult {
+  if (sorted.length < 4) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const sorted = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
   const escalationEvents: {
     streakLength: number;
     sizeIncreasePct: number;
+    leverage: number;
     tradeId: string;
   }[] = [];
 
@@ -556,17 +593,20 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
       if (currentStreak === 0) streakStartIdx = i;
       currentStreak++;
 
-      // Check for size escalation during streak (after 2+ losses)
+      // Check for size escalation during streak (after 2+ losses). Size is
+      // the exposure controlled, so cheap options or a few futures contracts
+      // can't hide an escalation behind a small premium or margin.
       if (currentStreak >= 2 && i > 0) {
-        const prevSize = sorted[i - 1].total_value;
-        const currSize = trade.total_value;
-        const sizeIncrease = ((currSize / prevSize) - 1) * 100;
+        const prevSize = notionalExposure(sorted[i - 1]);
+        const currSize = notionalExposure(trade);
+        const sizeIncrease = prevSize > 0 ? ((currSize / prevSize) - 1) * 100 : 0;
 
         // Schnytzer threshold: >25% increase during losing streak
         if (sizeIncrease > 25) {
           escalationEvents.push({
             streakLength: currentStreak,
             sizeIncreasePct: sizeIncrease,
+            leverage: tradeLeverage(trade),
             tradeId: trade.id,
           });
           affectedTrades.push(trade.id);
@@ -581,6 +621,14 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
   const maxEscalation = escalationEvents.length > 0
     ? Math.max(...escalationEvents.map(e => e.sizeIncreasePct))
     : 0;
+  const maxLeverage = Math.max(...escalationEvents.map(e => e.leverage), 1);
+
+  // Positions a margin call closed were carried on more leverage than the
+  // account could hold
+  const liquidations = sorted.filter(t => t.exit_plan === 'liquidation');
+  liquidations.forEach(t => {
+    if (!affectedTrades.includes(t.id)) affectedTrades.push(t.id);
+  });
 
   let score = 0;
   if (maxEscalation > 100) score = 95; // Doubling position = CRITICAL
@@ -588,6 +636,7 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
   else if (escalationEvents.length >= 2) score = 60;
   else if (escalationEvents.length >= 1) score = 40;
   else score = 10;
+  if (liquidations.length > 0) score = Math.min(100, score + 20);
 
   let intervention = '';
   if (score >= 90) {
@@ -599,6 +648,12 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
   } else {
     intervention = 'Good risk management during losing periods.';
   }
+  if (score >= 50 && maxLeverage > 1.5) {
+    intervention += ` These were leveraged positions (up to ${maxLeverage.toFixed(1)}x the capital put up).`;
+  }
+  if (liquidations.length > 0) {
+    intervention += ` ${liquidations.length} position${liquidations.length === 1 ? ' was' : 's were'} liquidated by a margin call: size so equity stays well above maintenance.`;
+  }
 
   return {
     score,
@@ -606,6 +661,8 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
       escalation_events: escalationEvents.length,
       max_size_increase_pct: Number(maxEscalation.toFixed(1)),
       longest_losing_streak: Math.max(...escalationEvents.map(e => e.streakLength), 0),
+      max_leverage: Number(maxLeverage.toFixed(1)),
+      ...(liquidations.length > 0 ? { margin_liquidations: liquidations.length } : {}),
     },
     intervention,
     affectedTrades,
@@ -618,15 +675,12 @@ function detectRiskEscalation(trades: Trade[]): DetectionResult {
 // Key finding: After 3+ wins, traders increase size 27% and frequency 18%
 // ============================================
 
-function detectOverconfidence(trades: Trade[]): DetectionResult {
-  if (trades.length < 5) {
+// Expects trades in chronological order
+function detectOverconfidence(sorted: Trade[]): DetectionResult {
+  if (sorted.length < 5) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const sorted = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
   const hotHandEpisodes: {
     streakLength: number;
     sizeIncreasePct: number;
@@ -637,7 +691,7 @@ function detectOverconfidence(trades: Trade[]): DetectionResult {
 
   // Track winning streaks
   let currentWinStreak = 0;
-  let baselineSize = sorted.slice(0, 3).reduce((sum, t) => sum + t.total_value, 0) / 3;
+  let baselineSize = sorted.slice(0, 3).reduce((sum, t) => sum + notionalExposure(t), 0) / 3;
 
   for (let i = 0; i < sorted.length; i++) {
     const trade = sorted[i];
@@ -648,7 +702,7 @@ function detectOverconfidence(trades: Trade[]): DetectionResult {
 
       // Gervais & Odean: Check for hot-hand behavior after 3+ wins
       if (currentWinStreak >= 3) {
-        const currentSize = trade.total_value;
+        const currentSize = notionalExposure(trade);
         const sizeIncrease = ((currentSize / baselineSize) - 1) * 100;
 
         // 27% threshold from research
@@ -723,16 +777,34 @@ function detectConcentration(trades: Trade[], positions: Position[]): DetectionR
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const totalValue = positions.reduce((sum, p) => sum + p.current_value, 0);
+  // Exposure per underlying: options and futures count at the value they
+  // control, not the premium or margin paid, and add to shares of the same name
+  const exposureByUnderlying = new Map<string, number>();
+  positions.forEach(p => {
+    const underlying = underlyingOf(p);
+    exposureByUnderlying.set(underlying, (exposureByUnderlying.get(underlying) || 0) + positionExposure(p));
+  });
+  const exposures = Array.from(exposureByUnderlying.entries());
+  const totalValue = exposures.reduce((sum, [, exposure]) => sum + exposure, 0);
+  if (totalValue <= 0) {
+    return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
+  }
   
   // Calculate market shares for HHI (Statman methodology)
-  const marketShares = positions.map(p => p.current_value / totalValue);
+  const marketShares = exposures.map(([, exposure]) => exposure / totalValue);
   
   // Herfindahl-Hirschman Index = Sum of squared market shares
   const hhi = marketShares.reduce((sum, share) => sum + share * share, 0);
 
   const maxAllocation = Math.max(...marketShares) * 100;
-  const topSymbol = positions.find(p => (p.current_value / totalValue) * 100 === maxAllocation)?.symbol || '';
+  const topSymbol = exposures[marketShares.indexOf(Math.max(...marketShares))][0];
+
+  // Exposure per dollar of position value; above 1 means options or futures
+  const capital = positions.reduce(
+    (sum, p) => sum + (p.asset_type === 'futures' ? p.margin ?? 0 : Math.abs(p.current_value)),
+    0
+  );
+  const exposureLeverage = capital > 0 ? totalValue / capital : 1;
 
   // Top 3 concentration
   const sortedShares = [...marketShares].sort((a, b) => b - a);
@@ -764,6 +836,8 @@ function detectConcentration(trades: Trade[], positions: Position[]): DetectionR
       top_symbol: topSymbol,
       top_3_concentration_pct: Number(top3Concentration.toFixed(1)),
       num_positions: positions.length,
+      num_underlyings: exposures.length,
+      exposure_leverage: Number(exposureLeverage.toFixed(2)),
     },
     intervention,
     affectedTrades: [],
@@ -776,29 +850,36 @@ function detectConcentration(trades: Trade[], positions: Position[]): DetectionR
 // Key finding: Most active traders have 6.5% annual fee drag
 // ============================================
 
-function detectFeeDrag(trades: Trade[]): DetectionResult {
+function detectFeeDrag(trades: Trade[], boundaries: TradingDayBoundaries): DetectionResult {
   if (trades.length === 0) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
   const totalFees = trades.reduce((sum, t) => sum + t.fees, 0);
-  const grossPnl = trades.reduce((sum, t) => sum + (t.pnl || 0), 0) + totalFees;
+  // Paper fills record what crossing the spread cost; it's already in their P&L
+  const totalSpreadCost = trades.reduce((sum, t) => sum + (t.spread_cost ?? 0), 0);
+  const totalCosts = totalFees + totalSpreadCost;
+  const grossPnl = trades.reduce((sum, t) => sum + (t.pnl || 0), 0) + totalCosts;
   const netPnl = trades.reduce((sum, t) => sum + (t.pnl || 0), 0);
 
   // Fee drag ratio (Barber & Odean methodology)
-  const feeDragRatio = grossPnl !== 0 ? (totalFees / Math.abs(grossPnl)) * 100 : 0;
+  const feeDragRatio = grossPnl !== 0 ? (totalCosts / Math.abs(grossPnl)) * 100 : 0;
 
   // Annualized fee drag estimate
-  const tradingDays = new Set(trades.map(t => t.timestamp.split('T')[0])).size;
+  const tradingDays = groupTradesByDay(trades, boundaries).size;
   const totalVolume = trades.reduce((sum, t) => sum + t.total_value, 0);
-  const annualizedFeeDrag = (totalFees / totalVolume) * (365 / Math.max(tradingDays, 1)) * 100;
+  const annualizedFeeDrag = (totalCosts / totalVolume) * (365 / Math.max(tradingDays, 1)) * 100;
 
   // Trades where fees exceeded profit
   const tradesWhereFeeExceededProfit = trades.filter(t => 
-    Math.abs(t.pnl || 0) < t.fees
+    Math.abs(t.pnl || 0) < t.fees + (t.spread_cost ?? 0)
   ).length;
   const pctTradesBelowFee = (tradesWhereFeeExceededProfit / trades.length) * 100;
 
+  // Fees the import estimated from the broker schedule rather than read from the file
+  const estimatedFeeTrades = trades.filter(t => t.fee_schedule).length;
+  const pctFeesEstimated = (estimatedFeeTrades / trades.length) * 100;
+
   // Scoring based on Barber & Odean thresholds
   let score = 0;
   if (feeDragRatio > 30 || annualizedFeeDrag > 5) score = 90; // Worse than top quintile
@@ -816,16 +897,24 @@ function detectFeeDrag(trades: Trade[]): DetectionResult {
   } else {
     intervention = 'Fee efficiency is good.';
   }
+  if (totalSpreadCost > 0) {
+    intervention += ` Spread and slippage account for ${((totalSpreadCost / totalCosts) * 100).toFixed(0)}% of your trading costs.`;
+  }
+  if (estimatedFeeTrades > 0) {
+    intervention += ` (Fees on ${pctFeesEstimated.toFixed(0)}% of trades are estimated from your broker fee schedule.)`;
+  }
 
   return {
     score,
     evidence: {
       total_fees: Number(totalFees.toFixed(2)),
+      total_spread_cost: Number(totalSpreadCost.toFixed(2)),
       gross_pnl: Number(grossPnl.toFixed(2)),
       net_pnl: Number(netPnl.toFixed(2)),
       fee_drag_ratio_pct: Number(feeDragRatio.toFixed(1)),
       annualized_fee_drag_pct: Number(annualizedFeeDrag.toFixed(2)),
       pct_trades_where_fees_exceeded_profit: Number(pctTradesBelowFee.toFixed(1)),
+      pct_fees_estimated: Number(pctFeesEstimated.toFixed(1)),
     },
     intervention,
     affectedTrades: [],
@@ -838,12 +927,11 @@ function detectFeeDrag(trades: Trade[]): DetectionResult {
 // Key finding: Round-trips within 7 days = churn, underperforms by 5.8%
 // ============================================
 
-function detectChurn(trades: Trade[]): DetectionResult {
+function detectChurn(trades: Trade[], roundTrips: RoundTrip[], currency: string): DetectionResult {
   if (trades.length < 4) {
     return { score: 0, evidence: {}, intervention: '', affectedTrades: [] };
   }
 
-  const symbolTrades = groupTradesBySymbol(trades);
   const churnInstances: {
     symbol: string;
     holdingDays: number;
@@ -852,38 +940,27 @@ function detectChurn(trades: Trade[]): DetectionResult {
   }[] = [];
 
   const affectedTrades: string[] = [];
-
-  for (const [symbol, symTrades] of symbolTrades) {
-    const sorted = [...symTrades].sort((a, b) => 
-      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    for (let i = 1; i < sorted.length; i++) {
-      const buyTrade = sorted[i - 1];
-      const sellTrade = sorted[i];
-      
-      if (buyTrade.action === 'BUY' && sellTrade.action === 'SELL') {
-        const holdingDays = daysBetween(buyTrade.timestamp, sellTrade.timestamp);
-        
-        // Barber & Odean: <7 days = churn
-        if (holdingDays < 7) {
-          const pnl = sellTrade.pnl || ((sellTrade.price - buyTrade.price) * buyTrade.quantity);
-          const fees = buyTrade.fees + sellTrade.fees;
-          
-          churnInstances.push({
-            symbol,
-            holdingDays,
-            pnl,
-            fees,
-          });
-          affectedTrades.push(sellTrade.id);
-        }
-      }
+  const churnTradeIds = new Set<string>();
+
+  for (const trip of roundTrips) {
+    if (trip.holding_minutes === null) continue;
+    const holdingDays = trip.holding_minutes / (60 * 24);
+
+    // Barber & Odean: <7 days = churn
+    if (holdingDays < 7) {
+      churnInstances.push({
+        symbol: trip.symbol,
+        holdingDays,
+        pnl: trip.gross_pnl,
+        fees: trip.fees,
+      });
+      [...trip.entry.trade_ids, ...trip.exit.trade_ids].forEach(id => churnTradeIds.add(id));
+      affectedTrades.push(trip.exit.trade_ids[0]);
     }
   }
 
   // Calculate churn metrics
-  const churnRate = trades.length > 0 ? (churnInstances.length / trades.length) * 100 : 0;
+  const churnRate = roundTrips.length > 0 ? (churnInstances.length / roundTrips.length) * 100 : 0;
   const avgChurnPnl = churnInstances.length > 0
     ? churnInstances.reduce((sum, c) => sum + c.pnl, 0) / churnInstances.length
     : 0;
@@ -901,7 +978,7 @@ function detectChurn(trades: Trade[]): DetectionResult {
 
   let intervention = '';
   if (score >= 75) {
-    intervention = `${churnRate.toFixed(0)}% of trades are churn (<7 day round-trips) losing avg $${Math.abs(avgChurnPnl).toFixed(0)}. Hold positions longer.`;
+    intervention = `${churnRate.toFixed(0)}% of trades are churn (<7 day round-trips) losing avg ${formatCurrency(Math.abs(avgChurnPnl), { currency, decimals: 0 })}. Hold positions longer.`;
   } else if (score >= 50) {
     intervention = `Significant churn detected (${churnRate.toFixed(0)}% quick flips). Extend holding periods.`;
   } else if (score >= 25) {
@@ -917,6 +994,11 @@ function detectChurn(trades: Trade[]): DetectionResult {
       churn_rate_pct: Number(churnRate.toFixed(1)),
       avg_churn_pnl: Number(avgChurnPnl.toFixed(2)),
       total_value_lost_to_churn: Number(totalValueLostToChurn.toFixed(2)),
+      // Paper fills only; each fill counted once even when split across trips
+      churn_spread_cost: Number(trades
+        .filter(t => churnTradeIds.has(t.id))
+        .reduce((sum, t) => sum + (t.spread_cost ?? 0), 0)
+        .toFixed(2)),
       avg_churn_holding_days: churnInstances.length > 0
         ? Number((churnInstances.reduce((sum, c) => sum + c.holdingDays, 0) / churnInstances.length).toFixed(1))
         : 0,
@@ -943,25 +1025,32 @@ export interface BiasAnalysisResult {
 
 export function analyzeBiases(
   trades: Trade[], 
-  positions: Position[] = []
+  positions: Position[] = [],
+  roundTrips: RoundTrip[] = buildRoundTrips(trades),
+  boundaries: TradingDayBoundaries = config.analysis.tradingDayBoundaries,
+  currency: string = config.currency.baseCurrency, // What trades' money fields are expressed in
+  onProgress?: (completed: number, total: number, biasType: BiasType) => void
 ): BiasAnalysisResult {
+  // Sorted once and shared by the sequence-based detectors
+  const chronological = sortChronologically(trades);
   const detectors: { type: BiasType; detect: () => DetectionResult }[] = [
-    { type: 'overtrading', detect: () => detectOvertrading(trades) },
-    { type: 'loss_aversion', detect: () => detectLossAversion(trades) },
-    { type: 'revenge_trading', detect: () => detectRevengeTrading(trades) },
-    { type: 'disposition_effect', detect: () => detectDispositionEffect(trades) },
-    { type: 'risk_escalation', detect: () => detectRiskEscalation(trades) },
-    { type: 'overconfidence', detect: () => detectOverconfidence(trades) },
+    { type: 'overtrading', detect: () => detectOvertrading(trades, roundTrips, boundaries) },
+    { type: 'loss_aversion', detect: () => detectLossAversion(roundTrips, currency) },
+    { type: 'revenge_trading', detect: () => detectRevengeTrading(chronological) },
+    { type: 'disposition_effect', detect: () => detectDispositionEffect(roundTrips, currency) },
+    { type: 'risk_escalation', detect: () => detectRiskEscalation(chronological) },
+    { type: 'overconfidence', detect: () => detectOverconfidence(chronological) },
     { type: 'concentration_bias', detect: () => detectConcentration(trades, positions) },
-    { type: 'fee_drag', detect: () => detectFeeDrag(trades) },
-    { type: 'churn', detect: () => detectChurn(trades) },
+    { type: 'fee_drag', detect: () => detectFeeDrag(trades, boundaries) },
+    { type: 'churn', detect: () => detectChurn(trades, roundTrips, currency) },
   ];
 
   const biases: BiasDetection[] = [];
+  const sessionId = trades[0]?.session_id ?? 'current'; // Trades analysed together share a session
   let totalScore = 0;
   const tradeById = new Map(trades.map(trade => [trade.id, trade]));
 
-  for (const { type, detect } of detectors) {
+  detectors.forEach(({ type, detect }, idx) => {
     const result = detect();
     totalScore += result.score;
 
@@ -970,7 +1059,7 @@ export function analyzeBiases(
       const deterministicId = buildDeterministicBiasId(type, symbol, result.evidence);
       biases.push({
         id: deterministicId,
-        session_id: 'current',
+        session_id: sessionId,
         bias_type: type,
         score: result.score,
         severity: getSeverity(result.score),
@@ -986,7 +1075,8 @@ export function analyzeBiases(
         detected_at: new Date().toISOString(),
       });
     }
-  }
+    onProgress?.(idx + 1, detectors.length, type);
+  });
 
   // Calculate discipline score (inverse of bias severity)
   const avgBiasScore = detectors.length > 0 ? totalScore / detectors.length : 0;
@@ -1,12 +1,22 @@
 import { BehaviorReport } from '@/lib/services/behaviorReport';
-import { Position, Trade } from '@/types';
+import { PerformanceMetrics } from '@/lib/services/performanceAnalytics';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { totalFxPnl } from '@/lib/services/currencyConverter';
+import { describeContract, positionExposure } from '@/lib/services/contracts';
+import { attachRoundTrips, emotionsByBias } from '@/lib/services/tradeJournal';
+import { getTradingDayForAsset } from '@/lib/utils/timezone';
+import { config } from '@/constants/config';
+import { GuardrailEvent, JournalEntry, Position, Trade, TradingDayBoundaries } from '@/types';
 
 export interface CoachTradingContext {
+  accountCurrency: string; // Cash, portfolio value and unrealized P&L
+  baseCurrency: string; // Trade prices, round trips and realized P&L
   cashBalance: number;
   totalPortfolioValue: number;
   unrealizedPnL: number;
   unrealizedPnLPercent: number;
   realizedPnL: number;
+  realizedFxPnL: number; // Share of realizedPnL from exchange rate moves
   positions: Array<{
     symbol: string;
     quantity: number;
@@ -16,6 +26,10 @@ export interface CoachTradingContext {
     pnl: number;
     pnlPercent: number;
     assetType: string;
+    currency: string; // avgCost and currentPrice are quoted in this currency
+    contract?: string; // Option or futures terms
+    exposure: number; // Underlying value controlled, in the account currency
+    side: 'long' | 'short';
   }>;
   trades: Array<{
     id: string;
@@ -25,7 +39,21 @@ export interface CoachTradingContext {
     price?: number;
     pnl?: number;
     timestamp: string;
+    tradingDay?: string; // YYYY-MM-DD in the asset's session calendar
     assetType?: string;
+    originalCurrency?: string; // Set when price and pnl were converted from it
+    contract?: string;
+  }>;
+  roundTrips: Array<{
+    symbol: string;
+    direction: string;
+    quantity: number;
+    entryPrice: number;
+    exitPrice: number;
+    pnl: number;
+    fxPnl?: number;
+    holdingMinutes: number | null;
+    exitTimestamp: string;
   }>;
   biases: Array<{
     bias_type: string;
@@ -33,6 +61,38 @@ export interface CoachTradingContext {
     severity: string;
     intervention: string;
   }>;
+  // Pre-trade warnings and whether the trader went ahead, newest first
+  guardrailEvents: Array<{
+    timestamp: string;
+    symbol: string;
+    action: string;
+    quantity: number;
+    rules: string[];
+    decision: 'overridden' | 'cancelled';
+  }>;
+  // Trade plans and reviews the trader wrote, newest first
+  journal: Array<{
+    createdAt: string;
+    symbol: string;
+    action: string;
+    setup: string;
+    thesis: string;
+    confidence: number;
+    emotion: string;
+    pnl: number | null; // Null until the trade closes
+    followedPlan?: boolean;
+    mistake?: string;
+    lesson?: string;
+  }>;
+  // How the trader felt on the trades each bias flagged
+  journalEmotionsByBias: Array<{
+    bias_type: string;
+    emotion: string;
+    count: number;
+    total: number;
+  }>;
+  // Risk-adjusted returns from equity history and per-trade statistics
+  performance: PerformanceMetrics | null;
   disciplineScore: number;
   totalTrades: number;
   winningTrades: number;
@@ -42,36 +102,56 @@ export interface CoachTradingContext {
 
 interface BuildCoachContextInput {
   report: BehaviorReport | undefined;
-  trades: Trade[];
+  trades: Trade[]; // Converted to baseCurrency
+  baseCurrency?: string;
   positions: Position[];
   cashBalance: number;
   totalValue: number;
   totalPnl: number;
   totalPnlPercent: number;
   tradeLimit?: number;
+  tradingDayBoundaries?: TradingDayBoundaries;
+  guardrailEvents?: GuardrailEvent[];
+  journal?: JournalEntry[];
+}
+
+// Spell out short-side fills so the coach doesn't read a short entry as an exit
+function describeAction(trade: Trade): string {
+  if (trade.position_effect === 'open_short') return 'SELL SHORT';
+  if (trade.position_effect === 'cover_short') return 'BUY TO COVER';
+  return trade.action;
 }
 
 export function buildCoachContext({
   report,
   trades,
+  baseCurrency = config.currency.baseCurrency,
   positions,
   cashBalance,
   totalValue,
   totalPnl,
   totalPnlPercent,
   tradeLimit = 15,
+  tradingDayBoundaries = config.analysis.tradingDayBoundaries,
+  guardrailEvents = [],
+  journal = [],
 }: BuildCoachContextInput): CoachTradingContext {
-  const winners = trades.filter((trade) => (trade.pnl || 0) > 0);
-  const losers = trades.filter((trade) => (trade.pnl || 0) < 0);
-  const realizedPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-  const winRate = trades.length > 0 ? (winners.length / trades.length) * 100 : 0;
+  // Win/loss stats are per closed round trip, not per execution
+  const roundTrips = buildRoundTrips(trades);
+  const winners = roundTrips.filter((trip) => trip.pnl > 0);
+  const losers = roundTrips.filter((trip) => trip.pnl < 0);
+  const realizedPnL = roundTrips.reduce((sum, trip) => sum + trip.pnl, 0);
+  const winRate = roundTrips.length > 0 ? (winners.length / roundTrips.length) * 100 : 0;
 
   return {
+    accountCurrency: config.currency.accountCurrency,
+    baseCurrency,
     cashBalance,
     totalPortfolioValue: totalValue,
     unrealizedPnL: totalPnl,
     unrealizedPnLPercent: totalPnlPercent,
     realizedPnL,
+    realizedFxPnL: totalFxPnl(roundTrips),
     positions: positions.map((position) => ({
       symbol: position.symbol,
       quantity: position.quantity,
@@ -81,16 +161,34 @@ export function buildCoachContext({
       pnl: position.pnl,
       pnlPercent: position.pnl_percent,
       assetType: position.asset_type,
+      currency: position.currency || config.currency.accountCurrency,
+      contract: position.contract ? describeContract(position.contract) : undefined,
+      exposure: positionExposure(position),
+      side: position.side ?? 'long',
     })),
     trades: trades.slice(0, tradeLimit).map((trade) => ({
       id: trade.id,
       symbol: trade.symbol,
-      action: trade.action,
+      action: describeAction(trade),
       quantity: trade.quantity,
       price: trade.price,
       pnl: trade.pnl,
       timestamp: trade.timestamp,
+      tradingDay: getTradingDayForAsset(trade.timestamp, trade.asset_type, tradingDayBoundaries),
       assetType: trade.asset_type,
+      originalCurrency: trade.original_currency,
+      contract: trade.contract ? describeContract(trade.contract) : undefined,
+    })),
+    roundTrips: roundTrips.slice(-tradeLimit).reverse().map((trip) => ({
+      symbol: trip.symbol,
+      direction: trip.direction,
+      quantity: trip.quantity,
+      entryPrice: trip.entry.price,
+      exitPrice: trip.exit.price,
+      pnl: trip.pnl,
+      fxPnl: trip.fx_pnl,
+      holdingMinutes: trip.holding_minutes,
+      exitTimestamp: trip.exit.timestamp,
     })),
     biases: (report?.biases || []).map((bias) => ({
       bias_type: bias.bias_type,
@@ -98,6 +196,34 @@ export function buildCoachContext({
       severity: bias.severity,
       intervention: bias.intervention,
     })),
+    guardrailEvents: guardrailEvents.slice(0, tradeLimit).map((event) => ({
+      timestamp: event.timestamp,
+      symbol: event.symbol,
+      action: event.action,
+      quantity: event.quantity,
+      rules: event.rules,
+      decision: event.decision,
+    })),
+    journal: attachRoundTrips(journal.slice(0, tradeLimit), roundTrips).map(({ entry, pnl }) => ({
+      createdAt: entry.created_at,
+      symbol: entry.symbol,
+      action: entry.action,
+      setup: entry.setup,
+      thesis: entry.thesis,
+      confidence: entry.confidence,
+      emotion: entry.emotion,
+      pnl,
+      followedPlan: entry.review?.followed_plan,
+      mistake: entry.review?.mistake,
+      lesson: entry.review?.lesson,
+    })),
+    journalEmotionsByBias: emotionsByBias(journal, report?.biases || []).map((row) => ({
+      bias_type: row.biasType,
+      emotion: row.emotion,
+      count: row.count,
+      total: row.total,
+    })),
+    performance: report?.performance ?? null,
     disciplineScore: report?.disciplineScore ?? 100,
     totalTrades: trades.length,
     winningTrades: winners.length,
@@ -0,0 +1,235 @@
+// Derivative Contracts
+// Options and futures are quoted per unit of the underlying but traded in
+// contracts, so money, P&L and exposure all go through the multiplier. The
+// terms come from the broker when it states them, else from the symbol: OCC
+// option symbols ("AAPL  240119C00190000") and CME futures codes ("MESZ4").
+
+import { ContractSpec, FuturesProduct, OptionType, Position, Trade } from '@/types';
+import { config } from '@/constants/config';
+import { getFuturesProduct } from '@/constants/futuresProducts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ParsedContract {
+  assetType: 'options' | 'futures';
+  contract: ContractSpec;
+}
+
+// CME month codes, January to December
+const MONTH_CODES = 'FGHJKMNQUVXZ';
+
+// OCC layout: root, YYMMDD, C/P, strike x 1000 in eight digits. Brokers also
+// drop the padding or write the strike plainly ("AAPL240119C190").
+const OPTION_PATTERN = /^\.?([A-Z]{1,6})\s*(\d{2})(\d{2})(\d{2})([CP])(\d+(?:\.\d+)?)$/;
+
+// Root, month code, then a 1, 2 or 4 digit year: "MESZ4", "/MESZ24", "MESZ2024"
+const FUTURES_PATTERN = /^\/?([A-Z0-9]{1,4}?)([FGHJKMNQUVXZ])(\d{1,2}|\d{4})$/;
+
+// "/MES" names the front month of a root
+const CONTINUOUS_PATTERN = /^\/([A-Z0-9]{1,4})$/;
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Equity options and index futures expire on the third Friday of the month.
+// Energy and metals stop trading a few days earlier; the date is only used
+// to tell contracts apart and find the front month.
+function thirdFriday(year: number, monthIndex: number): string {
+  const firstDay = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+  const firstFriday = 1 + ((5 - firstDay + 7) % 7);
+  return `${year}-${pad(monthIndex + 1)}-${pad(firstFriday + 14)}`;
+}
+
+// A one-digit year is its first occurrence on or after the trade: a contract
+// can't be traded after it expires
+function resolveFuturesYear(raw: string, tradedAt: Date): number {
+  if (raw.length === 4) return Number(raw);
+  if (raw.length === 2) return 2000 + Number(raw);
+  const tradeYear = tradedAt.getUTCFullYear();
+  let year = tradeYear - (tradeYear % 10) + Number(raw);
+  if (year < tradeYear) year += 10;
+  return year;
+}
+
+// ============================================
+// Contract Terms
+// ============================================
+
+export function optionContract(
+  underlying: string,
+  expiry: string,
+  strike: number,
+  optionType: OptionType,
+  multiplier: number = config.derivatives.optionMultiplier
+): ContractSpec {
+  const tickSize = config.derivatives.optionTickSize;
+  return {
+    underlying,
+    expiry,
+    multiplier,
+    tick_size: tickSize,
+    tick_value: tickSize * multiplier,
+    strike,
+    option_type: optionType,
+  };
+}
+
+export function futuresContract(product: FuturesProduct, year: number, monthIndex: number): ContractSpec {
+  return {
+    underlying: product.root,
+    expiry: thirdFriday(year, monthIndex),
+    multiplier: product.multiplier,
+    tick_size: product.tickSize,
+    tick_value: product.tickSize * product.multiplier,
+  };
+}
+
+// The nearest listed contract that hasn't expired; paper trading fills
+// continuous symbols against it
+export function frontMonthContract(root: string, now: Date = new Date()): ContractSpec | null {
+  const product = getFuturesProduct(root);
+  if (!product) return null;
+
+  const today = now.toISOString().split('T')[0];
+  for (let offset = 0; offset < 24; offset++) {
+    const year = now.getUTCFullYear() + Math.floor((now.getUTCMonth() + offset) / 12);
+    const monthIndex = (now.getUTCMonth() + offset) % 12;
+    if (!product.months.includes(MONTH_CODES[monthIndex])) continue;
+    const contract = futuresContract(product, year, monthIndex);
+    if (contract.expiry >= today) return contract;
+  }
+  return null;
+}
+
+// ============================================
+// Symbol Parsing
+// ============================================
+
+export function parseOptionSymbol(symbol: string): ContractSpec | null {
+  const match = symbol.trim().toUpperCase().match(OPTION_PATTERN);
+  if (!match) return null;
+
+  const [, underlying, yy, mm, dd, right, rawStrike] = match;
+  const month = Number(mm);
+  const day = Number(dd);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const strike = rawStrike.length === 8 && !rawStrike.includes('.') ? Number(rawStrike) / 1000 : Number(rawStrike);
+  if (!(strike > 0)) return null;
+
+  return optionContract(underlying, `20${yy}-${mm}-${dd}`, strike, right === 'C' ? 'call' : 'put');
+}
+
+// Only roots we list are recognised, so tickers that happen to end in a
+// month code and a digit stay stocks. tradedAt resolves one-digit years and
+// continuous symbols.
+export function parseFuturesSymbol(symbol: string, tradedAt: Date = new Date()): ContractSpec | null {
+  const normalized = symbol.trim().toUpperCase();
+
+  const continuous = normalized.match(CONTINUOUS_PATTERN);
+  if (continuous) return frontMonthContract(continuous[1], tradedAt);
+
+  const match = normalized.match(FUTURES_PATTERN);
+  if (!match) return null;
+  const product = getFuturesProduct(match[1]);
+  if (!product) return null;
+
+  return futuresContract(product, resolveFuturesYear(match[3], tradedAt), MONTH_CODES.indexOf(match[2]));
+}
+
+export function parseContractSymbol(symbol: string, tradedAt: Date = new Date()): ParsedContract | null {
+  const option = parseOptionSymbol(symbol);
+  if (option) return { assetType: 'options', contract: option };
+  const future = parseFuturesSymbol(symbol, tradedAt);
+  if (future) return { assetType: 'futures', contract: future };
+  return null;
+}
+
+// ============================================
+// Money and Exposure
+// ============================================
+
+export function getMultiplier(holder: { contract?: ContractSpec }): number {
+  return holder.contract?.multiplier ?? 1;
+}
+
+// What the fill is worth: premium for options, contract value for futures
+export function contractValue(quantity: number, price: number, contract?: ContractSpec): number {
+  return quantity * price * (contract?.multiplier ?? 1);
+}
+
+// Futures change hands for a margin deposit rather than their value
+export function initialMargin(contract: ContractSpec, price: number, quantity: number): number {
+  const perContract = getFuturesProduct(contract.underlying)?.initialMargin
+    ?? price * contract.multiplier * config.derivatives.futuresMarginRate;
+  return perContract * quantity;
+}
+
+// The underlying amount a fill controls: a future's contract value, an
+// option's shares at the strike (the one price every statement records), and
+// the traded value of anything else
+export function notionalExposure(trade: Trade): number {
+  if (trade.contract?.strike !== undefined) {
+    return trade.quantity * trade.contract.strike * trade.contract.multiplier;
+  }
+  return trade.total_value;
+}
+
+// Exposure per unit of capital committed: premium for options, margin for futures
+export function tradeLeverage(trade: Trade): number {
+  if (!trade.contract || trade.total_value <= 0) return 1;
+  const capital = trade.asset_type === 'futures'
+    ? initialMargin(trade.contract, trade.price, trade.quantity)
+    : trade.total_value;
+  return capital > 0 ? notionalExposure(trade) / capital : 1;
+}
+
+// Positions carry dollar values, so exposure is converted at the entry rate.
+// Shorts count by size: their value is negative.
+export function positionExposure(position: Position): number {
+  const usdRate = position.avg_usd_rate ?? 1;
+  if (position.contract?.strike !== undefined) {
+    return position.quantity * position.contract.strike * position.contract.multiplier * usdRate;
+  }
+  if (position.asset_type === 'futures') {
+    return position.quantity * position.current_price * getMultiplier(position) * usdRate;
+  }
+  return Math.abs(position.current_value);
+}
+
+// "AAPL 190 call expiring 2024-01-19 (x100)", "MES expiring 2024-12-20 (x5)"
+export function describeContract(contract: ContractSpec): string {
+  const terms = contract.option_type
+    ? `${contract.underlying} ${contract.strike} ${contract.option_type}`
+    : contract.underlying;
+  return `${terms} expiring ${contract.expiry} (x${contract.multiplier})`;
+}
+
+// Options on AAPL and AAPL shares are one bet
+export function underlyingOf(holder: { symbol: string; contract?: ContractSpec }): string {
+  return holder.contract?.underlying || holder.symbol;
+}
+
+export default {
+  optionContract,
+  futuresContract,
+  frontMonthContract,
+  parseOptionSymbol,
+  parseFuturesSymbol,
+  parseContractSymbol,
+  getMultiplier,
+  contractValue,
+  initialMargin,
+  notionalExposure,
+  tradeLeverage,
+  positionExposure,
+  describeContract,
+  underlyingOf,
+};
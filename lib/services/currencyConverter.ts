@@ -0,0 +1,221 @@
+// Currency Conversion
+// Prices, fees and P&L are recorded in the currency an instrument is quoted
+// in (yen for USD/JPY), so they can't be summed as they are. Trades are
+// converted to the user's base currency at the rate in force when they were
+// executed, with US dollars as the pivot between any two currencies.
+
+import { AssetType, FxRateEntry, RoundTrip, Trade } from '@/types';
+import { config, fallbackPrices } from '@/constants/config';
+import { getPrice } from '@/lib/services/priceService';
+
+// ============================================
+// Types
+// ============================================
+
+interface RateObservation {
+  time: number;
+  usdPerUnit: number;
+}
+
+// USD per unit of each currency over time, oldest first
+export interface FxRateTable {
+  series: Map<string, RateObservation[]>;
+}
+
+export interface CurrencyConversionOptions {
+  baseCurrency?: string;
+  rates?: FxRateEntry[]; // User-entered historical rates
+  prices?: Record<string, number>; // Live quotes; pairs fill in missing history
+}
+
+export interface CurrencyConversionResult {
+  trades: Trade[];
+  baseCurrency: string;
+  // Currencies no rate could be found for; their trades are left unconverted
+  missingCurrencies: string[];
+}
+
+const USD = 'USD';
+
+// ============================================
+// Currency Resolution
+// ============================================
+
+// "USD/JPY", "USDJPY" and "usd-jpy" all name the same pair
+export function parseCurrencyPair(symbol: string): { base: string; quote: string } | null {
+  const letters = symbol.toUpperCase().replace(/[\/\-_.\s]/g, '');
+  if (!/^[A-Z]{6}$/.test(letters)) return null;
+  return { base: letters.slice(0, 3), quote: letters.slice(3) };
+}
+
+// Forex pairs are priced in their quote currency; everything else we trade
+// is listed in the account currency
+export function getSymbolCurrency(symbol: string, assetType: AssetType): string {
+  if (assetType === 'forex') {
+    const pair = parseCurrencyPair(symbol);
+    if (pair) return pair.quote;
+  }
+  return config.currency.accountCurrency;
+}
+
+export function getTradeCurrency(trade: Trade): string {
+  return trade.currency || getSymbolCurrency(trade.symbol, trade.asset_type);
+}
+
+// ============================================
+// Spot Rates
+// ============================================
+
+function quoteFor(pair: string, prices?: Record<string, number>): number | null {
+  const quoted = prices?.[pair];
+  if (quoted && quoted > 0) return quoted;
+  // getPrice answers unknown symbols with a placeholder, so only ask for pairs we list
+  return pair in fallbackPrices ? getPrice(pair) : null;
+}
+
+// Current USD per unit of a currency, from live quotes or the price service
+export function getUsdRate(currency: string, prices?: Record<string, number>): number | null {
+  if (currency === USD) return 1;
+  const direct = quoteFor(`${currency}/${USD}`, prices);
+  if (direct) return direct;
+  const inverse = quoteFor(`${USD}/${currency}`, prices);
+  return inverse ? 1 / inverse : null;
+}
+
+// Units of `to` per unit of `from` right now
+export function getSpotRate(from: string, to: string, prices?: Record<string, number>): number | null {
+  if (from === to) return 1;
+  const fromUsd = getUsdRate(from, prices);
+  const toUsd = getUsdRate(to, prices);
+  return fromUsd && toUsd ? fromUsd / toUsd : null;
+}
+
+// ============================================
+// Historical Rates
+// ============================================
+
+function addObservation(table: FxRateTable, currency: string, time: number, usdPerUnit: number): void {
+  if (currency === USD || !isFinite(time) || !(usdPerUnit > 0) || !isFinite(usdPerUnit)) return;
+  const series = table.series.get(currency) || [];
+  series.push({ time, usdPerUnit });
+  table.series.set(currency, series);
+}
+
+// A pair quote with a USD leg tells us the other currency's USD rate
+function observePair(table: FxRateTable, symbol: string, time: number, rate: number): void {
+  const pair = parseCurrencyPair(symbol);
+  if (!pair) return;
+  if (pair.base === USD) addObservation(table, pair.quote, time, 1 / rate);
+  else if (pair.quote === USD) addObservation(table, pair.base, time, rate);
+}
+
+// Rates the user entered, plus the ones implied by the trades themselves:
+// a USD/JPY fill at 150 is a USD/JPY rate observation at that moment
+export function buildFxRateTable(entries: FxRateEntry[] = [], trades: Trade[] = []): FxRateTable {
+  const table: FxRateTable = { series: new Map() };
+
+  for (const entry of entries) {
+    observePair(table, entry.pair, new Date(`${entry.date}T00:00:00Z`).getTime(), entry.rate);
+  }
+  for (const trade of trades) {
+    const time = new Date(trade.timestamp).getTime();
+    if (trade.usd_rate) addObservation(table, getTradeCurrency(trade), time, trade.usd_rate);
+    if (trade.asset_type === 'forex') observePair(table, trade.symbol, time, trade.price);
+  }
+
+  table.series.forEach(series => series.sort((a, b) => a.time - b.time));
+  return table;
+}
+
+// The latest rate at or before the timestamp, else the earliest after it,
+// else today's spot rate
+export function lookupUsdRate(
+  table: FxRateTable,
+  currency: string,
+  timestamp: string,
+  prices?: Record<string, number>
+): number | null {
+  if (currency === USD) return 1;
+  const series = table.series.get(currency);
+  if (!series || series.length === 0) return getUsdRate(currency, prices);
+
+  const time = new Date(timestamp).getTime();
+  let low = 0;
+  let high = series.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].time <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return series[found >= 0 ? found : 0].usdPerUnit;
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+function scale(value: number | undefined, rate: number): number | undefined {
+  return value === undefined ? undefined : value * rate;
+}
+
+// Restates every trade's money fields in the base currency at its trade-time
+// rate. Quantities are untouched; fx_rate records the rate that was used.
+export function convertTradesToBase(
+  trades: Trade[],
+  options: CurrencyConversionOptions = {}
+): CurrencyConversionResult {
+  const baseCurrency = options.baseCurrency || config.currency.baseCurrency;
+  const table = buildFxRateTable(options.rates, trades);
+  const missing = new Set<string>();
+
+  const converted = trades.map(trade => {
+    const currency = getTradeCurrency(trade);
+    if (currency === baseCurrency) return trade;
+
+    const fromUsd = lookupUsdRate(table, currency, trade.timestamp, options.prices);
+    const toUsd = lookupUsdRate(table, baseCurrency, trade.timestamp, options.prices);
+    if (!fromUsd || !toUsd) {
+      missing.add(fromUsd ? baseCurrency : currency);
+      return trade;
+    }
+
+    const rate = fromUsd / toUsd;
+    return {
+      ...trade,
+      price: trade.price * rate,
+      total_value: trade.total_value * rate,
+      fees: trade.fees * rate,
+      pnl: scale(trade.pnl, rate),
+      exit_price: scale(trade.exit_price, rate),
+      quote_price: scale(trade.quote_price, rate),
+      spread_cost: scale(trade.spread_cost, rate),
+      currency: baseCurrency,
+      original_currency: currency,
+      fx_rate: rate,
+    };
+  });
+
+  return { trades: converted, baseCurrency, missingCurrencies: Array.from(missing).sort() };
+}
+
+// How much of the realized P&L came from exchange rate moves
+export function totalFxPnl(roundTrips: RoundTrip[]): number {
+  return roundTrips.reduce((sum, trip) => sum + (trip.fx_pnl ?? 0), 0);
+}
+
+export default {
+  parseCurrencyPair,
+  getSymbolCurrency,
+  getTradeCurrency,
+  getUsdRate,
+  getSpotRate,
+  buildFxRateTable,
+  lookupUsdRate,
+  convertTradesToBase,
+  totalFxPnl,
+};
@@ -0,0 +1,159 @@
+// Execution Model
+// Prices paper fills the way a market would instead of at the last quote:
+// buys pay the ask and sells hit the bid, bigger orders move the price
+// further, orders bigger than the available liquidity fill in part, and
+// markets outside their hours take no orders.
+
+import { AssetType, ExecutionModel, MarketHours, Trade } from '@/types';
+import { pipSize } from '@/lib/services/feeCalculator';
+import { getWallTime } from '@/lib/utils/timezone';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExecutionRequest {
+  symbol: string;
+  assetType: AssetType;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number; // Last quote
+  multiplier?: number; // Contract multiplier for options and futures
+  usdRate?: number; // USD per unit of the quote currency, for sizing
+  limitPrice?: number; // Limit orders never fill past their limit
+}
+
+export interface ExecutionOptions {
+  spreadInFees?: boolean; // The fee schedule already charges the spread
+}
+
+export interface Execution {
+  price: number; // Fill price after spread and slippage
+  quantity: number; // Less than requested for a partial fill
+  spreadCost: number; // Cost against the quote, in the quote currency
+  isPartial: boolean;
+}
+
+export interface ExecutionCostSummary {
+  fees: number;
+  spreadCost: number;
+  total: number;
+  tradesWithSpread: number;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+// ============================================
+// Market Hours
+// ============================================
+
+// Sessions that run past midnight belong to the day they opened on
+export function isMarketOpen(hours: MarketHours | undefined, now: Date = new Date()): boolean {
+  if (!hours) return true;
+  const wall = getWallTime(now, hours.timeZone);
+  const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+  const minutes = wall.hour * 60 + wall.minute;
+
+  if (hours.open < hours.close) {
+    return hours.days.includes(weekday) && minutes >= hours.open && minutes < hours.close;
+  }
+  const previousDay = (weekday + 6) % 7;
+  return (hours.days.includes(weekday) && minutes >= hours.open)
+    || (hours.days.includes(previousDay) && minutes < hours.close);
+}
+
+// e.g. "Mon–Fri 09:30–16:00 America/New_York"
+export function describeMarketHours(hours: MarketHours | undefined): string {
+  if (!hours) return 'Around the clock';
+  const days = [...hours.days].sort((a, b) => a - b);
+  const consecutive = days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+  const dayLabel = consecutive && days.length > 1
+    ? `${DAY_NAMES[days[0]]}–${DAY_NAMES[days[days.length - 1]]}`
+    : days.map(day => DAY_NAMES[day]).join(', ');
+  const timeLabel = hours.open === hours.close
+    ? `from ${formatMinutes(hours.open)}, 24 hours`
+    : `${formatMinutes(hours.open)}–${formatMinutes(hours.close)}`;
+  return `${dayLabel} ${timeLabel} ${hours.timeZone}`;
+}
+
+// ============================================
+// Fill Pricing
+// ============================================
+
+// Half the spread in price units
+function halfSpread(request: ExecutionRequest, model: ExecutionModel): number {
+  if (request.assetType === 'forex' && model.spreadPips !== undefined) {
+    return pipSize(request.symbol) * model.spreadPips / 2;
+  }
+  return request.price * (model.spreadBps ?? 0) / 10000 / 2;
+}
+
+// Null for a limit order when the modeled price is beyond its limit: the
+// spread and slippage keep it from filling, so it stays working
+export function priceExecution(
+  request: ExecutionRequest,
+  model: ExecutionModel,
+  options: ExecutionOptions = {}
+): Execution | null {
+  const multiplier = request.multiplier ?? 1;
+  const usdRate = request.usdRate ?? 1;
+  const unitNotional = request.price * multiplier * usdRate;
+
+  // Liquidity caps what one fill can take; whole units only, at least one
+  let quantity = request.quantity;
+  if (model.maxFillNotional !== undefined && unitNotional > 0 && quantity * unitNotional > model.maxFillNotional) {
+    quantity = Math.max(1, Math.floor(model.maxFillNotional / unitNotional));
+    if (quantity >= request.quantity) quantity = request.quantity;
+  }
+
+  // Square-root impact: four times the size costs twice the slippage rate
+  const notional = quantity * unitNotional;
+  const slippageBps = model.slippageNotional > 0
+    ? model.slippageBps * Math.sqrt(notional / model.slippageNotional)
+    : 0;
+  const spread = options.spreadInFees ? 0 : halfSpread(request, model);
+  const move = spread + request.price * slippageBps / 10000;
+
+  const price = round(request.action === 'BUY' ? request.price + move : Math.max(request.price - move, 0));
+  if (request.limitPrice !== undefined && (request.action === 'BUY' ? price > request.limitPrice : price < request.limitPrice)) {
+    return null;
+  }
+
+  return {
+    price,
+    quantity,
+    spreadCost: round(Math.max(0, (request.action === 'BUY' ? price - request.price : request.price - price)) * quantity * multiplier),
+    isPartial: quantity < request.quantity,
+  };
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+// Fees and spread paid across trades, in the trades' currency
+export function executionCostSummary(trades: Trade[]): ExecutionCostSummary {
+  const fees = trades.reduce((sum, t) => sum + t.fees, 0);
+  const spreadCost = trades.reduce((sum, t) => sum + (t.spread_cost ?? 0), 0);
+  return {
+    fees,
+    spreadCost,
+    total: fees + spreadCost,
+    tradesWithSpread: trades.filter(t => t.spread_cost !== undefined).length,
+  };
+}
+
+export default {
+  isMarketOpen,
+  describeMarketHours,
+  priceExecution,
+  executionCostSummary,
+};
@@ -0,0 +1,134 @@
+// Fee Calculator
+// Prices a fill under a broker fee schedule. Paper trading charges these
+// fees, and imports without a fees column use them as their estimate, so
+// fee-drag analysis reflects the user's actual broker instead of a flat rate.
+
+import { AssetType, FeeBreakdown, FeeSchedule, FeeSchedulesByAsset, FeeTier, Trade } from '@/types';
+import { config } from '@/constants/config';
+import { getFeeSchedule } from '@/constants/feeSchedules';
+import { parseCurrencyPair } from '@/lib/services/currencyConverter';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FeeQuote {
+  symbol: string;
+  assetType: AssetType;
+  action: 'BUY' | 'SELL';
+  quantity: number; // Shares, units or contracts
+  price: number;
+  multiplier?: number; // Contract multiplier for options and futures
+}
+
+const ASSET_TYPES: AssetType[] = ['stocks', 'etfs', 'forex', 'commodities', 'options', 'futures', 'cash'];
+
+// ============================================
+// Utility Functions
+// ============================================
+
+// Yen pairs quote to two decimals, the rest to four
+export function pipSize(symbol: string): number {
+  return parseCurrencyPair(symbol)?.quote === 'JPY' ? 0.01 : 0.0001;
+}
+
+// SEC and FINRA fees only apply to US equity and equity option sales
+function paysUsRegulatoryFees(assetType: AssetType): boolean {
+  return assetType === 'stocks' || assetType === 'etfs' || assetType === 'options';
+}
+
+function tierFor(tiers: FeeTier[], monthlyVolume: number): FeeTier {
+  return [...tiers]
+    .sort((a, b) => a.fromVolume - b.fromVolume)
+    .reduce((current, tier) => (monthlyVolume >= tier.fromVolume ? tier : current));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// ============================================
+// Fee Calculation
+// ============================================
+
+// monthlyVolume is what tiered schedules count (units or notional, per the
+// schedule) traded earlier in the same month
+export function calculateFees(quote: FeeQuote, schedule: FeeSchedule, monthlyVolume: number = 0): FeeBreakdown {
+  const notional = quote.quantity * quote.price * (quote.multiplier ?? 1);
+  const rates = schedule.tiers && schedule.tiers.length > 0
+    ? tierFor(schedule.tiers, monthlyVolume)
+    : schedule;
+
+  let commission = 0;
+  if (rates.perUnit !== undefined || rates.percentage !== undefined) {
+    commission = (rates.perUnit ?? 0) * quote.quantity + (rates.percentage ?? 0) * notional;
+    if (schedule.minPerOrder !== undefined) commission = Math.max(commission, schedule.minPerOrder);
+    if (schedule.maxPerOrder !== undefined) commission = Math.min(commission, schedule.maxPerOrder);
+    if (schedule.maxPercentOfNotional !== undefined) {
+      commission = Math.min(commission, notional * schedule.maxPercentOfNotional);
+    }
+  }
+
+  // Half the round-trip spread is paid on each side
+  const spread = schedule.spreadPips && quote.assetType === 'forex'
+    ? quote.quantity * pipSize(quote.symbol) * schedule.spreadPips / 2
+    : 0;
+
+  const exchange = (schedule.exchangePerUnit ?? 0) * quote.quantity;
+
+  let regulatory = 0;
+  if (quote.action === 'SELL' && paysUsRegulatoryFees(quote.assetType)) {
+    regulatory += notional * (schedule.secFeeRate ?? 0);
+    const taf = quote.quantity * (schedule.tafPerUnit ?? 0);
+    regulatory += schedule.tafMaxPerOrder !== undefined ? Math.min(taf, schedule.tafMaxPerOrder) : taf;
+  }
+
+  return {
+    commission: round(commission),
+    spread: round(spread),
+    exchange: round(exchange),
+    regulatory: round(regulatory),
+    total: round(commission + spread + exchange + regulatory),
+  };
+}
+
+// Volume traded in the same UTC calendar month before the given time
+export function monthToDateVolume(
+  trades: Trade[],
+  timestamp: string,
+  measure: FeeSchedule['tierVolume'] = 'units'
+): number {
+  const time = new Date(timestamp).getTime();
+  const month = timestamp.slice(0, 7);
+  return trades.reduce((sum, trade) => {
+    if (trade.timestamp.slice(0, 7) !== month || new Date(trade.timestamp).getTime() >= time) return sum;
+    return sum + (measure === 'notional' ? trade.total_value : trade.quantity);
+  }, 0);
+}
+
+// ============================================
+// Schedule Selection
+// ============================================
+
+// The account's schedule, with per-asset-class overrides on top
+export function resolveFeeSchedules(
+  accountScheduleId: string = config.trading.defaultFeeSchedule,
+  overrides: Partial<Record<AssetType, string>> = {}
+): FeeSchedulesByAsset {
+  const schedules: FeeSchedulesByAsset = {};
+  ASSET_TYPES.forEach(assetType => {
+    schedules[assetType] = getFeeSchedule(overrides[assetType] || accountScheduleId);
+  });
+  return schedules;
+}
+
+export function scheduleForAsset(schedules: FeeSchedulesByAsset, assetType: AssetType): FeeSchedule {
+  return schedules[assetType] || getFeeSchedule(config.trading.defaultFeeSchedule);
+}
+
+export default {
+  calculateFees,
+  monthToDateVolume,
+  resolveFeeSchedules,
+  scheduleForAsset,
+};
@@ -0,0 +1,162 @@
+// Pre-Trade Guardrails
+// Checks a paper order against recent history before it's sent, for the
+// biases the detector would otherwise only find afterwards: re-entering
+// right after a loss, sizing up well past the usual, and piling into one
+// position.
+
+import { GuardrailEvent, GuardrailWarning, Position, Trade } from '@/types';
+import { notionalExposure, positionExposure } from '@/lib/services/contracts';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { createId } from '@/lib/utils/ids';
+import { config } from '@/constants/config';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PreTradeOrder {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number; // Quote currency; working orders may not have one yet
+  notional: number; // USD exposure the order adds
+  opensPosition: boolean; // Opens or adds to a position rather than reducing one
+}
+
+export interface PreTradeContext {
+  trades: Trade[];
+  positions: Position[];
+  totalValue: number;
+  now?: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const OPENING_EFFECTS = ['open_long', 'open_short'];
+
+// ============================================
+// Rules
+// ============================================
+
+// Trades record USD per unit of their currency; exposure is compared in USD
+function usdNotional(trade: Trade): number {
+  return notionalExposure(trade) * (trade.usd_rate ?? 1);
+}
+
+function isEntry(trade: Trade): boolean {
+  return trade.position_effect ? OPENING_EFFECTS.includes(trade.position_effect) : trade.action === 'BUY';
+}
+
+// The most recent realized loss that still counts as fresh
+function checkRevenge(trades: Trade[], now: Date): GuardrailWarning | null {
+  const { revengeWindowMinutes, revengeMinLossPercent, cooldownMinutes } = config.guardrails;
+  const lastLoss = trades
+    .filter(t => (t.pnl ?? 0) < 0 && Math.abs(t.pnl ?? 0) >= t.total_value * (revengeMinLossPercent / 100))
+    .reduce<Trade | null>((latest, t) => (!latest || t.timestamp > latest.timestamp ? t : latest), null);
+  if (!lastLoss) return null;
+
+  const lossTime = new Date(lastLoss.timestamp).getTime();
+  const minutesSince = (now.getTime() - lossTime) / MS_PER_MINUTE;
+  if (minutesSince < 0 || minutesSince >= revengeWindowMinutes) return null;
+
+  return {
+    rule: 'revenge_trading',
+    title: 'Right after a loss',
+    message: `You closed ${lastLoss.symbol} for a ${formatCurrency(Math.abs(lastLoss.pnl ?? 0))} loss ${Math.round(minutesSince)} minutes ago. Orders placed this soon after a loss are often about winning it back.`,
+    evidence: {
+      loss_symbol: lastLoss.symbol,
+      loss_amount: Math.abs(lastLoss.pnl ?? 0),
+      minutes_since_loss: Math.round(minutesSince),
+      window_minutes: revengeWindowMinutes,
+    },
+    cooldown_until: new Date(lossTime + cooldownMinutes * MS_PER_MINUTE).toISOString(),
+  };
+}
+
+function checkSize(order: PreTradeOrder, trades: Trade[]): GuardrailWarning | null {
+  const { sizeMultiple, sizeLookbackTrades, minTradesForSizeCheck } = config.guardrails;
+  const entries = [...trades]
+    .filter(isEntry)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, sizeLookbackTrades);
+  if (entries.length < minTradesForSizeCheck) return null;
+
+  const average = entries.reduce((sum, t) => sum + usdNotional(t), 0) / entries.length;
+  if (average <= 0 || order.notional <= average * sizeMultiple) return null;
+
+  const multiple = order.notional / average;
+  return {
+    rule: 'risk_escalation',
+    title: 'Much bigger than usual',
+    message: `This order is ${multiple.toFixed(1)}× the average size of your last ${entries.length} entries.`,
+    evidence: {
+      order_notional: order.notional,
+      average_notional: average,
+      size_multiple: multiple,
+      entries_averaged: entries.length,
+    },
+  };
+}
+
+function checkConcentration(order: PreTradeOrder, positions: Position[], totalValue: number): GuardrailWarning | null {
+  if (totalValue <= 0) return null;
+  const existing = positions.find(p => p.symbol === order.symbol);
+  const exposure = (existing ? positionExposure(existing) : 0) + order.notional;
+  const share = exposure / totalValue;
+  const limit = config.trading.maxPositionPercent;
+  if (share <= limit) return null;
+
+  return {
+    rule: 'concentration_bias',
+    title: 'Too much in one position',
+    message: `${order.symbol} would be ${(share * 100).toFixed(0)}% of your portfolio, above the ${(limit * 100).toFixed(0)}% limit.`,
+    evidence: {
+      position_percent: share * 100,
+      limit_percent: limit * 100,
+      position_exposure: exposure,
+    },
+  };
+}
+
+// Every rule an order trips. Orders that only reduce a position pass.
+export function checkPreTrade(order: PreTradeOrder, context: PreTradeContext): GuardrailWarning[] {
+  if (!order.opensPosition) return [];
+  const now = context.now ?? new Date();
+  return [
+    checkRevenge(context.trades, now),
+    checkSize(order, context.trades),
+    checkConcentration(order, context.positions, context.totalValue),
+  ].filter((w): w is GuardrailWarning => w !== null);
+}
+
+// The latest cooldown among the warnings, if any is still running
+export function cooldownRemaining(warnings: GuardrailWarning[], now: Date = new Date()): number {
+  const until = warnings.reduce((latest, w) => (w.cooldown_until ? Math.max(latest, new Date(w.cooldown_until).getTime()) : latest), 0);
+  return Math.max(0, until - now.getTime());
+}
+
+export function createGuardrailEvent(
+  order: PreTradeOrder,
+  warnings: GuardrailWarning[],
+  decision: GuardrailEvent['decision'],
+  sessionId: string,
+  now: Date = new Date()
+): GuardrailEvent {
+  return {
+    id: createId('guardrail', now),
+    session_id: sessionId,
+    timestamp: now.toISOString(),
+    symbol: order.symbol,
+    action: order.action,
+    quantity: order.quantity,
+    ...(order.price !== undefined ? { price: order.price } : {}),
+    rules: warnings.map(w => w.rule),
+    evidence: Object.assign({}, ...warnings.map(w => w.evidence)),
+    decision,
+  };
+}
+
+export default {
+  checkPreTrade,
+  cooldownRemaining,
+  createGuardrailEvent,
+};
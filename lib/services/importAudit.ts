@@ -0,0 +1,228 @@
+// Import Audit - Data-quality checks on an imported file
+// Replays each row's P&L against the running balance the file reports, and
+// checks ordering, prices, quantities and repeated rows. The resulting score
+// tells the user how far the bias analysis can be trusted for this file.
+
+import { Trade, ImportAudit, AuditIssue, AuditIssueType, BalanceReconciliation } from '@/types';
+import { tradeFingerprint } from '@/lib/services/importMerge';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { config } from '@/constants/config';
+
+interface AuditTotals {
+  totalRows: number;
+  successfulRows: number;
+}
+
+// Detailed issues kept per type; counts are always complete
+const MAX_ISSUES_PER_TYPE = 20;
+
+// No real account trades a billion units in one fill
+const MAX_QUANTITY = 1e9;
+
+// Score penalty per issue type when it affects REFERENCE_SHARE of the rows or more
+const PENALTY_WEIGHTS: Record<AuditIssueType, number> = {
+  rejected_rows: 40,
+  balance_jump: 30,
+  invalid_price: 30,
+  invalid_quantity: 30,
+  duplicate_row: 15,
+  out_of_order: 10,
+};
+const REFERENCE_SHARE = 0.2;
+// Any occurrence costs at least this much, so a file with problems never scores 100
+const MIN_PENALTY = 2;
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function emptyCounts(): Record<AuditIssueType, number> {
+  return {
+    rejected_rows: 0,
+    balance_jump: 0,
+    out_of_order: 0,
+    invalid_price: 0,
+    invalid_quantity: 0,
+    duplicate_row: 0,
+  };
+}
+
+function describeTrade(trade: Trade): string {
+  return `${trade.action} ${trade.quantity} ${trade.symbol} at ${trade.timestamp.replace('T', ' ').slice(0, 19)}`;
+}
+
+function formatAmount(value: number, currency: string): string {
+  return formatCurrency(value, { currency, showSign: true });
+}
+
+// Balances are usually rounded to cents; allow for that plus float noise on large accounts
+function balanceTolerance(balance: number): number {
+  return Math.max(0.015, Math.abs(balance) * 1e-6);
+}
+
+// Exports are either oldest-first or newest-first; whichever dominates is the file's order
+function isNewestFirst(trades: Trade[]): boolean {
+  let ascending = 0;
+  let descending = 0;
+  for (let i = 1; i < trades.length; i++) {
+    const diff = new Date(trades[i].timestamp).getTime() - new Date(trades[i - 1].timestamp).getTime();
+    if (diff > 0) ascending++;
+    else if (diff < 0) descending++;
+  }
+  return descending > ascending;
+}
+
+// ============================================
+// Checks
+// ============================================
+
+function reconcileBalances(
+  sequence: Trade[],
+  currency: string,
+  report: (type: AuditIssueType, issue: Omit<AuditIssue, 'type'>) => void
+): BalanceReconciliation | null {
+  if (sequence.filter(trade => trade.reported_balance !== undefined).length < 2) return null;
+
+  const result: BalanceReconciliation = { checked: 0, reconciled: 0, unexplained_total: 0 };
+  for (let i = 1; i < sequence.length; i++) {
+    const prev = sequence[i - 1];
+    const curr = sequence[i];
+    if (prev.reported_balance === undefined || curr.reported_balance === undefined) continue;
+
+    result.checked++;
+    const delta = curr.reported_balance - prev.reported_balance;
+    const pnl = curr.pnl || 0;
+    const tolerance = balanceTolerance(prev.reported_balance);
+
+    // Sources differ on whether the P&L column is already net of fees
+    if (Math.abs(delta - pnl) <= tolerance || Math.abs(delta - (pnl - curr.fees)) <= tolerance) {
+      result.reconciled++;
+      continue;
+    }
+
+    const unexplained = delta - pnl;
+    result.unexplained_total += unexplained;
+    report('balance_jump', {
+      severity: 'warning',
+      message: `Balance moved ${formatAmount(delta, currency)} but ${describeTrade(curr)} reports ${formatAmount(pnl, currency)} ` +
+        `(${formatAmount(unexplained, currency)} unexplained: ${unexplained > 0 ? 'deposit or missing winning trade' : 'withdrawal or missing losing trade'}?)`,
+      trade_ids: [prev.id, curr.id],
+    });
+  }
+  return result;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+// trades must be in file order (as returned by the importer); balances are
+// in the account's base currency
+export function auditImport(
+  trades: Trade[],
+  totals: AuditTotals,
+  baseCurrency: string = config.currency.baseCurrency
+): ImportAudit {
+  const counts = emptyCounts();
+  const issues: AuditIssue[] = [];
+  const report = (type: AuditIssueType, issue: Omit<AuditIssue, 'type'>) => {
+    counts[type]++;
+    if (counts[type] <= MAX_ISSUES_PER_TYPE) issues.push({ type, ...issue });
+  };
+
+  const rejected = Math.max(0, totals.totalRows - totals.successfulRows);
+  if (rejected > 0) {
+    counts.rejected_rows = rejected;
+    issues.push({
+      type: 'rejected_rows',
+      severity: 'error',
+      message: `${rejected} of ${totals.totalRows} rows could not be read and are missing from the analysis`,
+      trade_ids: [],
+    });
+  }
+
+  // Chronological in the file's own direction
+  const sequence = isNewestFirst(trades) ? [...trades].reverse() : trades;
+
+  for (let i = 1; i < sequence.length; i++) {
+    const prevTime = new Date(sequence[i - 1].timestamp).getTime();
+    const currTime = new Date(sequence[i].timestamp).getTime();
+    if (currTime < prevTime) {
+      report('out_of_order', {
+        severity: 'warning',
+        message: `${describeTrade(sequence[i])} appears after a later trade (${sequence[i - 1].timestamp.replace('T', ' ').slice(0, 19)})`,
+        trade_ids: [sequence[i - 1].id, sequence[i].id],
+      });
+    }
+  }
+
+  const seen = new Map<string, Trade>();
+  for (const trade of trades) {
+    if (!isFinite(trade.price) || trade.price <= 0) {
+      report('invalid_price', {
+        severity: 'error',
+        message: `${describeTrade(trade)} has price ${trade.price}`,
+        trade_ids: [trade.id],
+      });
+    }
+    if (!isFinite(trade.quantity) || trade.quantity <= 0 || trade.quantity > MAX_QUANTITY) {
+      report('invalid_quantity', {
+        severity: 'error',
+        message: `${describeTrade(trade)} has an impossible quantity`,
+        trade_ids: [trade.id],
+      });
+    }
+
+    // Identical partial fills exist, so repeats are only a warning
+    const key = `${tradeFingerprint(trade)}|${trade.pnl ?? ''}|${trade.reported_balance ?? ''}`;
+    const original = seen.get(key);
+    if (original) {
+      report('duplicate_row', {
+        severity: 'warning',
+        message: `${describeTrade(trade)} appears more than once with identical values`,
+        trade_ids: [original.id, trade.id],
+      });
+    } else {
+      seen.set(key, trade);
+    }
+  }
+
+  const balance = reconcileBalances(sequence, baseCurrency, report);
+
+  const rows = Math.max(totals.totalRows, 1);
+  let penalty = 0;
+  (Object.keys(PENALTY_WEIGHTS) as AuditIssueType[]).forEach(type => {
+    if (counts[type] === 0) return;
+    const share = type === 'balance_jump' && balance
+      ? counts[type] / Math.max(balance.checked, 1)
+      : counts[type] / rows;
+    const weight = PENALTY_WEIGHTS[type];
+    penalty += Math.max(MIN_PENALTY, weight * Math.min(1, share / REFERENCE_SHARE));
+  });
+
+  return {
+    score: Math.round(Math.max(0, 100 - penalty)),
+    checked_rows: totals.totalRows,
+    counts,
+    issues,
+    balance,
+  };
+}
+
+// Row-weighted score across several imported files; null when none were audited
+export function combineAuditScores(audits: (ImportAudit | undefined)[]): number | null {
+  const audited = audits.filter((audit): audit is ImportAudit => !!audit);
+  const rows = audited.reduce((sum, audit) => sum + audit.checked_rows, 0);
+  if (audited.length === 0) return null;
+  if (rows === 0) return Math.round(audited.reduce((sum, audit) => sum + audit.score, 0) / audited.length);
+  return Math.round(audited.reduce((sum, audit) => sum + audit.score * audit.checked_rows, 0) / rows);
+}
+
+export function getDataQualityLabel(score: number): string {
+  if (score >= 90) return 'Clean';
+  if (score >= 70) return 'Minor issues';
+  if (score >= 50) return 'Questionable';
+  return 'Unreliable';
+}
+
+export default { auditImport, combineAuditScores, getDataQualityLabel };
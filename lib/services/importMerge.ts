@@ -0,0 +1,89 @@
+// Import Merge - Incremental imports with duplicate detection
+// Trades are fingerprinted by (timestamp, symbol, side, quantity, price). Fills
+// that legitimately repeat inside one statement (identical partial fills) are
+// handled by counting occurrences, so only copies beyond what the existing
+// dataset already holds are treated as new.
+
+import { Trade, ImportConflict } from '@/types';
+
+export interface MergeResult {
+  trades: Trade[];
+  added: Trade[];
+  duplicates: Trade[];
+  conflicts: ImportConflict[];
+}
+
+// Values closer than this are considered equal (float noise from parsing)
+const VALUE_TOLERANCE = 1e-6;
+
+function roundValue(value: number): string {
+  return (Math.round(value * 1e6) / 1e6).toString();
+}
+
+// Second precision: brokers disagree on milliseconds between exports
+export function tradeFingerprint(trade: Trade): string {
+  const time = Math.floor(new Date(trade.timestamp).getTime() / 1000);
+  return [
+    time,
+    trade.symbol.toUpperCase(),
+    trade.action,
+    roundValue(trade.quantity),
+    roundValue(trade.price),
+  ].join('|');
+}
+
+function differs(a: number | undefined, b: number | undefined): boolean {
+  if (a === undefined || b === undefined) return a !== b;
+  return Math.abs(a - b) > VALUE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+// Details that should match when the fingerprint does
+function conflictingFields(existing: Trade, incoming: Trade): string[] {
+  const fields: string[] = [];
+  if (differs(existing.fees, incoming.fees)) fields.push('fees');
+  if (differs(existing.pnl, incoming.pnl)) fields.push('pnl');
+  if (differs(existing.exit_price, incoming.exit_price)) fields.push('exit_price');
+  if ((existing.closed_at || '') !== (incoming.closed_at || '')) fields.push('closed_at');
+  return fields;
+}
+
+// Conflicting rows keep the existing trade; the caller decides whether to swap them in
+export function mergeTrades(existing: Trade[], incoming: Trade[]): MergeResult {
+  // Existing trades per fingerprint, consumed as incoming copies match them
+  const unmatched = new Map<string, Trade[]>();
+  for (const trade of existing) {
+    const key = tradeFingerprint(trade);
+    const bucket = unmatched.get(key);
+    if (bucket) bucket.push(trade);
+    else unmatched.set(key, [trade]);
+  }
+
+  const added: Trade[] = [];
+  const duplicates: Trade[] = [];
+  const conflicts: ImportConflict[] = [];
+
+  for (const trade of incoming) {
+    const key = tradeFingerprint(trade);
+    const candidates = unmatched.get(key);
+    if (!candidates || candidates.length === 0) {
+      added.push(trade);
+      continue;
+    }
+
+    const match = candidates.shift() as Trade;
+    const fields = conflictingFields(match, trade);
+    if (fields.length === 0) {
+      duplicates.push(trade);
+    } else {
+      conflicts.push({ incoming: trade, existing: match, fields });
+    }
+  }
+
+  const merged = existing
+    .concat(added)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  return { trades: merged, added, duplicates, conflicts };
+}
+
+export default { tradeFingerprint, mergeTrades };
@@ -0,0 +1,148 @@
+// Margin Account
+// Requirements, buying power and financing for paper margin accounts.
+// Positions carry dollar values already (shorts negative, futures at their
+// open P&L), so equity is cash plus position values and every requirement is
+// a share of what a position is worth.
+
+import { AccountType, MarginCall, Position } from '@/types';
+import { config } from '@/constants/config';
+
+// ============================================
+// Types
+// ============================================
+
+export type RequirementKind = 'initial' | 'maintenance';
+
+export interface MarginSummary {
+  equity: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  excessEquity: number; // Equity above the initial requirement
+  borrowed: number; // Cash debit financed by the broker
+  shortValue: number; // Market value of shorted positions
+}
+
+export interface FinancingCharges {
+  interest: number; // On the cash debit
+  borrowFee: number; // On short positions
+}
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Requirements
+// ============================================
+
+export function isShort(position: Position): boolean {
+  return position.side === 'short';
+}
+
+// Dollar value the position controls; futures post margin instead
+function marketValue(position: Position): number {
+  return Math.abs(position.current_value);
+}
+
+export function positionRequirement(position: Position, kind: RequirementKind): number {
+  if (position.asset_type === 'futures') {
+    const margin = position.margin ?? 0;
+    return kind === 'initial' ? margin : margin * config.margin.futuresMaintenanceRatio;
+  }
+  const rate = kind === 'maintenance' && isShort(position)
+    ? Math.max(config.margin.shortMaintenance, config.margin.rates.maintenance[position.asset_type])
+    : config.margin.rates[kind][position.asset_type];
+  return marketValue(position) * rate;
+}
+
+export function marginRequirement(positions: Position[], kind: RequirementKind): number {
+  return positions.reduce((sum, p) => sum + positionRequirement(p, kind), 0);
+}
+
+export function accountEquity(cashBalance: number, positions: Position[]): number {
+  return cashBalance + positions.reduce((sum, p) => sum + p.current_value, 0);
+}
+
+export function getMarginSummary(cashBalance: number, positions: Position[]): MarginSummary {
+  const equity = accountEquity(cashBalance, positions);
+  const initialRequirement = marginRequirement(positions, 'initial');
+  return {
+    equity,
+    initialRequirement,
+    maintenanceRequirement: marginRequirement(positions, 'maintenance'),
+    excessEquity: equity - initialRequirement,
+    borrowed: Math.max(0, -cashBalance),
+    shortValue: positions.filter(isShort).reduce((sum, p) => sum + marketValue(p), 0),
+  };
+}
+
+// Whether an account could hold these positions after a trade that adds risk.
+// Cash accounts need the cash for everything plus any futures margin; margin
+// accounts need equity to cover the initial requirement.
+export function canCarry(accountType: AccountType, cashBalance: number, positions: Position[]): boolean {
+  if (accountType === 'cash') {
+    const futuresMargin = positions.reduce((sum, p) => sum + (p.margin ?? 0), 0);
+    return cashBalance >= futuresMargin;
+  }
+  return getMarginSummary(cashBalance, positions).excessEquity >= 0;
+}
+
+// The most position value the account could add in this asset class
+export function buyingPower(
+  accountType: AccountType,
+  cashBalance: number,
+  positions: Position[],
+  assetType: Position['asset_type']
+): number {
+  if (accountType === 'cash') {
+    return cashBalance - positions.reduce((sum, p) => sum + (p.margin ?? 0), 0);
+  }
+  const { excessEquity } = getMarginSummary(cashBalance, positions);
+  return Math.max(0, excessEquity) / config.margin.rates.initial[assetType];
+}
+
+// ============================================
+// Financing
+// ============================================
+
+// Interest and borrow fees for the time since the last accrual
+export function accrueFinancing(cashBalance: number, positions: Position[], elapsedMs: number): FinancingCharges {
+  if (elapsedMs <= 0) return { interest: 0, borrowFee: 0 };
+  const years = elapsedMs / MS_PER_YEAR;
+  const { borrowed, shortValue } = getMarginSummary(cashBalance, positions);
+  return {
+    interest: borrowed * config.margin.debitInterestRate * years,
+    borrowFee: shortValue * config.margin.borrowFeeRate * years,
+  };
+}
+
+// ============================================
+// Margin Calls
+// ============================================
+
+export function createMarginCall(summary: MarginSummary, now: Date = new Date()): MarginCall {
+  return {
+    issued_at: now.toISOString(),
+    deadline: new Date(now.getTime() + config.margin.callGraceMinutes * 60 * 1000).toISOString(),
+    equity: summary.equity,
+    requirement: summary.maintenanceRequirement,
+  };
+}
+
+// Liquidation closes the positions that free the most requirement first
+export function liquidationOrder(positions: Position[]): Position[] {
+  return [...positions].sort(
+    (a, b) => positionRequirement(b, 'maintenance') - positionRequirement(a, 'maintenance')
+  );
+}
+
+export default {
+  isShort,
+  positionRequirement,
+  marginRequirement,
+  accountEquity,
+  getMarginSummary,
+  canCarry,
+  buyingPower,
+  accrueFinancing,
+  createMarginCall,
+  liquidationOrder,
+};
@@ -0,0 +1,244 @@
+// Order Book
+// Rules for paper orders that wait for a price: when they trigger, when they
+// fill and at what price, and when day orders lapse. Bracket exits are a
+// stop-loss and a take-profit sharing an OCO (one-cancels-other) group. The
+// portfolio store keeps the orders and runs them against every price tick.
+
+import { AssetType, BracketSpec, ContractSpec, PendingOrder, TimeInForce, Trade, TradingDayBoundary } from '@/types';
+import { getTradingDay, zonedTimeToUtc } from '@/lib/utils/timezone';
+import { createId } from '@/lib/utils/ids';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OrderRequest {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  order_type: PendingOrder['order_type'];
+  quantity: number;
+  limit_price?: number;
+  stop_price?: number;
+  trail_percent?: number;
+  time_in_force: TimeInForce;
+  asset_type: AssetType;
+  contract?: ContractSpec;
+  fee_schedule: string;
+  bracket?: BracketSpec;
+}
+
+// What a price tick does to an open order
+export type OrderEvaluation =
+  | { outcome: 'waiting' }
+  | { outcome: 'triggered' } // Stop-limit armed, limit not yet reachable
+  | { outcome: 'trailed'; stop_price: number } // Trailing stop moved up behind the price
+  | { outcome: 'fill'; price: number; triggered: boolean }
+  | { outcome: 'expired' };
+
+// What can be modified on a working order
+export type OrderChanges = Partial<Pick<PendingOrder, 'quantity' | 'limit_price' | 'stop_price' | 'trail_percent'>>;
+
+// ============================================
+// Validation
+// ============================================
+
+function isPositive(value: number | undefined): value is number {
+  return value !== undefined && Number.isFinite(value) && value > 0;
+}
+
+function isPercent(value: number | undefined): value is number {
+  return isPositive(value) && value < 100;
+}
+
+export function validateOrder(
+  order: Pick<PendingOrder, 'order_type' | 'quantity' | 'limit_price' | 'stop_price' | 'trail_percent'>
+): string | null {
+  if (!isPositive(order.quantity)) return 'Quantity must be greater than zero';
+  const needsLimit = order.order_type === 'limit' || order.order_type === 'stop_limit';
+  const needsStop = order.order_type === 'stop' || order.order_type === 'stop_limit';
+  if (needsLimit && !isPositive(order.limit_price)) return 'Enter a limit price';
+  if (needsStop && !isPositive(order.stop_price)) return 'Enter a stop price';
+  if (order.order_type === 'trailing_stop' && !isPercent(order.trail_percent)) return 'Enter a trail between 0 and 100%';
+  return null;
+}
+
+export function validateBracket(bracket: BracketSpec): string | null {
+  if (bracket.stop_loss_percent === undefined && bracket.take_profit_percent === undefined) {
+    return 'Set a stop-loss or a take-profit';
+  }
+  if (bracket.stop_loss_percent !== undefined && !isPercent(bracket.stop_loss_percent)) {
+    return 'Stop-loss must be between 0 and 100% below entry';
+  }
+  if (bracket.take_profit_percent !== undefined && !isPositive(bracket.take_profit_percent)) {
+    return 'Take-profit must be above entry';
+  }
+  return null;
+}
+
+// ============================================
+// Time in Force
+// ============================================
+
+// The instant the asset's trading day containing `from` rolls over
+export function tradingDayEnd(from: Date, boundary: TradingDayBoundary): string {
+  const [year, month, day] = getTradingDay(from, boundary).split('-').map(Number);
+  // A day with a roll hour ends at that hour on its own date; a midnight day
+  // ends at the next midnight
+  const endDate = new Date(Date.UTC(year, month - 1, boundary.rollHour > 0 ? day : day + 1));
+  return zonedTimeToUtc({
+    year: endDate.getUTCFullYear(),
+    month: endDate.getUTCMonth() + 1,
+    day: endDate.getUTCDate(),
+    hour: boundary.rollHour,
+    minute: 0,
+    second: 0,
+  }, boundary.timeZone).toISOString();
+}
+
+export function createOrder(
+  request: OrderRequest,
+  boundary: TradingDayBoundary,
+  now: Date = new Date()
+): PendingOrder {
+  return {
+    ...request,
+    id: createId('order', now),
+    created_at: now.toISOString(),
+    ...(request.time_in_force === 'day' ? { expires_at: tradingDayEnd(now, boundary) } : {}),
+    status: 'open',
+  };
+}
+
+// ============================================
+// Brackets
+// ============================================
+
+function roundPrice(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+// The GTC exits protecting a filled BUY. Both sell the whole fill and share
+// an OCO group, so whichever fills first cancels the other.
+export function createBracketOrders(
+  entry: Trade,
+  bracket: BracketSpec,
+  feeSchedule: string,
+  now: Date = new Date()
+): PendingOrder[] {
+  const base = {
+    symbol: entry.symbol,
+    action: 'SELL' as const,
+    quantity: entry.quantity,
+    time_in_force: 'gtc' as const,
+    asset_type: entry.asset_type,
+    ...(entry.contract ? { contract: entry.contract } : {}),
+    fee_schedule: feeSchedule,
+    created_at: now.toISOString(),
+    status: 'open' as const,
+    entry_trade_id: entry.id,
+    oco_group: `oco-${entry.id}`,
+  };
+  const orders: PendingOrder[] = [];
+
+  if (bracket.stop_loss_percent !== undefined) {
+    orders.push({
+      ...base,
+      id: createId('order', now),
+      order_type: bracket.trailing_stop ? 'trailing_stop' : 'stop',
+      stop_price: roundPrice(entry.price * (1 - bracket.stop_loss_percent / 100)),
+      ...(bracket.trailing_stop ? { trail_percent: bracket.stop_loss_percent } : {}),
+      bracket_role: 'stop_loss',
+    });
+  }
+  if (bracket.take_profit_percent !== undefined) {
+    orders.push({
+      ...base,
+      id: createId('order', now),
+      order_type: 'limit',
+      limit_price: roundPrice(entry.price * (1 + bracket.take_profit_percent / 100)),
+      bracket_role: 'take_profit',
+    });
+  }
+  return orders;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+// Prices are last trades, so a limit fills at the tick when it's at the limit
+// or better, and a stop fills at the tick that crossed it
+function limitReached(order: PendingOrder, price: number): boolean {
+  const limit = order.limit_price ?? 0;
+  return order.action === 'BUY' ? price <= limit : price >= limit;
+}
+
+function stopReached(order: PendingOrder, price: number): boolean {
+  const stop = order.stop_price ?? 0;
+  return order.action === 'BUY' ? price >= stop : price <= stop;
+}
+
+export function evaluateOrder(order: PendingOrder, price: number, now: Date = new Date()): OrderEvaluation {
+  if (order.expires_at && now.getTime() >= new Date(order.expires_at).getTime()) {
+    return { outcome: 'expired' };
+  }
+
+  switch (order.order_type) {
+    case 'limit':
+      return limitReached(order, price) ? { outcome: 'fill', price, triggered: false } : { outcome: 'waiting' };
+    case 'stop':
+      return stopReached(order, price) ? { outcome: 'fill', price, triggered: true } : { outcome: 'waiting' };
+    case 'stop_limit': {
+      const triggered = order.triggered_at !== undefined || stopReached(order, price);
+      if (!triggered) return { outcome: 'waiting' };
+      return limitReached(order, price) ? { outcome: 'fill', price, triggered: true } : { outcome: 'triggered' };
+    }
+    case 'trailing_stop': {
+      // A trailing stop placed without a level starts at the first price it sees
+      if (order.stop_price !== undefined && stopReached(order, price)) {
+        return { outcome: 'fill', price, triggered: true };
+      }
+      const trail = (order.trail_percent ?? 0) / 100;
+      const level = roundPrice(order.action === 'SELL' ? price * (1 - trail) : price * (1 + trail));
+      const tighter = order.stop_price === undefined
+        || (order.action === 'SELL' ? level > order.stop_price : level < order.stop_price);
+      return tighter ? { outcome: 'trailed', stop_price: level } : { outcome: 'waiting' };
+    }
+  }
+}
+
+// ============================================
+// Display
+// ============================================
+
+const ORDER_TYPE_LABELS: Record<PendingOrder['order_type'], string> = {
+  limit: 'Limit',
+  stop: 'Stop',
+  stop_limit: 'Stop-limit',
+  trailing_stop: 'Trailing stop',
+};
+
+export function getOrderTypeLabel(orderType: PendingOrder['order_type']): string {
+  return ORDER_TYPE_LABELS[orderType];
+}
+
+// "BUY 10 AAPL stop 190 limit 191 (Day)", "SELL 10 AAPL trail 5% stop 180.5 (GTC)"
+export function describeOrder(order: Pick<PendingOrder, 'action' | 'quantity' | 'symbol' | 'stop_price' | 'limit_price' | 'trail_percent' | 'time_in_force'>): string {
+  const prices = [
+    order.trail_percent !== undefined ? `trail ${order.trail_percent}%` : '',
+    order.stop_price !== undefined ? `stop ${order.stop_price}` : '',
+    order.limit_price !== undefined ? `limit ${order.limit_price}` : '',
+  ].filter(Boolean).join(' ');
+  return `${order.action} ${order.quantity} ${order.symbol} ${prices} (${order.time_in_force === 'day' ? 'Day' : 'GTC'})`;
+}
+
+export default {
+  validateOrder,
+  validateBracket,
+  tradingDayEnd,
+  createOrder,
+  createBracketOrders,
+  evaluateOrder,
+  getOrderTypeLabel,
+  describeOrder,
+};
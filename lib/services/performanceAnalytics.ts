@@ -0,0 +1,292 @@
+// Performance Analytics
+// Risk-adjusted returns from the paper account's equity history, and trade
+// statistics from its round trips. Deposits are cash flows, not performance:
+// the time-weighted return strips them out, the money-weighted return weighs
+// them by how long they were invested. Margin interest and borrow fees stay
+// in, since they're costs of the trading.
+
+import { CashDeposit, JournalEntry, RoundTrip, Trade } from '@/types';
+import { getMultiplier } from '@/lib/services/contracts';
+import { config } from '@/constants/config';
+
+// ============================================
+// Types
+// ============================================
+
+export interface EquityPoint {
+  t: number; // Epoch milliseconds
+  equity: number;
+}
+
+export interface ReturnMetrics {
+  startedAt: string | null; // First equity point
+  endedAt: string | null;
+  netFlows: number; // Deposits inside the window
+  timeWeightedReturn: number | null; // Over the window, as a fraction
+  moneyWeightedReturn: number | null; // Modified Dietz, over the window
+  annualizedReturn: number | null; // Time-weighted; null until the window is long enough
+  volatility: number | null; // Annualized
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  maxDrawdown: number; // Fraction of the peak, 0 when equity never fell
+  drawdownPeakAt: string | null;
+  drawdownTroughAt: string | null;
+  recoveryDays: number | null; // Peak to the new high; null while still below it
+}
+
+export interface TradeMetrics {
+  closedTrades: number; // Every round trip, breakeven ones included
+  breakevenTrades: number;
+  winRate: number | null; // Fraction of all round trips
+  profitFactor: number | null; // Gross profit over gross loss; null without losses
+  expectancy: number | null; // Average P&L per round trip
+  averageR: number | null; // Average P&L in units of planned risk
+  rTrades: number; // Round trips with a planned stop to measure R against
+}
+
+export interface PerformanceMetrics {
+  returns: ReturnMetrics;
+  trades: TradeMetrics;
+}
+
+export interface PerformanceInput {
+  history: EquityPoint[];
+  deposits?: CashDeposit[];
+  roundTrips: RoundTrip[];
+  trades?: Trade[]; // For contract multipliers and trade-time FX rates
+  journal?: JournalEntry[]; // Planned stops, for R-multiples
+  riskFreeRate?: number;
+}
+
+// One step between equity points, with the deposits in it taken out
+interface PeriodReturn {
+  t: number;
+  value: number;
+  years: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+// ============================================
+// Equity history
+// ============================================
+
+// Keeps the newest half of the history at full detail and drops every other
+// point before it, so a capped history still reaches back to the start
+export function thinEquityHistory(points: EquityPoint[], cap: number): EquityPoint[] {
+  if (points.length <= cap) return points;
+  const recent = Math.floor(cap / 2);
+  const older = points.slice(0, points.length - recent).filter((_, i) => i % 2 === 0);
+  return [...older, ...points.slice(points.length - recent)];
+}
+
+// Money the trader added; financing charges are costs and stay in the returns
+export function externalFlows(deposits: CashDeposit[]): CashDeposit[] {
+  return deposits.filter(d => (d.kind ?? 'deposit') === 'deposit');
+}
+
+function flowsBetween(flows: CashDeposit[], from: number, to: number): number {
+  return flows
+    .filter(f => {
+      const at = new Date(f.timestamp).getTime();
+      return at > from && at <= to;
+    })
+    .reduce((sum, f) => sum + f.amount, 0);
+}
+
+// Deposits are taken to land at the end of the step they fall in
+function periodReturns(history: EquityPoint[], flows: CashDeposit[]): PeriodReturn[] {
+  const periods: PeriodReturn[] = [];
+  for (let i = 1; i < history.length; i++) {
+    const prev = history[i - 1];
+    const point = history[i];
+    if (prev.equity <= 0 || point.t <= prev.t) continue;
+    const flow = flowsBetween(flows, prev.t, point.t);
+    periods.push({ t: point.t, value: (point.equity - flow) / prev.equity - 1, years: (point.t - prev.t) / YEAR_MS });
+  }
+  return periods;
+}
+
+// Modified Dietz: the gain over the starting equity plus each deposit
+// weighted by the share of the window it was invested
+function modifiedDietz(history: EquityPoint[], flows: CashDeposit[]): number | null {
+  const first = history[0];
+  const last = history[history.length - 1];
+  const span = last.t - first.t;
+  if (span <= 0) return null;
+
+  const inside = flows.filter(f => {
+    const at = new Date(f.timestamp).getTime();
+    return at > first.t && at <= last.t;
+  });
+  const netFlows = inside.reduce((sum, f) => sum + f.amount, 0);
+  const weighted = inside.reduce((sum, f) => sum + f.amount * ((last.t - new Date(f.timestamp).getTime()) / span), 0);
+  const invested = first.equity + weighted;
+  return invested > 0 ? (last.equity - first.equity - netFlows) / invested : null;
+}
+
+// Drawdowns on the time-weighted index, so a deposit can't hide a loss
+function drawdown(periods: PeriodReturn[], startedAt: number) {
+  let index = 1;
+  let peak = 1;
+  let peakAt = startedAt;
+  let max = 0;
+  let maxPeakAt: number | null = null;
+  let troughAt: number | null = null;
+  let recoveredAt: number | null = null;
+
+  for (const period of periods) {
+    index *= 1 + period.value;
+    if (index >= peak) {
+      if (maxPeakAt === peakAt && recoveredAt === null) recoveredAt = period.t;
+      peak = index;
+      peakAt = period.t;
+      continue;
+    }
+    const depth = 1 - index / peak;
+    if (depth > max) {
+      max = depth;
+      maxPeakAt = peakAt;
+      troughAt = period.t;
+      recoveredAt = null;
+    }
+  }
+
+  return {
+    maxDrawdown: max,
+    drawdownPeakAt: maxPeakAt !== null ? new Date(maxPeakAt).toISOString() : null,
+    drawdownTroughAt: troughAt !== null ? new Date(troughAt).toISOString() : null,
+    recoveryDays: maxPeakAt !== null && recoveredAt !== null ? (recoveredAt - maxPeakAt) / DAY_MS : null,
+  };
+}
+
+// Steps between equity points aren't evenly spaced, so volatility comes
+// from log returns scaled by each step's length
+export function computeReturnMetrics(
+  history: EquityPoint[],
+  deposits: CashDeposit[] = [],
+  riskFreeRate: number = config.performance.riskFreeRate
+): ReturnMetrics {
+  const points = [...history].sort((a, b) => a.t - b.t);
+  const flows = externalFlows(deposits);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const periods = points.length > 1 ? periodReturns(points, flows) : [];
+
+  const empty: ReturnMetrics = {
+    startedAt: first ? new Date(first.t).toISOString() : null,
+    endedAt: last ? new Date(last.t).toISOString() : null,
+    netFlows: 0,
+    timeWeightedReturn: null,
+    moneyWeightedReturn: null,
+    annualizedReturn: null,
+    volatility: null,
+    sharpeRatio: null,
+    sortinoRatio: null,
+    calmarRatio: null,
+    maxDrawdown: 0,
+    drawdownPeakAt: null,
+    drawdownTroughAt: null,
+    recoveryDays: null,
+  };
+  if (periods.length === 0) return empty;
+
+  const timeWeightedReturn = periods.reduce((growth, p) => growth * (1 + p.value), 1) - 1;
+  const drawdowns = drawdown(periods, first.t);
+  const metrics: ReturnMetrics = {
+    ...empty,
+    netFlows: flowsBetween(flows, first.t, last.t),
+    timeWeightedReturn,
+    moneyWeightedReturn: modifiedDietz(points, flows),
+    ...drawdowns,
+  };
+
+  // Annualizing a few hours of history gives meaningless numbers
+  const years = periods.reduce((sum, p) => sum + p.years, 0);
+  const { minHistoryDays, minReturnPeriods } = config.performance;
+  if (years * 365.25 < minHistoryDays || periods.length < minReturnPeriods || timeWeightedReturn <= -1) {
+    return metrics;
+  }
+
+  const logs = periods.map(p => ({ value: Math.log(1 + p.value), years: p.years }));
+  const drift = logs.reduce((sum, l) => sum + l.value, 0) / years;
+  const variance = logs.reduce((sum, l) => sum + (l.value - drift * l.years) ** 2 / l.years, 0) / (logs.length - 1);
+  const riskFreeLog = Math.log(1 + riskFreeRate);
+  const downside = logs.reduce((sum, l) => sum + Math.min(0, l.value - riskFreeLog * l.years) ** 2 / l.years, 0) / logs.length;
+
+  const annualizedReturn = Math.exp(drift) - 1;
+  const volatility = Math.sqrt(variance);
+  const downsideDeviation = Math.sqrt(downside);
+  return {
+    ...metrics,
+    annualizedReturn,
+    volatility,
+    sharpeRatio: volatility > 0 ? (annualizedReturn - riskFreeRate) / volatility : null,
+    sortinoRatio: downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : null,
+    calmarRatio: drawdowns.maxDrawdown > 0 ? annualizedReturn / drawdowns.maxDrawdown : null,
+  };
+}
+
+// ============================================
+// Trades
+// ============================================
+
+// What the trade stood to lose at its planned stop. Round trips are in the
+// base currency while planned stops are in the symbol's own, so the stop is
+// converted at the entry fill's rate.
+function plannedRisk(trip: RoundTrip, stops: Map<string, number>, tradesById: Map<string, Trade>): number | null {
+  const entryId = trip.entry.trade_ids.find(id => stops.has(id));
+  if (!entryId) return null;
+  const entryTrade = tradesById.get(entryId);
+  const stop = (stops.get(entryId) ?? 0) * (entryTrade?.fx_rate ?? 1);
+  const multiplier = entryTrade ? getMultiplier(entryTrade) : 1;
+  const risk = Math.abs(trip.entry.price - stop) * trip.quantity * multiplier;
+  return risk > 0 ? risk : null;
+}
+
+// Breakeven round trips count toward win rate and expectancy, as they do in
+// the rest of the insights
+export function computeTradeMetrics(roundTrips: RoundTrip[], trades: Trade[] = [], journal: JournalEntry[] = []): TradeMetrics {
+  const grossProfit = roundTrips.filter(trip => trip.pnl > 0).reduce((sum, trip) => sum + trip.pnl, 0);
+  const grossLoss = roundTrips.filter(trip => trip.pnl < 0).reduce((sum, trip) => sum - trip.pnl, 0);
+
+  const stops = new Map<string, number>();
+  journal.forEach(entry => {
+    if (entry.trade_id && entry.planned_stop !== undefined) stops.set(entry.trade_id, entry.planned_stop);
+  });
+  const tradesById = new Map(trades.map(t => [t.id, t]));
+  const rMultiples = roundTrips
+    .map(trip => {
+      const risk = plannedRisk(trip, stops, tradesById);
+      return risk === null ? null : trip.pnl / risk;
+    })
+    .filter((r): r is number => r !== null);
+
+  return {
+    closedTrades: roundTrips.length,
+    breakevenTrades: roundTrips.filter(trip => trip.pnl === 0).length,
+    winRate: roundTrips.length > 0 ? roundTrips.filter(trip => trip.pnl > 0).length / roundTrips.length : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: roundTrips.length > 0 ? (grossProfit - grossLoss) / roundTrips.length : null,
+    averageR: rMultiples.length > 0 ? rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length : null,
+    rTrades: rMultiples.length,
+  };
+}
+
+export function computePerformance(input: PerformanceInput): PerformanceMetrics {
+  const { history, deposits = [], roundTrips, trades = [], journal = [], riskFreeRate } = input;
+  return {
+    returns: computeReturnMetrics(history, deposits, riskFreeRate),
+    trades: computeTradeMetrics(roundTrips, trades, journal),
+  };
+}
+
+export default {
+  thinEquityHistory,
+  externalFlows,
+  computeReturnMetrics,
+  computeTradeMetrics,
+  computePerformance,
+};
@@ -0,0 +1,252 @@
+// Portfolio Ledger
+// The append-only record behind each paper account. Cash, positions and the
+// equity curve are replayed from it, so a fat-finger fill can be undone
+// without erasing it and the account can be rebuilt as it stood at any moment.
+
+import { FillEvent, LedgerEvent, LedgerEventType, MarkEvent, PendingOrder, Position, Trade, UndoEvent } from '@/types';
+import { getSymbolCurrency } from '@/lib/services/currencyConverter';
+import { addToPosition, reducePosition, revalue, PositionFill } from '@/lib/services/positionAccounting';
+import { EquityPoint } from '@/lib/services/performanceAnalytics';
+import { createId } from '@/lib/utils/ids';
+import { config } from '@/constants/config';
+
+// ============================================
+// Types
+// ============================================
+
+// An event before it's given its place in the ledger
+export type NewLedgerEvent = {
+  [K in LedgerEventType]: Omit<Extract<LedgerEvent, { type: K }>, 'id' | 'sequence' | 'timestamp'>;
+}[LedgerEventType];
+
+// An account as the ledger says it stood
+export interface LedgerReplay {
+  cashBalance: number;
+  startingCash: number;
+  positions: Position[]; // Marked at each symbol's last fill or mark
+  trades: Trade[]; // Fills since the opening balance or reset, newest first
+  orders: PendingOrder[]; // Working orders at their terms then, newest first
+  equity: number; // Cash plus positions at those marks
+  asOf: string | null; // The last event replayed
+}
+
+// ============================================
+// Events
+// ============================================
+
+export function appendEvents(ledger: LedgerEvent[], events: NewLedgerEvent[], now: Date = new Date()): LedgerEvent[] {
+  if (events.length === 0) return ledger;
+  const timestamp = now.toISOString();
+  const next = ledger.length > 0 ? ledger[ledger.length - 1].sequence + 1 : 0;
+  return [
+    ...ledger,
+    ...events.map((event, i) => ({ ...event, id: createId('event', now), sequence: next + i, timestamp }) as LedgerEvent),
+  ];
+}
+
+// Where a new or migrated account's ledger starts
+export function openingLedger(startingCash: number, cash: number = startingCash, positions: Position[] = [], now: Date = new Date()): LedgerEvent[] {
+  return appendEvents([], [{ type: 'opening_balance', starting_cash: startingCash, cash, positions }], now);
+}
+
+// Fill events an undo has flagged
+export function undoneFillIds(events: LedgerEvent[]): Set<string> {
+  return new Set(events.filter((e): e is UndoEvent => e.type === 'undo').map(e => e.target_event_id));
+}
+
+// ============================================
+// Replay
+// ============================================
+
+const fillOf = (trade: Trade): PositionFill => ({
+  symbol: trade.symbol,
+  quantity: trade.quantity,
+  price: trade.price,
+  fees: trade.fees,
+  currency: trade.currency || getSymbolCurrency(trade.symbol, trade.asset_type),
+  usdRate: trade.usd_rate ?? 1,
+});
+
+// Applies a fill the way the store did when it happened
+function applyFill(positions: Position[], trade: Trade): { positions: Position[]; cashChange: number } {
+  const index = positions.findIndex(p => p.symbol === trade.symbol);
+  const existing = index >= 0 ? positions[index] : undefined;
+  const effect = trade.position_effect ?? (trade.action === 'BUY'
+    ? existing?.side === 'short' ? 'cover_short' : 'open_long'
+    : existing && existing.side !== 'short' ? 'close_long' : 'open_short');
+
+  if (effect === 'close_long' || effect === 'cover_short') {
+    if (!existing) return { positions, cashChange: 0 };
+    const closed = reducePosition(positions, index, fillOf(trade));
+    return { positions: closed.positions, cashChange: closed.cashChange };
+  }
+  return addToPosition(positions, fillOf(trade), effect === 'open_short' ? 'short' : 'long', trade.asset_type, trade.contract);
+}
+
+// A working order's fill leaves the rest working after a partial fill
+function afterFill(orders: PendingOrder[], trade: Trade): PendingOrder[] {
+  if (!trade.order_id) return orders;
+  if (trade.requested_quantity === undefined) return orders.filter(o => o.id !== trade.order_id);
+  return orders.map(o => (o.id === trade.order_id ? { ...o, quantity: o.quantity - trade.quantity } : o));
+}
+
+function applyMarks(positions: Position[], event: MarkEvent): Position[] {
+  return positions.map(position => {
+    const mark = event.marks.find(m => m.symbol === position.symbol);
+    return mark ? revalue(position, mark.price, mark.usd_rate) : position;
+  });
+}
+
+const equityOf = (cashBalance: number, positions: Position[]): number =>
+  cashBalance + positions.reduce((sum, p) => sum + p.current_value, 0);
+
+// Walks the ledger from its last opening balance or reset, taking only
+// events up to `until` when given, and hands each event that can change the
+// account's value to `visit` with the account after it
+function walkLedger(
+  events: LedgerEvent[],
+  until: Date | undefined,
+  visit?: (event: LedgerEvent, cashBalance: number, positions: Position[]) => void
+): LedgerReplay | null {
+  const cutoff = until ? until.getTime() : Infinity;
+  const replayed = [...events]
+    .sort((a, b) => a.sequence - b.sequence)
+    .filter(e => new Date(e.timestamp).getTime() <= cutoff);
+
+  let start = -1;
+  replayed.forEach((e, i) => {
+    if (e.type === 'opening_balance' || e.type === 'reset') start = i;
+  });
+  if (start < 0) return null;
+
+  const undone = undoneFillIds(replayed);
+  let cashBalance = 0;
+  let startingCash = 0;
+  let positions: Position[] = [];
+  let orders: PendingOrder[] = [];
+  const trades: Trade[] = [];
+  replayed.slice(start).forEach(event => {
+    switch (event.type) {
+      case 'opening_balance':
+        startingCash = event.starting_cash;
+        cashBalance = event.cash;
+        positions = event.positions;
+        break;
+      case 'reset':
+        startingCash = event.starting_cash;
+        cashBalance = event.starting_cash;
+        positions = [];
+        break;
+      case 'order_placed':
+        orders = [event.order, ...orders];
+        return;
+      case 'order_modified':
+        orders = orders.map(o => (o.id === event.order_id ? { ...o, ...event.changes } : o));
+        return;
+      case 'order_cancelled':
+        orders = orders.filter(o => o.id !== event.order_id);
+        return;
+      case 'fill': {
+        if (undone.has(event.id)) return;
+        const applied = applyFill(positions, event.trade);
+        positions = applied.positions;
+        cashBalance += applied.cashChange;
+        orders = afterFill(orders, event.trade);
+        trades.unshift(event.trade);
+        break;
+      }
+      case 'cash':
+        cashBalance += event.deposit.amount;
+        break;
+      case 'mark':
+        positions = applyMarks(positions, event);
+        break;
+      case 'undo':
+        break; // The fill it flags was already skipped
+    }
+    visit?.(event, cashBalance, positions);
+  });
+
+  return {
+    cashBalance,
+    startingCash,
+    positions,
+    trades,
+    orders,
+    equity: equityOf(cashBalance, positions),
+    asOf: replayed.length > 0 ? replayed[replayed.length - 1].timestamp : null,
+  };
+}
+
+// Replays the ledger from its last opening balance or reset, taking only
+// events up to `until` when given. Undone fills are skipped once their undo
+// is reached. Null when nothing had opened the account by then.
+export function replayLedger(events: LedgerEvent[], until?: Date): LedgerReplay | null {
+  return walkLedger(events, until);
+}
+
+// The account's equity after each fill, cash movement, mark and undo since
+// its last opening balance or reset, oldest first. Events logged together
+// share a point. A ledger opened from an older save starts with the history
+// that save kept.
+export function equityCurve(events: LedgerEvent[]): EquityPoint[] {
+  const points: EquityPoint[] = [];
+  walkLedger(events, undefined, (event, cashBalance, positions) => {
+    if (event.type === 'opening_balance') points.push(...(event.history ?? []));
+    const point = { t: new Date(event.timestamp).getTime(), equity: equityOf(cashBalance, positions) };
+    if (points.length > 0 && points[points.length - 1].t >= point.t) points[points.length - 1] = point;
+    else points.push(point);
+  });
+  return points;
+}
+
+// Whether an account's cash and positions are what its ledger replays to.
+// Marks move with prices, so only quantities and costs are compared.
+export function matchesReplay(replay: LedgerReplay, cashBalance: number, positions: Position[], tolerance: number = 0.01): boolean {
+  if (Math.abs(replay.cashBalance - cashBalance) >= tolerance) return false;
+  if (replay.positions.length !== positions.length) return false;
+  return replay.positions.every(replayed => {
+    const held = positions.find(p => p.symbol === replayed.symbol);
+    return held !== undefined
+      && (held.side ?? 'long') === (replayed.side ?? 'long')
+      && Math.abs(held.quantity - replayed.quantity) < 1e-9
+      && Math.abs(held.avg_cost - replayed.avg_cost) < tolerance;
+  });
+}
+
+// ============================================
+// Undo
+// ============================================
+
+export function undoDeadline(event: FillEvent, windowMinutes: number = config.ledger.undoWindowMinutes): Date {
+  return new Date(new Date(event.timestamp).getTime() + windowMinutes * 60 * 1000);
+}
+
+// The fill an undo would flag: the account's latest fill, when it was a
+// market order the trader sent (not a liquidation), hasn't been undone and is
+// still inside the undo window. Working orders that filled later stay.
+export function undoableFill(
+  events: LedgerEvent[],
+  now: Date = new Date(),
+  windowMinutes: number = config.ledger.undoWindowMinutes
+): FillEvent | null {
+  let last: LedgerEvent | undefined;
+  for (let i = events.length - 1; i >= 0 && !last; i--) {
+    if (['fill', 'undo', 'reset', 'opening_balance'].includes(events[i].type)) last = events[i];
+  }
+  if (!last || last.type !== 'fill') return null;
+  if ((last.trade.order_type ?? 'market') !== 'market' || last.trade.exit_plan === 'liquidation') return null;
+  if (now.getTime() > undoDeadline(last, windowMinutes).getTime()) return null;
+  return last;
+}
+
+export default {
+  appendEvents,
+  openingLedger,
+  undoneFillIds,
+  replayLedger,
+  equityCurve,
+  matchesReplay,
+  undoDeadline,
+  undoableFill,
+};
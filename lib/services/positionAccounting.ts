@@ -0,0 +1,153 @@
+// Position Accounting
+// How fills change a paper account's positions and dollar cash. Shared by the
+// portfolio store, which applies fills as they happen, and the ledger, which
+// replays them.
+
+import { AssetType, ContractSpec, Position } from '@/types';
+import { contractValue, getMultiplier, initialMargin } from '@/lib/services/contracts';
+
+// ============================================
+// Types
+// ============================================
+
+// A fill with its currency and the dollar rate it settles at
+export interface PositionFill {
+  symbol: string;
+  quantity: number;
+  price: number;
+  fees: number;
+  currency: string;
+  usdRate: number;
+}
+
+// ============================================
+// Valuation
+// ============================================
+
+// Dollar value of a position's shares, units or contracts at a price
+const usdNotional = (position: Position, price: number, usdRate: number): number =>
+  position.quantity * price * getMultiplier(position) * usdRate;
+
+// What the position was worth in dollars at entry, at the rates paid then
+const usdEntryValue = (position: Position): number =>
+  position.avg_cost * position.quantity * getMultiplier(position) * (position.avg_usd_rate ?? 1);
+
+// What a position ties up in dollars: its cost, or the margin posted for futures
+export const usdCostBasis = (position: Position): number =>
+  position.asset_type === 'futures' ? position.margin ?? 0 : usdEntryValue(position);
+
+// Futures are settled daily rather than paid for, so they add only their open
+// P&L to account value. Shorts owe their market value, so it counts against it.
+export const revalue = (position: Position, price: number, usdRate: number): Position => {
+  const marketValue = usdNotional(position, price, usdRate);
+  const direction = position.side === 'short' ? -1 : 1;
+  const pnl = (marketValue - usdEntryValue(position)) * direction;
+  const costBasis = usdCostBasis(position);
+  return {
+    ...position,
+    current_price: price,
+    current_value: position.asset_type === 'futures' ? pnl : marketValue * direction,
+    pnl,
+    pnl_percent: costBasis > 0 ? (pnl / costBasis) * 100 : 0,
+  };
+};
+
+// ============================================
+// Fills
+// ============================================
+
+// Opens or adds to a position on one side. Longs pay for what they buy, short
+// sales are credited the proceeds, and futures only pay fees and post margin.
+export const addToPosition = (
+  positions: Position[],
+  fill: PositionFill,
+  side: 'long' | 'short',
+  assetType: AssetType,
+  contract?: ContractSpec
+): { positions: Position[]; cashChange: number } => {
+  const isFutures = assetType === 'futures';
+  const value = contractValue(fill.quantity, fill.price, contract) * fill.usdRate;
+  const fees = fill.fees * fill.usdRate;
+  const margin = isFutures && contract ? initialMargin(contract, fill.price, fill.quantity) * fill.usdRate : 0;
+  const cashChange = isFutures ? -fees : side === 'long' ? -(value + fees) : value - fees;
+
+  const index = positions.findIndex(p => p.symbol === fill.symbol);
+  const newPositions = [...positions];
+  if (index >= 0) {
+    // Update existing position (average cost basis)
+    const existing = positions[index];
+    const totalQuantity = existing.quantity + fill.quantity;
+    const totalCostBasis = (existing.avg_cost * existing.quantity) + (fill.price * fill.quantity);
+    const totalUsdCost = (existing.avg_cost * existing.quantity * (existing.avg_usd_rate ?? 1)) + (fill.price * fill.quantity * fill.usdRate);
+    newPositions[index] = revalue({
+      ...existing,
+      quantity: totalQuantity,
+      avg_cost: totalCostBasis / totalQuantity,
+      currency: fill.currency,
+      avg_usd_rate: totalUsdCost / totalCostBasis,
+      ...(isFutures ? { margin: (existing.margin ?? 0) + margin } : {}),
+    }, fill.price, fill.usdRate);
+  } else {
+    newPositions.push(revalue({
+      symbol: fill.symbol,
+      quantity: fill.quantity,
+      avg_cost: fill.price,
+      current_price: fill.price,
+      current_value: 0,
+      pnl: 0,
+      pnl_percent: 0,
+      asset_type: assetType,
+      currency: fill.currency,
+      avg_usd_rate: fill.usdRate,
+      ...(contract ? { contract } : {}),
+      ...(isFutures ? { margin } : {}),
+      ...(side === 'short' ? { side } : {}),
+    }, fill.price, fill.usdRate));
+  }
+  return { positions: newPositions, cashChange };
+};
+
+// Closes part or all of a position. Realized P&L (including the FX move since
+// entry) is net of the closing fees and restated in the fill's currency.
+export const reducePosition = (
+  positions: Position[],
+  index: number,
+  fill: PositionFill
+): { positions: Position[]; cashChange: number; realizedPnl: number; remaining: number } => {
+  const position = positions[index];
+  const multiplier = getMultiplier(position);
+  const direction = position.side === 'short' ? -1 : 1;
+  const entryUsdPrice = position.avg_cost * (position.avg_usd_rate ?? 1);
+  const realizedUsd = (fill.price * fill.usdRate - entryUsdPrice) * fill.quantity * multiplier * direction
+    - fill.fees * fill.usdRate;
+  const value = fill.quantity * fill.price * multiplier * fill.usdRate;
+  const fees = fill.fees * fill.usdRate;
+
+  // Futures settle their P&L; sales receive the value, covers pay it
+  const cashChange = position.asset_type === 'futures'
+    ? realizedUsd
+    : direction === 1 ? value - fees : -(value + fees);
+
+  const remaining = position.quantity - fill.quantity;
+  let newPositions: Position[];
+  if (remaining <= 0) {
+    // Remove position entirely
+    newPositions = positions.filter((_, i) => i !== index);
+  } else {
+    // Reduce position, releasing margin in proportion
+    newPositions = [...positions];
+    newPositions[index] = revalue({
+      ...position,
+      quantity: remaining,
+      ...(position.margin !== undefined ? { margin: position.margin * (remaining / position.quantity) } : {}),
+    }, fill.price, fill.usdRate);
+  }
+  return { positions: newPositions, cashChange, realizedPnl: realizedUsd / fill.usdRate, remaining };
+};
+
+export default {
+  usdCostBasis,
+  revalue,
+  addToPosition,
+  reducePosition,
+};
@@ -0,0 +1,311 @@
+// Round Trip Reconstruction - Lot Matching Engine
+// Turns a raw execution stream (paper fills or imported broker rows) into
+// closed round trips so detectors, charts and the coach all agree on what a
+// "trade outcome" is, even with partial fills, scale-ins, multiple open lots
+// and short positions.
+
+import { Trade, AssetType, RoundTrip, LotMatchingMethod, PositionEffect } from '@/types';
+import { config } from '@/constants/config';
+import { getMultiplier } from '@/lib/services/contracts';
+
+// ============================================
+// Types
+// ============================================
+
+export type PositionDirection = RoundTrip['direction'];
+
+export interface OpenLot {
+  trade_id: string;
+  symbol: string;
+  direction: PositionDirection;
+  asset_type: AssetType;
+  timestamp: string;
+  price: number;
+  quantity: number;
+  fees: number; // Entry fees still attached to the remaining quantity
+  multiplier: number; // Contract multiplier; 1 for shares and units
+  fx_rate?: number; // Conversion rate of the entry, for trades restated in a base currency
+}
+
+export interface LotMatchResult {
+  roundTrips: RoundTrip[];
+  openLots: OpenLot[];
+  // Closing quantity that had no open lot to match against (e.g. history starts mid-position)
+  unmatchedTradeIds: string[];
+}
+
+// Quantities below this are treated as fully consumed (floating point dust)
+const QUANTITY_EPSILON = 1e-9;
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+function sortChronologically(trades: Trade[]): Trade[] {
+  return trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => {
+      const diff = toTime(a.trade.timestamp) - toTime(b.trade.timestamp);
+      return diff !== 0 ? diff : a.index - b.index;
+    })
+    .map(({ trade }) => trade);
+}
+
+function holdingMinutesBetween(entryTimestamp: string, exitTimestamp: string): number {
+  return Math.max(0, (toTime(exitTimestamp) - toTime(entryTimestamp)) / (1000 * 60));
+}
+
+// Imported rows that already carry both entry and exit prices describe a
+// complete trade on their own (e.g. the National Bank challenge layout).
+function isSelfContained(trade: Trade): boolean {
+  return trade.exit_price !== undefined && trade.exit_price > 0;
+}
+
+// Such a row describes the whole position, so its side names the direction
+function directionOfSelfContained(trade: Trade): PositionDirection {
+  if (trade.position_effect) {
+    return trade.position_effect === 'open_short' || trade.position_effect === 'cover_short' ? 'short' : 'long';
+  }
+  return trade.action === 'BUY' ? 'long' : 'short';
+}
+
+function buildSelfContainedTrip(trade: Trade): RoundTrip {
+  const direction = directionOfSelfContained(trade);
+  const entryPrice = trade.price;
+  const exitPrice = trade.exit_price ?? trade.price;
+  const sign = direction === 'long' ? 1 : -1;
+  const grossPnl = (exitPrice - entryPrice) * trade.quantity * getMultiplier(trade) * sign;
+  // Prefer the P&L the broker reported over our reconstruction
+  const pnl = trade.pnl !== undefined ? trade.pnl : grossPnl - trade.fees;
+
+  const exitTimestamp = trade.closed_at ?? trade.timestamp;
+
+  return {
+    id: `${trade.id}-rt`,
+    symbol: trade.symbol,
+    asset_type: trade.asset_type,
+    direction,
+    quantity: trade.quantity,
+    entry: {
+      trade_ids: [trade.id],
+      timestamp: trade.timestamp,
+      price: entryPrice,
+      fees: 0,
+    },
+    exit: {
+      trade_ids: [trade.id],
+      timestamp: exitTimestamp,
+      price: exitPrice,
+      fees: trade.fees,
+    },
+    // Unknown unless the source row also records when the position was closed
+    holding_minutes: trade.closed_at ? holdingMinutesBetween(trade.timestamp, trade.closed_at) : null,
+    gross_pnl: pnl + trade.fees,
+    fees: trade.fees,
+    pnl,
+    // Entry and exit were converted at one rate, so no FX effect is visible
+    ...(trade.fx_rate !== undefined ? { fx_pnl: 0 } : {}),
+  };
+}
+
+// Collapse all open lots into one at the quantity-weighted average cost
+function averageLots(lots: OpenLot[]): OpenLot[] {
+  if (lots.length <= 1) return lots;
+
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0);
+  const weightedTime = lots.reduce((sum, lot) => sum + toTime(lot.timestamp) * lot.quantity, 0);
+  const fees = lots.reduce((sum, lot) => sum + lot.fees, 0);
+  // Rate that turns the averaged original-currency cost into the averaged base cost
+  const converted = lots.every(lot => lot.fx_rate !== undefined);
+  const originalCost = lots.reduce((sum, lot) => sum + (lot.price / (lot.fx_rate ?? 1)) * lot.quantity, 0);
+
+  return [{
+    trade_id: lots[0].trade_id,
+    symbol: lots[0].symbol,
+    asset_type: lots[0].asset_type,
+    direction: lots[0].direction,
+    timestamp: new Date(Math.round(weightedTime / quantity)).toISOString(),
+    price: cost / quantity,
+    quantity,
+    fees,
+    multiplier: lots[0].multiplier,
+    fx_rate: converted && originalCost > 0 ? cost / originalCost : undefined,
+  }];
+}
+
+function bookKey(symbol: string, direction: PositionDirection): string {
+  return `${symbol}|${direction}`;
+}
+
+// A fill's stated effect wins. Otherwise a BUY covers an open short before it
+// opens a long, and a SELL closes a long: a SELL with nothing to close is left
+// unmatched (history may start mid-position), so shorts need an explicit effect.
+export function resolvePositionEffect(trade: Trade, hasOpenShort: boolean): PositionEffect {
+  if (trade.position_effect) return trade.position_effect;
+  if (trade.action === 'BUY') return hasOpenShort ? 'cover_short' : 'open_long';
+  return 'close_long';
+}
+
+// ============================================
+// Lot Matching
+// ============================================
+
+export function matchLots(
+  trades: Trade[],
+  method: LotMatchingMethod = config.analysis.lotMatchingMethod
+): LotMatchResult {
+  const roundTrips: RoundTrip[] = [];
+  const unmatchedTradeIds: string[] = [];
+  // Long and short lots of a symbol are kept in separate books
+  const books = new Map<string, OpenLot[]>();
+  // Trade IDs contributing to an averaged lot (average-cost merges lots)
+  const averagedIds = new Map<string, string[]>();
+
+  const openLot = (trade: Trade, direction: PositionDirection, quantity: number) => {
+    const key = bookKey(trade.symbol, direction);
+    const lots = books.get(key) || [];
+    lots.push({
+      trade_id: trade.id,
+      symbol: trade.symbol,
+      direction,
+      asset_type: trade.asset_type,
+      timestamp: trade.timestamp,
+      price: trade.price,
+      quantity,
+      fees: trade.fees * (quantity / trade.quantity),
+      multiplier: getMultiplier(trade),
+      fx_rate: trade.fx_rate,
+    });
+
+    if (method === 'average') {
+      averagedIds.set(key, [...(averagedIds.get(key) || []), trade.id]);
+      books.set(key, averageLots(lots));
+    } else {
+      books.set(key, lots);
+    }
+  };
+
+  // Closes lots in the order the method dictates; returns the quantity left over
+  const closeLots = (trade: Trade, direction: PositionDirection): number => {
+    const key = bookKey(trade.symbol, direction);
+    const lots = books.get(key) || [];
+    const sign = direction === 'long' ? 1 : -1;
+    let remaining = trade.quantity;
+    let legIndex = 0;
+    const selections = method === 'specific_id' ? (trade.lot_selections || []).map(s => ({ ...s })) : [];
+
+    while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+      // Named lots first, up to the quantity named; then oldest first
+      const selection = selections.find(s => s.quantity > QUANTITY_EPSILON && lots.some(lot => lot.trade_id === s.trade_id));
+      const lotIndex = selection
+        ? lots.findIndex(lot => lot.trade_id === selection.trade_id)
+        : method === 'lifo' ? lots.length - 1 : 0;
+      const lot = lots[lotIndex];
+      const closedQty = Math.min(lot.quantity, remaining, selection ? selection.quantity : Infinity);
+
+      const entryFees = lot.fees * (closedQty / lot.quantity);
+      const exitFees = trade.fees * (closedQty / trade.quantity);
+      const grossPnl = (trade.price - lot.price) * closedQty * lot.multiplier * sign;
+      // The entry cost revalued at the exit rate, minus what it cost at entry
+      const fxPnl = lot.fx_rate !== undefined && trade.fx_rate !== undefined
+        ? lot.price * (trade.fx_rate / lot.fx_rate - 1) * closedQty * lot.multiplier * sign
+        : undefined;
+      const entryIds = method === 'average'
+        ? averagedIds.get(key) || [lot.trade_id]
+        : [lot.trade_id];
+
+      roundTrips.push({
+        id: `${trade.id}-rt${legIndex}`,
+        symbol: trade.symbol,
+        asset_type: lot.asset_type,
+        direction,
+        quantity: closedQty,
+        entry: {
+          trade_ids: entryIds,
+          timestamp: lot.timestamp,
+          price: lot.price,
+          fees: entryFees,
+        },
+        exit: {
+          trade_ids: [trade.id],
+          timestamp: trade.timestamp,
+          price: trade.price,
+          fees: exitFees,
+        },
+        holding_minutes: holdingMinutesBetween(lot.timestamp, trade.timestamp),
+        gross_pnl: grossPnl,
+        fees: entryFees + exitFees,
+        pnl: grossPnl - entryFees - exitFees,
+        ...(fxPnl !== undefined ? { fx_pnl: fxPnl } : {}),
+        ...(trade.exit_plan ? { exit_plan: trade.exit_plan } : {}),
+      });
+
+      lot.quantity -= closedQty;
+      lot.fees -= entryFees;
+      remaining -= closedQty;
+      if (selection) selection.quantity -= closedQty;
+      legIndex++;
+
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        lots.splice(lotIndex, 1);
+      }
+    }
+
+    if (lots.length === 0) {
+      averagedIds.delete(key);
+    }
+    books.set(key, lots);
+    return remaining;
+  };
+
+  for (const trade of sortChronologically(trades)) {
+    if (isSelfContained(trade)) {
+      roundTrips.push(buildSelfContainedTrip(trade));
+      continue;
+    }
+
+    if (trade.quantity <= 0) continue;
+
+    const hasOpenShort = (books.get(bookKey(trade.symbol, 'short')) || []).length > 0;
+    const effect = resolvePositionEffect(trade, hasOpenShort);
+
+    if (effect === 'open_long' || effect === 'open_short') {
+      openLot(trade, effect === 'open_long' ? 'long' : 'short', trade.quantity);
+      continue;
+    }
+
+    const remaining = closeLots(trade, effect === 'close_long' ? 'long' : 'short');
+    if (remaining <= QUANTITY_EPSILON) continue;
+
+    if (effect === 'cover_short' && !trade.position_effect) {
+      // An inferred cover that buys more than the short flips into a long
+      openLot(trade, 'long', remaining);
+    } else {
+      unmatchedTradeIds.push(trade.id);
+    }
+  }
+
+  const openLots = Array.from(books.values()).reduce<OpenLot[]>(
+    (all, lots) => all.concat(lots),
+    []
+  );
+
+  return { roundTrips, openLots, unmatchedTradeIds };
+}
+
+// Closed round trips only, ordered by exit time
+export function buildRoundTrips(
+  trades: Trade[],
+  method: LotMatchingMethod = config.analysis.lotMatchingMethod
+): RoundTrip[] {
+  return matchLots(trades, method).roundTrips.sort(
+    (a, b) => toTime(a.exit.timestamp) - toTime(b.exit.timestamp)
+  );
+}
+
+export default { matchLots, buildRoundTrips, resolvePositionEffect };
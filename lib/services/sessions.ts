@@ -0,0 +1,115 @@
+// Trading Sessions
+// Named paper-trading accounts ("Feb swing challenge", "Forex practice"),
+// each with its own cash, positions, trades and behavior report. The
+// portfolio store works on the open session and keeps the others as
+// snapshots, so orders in those wait until the session is opened again.
+
+import { BiasType, CashDeposit, Position, Session, Trade, TradingDayBoundaries } from '@/types';
+import { computeBehaviorReport } from '@/lib/services/behaviorReport';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { externalFlows } from '@/lib/services/performanceAnalytics';
+import { createId } from '@/lib/utils/ids';
+
+export const DEFAULT_SESSION_ID = 'session-1';
+export const DEFAULT_SESSION_NAME = 'Paper trading';
+export const MAX_SESSION_NAME_LENGTH = 40;
+
+// ============================================
+// Types
+// ============================================
+
+export interface SessionComparison {
+  session: Session;
+  totalValue: number;
+  returnPercent: number; // Gain net of deposits and withdrawals, against the starting balance
+  tradeCount: number;
+  roundTripCount: number;
+  winRate: number; // Percent of closed round trips that made money
+  disciplineScore: number | null; // Null until the session has trades
+  topConcern: BiasType | null; // Highest-scoring bias, if any
+}
+
+export interface SessionComparisonInput {
+  trades: Trade[]; // In the base currency
+  positions: Position[];
+  totalValue: number;
+  cashDeposits?: CashDeposit[]; // Since the session started or was last reset
+  tradingDayBoundaries?: TradingDayBoundaries;
+  baseCurrency?: string;
+}
+
+// ============================================
+// Sessions
+// ============================================
+
+export function createSession(
+  name: string,
+  startingBalance: number,
+  now: Date = new Date(),
+  id: string = createId('session', now)
+): Session {
+  const timestamp = now.toISOString();
+  return {
+    id,
+    user_id: 'demo-user',
+    name: name.trim(),
+    created_at: timestamp,
+    updated_at: timestamp,
+    status: 'active',
+    starting_balance: startingBalance,
+    current_balance: startingBalance,
+  };
+}
+
+// Returns an error message, or null when the name can be used
+export function validateSessionName(name: string, sessions: Session[], renamingId?: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Give the session a name';
+  if (trimmed.length > MAX_SESSION_NAME_LENGTH) return `Keep the name under ${MAX_SESSION_NAME_LENGTH} characters`;
+  const taken = sessions.some(s => s.id !== renamingId && s.name.toLowerCase() === trimmed.toLowerCase());
+  return taken ? 'Another session already has that name' : null;
+}
+
+export function validateStartingBalance(balance: number): string | null {
+  return Number.isFinite(balance) && balance > 0 ? null : 'Starting balance must be more than zero';
+}
+
+export function updateSession(sessions: Session[], id: string, changes: Partial<Session>, now: Date = new Date()): Session[] {
+  return sessions.map(s => (s.id === id ? { ...s, ...changes, updated_at: now.toISOString() } : s));
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+export function compareSession(session: Session, input: SessionComparisonInput): SessionComparison {
+  const { trades, positions, totalValue, cashDeposits = [], tradingDayBoundaries, baseCurrency } = input;
+  const roundTrips = buildRoundTrips(trades);
+  const report = trades.length > 0
+    ? computeBehaviorReport({ trades, positions, tradingDayBoundaries, baseCurrency })
+    : undefined;
+  const topBias = report?.biases[0];
+  // Money paid in isn't a return on the money already there
+  const netDeposits = externalFlows(cashDeposits).reduce((sum, d) => sum + d.amount, 0);
+
+  return {
+    session,
+    totalValue,
+    returnPercent: session.starting_balance > 0
+      ? ((totalValue - session.starting_balance - netDeposits) / session.starting_balance) * 100
+      : 0,
+    tradeCount: trades.length,
+    roundTripCount: roundTrips.length,
+    winRate: roundTrips.length > 0 ? (roundTrips.filter(rt => rt.pnl > 0).length / roundTrips.length) * 100 : 0,
+    disciplineScore: report?.disciplineScore ?? null,
+    topConcern: topBias ? topBias.bias_type : null,
+  };
+}
+
+export default {
+  createSession,
+  validateSessionName,
+  validateStartingBalance,
+  updateSession,
+  compareSession,
+};
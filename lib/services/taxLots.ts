@@ -0,0 +1,317 @@
+// Tax Lots
+// Realized gains by tax lot for a tax report: which lots each sale disposed
+// of (through the lot matcher), whether the gain is short or long term, and
+// losses disallowed because the same symbol was bought back within the wash
+// sale (US) or superficial loss (Canada) window. Amounts are in the trades'
+// currency, so convert them to the base currency first.
+
+import { AssetType, LotMatchingMethod, RoundTrip, TaxJurisdiction, Trade, TradingDayBoundaries } from '@/types';
+import { matchLots, OpenLot } from '@/lib/services/roundTrips';
+import { getMultiplier } from '@/lib/services/contracts';
+import { getLocalTimeZone, getTradingDayForAsset, getWallTime } from '@/lib/utils/timezone';
+import { serializeCSV } from '@/lib/utils/csvTokenizer';
+import { config } from '@/constants/config';
+
+// ============================================
+// Types
+// ============================================
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface WashSale {
+  disallowedLoss: number; // Positive; the share of the loss covered by replacement buys
+  replacementTradeIds: string[];
+}
+
+// One lot, or part of one, disposed of by a sale
+export interface TaxLotDisposal {
+  id: string;
+  symbol: string;
+  assetType: AssetType;
+  direction: RoundTrip['direction'];
+  quantity: number;
+  acquiredTradeIds: string[];
+  disposedTradeIds: string[];
+  acquired: string; // Calendar date in the user's zone, YYYY-MM-DD
+  disposed: string; // Sets the tax year
+  disposedAt: string; // Timestamp, for the wash sale window
+  proceeds: number; // Net of the selling fees
+  costBasis: number; // Including the buying fees
+  gain: number;
+  term: HoldingTerm;
+  taxYear: number;
+  washSale?: WashSale;
+}
+
+export interface TaxYearSummary {
+  year: number;
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  disallowedLoss: number;
+  reportableGain: number; // Short and long term gains with disallowed losses added back
+  disposals: number;
+  washSales: number;
+}
+
+export interface TaxReport {
+  method: LotMatchingMethod;
+  disposals: TaxLotDisposal[]; // By disposal date
+  years: TaxYearSummary[]; // Newest first
+  openLots: OpenLot[];
+}
+
+// Whether losses look harvested for tax or held out of loss aversion
+export interface TaxBehavior {
+  winnerHoldingDays: number | null; // Average days held, by outcome
+  loserHoldingDays: number | null;
+  yearEndLossShare: number | null; // Share of realized losses booked in the last two months of their tax year
+  washSales: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-9;
+const YEAR_END_MONTHS = ['11', '12'];
+
+// ============================================
+// Disposals
+// ============================================
+
+// Held for more than the long-term period, counted in calendar months.
+// Short sales are short term however long they stay open.
+function holdingTerm(trip: RoundTrip): HoldingTerm {
+  if (trip.direction === 'short') return 'short';
+  const threshold = new Date(trip.entry.timestamp);
+  threshold.setUTCMonth(threshold.getUTCMonth() + config.tax.longTermMonths);
+  return new Date(trip.exit.timestamp).getTime() > threshold.getTime() ? 'long' : 'short';
+}
+
+// Tax dates are calendar dates where the user lives, not the asset's trading
+// day: a forex sale on the evening of December 31 is still in that tax year
+function calendarDate(timestamp: string, timeZone: string): string {
+  const { year, month, day } = getWallTime(new Date(timestamp), timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// A long sells at the exit; a short sold at the entry and bought back later
+function toDisposal(trip: RoundTrip, multiplier: number, timeZone: string): TaxLotDisposal {
+  const saleLeg = trip.direction === 'long' ? trip.exit : trip.entry;
+  const proceeds = saleLeg.price * trip.quantity * multiplier - saleLeg.fees;
+  const disposed = calendarDate(trip.exit.timestamp, timeZone);
+  return {
+    id: trip.id,
+    symbol: trip.symbol,
+    assetType: trip.asset_type,
+    direction: trip.direction,
+    quantity: trip.quantity,
+    acquiredTradeIds: trip.entry.trade_ids,
+    disposedTradeIds: trip.exit.trade_ids,
+    acquired: calendarDate(trip.entry.timestamp, timeZone),
+    disposed,
+    disposedAt: trip.exit.timestamp,
+    proceeds,
+    costBasis: proceeds - trip.pnl,
+    gain: trip.pnl,
+    term: holdingTerm(trip),
+    taxYear: Number(disposed.slice(0, 4)),
+  };
+}
+
+// Buys that open or add to a long can replace a lot sold at a loss
+function isPurchase(trade: Trade): boolean {
+  return trade.action === 'BUY' && trade.position_effect !== 'cover_short';
+}
+
+// Trading day on the asset's session calendar, as a day number
+function tradingDayNumber(timestamp: string, assetType: AssetType, boundaries: TradingDayBoundaries): number {
+  return new Date(getTradingDayForAsset(timestamp, assetType, boundaries)).getTime() / DAY_MS;
+}
+
+// Long quantity of the symbol still open after the given trading day
+function heldAfter(trades: Trade[], symbol: string, lastDay: number, boundaries: TradingDayBoundaries): number {
+  const through = trades.filter(t =>
+    t.symbol === symbol && tradingDayNumber(t.timestamp, t.asset_type, boundaries) <= lastDay
+  );
+  return matchLots(through).openLots
+    .filter(lot => lot.direction === 'long')
+    .reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+// Flags long disposals at a loss with buys of the same symbol within the
+// window, counted in trading days, before or after the sale. Each bought
+// share replaces one sold share once, and the disallowed part of the loss
+// follows the share replaced. In Canada only shares still held at the end
+// of the window count. The deferred loss isn't carried into the replacement
+// lot's basis.
+export function detectWashSales(
+  disposals: TaxLotDisposal[],
+  trades: Trade[],
+  windowDays: number = config.tax.washSaleDays,
+  boundaries: TradingDayBoundaries = config.analysis.tradingDayBoundaries,
+  jurisdiction: TaxJurisdiction = config.tax.defaultJurisdiction
+): TaxLotDisposal[] {
+  const purchases = trades
+    .filter(isPurchase)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const available = new Map(purchases.map(t => [t.id, t.quantity]));
+
+  return disposals.map(disposal => {
+    if (disposal.direction !== 'long' || disposal.gain >= 0) return disposal;
+
+    const saleDay = tradingDayNumber(disposal.disposedAt, disposal.assetType, boundaries);
+    const replaceable = jurisdiction === 'ca'
+      ? Math.min(disposal.quantity, heldAfter(trades, disposal.symbol, saleDay + windowDays, boundaries))
+      : disposal.quantity;
+    let unreplaced = replaceable;
+    const replacementTradeIds: string[] = [];
+    for (const purchase of purchases) {
+      if (unreplaced <= QUANTITY_EPSILON) break;
+      if (purchase.symbol !== disposal.symbol || disposal.acquiredTradeIds.includes(purchase.id)) continue;
+      if (Math.abs(tradingDayNumber(purchase.timestamp, purchase.asset_type, boundaries) - saleDay) > windowDays) continue;
+      const left = available.get(purchase.id) ?? 0;
+      if (left <= QUANTITY_EPSILON) continue;
+      const replaced = Math.min(left, unreplaced);
+      available.set(purchase.id, left - replaced);
+      unreplaced -= replaced;
+      replacementTradeIds.push(purchase.id);
+    }
+    if (replacementTradeIds.length === 0) return disposal;
+
+    const replacedShare = (replaceable - unreplaced) / disposal.quantity;
+    return { ...disposal, washSale: { disallowedLoss: -disposal.gain * replacedShare, replacementTradeIds } };
+  });
+}
+
+// ============================================
+// Report
+// ============================================
+
+export function summarizeTaxYears(disposals: TaxLotDisposal[]): TaxYearSummary[] {
+  const years = new Map<number, TaxYearSummary>();
+  disposals.forEach(d => {
+    const summary = years.get(d.taxYear) ?? {
+      year: d.taxYear,
+      proceeds: 0,
+      costBasis: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      disallowedLoss: 0,
+      reportableGain: 0,
+      disposals: 0,
+      washSales: 0,
+    };
+    const disallowed = d.washSale?.disallowedLoss ?? 0;
+    summary.proceeds += d.proceeds;
+    summary.costBasis += d.costBasis;
+    if (d.term === 'long') summary.longTermGain += d.gain;
+    else summary.shortTermGain += d.gain;
+    summary.disallowedLoss += disallowed;
+    summary.reportableGain += d.gain + disallowed;
+    summary.disposals += 1;
+    if (d.washSale) summary.washSales += 1;
+    years.set(d.taxYear, summary);
+  });
+  return Array.from(years.values()).sort((a, b) => b.year - a.year);
+}
+
+export function buildTaxReport(
+  trades: Trade[],
+  method: LotMatchingMethod = config.tax.defaultLotMethod,
+  boundaries: TradingDayBoundaries = config.analysis.tradingDayBoundaries,
+  jurisdiction: TaxJurisdiction = config.tax.defaultJurisdiction,
+  timeZone: string = getLocalTimeZone()
+): TaxReport {
+  const { roundTrips, openLots } = matchLots(trades, method);
+  const byId = new Map(trades.map(t => [t.id, t]));
+  const disposals = roundTrips
+    .map(trip => {
+      const closing = byId.get(trip.exit.trade_ids[0]);
+      return toDisposal(trip, closing ? getMultiplier(closing) : 1, timeZone);
+    })
+    .sort((a, b) => new Date(a.disposedAt).getTime() - new Date(b.disposedAt).getTime());
+  const checked = detectWashSales(disposals, trades, config.tax.washSaleDays, boundaries, jurisdiction);
+  return { method, disposals: checked, years: summarizeTaxYears(checked), openLots };
+}
+
+// ============================================
+// Behavior
+// ============================================
+
+function averageHoldingDays(disposals: TaxLotDisposal[]): number | null {
+  if (disposals.length === 0) return null;
+  const total = disposals.reduce(
+    (sum, d) => sum + (new Date(d.disposed).getTime() - new Date(d.acquired).getTime()) / DAY_MS,
+    0
+  );
+  return total / disposals.length;
+}
+
+export function analyzeTaxBehavior(disposals: TaxLotDisposal[]): TaxBehavior {
+  const winners = disposals.filter(d => d.gain > 0);
+  const losers = disposals.filter(d => d.gain < 0);
+  const totalLoss = losers.reduce((sum, d) => sum - d.gain, 0);
+  const yearEndLoss = losers
+    .filter(d => YEAR_END_MONTHS.includes(d.disposed.slice(5, 7)))
+    .reduce((sum, d) => sum - d.gain, 0);
+  return {
+    winnerHoldingDays: averageHoldingDays(winners),
+    loserHoldingDays: averageHoldingDays(losers),
+    yearEndLossShare: totalLoss > 0 ? yearEndLoss / totalLoss : null,
+    washSales: disposals.filter(d => d.washSale).length,
+  };
+}
+
+// Plain-language reading of the behavior, for the report and the coach
+export function describeTaxBehavior(behavior: TaxBehavior): string[] {
+  const notes: string[] = [];
+  const { winnerHoldingDays, loserHoldingDays, yearEndLossShare, washSales } = behavior;
+  if (winnerHoldingDays !== null && loserHoldingDays !== null && loserHoldingDays > winnerHoldingDays * 1.5) {
+    notes.push(`Losing lots were held ${Math.round(loserHoldingDays)} days on average against ${Math.round(winnerHoldingDays)} for winners: that's loss aversion, not tax planning.`);
+  }
+  if (yearEndLossShare !== null && yearEndLossShare >= 0.5) {
+    notes.push(`${Math.round(yearEndLossShare * 100)}% of realized losses were booked in November and December, which looks like deliberate tax-loss harvesting.`);
+  }
+  if (washSales > 0) {
+    notes.push(`${washSales} ${washSales === 1 ? 'loss was' : 'losses were'} disallowed because the same symbol was bought back within ${config.tax.washSaleDays} days. Harvesting only counts if you stay out.`);
+  }
+  return notes;
+}
+
+// ============================================
+// Export
+// ============================================
+
+// Columns follow Form 8949; the adjustment code W marks a wash sale
+const EXPORT_HEADERS = [
+  'description', 'date_acquired', 'date_sold', 'proceeds', 'cost_basis', 'adjustment_code',
+  'adjustment', 'gain', 'term', 'tax_year', 'symbol', 'quantity', 'direction',
+];
+
+export function exportTaxReportCsv(disposals: TaxLotDisposal[]): string {
+  const rows = disposals.map(d => [
+    `${d.quantity} ${d.symbol}`,
+    d.acquired,
+    d.disposed,
+    d.proceeds.toFixed(2),
+    d.costBasis.toFixed(2),
+    d.washSale ? 'W' : '',
+    d.washSale ? d.washSale.disallowedLoss.toFixed(2) : '',
+    (d.gain + (d.washSale?.disallowedLoss ?? 0)).toFixed(2),
+    d.term,
+    String(d.taxYear),
+    d.symbol,
+    String(d.quantity),
+    d.direction,
+  ]);
+  return serializeCSV([EXPORT_HEADERS, ...rows]);
+}
+
+export default {
+  buildTaxReport,
+  detectWashSales,
+  summarizeTaxYears,
+  analyzeTaxBehavior,
+  describeTaxBehavior,
+  exportTaxReportCsv,
+};
@@ -0,0 +1,204 @@
+// Trade Journal
+// Plans written before an entry and reviews written after the exit. Entries
+// hang off the entry fill, so they meet round trips through the trade ids on
+// each trip's entry leg.
+
+import { BiasDetection, BiasType, JournalEmotion, JournalEntry, RoundTrip, TradePlan, TradeReview } from '@/types';
+import { journalEmotions, mistakeCategories } from '@/constants/journal';
+import { serializeCSV } from '@/lib/utils/csvTokenizer';
+import { createId } from '@/lib/utils/ids';
+
+export const MAX_THESIS_LENGTH = 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface JournalFilters {
+  query?: string; // Matched against symbol, setup, thesis and lesson
+  setup?: string;
+  emotion?: JournalEmotion;
+  reviewed?: boolean;
+}
+
+// A journal entry with the round trips its entry fill opened
+export interface JournaledTrade {
+  entry: JournalEntry;
+  roundTrips: RoundTrip[];
+  pnl: number | null; // Null while nothing has been closed
+  isClosed: boolean; // At least one round trip has closed
+}
+
+export interface EmotionBiasCount {
+  biasType: BiasType;
+  emotion: JournalEmotion;
+  count: number; // Journaled trades flagged for the bias with this emotion
+  total: number; // Journaled trades flagged for the bias
+}
+
+// ============================================
+// Entries
+// ============================================
+
+// Returns an error message, or null when the plan can be saved
+export function validatePlan(plan: TradePlan, action: 'BUY' | 'SELL'): string | null {
+  if (!plan.setup.trim()) return 'Tag the setup or strategy';
+  if (!plan.thesis.trim()) return 'Write down why you are taking the trade';
+  if (plan.thesis.length > MAX_THESIS_LENGTH) return `Keep the thesis under ${MAX_THESIS_LENGTH} characters`;
+  if (plan.planned_stop !== undefined && !(plan.planned_stop > 0)) return 'Planned stop must be a positive price';
+  if (plan.planned_target !== undefined && !(plan.planned_target > 0)) return 'Planned target must be a positive price';
+  if (plan.planned_stop !== undefined && plan.planned_target !== undefined) {
+    const inverted = action === 'BUY' ? plan.planned_stop >= plan.planned_target : plan.planned_stop <= plan.planned_target;
+    if (inverted) {
+      return action === 'BUY' ? 'A long\'s stop goes below its target' : 'A short\'s stop goes above its target';
+    }
+  }
+  return null;
+}
+
+export function createJournalEntry(
+  plan: TradePlan,
+  fill: Pick<JournalEntry, 'symbol' | 'action' | 'trade_id' | 'order_id'>,
+  sessionId: string,
+  now: Date = new Date()
+): JournalEntry {
+  return {
+    ...plan,
+    setup: plan.setup.trim(),
+    thesis: plan.thesis.trim(),
+    id: createId('journal', now),
+    session_id: sessionId,
+    created_at: now.toISOString(),
+    symbol: fill.symbol,
+    action: fill.action,
+    ...(fill.trade_id ? { trade_id: fill.trade_id } : {}),
+    ...(fill.order_id ? { order_id: fill.order_id } : {}),
+  };
+}
+
+export function createReview(review: Omit<TradeReview, 'reviewed_at'>, now: Date = new Date()): TradeReview {
+  const { lesson, ...rest } = review;
+  return {
+    ...rest,
+    ...(lesson?.trim() ? { lesson: lesson.trim() } : {}),
+    reviewed_at: now.toISOString(),
+  };
+}
+
+// The note stored on the trade itself, so exports carry the thesis
+export function tradeNote(entry: Pick<JournalEntry, 'setup' | 'thesis'>): string {
+  return `[${entry.setup}] ${entry.thesis}`;
+}
+
+// Setups used before, most frequent first, for suggesting tags
+export function knownSetups(entries: JournalEntry[]): string[] {
+  const counts = new Map<string, number>();
+  entries.forEach(e => counts.set(e.setup, (counts.get(e.setup) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([setup]) => setup);
+}
+
+// ============================================
+// Round Trips
+// ============================================
+
+export function attachRoundTrips(entries: JournalEntry[], roundTrips: RoundTrip[]): JournaledTrade[] {
+  return entries.map(entry => {
+    const trips = entry.trade_id
+      ? roundTrips.filter(rt => rt.entry.trade_ids.includes(entry.trade_id as string))
+      : [];
+    return {
+      entry,
+      roundTrips: trips,
+      pnl: trips.length > 0 ? trips.reduce((sum, rt) => sum + rt.pnl, 0) : null,
+      isClosed: trips.length > 0,
+    };
+  });
+}
+
+// Closed trades whose plan hasn't been reviewed yet, oldest first
+export function pendingReviews(journaled: JournaledTrade[]): JournaledTrade[] {
+  return journaled
+    .filter(j => j.isClosed && !j.entry.review)
+    .sort((a, b) => a.entry.created_at.localeCompare(b.entry.created_at));
+}
+
+// ============================================
+// Search
+// ============================================
+
+export function searchJournal(journaled: JournaledTrade[], filters: JournalFilters): JournaledTrade[] {
+  const query = filters.query?.trim().toLowerCase();
+  return journaled.filter(({ entry }) => {
+    if (filters.setup && entry.setup !== filters.setup) return false;
+    if (filters.emotion && entry.emotion !== filters.emotion) return false;
+    if (filters.reviewed !== undefined && !!entry.review !== filters.reviewed) return false;
+    if (!query) return true;
+    return [entry.symbol, entry.setup, entry.thesis, entry.review?.lesson ?? '']
+      .some(text => text.toLowerCase().includes(query));
+  });
+}
+
+// ============================================
+// Bias Cross-Reference
+// ============================================
+
+// How the trader said they felt on the trades each bias flagged, e.g. bored
+// on 6 of 8 revenge trades. Most common emotion per bias first.
+export function emotionsByBias(entries: JournalEntry[], biases: BiasDetection[]): EmotionBiasCount[] {
+  const byTrade = new Map(entries.filter(e => e.trade_id).map(e => [e.trade_id as string, e]));
+  return biases.flatMap(bias => {
+    const journaled = bias.affected_trades
+      .map(id => byTrade.get(id))
+      .filter((e): e is JournalEntry => e !== undefined);
+    if (journaled.length === 0) return [];
+    const counts = new Map<JournalEmotion, number>();
+    journaled.forEach(e => counts.set(e.emotion, (counts.get(e.emotion) ?? 0) + 1));
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([emotion, count]) => ({ biasType: bias.bias_type, emotion, count, total: journaled.length }));
+  });
+}
+
+// ============================================
+// Export
+// ============================================
+
+const EXPORT_HEADERS = [
+  'created_at', 'symbol', 'action', 'setup', 'thesis', 'planned_stop', 'planned_target',
+  'confidence', 'emotion', 'realized_pnl', 'followed_plan', 'mistake', 'lesson', 'reviewed_at',
+];
+
+export function exportJournalCsv(journaled: JournaledTrade[]): string {
+  const rows = journaled.map(({ entry, pnl }) => [
+    entry.created_at,
+    entry.symbol,
+    entry.action,
+    entry.setup,
+    entry.thesis,
+    entry.planned_stop !== undefined ? String(entry.planned_stop) : '',
+    entry.planned_target !== undefined ? String(entry.planned_target) : '',
+    String(entry.confidence),
+    journalEmotions[entry.emotion].label,
+    pnl !== null ? pnl.toFixed(2) : '',
+    entry.review ? (entry.review.followed_plan ? 'yes' : 'no') : '',
+    entry.review ? mistakeCategories[entry.review.mistake] : '',
+    entry.review?.lesson ?? '',
+    entry.review?.reviewed_at ?? '',
+  ]);
+  return serializeCSV([EXPORT_HEADERS, ...rows]);
+}
+
+export default {
+  validatePlan,
+  createJournalEntry,
+  createReview,
+  tradeNote,
+  knownSetups,
+  attachRoundTrips,
+  pendingReviews,
+  searchJournal,
+  emotionsByBias,
+  exportJournalCsv,
+};
@@ -0,0 +1,64 @@
+// Import Profile Store (Zustand)
+// Saved column mappings, auto-applied when a file with the same header set is uploaded
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { ColumnMapping, ImportProfile } from '@/types';
+import { headerSignature } from '@/lib/utils/tradeParser';
+
+interface ImportProfileState {
+  profiles: ImportProfile[];
+
+  // Actions
+  saveProfile: (name: string, headers: string[], mapping: ColumnMapping) => ImportProfile;
+  deleteProfile: (id: string) => void;
+  markUsed: (id: string) => void;
+  findProfileForHeaders: (headers: string[]) => ImportProfile | undefined;
+}
+
+export const useImportProfileStore = create<ImportProfileState>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+
+      // Saving for a header set that already has a profile replaces it
+      saveProfile: (name, headers, mapping) => {
+        const signature = headerSignature(headers);
+        const existing = get().profiles.find(p => p.header_signature === signature);
+        const profile: ImportProfile = {
+          id: existing?.id || `profile-${Date.now()}`,
+          name: name.trim() || 'Untitled profile',
+          header_signature: signature,
+          mapping,
+          created_at: existing?.created_at || new Date().toISOString(),
+        };
+
+        set((state) => ({
+          profiles: [...state.profiles.filter(p => p.id !== profile.id), profile],
+        }));
+        return profile;
+      },
+
+      deleteProfile: (id) =>
+        set((state) => ({ profiles: state.profiles.filter(p => p.id !== id) })),
+
+      markUsed: (id) =>
+        set((state) => ({
+          profiles: state.profiles.map(p =>
+            p.id === id ? { ...p, last_used_at: new Date().toISOString() } : p
+          ),
+        })),
+
+      findProfileForHeaders: (headers) => {
+        const signature = headerSignature(headers);
+        return get().profiles.find(p => p.header_signature === signature);
+      },
+    }),
+    {
+      name: 'biascoach-import-profiles',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+export default useImportProfileStore;
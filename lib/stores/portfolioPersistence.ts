@@ -0,0 +1,409 @@
+// Portfolio Persistence
+// Schema versions, migrations and recovery for the saved paper-trading
+// portfolio. Totals and allocations aren't saved; the store recomputes them
+// from what is.
+
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import {
+  AccountType,
+  CashDeposit,
+  GuardrailEvent,
+  ImportBatch,
+  JournalEntry,
+  LedgerEvent,
+  MarginCall,
+  PendingOrder,
+  Position,
+  Session,
+  Trade,
+} from '@/types';
+import { DEFAULT_SESSION_ID, DEFAULT_SESSION_NAME, createSession } from '@/lib/services/sessions';
+import { appendEvents, openingLedger } from '@/lib/services/portfolioLedger';
+import { indexedDbStorage, storageBackupKey, unreadableValueError } from '@/lib/utils/indexedDbStorage';
+
+export const PORTFOLIO_STORAGE_KEY = 'biascoach-portfolio';
+
+// Bump when the saved shape changes in a way restorePortfolio can't fill in
+// (new lists just start empty), and add the migration from the previous
+// version below
+export const PORTFOLIO_SCHEMA_VERSION = 4;
+
+// ============================================
+// Types
+// ============================================
+
+// One session's paper account
+export interface PortfolioAccount {
+  cashBalance: number;
+  startingCash: number;
+  cashDeposits: CashDeposit[];
+  accountType: AccountType;
+  marginCall: MarginCall | null;
+  lastFinancingTs: number | null;
+  positions: Position[];
+  trades: Trade[];
+  orders: PendingOrder[];
+  guardrailEvents: GuardrailEvent[];
+  journal: JournalEntry[];
+  ledger: LedgerEvent[]; // Everything cash, positions and the equity curve are replayed from
+}
+
+// The open session's account sits at the top level, the others in
+// sessionAccounts. Imports are shared by every session.
+export interface PersistedPortfolio extends PortfolioAccount {
+  importedTrades: Trade[];
+  importBatches: ImportBatch[];
+  currentSessionId: string;
+  sessions: Session[];
+  sessionAccounts: Record<string, PortfolioAccount>;
+}
+
+// What went wrong loading the saved portfolio, for the user to be told once
+export interface PersistenceIssue {
+  message: string;
+  backupKey?: string; // Where the unreadable snapshot was copied
+}
+
+type Snapshot = Record<string, unknown>;
+
+// ============================================
+// Migrations
+// ============================================
+
+// MIGRATIONS[n] upgrades a version n snapshot to version n + 1, for example
+// filling in a Trade field that became required or renaming one
+const MIGRATIONS: Record<number, (snapshot: Snapshot) => Snapshot> = {
+  // 1 → 2: the single account becomes the first named session
+  1: (snapshot) => ({
+    ...snapshot,
+    trades: Array.isArray(snapshot.trades)
+      ? snapshot.trades.map(t => (isRecord(t) ? { ...t, session_id: DEFAULT_SESSION_ID } : t))
+      : snapshot.trades,
+    currentSessionId: DEFAULT_SESSION_ID,
+    sessions: [createSession(
+      DEFAULT_SESSION_NAME,
+      isFiniteNumber(snapshot.startingCash) ? snapshot.startingCash : 0,
+      new Date(),
+      DEFAULT_SESSION_ID
+    )],
+    sessionAccounts: {},
+  }),
+  // 2 → 3: every account's ledger opens with the balance and positions it
+  // had before there was one
+  2: (snapshot) => ({
+    ...withOpeningLedger(snapshot),
+    sessionAccounts: isRecord(snapshot.sessionAccounts)
+      ? Object.fromEntries(Object.entries(snapshot.sessionAccounts).map(([id, account]) => [
+        id,
+        isRecord(account) ? withOpeningLedger(account) : account,
+      ]))
+      : snapshot.sessionAccounts,
+  }),
+  // 3 → 4: the equity curve is replayed from the ledger, so the points an
+  // account saved go on the opening balance its ledger starts from
+  3: (snapshot) => ({
+    ...withHistoryInLedger(snapshot),
+    sessionAccounts: isRecord(snapshot.sessionAccounts)
+      ? Object.fromEntries(Object.entries(snapshot.sessionAccounts).map(([id, account]) => [
+        id,
+        isRecord(account) ? withHistoryInLedger(account) : account,
+      ]))
+      : snapshot.sessionAccounts,
+  }),
+};
+
+function withOpeningLedger(account: Snapshot): Snapshot {
+  if (!isFiniteNumber(account.cashBalance)) return account;
+  const positions = Array.isArray(account.positions) ? account.positions.filter(isPosition) : [];
+  const startingCash = isFiniteNumber(account.startingCash) ? account.startingCash : account.cashBalance;
+  return { ...account, ledger: openingLedger(startingCash, account.cashBalance, positions) };
+}
+
+// Points from before the opening balance, since replay takes it from there.
+// An account reset since has nothing to keep: the reset cleared its history.
+function withHistoryInLedger(account: Snapshot): Snapshot {
+  const { portfolioHistory } = account;
+  const rest = { ...account };
+  delete rest.portfolioHistory;
+  delete rest.lastPortfolioHistoryTs;
+  if (!Array.isArray(rest.ledger) || !Array.isArray(portfolioHistory)) return rest;
+  const starts = rest.ledger.filter(e => isRecord(e) && (e.type === 'opening_balance' || e.type === 'reset'));
+  const start = starts[starts.length - 1];
+  if (!isRecord(start) || start.type !== 'opening_balance') return rest;
+
+  const openedAt = new Date(String(start.timestamp)).getTime();
+  const history = portfolioHistory.filter(p => isHistoryPoint(p) && p.t < openedAt);
+  return { ...rest, ledger: rest.ledger.map(e => (e === start ? { ...start, history } : e)) };
+}
+
+export function migratePortfolio(persisted: unknown, fromVersion: number): PersistedPortfolio {
+  if (fromVersion > PORTFOLIO_SCHEMA_VERSION) {
+    throw new Error(`Saved portfolio uses schema version ${fromVersion}, newer than this app (${PORTFOLIO_SCHEMA_VERSION})`);
+  }
+  let snapshot = persisted as Snapshot;
+  for (let version = fromVersion; version < PORTFOLIO_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) throw new Error(`No migration from portfolio schema version ${version}`);
+    snapshot = migration(snapshot);
+  }
+  return snapshot as unknown as PersistedPortfolio;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function isRecord(value: unknown): value is Snapshot {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+function isTrade(value: unknown): value is Trade {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.symbol === 'string'
+    && (value.action === 'BUY' || value.action === 'SELL')
+    && isFiniteNumber(value.quantity) && value.quantity > 0
+    && isFiniteNumber(value.price)
+    && isFiniteNumber(value.total_value)
+    && isFiniteNumber(value.fees)
+    && isDateString(value.timestamp);
+}
+
+function isPosition(value: unknown): value is Position {
+  return isRecord(value)
+    && typeof value.symbol === 'string'
+    && isFiniteNumber(value.quantity) && value.quantity > 0
+    && isFiniteNumber(value.avg_cost)
+    && isFiniteNumber(value.current_price)
+    && isFiniteNumber(value.current_value)
+    && typeof value.asset_type === 'string';
+}
+
+function isOrder(value: unknown): value is PendingOrder {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.symbol === 'string'
+    && isFiniteNumber(value.quantity)
+    && typeof value.status === 'string';
+}
+
+function isDeposit(value: unknown): value is CashDeposit {
+  return isRecord(value) && typeof value.id === 'string' && isFiniteNumber(value.amount) && isDateString(value.timestamp);
+}
+
+function isHistoryPoint(value: unknown): value is { t: number; equity: number } {
+  return isRecord(value) && isFiniteNumber(value.t) && isFiniteNumber(value.equity);
+}
+
+function isSession(value: unknown): value is Session {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && (value.status === 'active' || value.status === 'completed' || value.status === 'archived')
+    && isFiniteNumber(value.starting_balance)
+    && isFiniteNumber(value.current_balance);
+}
+
+function isGuardrailEvent(value: unknown): value is GuardrailEvent {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.symbol === 'string'
+    && Array.isArray(value.rules)
+    && (value.decision === 'overridden' || value.decision === 'cancelled')
+    && isDateString(value.timestamp);
+}
+
+function isJournalEntry(value: unknown): value is JournalEntry {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.symbol === 'string'
+    && typeof value.setup === 'string'
+    && typeof value.thesis === 'string'
+    && isFiniteNumber(value.confidence)
+    && typeof value.emotion === 'string'
+    && isDateString(value.created_at);
+}
+
+const LEDGER_EVENT_GUARDS: Record<LedgerEvent['type'], (event: Snapshot) => boolean> = {
+  opening_balance: (e) => isFiniteNumber(e.starting_cash) && isFiniteNumber(e.cash)
+    && Array.isArray(e.positions) && e.positions.every(isPosition)
+    && (e.history === undefined || (Array.isArray(e.history) && e.history.every(isHistoryPoint))),
+  order_placed: (e) => isOrder(e.order),
+  order_modified: (e) => typeof e.order_id === 'string' && isRecord(e.changes),
+  order_cancelled: (e) => typeof e.order_id === 'string'
+    && (e.status === 'cancelled' || e.status === 'expired' || e.status === 'rejected'),
+  fill: (e) => isTrade(e.trade),
+  cash: (e) => isDeposit(e.deposit),
+  mark: (e) => Array.isArray(e.marks) && e.marks.every(m => isRecord(m)
+    && typeof m.symbol === 'string' && isFiniteNumber(m.price) && isFiniteNumber(m.usd_rate)),
+  reset: (e) => isFiniteNumber(e.starting_cash),
+  undo: (e) => typeof e.target_event_id === 'string' && typeof e.trade_id === 'string',
+};
+
+function isLedgerEvent(value: unknown): value is LedgerEvent {
+  if (!isRecord(value) || typeof value.id !== 'string' || !isFiniteNumber(value.sequence) || !isDateString(value.timestamp)) {
+    return false;
+  }
+  const guard = LEDGER_EVENT_GUARDS[value.type as LedgerEvent['type']];
+  return guard !== undefined && guard(value);
+}
+
+function isImportBatch(value: unknown): value is ImportBatch {
+  return isRecord(value) && typeof value.id === 'string';
+}
+
+// Keeps the valid entries of a saved list, counting the ones it drops
+function validEntries<T>(value: unknown, guard: (entry: unknown) => entry is T): { entries: T[]; dropped: number } {
+  if (!Array.isArray(value)) return { entries: [], dropped: value === undefined ? 0 : 1 };
+  const entries = value.filter(guard);
+  return { entries, dropped: value.length - entries.length };
+}
+
+function optionalNumber(value: unknown): number | null {
+  return isFiniteNumber(value) ? value : null;
+}
+
+// Rebuilds one account from whatever in it is intact, or null when there's no
+// cash balance to start from
+function restoreAccount(persisted: unknown): { account: PortfolioAccount; dropped: number } | null {
+  if (!isRecord(persisted) || !isFiniteNumber(persisted.cashBalance)) return null;
+
+  const lists = {
+    cashDeposits: validEntries(persisted.cashDeposits, isDeposit),
+    positions: validEntries(persisted.positions, isPosition),
+    trades: validEntries(persisted.trades, isTrade),
+    orders: validEntries(persisted.orders, isOrder),
+    guardrailEvents: validEntries(persisted.guardrailEvents, isGuardrailEvent),
+    journal: validEntries(persisted.journal, isJournalEntry),
+    ledger: validEntries(persisted.ledger, isLedgerEvent),
+  };
+
+  // Replay can't step over a missing event, so a damaged ledger starts again
+  // from what was restored; the intact events before stay for the record
+  const startingCash = isFiniteNumber(persisted.startingCash) ? persisted.startingCash : persisted.cashBalance;
+  const ledger = lists.ledger.entries.length === 0 || lists.ledger.dropped > 0
+    ? appendEvents(lists.ledger.entries, [{
+      type: 'opening_balance',
+      starting_cash: startingCash,
+      cash: persisted.cashBalance,
+      positions: lists.positions.entries,
+    }])
+    : lists.ledger.entries;
+
+  return {
+    account: {
+      cashBalance: persisted.cashBalance,
+      startingCash,
+      cashDeposits: lists.cashDeposits.entries,
+      accountType: persisted.accountType === 'margin' ? 'margin' : 'cash',
+      marginCall: isRecord(persisted.marginCall) && isDateString(persisted.marginCall.deadline)
+        ? persisted.marginCall as unknown as MarginCall
+        : null,
+      lastFinancingTs: optionalNumber(persisted.lastFinancingTs),
+      positions: lists.positions.entries,
+      trades: lists.trades.entries,
+      orders: lists.orders.entries,
+      guardrailEvents: lists.guardrailEvents.entries,
+      journal: lists.journal.entries,
+      ledger,
+    },
+    dropped: Object.values(lists).reduce((sum, list) => sum + list.dropped, 0),
+  };
+}
+
+// Rebuilds a saved portfolio from whatever in it is intact. Returns null when
+// the open session has no usable account; otherwise malformed trades,
+// positions, sessions and the like are dropped one by one.
+export function restorePortfolio(persisted: unknown): { portfolio: PersistedPortfolio; dropped: number } | null {
+  const current = restoreAccount(persisted);
+  if (!current || !isRecord(persisted)) return null;
+
+  const importedTrades = validEntries(persisted.importedTrades, isTrade);
+  const importBatches = validEntries(persisted.importBatches, isImportBatch);
+  const savedSessions = validEntries(persisted.sessions, isSession);
+  let dropped = current.dropped + importedTrades.dropped + importBatches.dropped + savedSessions.dropped;
+
+  const currentSessionId = typeof persisted.currentSessionId === 'string' ? persisted.currentSessionId : DEFAULT_SESSION_ID;
+  const savedAccounts = isRecord(persisted.sessionAccounts) ? persisted.sessionAccounts : {};
+  const sessions: Session[] = [];
+  const sessionAccounts: Record<string, PortfolioAccount> = {};
+  savedSessions.entries.forEach(session => {
+    if (session.id === currentSessionId) {
+      sessions.push(session);
+      return;
+    }
+    // A session is only worth keeping with its account
+    const restored = restoreAccount(savedAccounts[session.id]);
+    if (!restored) {
+      dropped += 1;
+      return;
+    }
+    sessions.push(session);
+    sessionAccounts[session.id] = restored.account;
+    dropped += restored.dropped;
+  });
+  if (!sessions.some(s => s.id === currentSessionId)) {
+    sessions.unshift(createSession(DEFAULT_SESSION_NAME, current.account.startingCash, new Date(), currentSessionId));
+  }
+
+  return {
+    portfolio: {
+      ...current.account,
+      importedTrades: importedTrades.entries,
+      importBatches: importBatches.entries,
+      currentSessionId,
+      sessions,
+      sessionAccounts,
+    },
+    dropped,
+  };
+}
+
+export function backupKeyFor(now: Date = new Date()): string {
+  return storageBackupKey(PORTFOLIO_STORAGE_KEY, now);
+}
+
+// ============================================
+// Storage
+// ============================================
+
+// JSON in IndexedDB, like createJSONStorage, except that a snapshot that won't
+// parse is backed up before the error reaches the store's recovery
+export const portfolioStorage: PersistStorage<PersistedPortfolio> = {
+  getItem: async (name) => {
+    const raw = await indexedDbStorage.getItem(name);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as StorageValue<PersistedPortfolio>;
+    } catch {
+      const backupKey = backupKeyFor();
+      await indexedDbStorage.setItem(backupKey, raw);
+      throw unreadableValueError('the saved data is not valid JSON', backupKey);
+    }
+  },
+  setItem: (name, value) => indexedDbStorage.setItem(name, JSON.stringify(value)),
+  removeItem: (name) => indexedDbStorage.removeItem(name),
+};
+
+// Keeps a parsed snapshot that migrate or merge can't load, for the error
+// they raise. The write is queued before anything can save over the original.
+export function backUpSnapshot(persisted: unknown, version: number): string {
+  const backupKey = backupKeyFor();
+  void indexedDbStorage.setItem(backupKey, JSON.stringify({ state: persisted, version }));
+  return backupKey;
+}
+
+export default {
+  migratePortfolio,
+  restorePortfolio,
+  backupKeyFor,
+  backUpSnapshot,
+};
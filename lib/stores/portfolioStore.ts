@@ -2,17 +2,61 @@
 // Manages portfolio state across the app with real-time updates
 
 import { create } from 'zustand';
-import { Position, Trade, AssetAllocation, AssetType } from '@/types';
+import { persist } from 'zustand/middleware';
+import { Position, Trade, AccountType, AssetAllocation, AssetType, BracketSpec, CashDeposit, ContractSpec, GuardrailEvent, ImportAudit, ImportBatch, ImportFormatId, ImportMergeMode, JournalEntry, LedgerEvent, LotSelection, MarginCall, MarkEvent, PendingOrder, PositionEffect, Session, TradeReview } from '@/types';
 import { getChartColor } from '@/constants/colors';
+import { mergeTrades } from '@/lib/services/importMerge';
+import { getSymbolCurrency, getUsdRate } from '@/lib/services/currencyConverter';
+import { contractValue } from '@/lib/services/contracts';
+import { createBracketOrders, evaluateOrder, validateOrder, OrderChanges } from '@/lib/services/orderBook';
+import { calculateFees, monthToDateVolume, resolveFeeSchedules, scheduleForAsset } from '@/lib/services/feeCalculator';
+import { getFeeSchedule } from '@/constants/feeSchedules';
+import { accrueFinancing, canCarry, createMarginCall, getMarginSummary, liquidationOrder } from '@/lib/services/marginAccount';
+import { DEFAULT_SESSION_ID, DEFAULT_SESSION_NAME, createSession, updateSession } from '@/lib/services/sessions';
+import { tradeNote } from '@/lib/services/tradeJournal';
+import { thinEquityHistory } from '@/lib/services/performanceAnalytics';
+import { Execution, isMarketOpen, priceExecution } from '@/lib/services/executionModel';
+import { addToPosition, reducePosition, revalue, usdCostBasis, PositionFill } from '@/lib/services/positionAccounting';
+import { appendEvents, equityCurve, matchesReplay, openingLedger, replayLedger, undoableFill, NewLedgerEvent } from '@/lib/services/portfolioLedger';
+import { useSettingsStore } from '@/lib/stores/settingsStore';
+import { config } from '@/constants/config';
+import { backupKeyOf, unreadableValueError } from '@/lib/utils/indexedDbStorage';
+import { createId } from '@/lib/utils/ids';
+import {
+  PORTFOLIO_SCHEMA_VERSION,
+  PORTFOLIO_STORAGE_KEY,
+  PersistedPortfolio,
+  PersistenceIssue,
+  PortfolioAccount,
+  backUpSnapshot,
+  migratePortfolio,
+  portfolioStorage,
+  restorePortfolio,
+} from '@/lib/stores/portfolioPersistence';
 
 interface PortfolioState {
   // Portfolio data
   cashBalance: number;
+  startingCash: number;
+  cashDeposits: CashDeposit[]; // Funds added after the start and margin charges, for exports and statements
+  accountType: AccountType;
+  marginCall: MarginCall | null;
+  lastFinancingTs: number | null; // When interest and borrow fees were last charged
   positions: Position[];
   trades: Trade[];
+  orders: PendingOrder[]; // Working orders first placed, then their outcomes
+  guardrailEvents: GuardrailEvent[]; // Pre-trade warnings and what the trader did, newest first
+  journal: JournalEntry[]; // Trade plans and their reviews, newest first
+  ledger: LedgerEvent[]; // Append-only record cash and positions replay from, oldest first
+  
+  // Named sessions; the fields above are the open one's account
+  sessions: Session[];
+  currentSessionId: string;
+  sessionAccounts: Record<string, PortfolioAccount>; // Every other session's account
   
   // Imported trades (separate from paper trading)
   importedTrades: Trade[];
+  importBatches: ImportBatch[];
   isAnalyzingImported: boolean;
   
   // Computed values
@@ -20,18 +64,42 @@ interface PortfolioState {
   totalPnl: number;
   totalPnlPercent: number;
   allocations: AssetAllocation[];
-  portfolioHistory: { t: number; equity: number }[];
-  lastPortfolioHistoryTs: number | null;
+  portfolioHistory: { t: number; equity: number }[]; // Replayed from the ledger, thinned to a cap
+  persistenceIssue: PersistenceIssue | null; // Problem loading the saved portfolio, not itself saved
   
   // Actions
-  executeBuy: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType) => boolean;
-  executeSell: (symbol: string, quantity: number, price: number, fees: number) => boolean;
-  depositCash: (amount: number) => void;
+  executeBuy: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType, contract?: ContractSpec, order?: OrderFill) => boolean;
+  executeSell: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType, contract?: ContractSpec, order?: OrderFill) => boolean;
+  depositCash: (amount: number, source?: 'growth_income') => void;
+  setAccountType: (accountType: AccountType) => boolean;
+  enforceMargin: () => void; // Run by updatePrices on every tick
   updatePrices: (prices: Record<string, number>) => void;
   resetPortfolio: () => void;
+  undoLastTrade: () => Trade | null; // Flags the latest market fill in the ledger and replays without it
+  clearPersistenceIssue: () => void;
+  
+  // Session actions
+  addSession: (name: string, startingBalance: number) => Session; // Also opens it
+  switchSession: (sessionId: string) => boolean;
+  renameSession: (sessionId: string, name: string) => boolean;
+  archiveSession: (sessionId: string) => boolean; // Not the open session
+  restoreSession: (sessionId: string) => boolean;
+  
+  // Order actions
+  placeOrder: (order: PendingOrder) => void;
+  modifyOrder: (orderId: string, changes: OrderChanges) => boolean;
+  cancelOrder: (orderId: string) => void;
+  attachBracket: (tradeId: string, bracket: BracketSpec, feeSchedule: string) => boolean;
+  logGuardrailEvent: (event: GuardrailEvent) => void;
+  
+  // Journal actions
+  addJournalEntry: (entry: JournalEntry) => void;
+  reviewJournalEntry: (entryId: string, review: TradeReview) => boolean;
+  processOrders: (prices: Record<string, number>) => void; // Run by updatePrices on every tick
   
   // Import actions
-  importTrades: (trades: Trade[]) => void;
+  importTrades: (trades: Trade[], source?: ImportSource, options?: ImportTradesOptions) => ImportBatch;
+  acceptIncomingConflicts: (batchId: string) => void;
   clearImportedTrades: () => void;
   setAnalyzingImported: (analyzing: boolean) => void;
   
@@ -39,11 +107,60 @@ interface PortfolioState {
   getTradesForAnalysis: () => Trade[];
 }
 
+// Where a fill came from: the working order behind it, or a margin call
+// liquidation. Market orders have none, unless a sale names its tax lots.
+type OrderFill = Partial<Pick<PendingOrder, 'id' | 'order_type' | 'bracket_role' | 'oco_group' | 'limit_price' | 'fee_schedule'>> & {
+  liquidation?: boolean;
+  lot_selections?: LotSelection[];
+};
+
+interface ImportSource {
+  fileName: string;
+  format: ImportFormatId;
+  audit?: ImportAudit;
+}
+
+interface ImportTradesOptions {
+  mode?: ImportMergeMode; // 'append' merges into the current dataset (default)
+  replaceBatchId?: string; // Drop this earlier batch first (re-parsing the same file)
+}
+
 // Starting demo balance
 const INITIAL_CASH = 15000;
 const HISTORY_INTERVAL_MS = 30_000;
 const PORTFOLIO_HISTORY_CAP = 500;
 const EQUITY_EPSILON = 0.01;
+const FINANCING_INTERVAL_MS = config.margin.financingIntervalMinutes * 60 * 1000;
+
+// Bracket exits can't sell more than is left: shrink them to the remaining
+// quantity, or cancel them once the position is gone. The changes come back
+// as ledger events too.
+function fitBracketExits(
+  orders: PendingOrder[],
+  symbol: string,
+  remaining: number,
+  filling?: OrderFill
+): { orders: PendingOrder[]; events: NewLedgerEvent[] } {
+  const now = new Date().toISOString();
+  const events: NewLedgerEvent[] = [];
+  const fitted = orders.map((o): PendingOrder => {
+    if (o.status !== 'open' || !o.oco_group || o.symbol !== symbol || o.id === filling?.id) return o;
+    if (remaining <= 0) {
+      const reason = o.oco_group === filling?.oco_group ? 'Other side of the bracket filled' : 'Position closed';
+      events.push({ type: 'order_cancelled', order_id: o.id, status: 'cancelled', reason });
+      return { ...o, status: 'cancelled', closed_at: now, status_reason: reason };
+    }
+    if (o.quantity <= remaining) return o;
+    events.push({ type: 'order_modified', order_id: o.id, changes: { quantity: remaining } });
+    return { ...o, quantity: remaining };
+  });
+  return { orders: fitted, events };
+}
+
+// Cash is held in US dollars. Positions quoted in another currency (the yen
+// side of USD/JPY) are converted at the spot rate when traded and revalued.
+const usdRateFor = (currency: string, prices: Record<string, number>): number =>
+  getUsdRate(currency, prices) ?? 1;
 
 // Calculate allocations including cash
 const calculateAllocations = (positions: Position[], cashBalance: number, totalValue: number): AssetAllocation[] => {
@@ -76,266 +193,255 @@ const calculateAllocations = (positions: Position[], cashBalance: number, totalV
   return allocations;
 };
 
-export const usePortfolioStore = create<PortfolioState>((set, get) => ({
-  // Initial state
-  cashBalance: INITIAL_CASH,
-  positions: [],
-  trades: [],
-  importedTrades: [],
-  isAnalyzingImported: false,
-  totalValue: INITIAL_CASH,
-  totalPnl: 0,
-  totalPnlPercent: 0,
-  portfolioHistory: [],
-  lastPortfolioHistoryTs: null,
-  allocations: [{
-    symbol: 'Cash',
-    value: INITIAL_CASH,
-    percentage: 100,
-    color: '#64748B',
-    asset_type: 'cash' as AssetType,
-  }],
-  
-  // Execute a BUY trade
-  executeBuy: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType): boolean => {
-    const state = get();
-    const totalCost = (quantity * price) + fees;
-    
-    // Check if user has enough cash
-    if (totalCost > state.cashBalance) {
-      return false; // Not enough funds
-    }
-    
-    // Deduct from cash
-    const newCashBalance = state.cashBalance - totalCost;
-    
-    // Update or create position
-    const existingPositionIndex = state.positions.findIndex(p => p.symbol === symbol);
-    let newPositions: Position[];
-    
-    if (existingPositionIndex >= 0) {
-      // Update existing position (average cost basis)
-      const existing = state.positions[existingPositionIndex];
-      const totalQuantity = existing.quantity + quantity;
-      const totalCostBasis = (existing.avg_cost * existing.quantity) + (price * quantity);
-      const newAvgCost = totalCostBasis / totalQuantity;
-      const currentValue = totalQuantity * price;
-      const pnl = currentValue - (newAvgCost * totalQuantity);
-      
-      newPositions = [...state.positions];
-      newPositions[existingPositionIndex] = {
-        ...existing,
-        quantity: totalQuantity,
-        avg_cost: newAvgCost,
-        current_price: price,
-        current_value: currentValue,
-        pnl,
-        pnl_percent: (pnl / (newAvgCost * totalQuantity)) * 100,
-      };
-    } else {
-      // Create new position
-      const currentValue = quantity * price;
-      newPositions = [...state.positions, {
-        symbol,
-        quantity,
-        avg_cost: price,
-        current_price: price,
-        current_value: currentValue,
-        pnl: 0,
-        pnl_percent: 0,
-        asset_type: assetType,
-      }];
-    }
-    
-    // Create trade record
-    const newTrade: Trade = {
-      id: `trade-${Date.now()}`,
-      session_id: 'demo-session-1',
-      user_id: 'demo-user',
-      symbol,
-      action: 'BUY',
-      quantity,
-      price,
-      total_value: quantity * price,
-      fees,
-      timestamp: new Date().toISOString(),
-      asset_type: assetType,
-    };
-    
-    // Calculate new totals
-    const positionsValue = newPositions.reduce((sum, p) => sum + p.current_value, 0);
-    const newTotalValue = newCashBalance + positionsValue;
-    const totalCostBasis = newPositions.reduce((sum, p) => sum + (p.avg_cost * p.quantity), 0);
-    const newTotalPnl = newPositions.reduce((sum, p) => sum + p.pnl, 0);
-    const newTotalPnlPercent = totalCostBasis > 0 ? (newTotalPnl / totalCostBasis) * 100 : 0;
-    
-    set({
-      cashBalance: newCashBalance,
-      positions: newPositions,
-      trades: [newTrade, ...state.trades],
-      totalValue: newTotalValue,
-      totalPnl: newTotalPnl,
-      totalPnlPercent: newTotalPnlPercent,
-      allocations: calculateAllocations(newPositions, newCashBalance, newTotalValue),
-    });
-    
-    return true;
-  },
-  
-  // Execute a SELL trade
-  executeSell: (symbol: string, quantity: number, price: number, fees: number): boolean => {
-    const state = get();
-    
-    // Find position
-    const positionIndex = state.positions.findIndex(p => p.symbol === symbol);
-    if (positionIndex < 0) {
-      return false; // No position to sell
-    }
-    
-    const position = state.positions[positionIndex];
-    if (quantity > position.quantity) {
-      return false; // Can't sell more than you own
-    }
-    
-    // Calculate proceeds
-    const proceeds = (quantity * price) - fees;
-    const newCashBalance = state.cashBalance + proceeds;
-    
-    // Update position
-    let newPositions: Position[];
-    const remainingQuantity = position.quantity - quantity;
-    
-    if (remainingQuantity <= 0) {
-      // Remove position entirely
-      newPositions = state.positions.filter((_, i) => i !== positionIndex);
-    } else {
-      // Reduce position
-      const currentValue = remainingQuantity * price;
-      const pnl = currentValue - (position.avg_cost * remainingQuantity);
-      
-      newPositions = [...state.positions];
-      newPositions[positionIndex] = {
-        ...position,
-        quantity: remainingQuantity,
-        current_price: price,
-        current_value: currentValue,
-        pnl,
-        pnl_percent: (pnl / (position.avg_cost * remainingQuantity)) * 100,
-      };
-    }
-    
-    // Calculate realized P&L for this sell
-    const realizedPnl = (price - position.avg_cost) * quantity - fees;
-    
-    // Create trade record
-    const newTrade: Trade = {
-      id: `trade-${Date.now()}`,
-      session_id: 'demo-session-1',
-      user_id: 'demo-user',
+// What actually fills of an order, after the execution model
+interface Executed {
+  quantity: number;
+  price: number;
+  fees: number;
+  quotePrice?: number; // Set when the model priced the fill
+  spreadCost?: number;
+  requestedQuantity?: number; // Set on partial fills
+}
+
+// Whether the asset class's market takes orders now, when hours are enforced
+const marketOpenFor = (assetType: AssetType, now: Date = new Date()): boolean => {
+  const { realisticExecution, enforceMarketHours, executionModels } = useSettingsStore.getState();
+  if (!realisticExecution || !enforceMarketHours) return true;
+  return isMarketOpen((executionModels[assetType] ?? config.execution.models[assetType]).marketHours, now);
+};
+
+// The execution model's fill for an order against the quote, or null when
+// spread and slippage put it beyond the order's limit
+const modelExecution = (
+  symbol: string,
+  action: 'BUY' | 'SELL',
+  quantity: number,
+  price: number,
+  assetType: AssetType,
+  currency: string,
+  contract?: ContractSpec,
+  order?: OrderFill
+): Execution | null => {
+  const { executionModels, feeScheduleId, assetFeeSchedules } = useSettingsStore.getState();
+  const model = executionModels[assetType] ?? config.execution.models[assetType];
+
+  // Forex schedules that charge the spread as a fee already cover it
+  const schedule = order?.fee_schedule
+    ? getFeeSchedule(order.fee_schedule)
+    : scheduleForAsset(resolveFeeSchedules(feeScheduleId, assetFeeSchedules), assetType);
+  return priceExecution(
+    {
       symbol,
-      action: 'SELL',
+      assetType,
+      action,
       quantity,
       price,
-      total_value: quantity * price,
-      fees,
-      timestamp: new Date().toISOString(),
-      asset_type: position.asset_type,
-      pnl: realizedPnl,
-    };
-    
-    // Calculate new totals
-    const positionsValue = newPositions.reduce((sum, p) => sum + p.current_value, 0);
-    const newTotalValue = newCashBalance + positionsValue;
-    const totalCostBasis = newPositions.reduce((sum, p) => sum + (p.avg_cost * p.quantity), 0);
-    const newTotalPnl = newPositions.reduce((sum, p) => sum + p.pnl, 0);
-    const newTotalPnlPercent = totalCostBasis > 0 ? (newTotalPnl / totalCostBasis) * 100 : 0;
-    
-    set({
-      cashBalance: newCashBalance,
-      positions: newPositions,
-      trades: [newTrade, ...state.trades],
-      totalValue: newTotalValue,
-      totalPnl: newTotalPnl,
-      totalPnlPercent: newTotalPnlPercent,
-      allocations: calculateAllocations(newPositions, newCashBalance, newTotalValue),
-    });
-    
-    return true;
-  },
-  
-  // Update prices for all positions
-  updatePrices: (prices: Record<string, number>) => {
-    const state = get();
-    const now = Date.now();
-    
-    const newPositions = state.positions.map(position => {
-      const newPrice = prices[position.symbol] || prices[position.symbol.toUpperCase()] || position.current_price;
-      const currentValue = position.quantity * newPrice;
-      const pnl = currentValue - (position.avg_cost * position.quantity);
-      
-      return {
-        ...position,
-        current_price: newPrice,
-        current_value: currentValue,
-        pnl,
-        pnl_percent: (pnl / (position.avg_cost * position.quantity)) * 100,
-      };
-    });
-    
-    const positionsValue = newPositions.reduce((sum, p) => sum + p.current_value, 0);
-    const newTotalValue = state.cashBalance + positionsValue;
-    const totalCostBasis = newPositions.reduce((sum, p) => sum + (p.avg_cost * p.quantity), 0);
-    const newTotalPnl = newPositions.reduce((sum, p) => sum + p.pnl, 0);
-    const newTotalPnlPercent = totalCostBasis > 0 ? (newTotalPnl / totalCostBasis) * 100 : 0;
-    const lastEquityPoint = state.portfolioHistory[state.portfolioHistory.length - 1];
-    const lastTs = state.lastPortfolioHistoryTs ?? 0;
-    const elapsed = now - lastTs;
-    const equityChanged =
-      !lastEquityPoint || Math.abs(lastEquityPoint.equity - newTotalValue) >= EQUITY_EPSILON;
-    const shouldAppendHistory = elapsed >= HISTORY_INTERVAL_MS && equityChanged;
-    const nextPortfolioHistory = shouldAppendHistory
-      ? [...state.portfolioHistory, { t: now, equity: newTotalValue }].slice(-PORTFOLIO_HISTORY_CAP)
-      : state.portfolioHistory;
-    
-    set({
-      positions: newPositions,
-      totalValue: newTotalValue,
-      totalPnl: newTotalPnl,
-      totalPnlPercent: newTotalPnlPercent,
-      portfolioHistory: nextPortfolioHistory,
-      lastPortfolioHistoryTs: shouldAppendHistory ? now : state.lastPortfolioHistoryTs,
-      allocations: calculateAllocations(newPositions, state.cashBalance, newTotalValue),
-    });
-  },
-
-  // Deposit funds without creating trades (used for claiming growth income)
-  depositCash: (amount: number) => {
-    const state = get();
-    const safeAmount = Number(amount);
-    if (!Number.isFinite(safeAmount) || safeAmount <= 0) return;
-
-    const newCashBalance = state.cashBalance + safeAmount;
-    const positionsValue = state.positions.reduce((sum, p) => sum + p.current_value, 0);
-    const newTotalValue = newCashBalance + positionsValue;
-
-    set({
-      cashBalance: newCashBalance,
-      totalValue: newTotalValue,
-      allocations: calculateAllocations(state.positions, newCashBalance, newTotalValue),
-    });
-  },
-  
-  // Reset to initial state
-  resetPortfolio: () => {
-    set({
+      multiplier: contract?.multiplier,
+      usdRate: usdRateFor(currency, { [symbol]: price }),
+      limitPrice: order?.order_type === 'limit' || order?.order_type === 'stop_limit' ? order.limit_price : undefined,
+    },
+    order?.liquidation ? { ...model, maxFillNotional: undefined } : model,
+    { spreadInFees: assetType === 'forex' && !!schedule.spreadPips }
+  );
+};
+
+// Prices an order against the quote with the execution model in settings, or
+// returns null while its market is closed or the fill would pass its limit.
+// Fees shrink with a partial fill. Margin liquidations always fill in full,
+// whatever the hours.
+const executeAt = (
+  symbol: string,
+  action: 'BUY' | 'SELL',
+  quantity: number,
+  price: number,
+  fees: number,
+  assetType: AssetType,
+  currency: string,
+  contract?: ContractSpec,
+  order?: OrderFill
+): Executed | null => {
+  const { realisticExecution } = useSettingsStore.getState();
+  if (!realisticExecution) return { quantity, price, fees };
+  if (!order?.liquidation && !marketOpenFor(assetType)) return null;
+
+  const execution = modelExecution(symbol, action, quantity, price, assetType, currency, contract, order);
+  if (!execution) return null;
+  return {
+    quantity: execution.quantity,
+    price: execution.price,
+    fees: fees * (execution.quantity / quantity),
+    quotePrice: price,
+    spreadCost: execution.spreadCost,
+    ...(execution.isPartial ? { requestedQuantity: quantity } : {}),
+  };
+};
+
+// A fill with its currency and the dollar rate it settles at
+interface Fill extends Executed, PositionFill {}
+
+const fillFor = (symbol: string, executed: Executed, currency: string): Fill => ({
+  ...executed,
+  symbol,
+  currency,
+  usdRate: usdRateFor(currency, { [symbol]: executed.price }),
+});
+
+const CLOSING_EFFECTS: PositionEffect[] = ['close_long', 'cover_short'];
+
+const recordFill = (
+  sessionId: string,
+  fill: Fill,
+  action: 'BUY' | 'SELL',
+  positionEffect: PositionEffect,
+  assetType: AssetType,
+  contract?: ContractSpec,
+  order?: OrderFill,
+  realizedPnl?: number
+): Trade => ({
+  id: createId('trade'),
+  session_id: sessionId,
+  user_id: 'demo-user',
+  symbol: fill.symbol,
+  action,
+  position_effect: positionEffect,
+  quantity: fill.quantity,
+  price: fill.price,
+  total_value: contractValue(fill.quantity, fill.price, contract),
+  fees: fill.fees,
+  timestamp: new Date().toISOString(),
+  asset_type: assetType,
+  ...(realizedPnl !== undefined ? { pnl: realizedPnl } : {}),
+  currency: fill.currency,
+  usd_rate: fill.usdRate,
+  ...(contract ? { contract } : {}),
+  order_type: order?.order_type ?? 'market',
+  ...(order?.id ? { order_id: order.id } : {}),
+  ...(CLOSING_EFFECTS.includes(positionEffect)
+    ? { exit_plan: order?.liquidation ? 'liquidation' : order?.bracket_role ? 'bracket' : 'discretionary' }
+    : {}),
+  ...(fill.quotePrice !== undefined ? { quote_price: fill.quotePrice, spread_cost: fill.spreadCost } : {}),
+  ...(fill.requestedQuantity !== undefined ? { requested_quantity: fill.requestedQuantity } : {}),
+  ...(order?.lot_selections?.length ? { lot_selections: order.lot_selections } : {}),
+});
+
+// Account totals after cash or positions change
+const portfolioTotals = (cashBalance: number, positions: Position[]) => {
+  const positionsValue = positions.reduce((sum, p) => sum + p.current_value, 0);
+  const totalValue = cashBalance + positionsValue;
+  const totalCostBasis = positions.reduce((sum, p) => sum + usdCostBasis(p), 0);
+  const totalPnl = positions.reduce((sum, p) => sum + p.pnl, 0);
+  return {
+    totalValue,
+    totalPnl,
+    totalPnlPercent: totalCostBasis > 0 ? (totalPnl / totalCostBasis) * 100 : 0,
+    allocations: calculateAllocations(positions, cashBalance, totalValue),
+  };
+};
+
+// The open session's account, to snapshot when switching away
+const accountOf = (state: PortfolioAccount): PortfolioAccount => ({
+  cashBalance: state.cashBalance,
+  startingCash: state.startingCash,
+  cashDeposits: state.cashDeposits,
+  accountType: state.accountType,
+  marginCall: state.marginCall,
+  lastFinancingTs: state.lastFinancingTs,
+  positions: state.positions,
+  trades: state.trades,
+  orders: state.orders,
+  guardrailEvents: state.guardrailEvents,
+  journal: state.journal,
+  ledger: state.ledger,
+});
+
+const freshAccount = (startingCash: number): PortfolioAccount => ({
+  cashBalance: startingCash,
+  startingCash,
+  cashDeposits: [],
+  accountType: 'cash',
+  marginCall: null,
+  lastFinancingTs: null,
+  positions: [],
+  trades: [],
+  orders: [],
+  guardrailEvents: [],
+  journal: [],
+  ledger: openingLedger(startingCash),
+});
+
+// Records events in the open account's ledger
+const logged = (ledger: LedgerEvent[], ...events: NewLedgerEvent[]): LedgerEvent[] => appendEvents(ledger, events);
+
+// Each position's price and dollar rate at the last prices seen; currency
+// pairs among the prices set the rates
+const marksAt = (positions: Position[], prices: Record<string, number>): MarkEvent['marks'] =>
+  positions.map(position => {
+    const price = prices[position.symbol] ?? position.current_price;
+    const currency = position.currency || getSymbolCurrency(position.symbol, position.asset_type);
+    return { symbol: position.symbol, price, usd_rate: usdRateFor(currency, { ...prices, [position.symbol]: price }) };
+  });
+
+// Revalues positions at the last prices seen; replay marks them at fills and marks
+const markPositions = (positions: Position[], prices: Record<string, number>): Position[] => {
+  const marks = marksAt(positions, prices);
+  return positions.map((position, i) => revalue(position, marks[i].price, marks[i].usd_rate));
+};
+
+const quotesOf = (positions: Position[]): Record<string, number> =>
+  Object.fromEntries(positions.map(p => [p.symbol, p.current_price]));
+
+const equityHistoryOf = (ledger: LedgerEvent[]) => thinEquityHistory(equityCurve(ledger), PORTFOLIO_HISTORY_CAP);
+
+// The open account once new events are in its ledger. Cash, positions and the
+// equity curve are replayed from the ledger, then positions are marked at the
+// last prices seen. Unless `record` is off, marks the ledger hasn't seen go in
+// as well, so the curve ends at the account's value. Null when there's no
+// opening balance to replay.
+const fromLedger = (ledger: LedgerEvent[], prices: Record<string, number>, record: boolean = true) => {
+  const replayed = replayLedger(ledger);
+  if (!replayed) return null;
+  const marks = marksAt(replayed.positions, prices);
+  const positions = replayed.positions.map((position, i) => revalue(position, marks[i].price, marks[i].usd_rate));
+  const moved = marks.filter((_, i) => Math.abs(positions[i].current_value - replayed.positions[i].current_value) >= EQUITY_EPSILON);
+  const recorded = record && moved.length > 0 ? logged(ledger, { type: 'mark', marks: moved }) : ledger;
+  return {
+    ledger: recorded,
+    cashBalance: replayed.cashBalance,
+    positions,
+    portfolioHistory: equityHistoryOf(recorded),
+    ...portfolioTotals(replayed.cashBalance, positions),
+  };
+};
+
+const INITIAL_LEDGER = openingLedger(INITIAL_CASH);
+
+export const usePortfolioStore = create<PortfolioState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
       cashBalance: INITIAL_CASH,
+      startingCash: INITIAL_CASH,
+      cashDeposits: [],
+      accountType: 'cash',
+      marginCall: null,
+      lastFinancingTs: null,
       positions: [],
       trades: [],
+      orders: [],
+      guardrailEvents: [],
+      journal: [],
+      ledger: INITIAL_LEDGER,
+      sessions: [createSession(DEFAULT_SESSION_NAME, INITIAL_CASH, new Date(), DEFAULT_SESSION_ID)],
+      currentSessionId: DEFAULT_SESSION_ID,
+      sessionAccounts: {},
+      importedTrades: [],
+      importBatches: [],
+      isAnalyzingImported: false,
       totalValue: INITIAL_CASH,
       totalPnl: 0,
       totalPnlPercent: 0,
-      portfolioHistory: [],
-      lastPortfolioHistoryTs: null,
+      portfolioHistory: equityHistoryOf(INITIAL_LEDGER),
+      persistenceIssue: null,
       allocations: [{
         symbol: 'Cash',
         value: INITIAL_CASH,
@@ -343,38 +449,706 @@ export const usePortfolioStore = create<PortfolioState>((set, get) => ({
         color: '#64748B',
         asset_type: 'cash' as AssetType,
       }],
-    });
-  },
   
-  // Import trades from uploaded file
-  importTrades: (trades: Trade[]) => {
-    set({
-      importedTrades: trades,
-      isAnalyzingImported: true,
-    });
-  },
+      // Execute a BUY trade: opens or adds to a long, or covers a short
+      executeBuy: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType, contract?: ContractSpec, order?: OrderFill): boolean => {
+        const state = get();
+        const index = state.positions.findIndex(p => p.symbol === symbol);
+        const existing = index >= 0 ? state.positions[index] : undefined;
+
+        // Covering a short; going long takes a separate order once it's closed
+        if (existing?.side === 'short') {
+          if (quantity > existing.quantity) return false;
+          const currency = existing.currency || getSymbolCurrency(symbol, existing.asset_type);
+          const executed = executeAt(symbol, 'BUY', quantity, price, fees, existing.asset_type, currency, existing.contract, order);
+          if (!executed) return false; // Market closed, or the fill would pass the limit
+          const fill = fillFor(symbol, executed, currency);
+          const closed = reducePosition(state.positions, index, fill);
+          const trade = recordFill(state.currentSessionId, fill, 'BUY', 'cover_short', existing.asset_type, existing.contract, order, closed.realizedPnl);
+          const account = fromLedger(logged(state.ledger, { type: 'fill', trade }), { ...quotesOf(state.positions), [symbol]: fill.price });
+          if (!account) return false;
+          set({ ...account, trades: [trade, ...state.trades] });
+          return true;
+        }
+
+        const currency = getSymbolCurrency(symbol, assetType);
+        const executed = executeAt(symbol, 'BUY', quantity, price, fees, assetType, currency, contract, order);
+        if (!executed) return false; // Market closed, or the fill would pass the limit
+        const fill = fillFor(symbol, executed, currency);
+        const opened = addToPosition(state.positions, fill, 'long', assetType, contract);
+        const newCashBalance = state.cashBalance + opened.cashChange;
+    
+        // Check the account can pay for it, in cash or on margin
+        if (!canCarry(state.accountType, newCashBalance, opened.positions)) {
+          return false; // Not enough funds
+        }
+    
+        const trade = recordFill(state.currentSessionId, fill, 'BUY', 'open_long', assetType, contract, order);
+        const account = fromLedger(logged(state.ledger, { type: 'fill', trade }), { ...quotesOf(state.positions), [symbol]: fill.price });
+        if (!account) return false;
+        set({ ...account, trades: [trade, ...state.trades] });
+    
+        return true;
+      },
   
-  // Clear imported trades
-  clearImportedTrades: () => {
-    set({
-      importedTrades: [],
-      isAnalyzingImported: false,
-    });
-  },
+      // Execute a SELL trade: closes part of a long, or sells short in a margin account
+      executeSell: (symbol: string, quantity: number, price: number, fees: number, assetType: AssetType, contract?: ContractSpec, order?: OrderFill): boolean => {
+        const state = get();
+        const index = state.positions.findIndex(p => p.symbol === symbol);
+        const existing = index >= 0 ? state.positions[index] : undefined;
+    
+        if (existing && existing.side !== 'short') {
+          if (quantity > existing.quantity) {
+            return false; // Close the long before selling short
+          }
+          const currency = existing.currency || getSymbolCurrency(symbol, existing.asset_type);
+          const executed = executeAt(symbol, 'SELL', quantity, price, fees, existing.asset_type, currency, existing.contract, order);
+          if (!executed) return false; // Market closed, or the fill would pass the limit
+          const fill = fillFor(symbol, executed, currency);
+          const closed = reducePosition(state.positions, index, fill);
+          const trade = recordFill(state.currentSessionId, fill, 'SELL', 'close_long', existing.asset_type, existing.contract, order, closed.realizedPnl);
+          const exits = fitBracketExits(state.orders, symbol, closed.remaining, order);
+          const account = fromLedger(
+            logged(state.ledger, { type: 'fill', trade }, ...exits.events),
+            { ...quotesOf(state.positions), [symbol]: fill.price }
+          );
+          if (!account) return false;
+          set({ ...account, trades: [trade, ...state.trades], orders: exits.orders });
+          return true;
+        }
+
+        // Short sales borrow the shares, so they need a margin account; written
+        // options aren't simulated
+        const shortType = existing?.asset_type ?? assetType;
+        if (state.accountType !== 'margin' || shortType === 'options') {
+          return false; // No position to sell
+        }
+        const currency = existing?.currency || getSymbolCurrency(symbol, shortType);
+        const executed = executeAt(symbol, 'SELL', quantity, price, fees, shortType, currency, existing?.contract ?? contract, order);
+        if (!executed) return false; // Market closed, or the fill would pass the limit
+        const fill = fillFor(symbol, executed, currency);
+        const opened = addToPosition(state.positions, fill, 'short', shortType, existing?.contract ?? contract);
+        const newCashBalance = state.cashBalance + opened.cashChange;
+        if (!canCarry(state.accountType, newCashBalance, opened.positions)) {
+          return false; // Not enough equity to cover the short
+        }
+
+        const trade = recordFill(state.currentSessionId, fill, 'SELL', 'open_short', shortType, existing?.contract ?? contract, order);
+        const account = fromLedger(logged(state.ledger, { type: 'fill', trade }), { ...quotesOf(state.positions), [symbol]: fill.price });
+        if (!account) return false;
+        set({ ...account, trades: [trade, ...state.trades] });
+        return true;
+      },
+
+      // Update prices for all positions
+      updatePrices: (prices: Record<string, number>) => {
+        const state = get();
+        const now = Date.now();
+    
+        const quotes = {
+          ...prices,
+          ...Object.fromEntries(state.positions.map(p => [
+            p.symbol,
+            prices[p.symbol] || prices[p.symbol.toUpperCase()] || p.current_price,
+          ])),
+        };
+        const newPositions = markPositions(state.positions, quotes);
+
+        // Margin accounts pay interest on borrowed cash and a fee on shorted
+        // value, charged to cash once per financing interval
+        const financingDue = state.accountType === 'margin'
+          && state.lastFinancingTs !== null
+          && now - state.lastFinancingTs >= FINANCING_INTERVAL_MS;
+        const charges = financingDue
+          ? accrueFinancing(state.cashBalance, newPositions, now - (state.lastFinancingTs as number))
+          : { interest: 0, borrowFee: 0 };
+        const chargedAt = new Date(now).toISOString();
+        const financingEntries: CashDeposit[] = [
+          ...(charges.interest > 0
+            ? [{ id: createId('interest', new Date(now)), amount: -charges.interest, timestamp: chargedAt, kind: 'margin_interest' as const }]
+            : []),
+          ...(charges.borrowFee > 0
+            ? [{ id: createId('borrow', new Date(now)), amount: -charges.borrowFee, timestamp: chargedAt, kind: 'borrow_fee' as const }]
+            : []),
+        ];
+
+        // The equity curve takes a mark at most every interval, and only once
+        // the value has moved; between marks the ledger keeps the last one
+        const newTotalValue = state.cashBalance - charges.interest - charges.borrowFee
+          + newPositions.reduce((sum, p) => sum + p.current_value, 0);
+        const lastEquityPoint = state.portfolioHistory[state.portfolioHistory.length - 1];
+        const shouldMark = newPositions.length > 0 && (!lastEquityPoint || (
+          now - lastEquityPoint.t >= HISTORY_INTERVAL_MS && Math.abs(lastEquityPoint.equity - newTotalValue) >= EQUITY_EPSILON
+        ));
+
+        const ledger = logged(state.ledger, ...financingEntries.map(deposit => ({ type: 'cash' as const, deposit })));
+        const account = fromLedger(ledger, quotes, shouldMark);
+        if (account) {
+          set({
+            ...account,
+            cashDeposits: financingEntries.length > 0 ? [...state.cashDeposits, ...financingEntries] : state.cashDeposits,
+            lastFinancingTs: financingDue || state.lastFinancingTs === null ? now : state.lastFinancingTs,
+          });
+        }
+
+        get().enforceMargin();
+        get().processOrders(prices);
+      },
+
+      // Switching to a cash account needs the loan repaid and shorts covered
+      setAccountType: (accountType: AccountType): boolean => {
+        const state = get();
+        if (accountType === 'cash' && (state.cashBalance < 0 || state.positions.some(p => p.side === 'short'))) {
+          return false;
+        }
+        set({ accountType, marginCall: null, lastFinancingTs: Date.now() });
+        return true;
+      },
+
+      // Issue a margin call when equity drops below maintenance, and liquidate
+      // whole positions (largest requirement first) if it's still short at the
+      // deadline. Liquidations pay the account's usual fees at the last price.
+      enforceMargin: () => {
+        const state = get();
+        if (state.accountType !== 'margin') return;
+
+        const summary = getMarginSummary(state.cashBalance, state.positions);
+        if (summary.equity >= summary.maintenanceRequirement) {
+          if (state.marginCall) set({ marginCall: null });
+          return;
+        }
+
+        const now = new Date();
+        if (!state.marginCall) {
+          set({ marginCall: createMarginCall(summary, now) });
+          return;
+        }
+        if (now.getTime() < new Date(state.marginCall.deadline).getTime()) return;
+
+        const { feeScheduleId, assetFeeSchedules } = useSettingsStore.getState();
+        const schedules = resolveFeeSchedules(feeScheduleId, assetFeeSchedules);
+        for (const position of liquidationOrder(state.positions)) {
+          const current = get();
+          const remaining = getMarginSummary(current.cashBalance, current.positions);
+          if (remaining.equity >= remaining.maintenanceRequirement) break;
+
+          const action = position.side === 'short' ? 'BUY' : 'SELL';
+          const schedule = scheduleForAsset(schedules, position.asset_type);
+          const fees = calculateFees(
+            {
+              symbol: position.symbol,
+              assetType: position.asset_type,
+              action,
+              quantity: position.quantity,
+              price: position.current_price,
+              multiplier: position.contract?.multiplier,
+            },
+            schedule,
+            monthToDateVolume(current.trades, now.toISOString(), schedule.tierVolume)
+          ).total;
+          const source = { liquidation: true };
+          if (action === 'BUY') {
+            current.executeBuy(position.symbol, position.quantity, position.current_price, fees, position.asset_type, position.contract, source);
+          } else {
+            current.executeSell(position.symbol, position.quantity, position.current_price, fees, position.asset_type, position.contract, source);
+          }
+        }
+        set({ marginCall: null });
+      },
+
+      // Deposit funds without creating trades (used for claiming growth income)
+      depositCash: (amount: number, source?: 'growth_income') => {
+        const state = get();
+        const safeAmount = Number(amount);
+        if (!Number.isFinite(safeAmount) || safeAmount <= 0) return;
+
+        const deposit: CashDeposit = {
+          id: createId('deposit'),
+          amount: safeAmount,
+          timestamp: new Date().toISOString(),
+        };
+
+        const account = fromLedger(logged(state.ledger, { type: 'cash', deposit, ...(source ? { source } : {}) }), quotesOf(state.positions));
+        if (!account) return;
+        set({ ...account, cashDeposits: [...state.cashDeposits, deposit] });
+      },
   
-  // Toggle analyzing imported vs paper trades
-  setAnalyzingImported: (analyzing: boolean) => {
-    set({ isAnalyzingImported: analyzing });
-  },
+      // Reset the open session to its starting balance. The ledger keeps what
+      // came before; replay starts again from the reset.
+      resetPortfolio: () => {
+        const state = get();
+        const startingCash = state.sessions.find(s => s.id === state.currentSessionId)?.starting_balance ?? INITIAL_CASH;
+        const ledger = logged(state.ledger, { type: 'reset', starting_cash: startingCash });
+        set({
+          cashBalance: startingCash,
+          startingCash,
+          cashDeposits: [],
+          marginCall: null,
+          lastFinancingTs: null,
+          positions: [],
+          trades: [],
+          orders: [],
+          guardrailEvents: [],
+          journal: [],
+          ledger,
+          totalValue: startingCash,
+          totalPnl: 0,
+          totalPnlPercent: 0,
+          portfolioHistory: equityHistoryOf(ledger),
+          allocations: [{
+            symbol: 'Cash',
+            value: startingCash,
+            percentage: 100,
+            color: '#64748B',
+            asset_type: 'cash' as AssetType,
+          }],
+        });
+      },
   
-  // Get trades for analysis (imported or paper trading)
-  getTradesForAnalysis: () => {
-    const state = get();
-    if (state.isAnalyzingImported && state.importedTrades.length > 0) {
-      return state.importedTrades;
+      // Take back a fat-finger market fill. The fill stays in the ledger with
+      // an undo against it; cash, positions and the equity curve are replayed
+      // without it, and its bracket exits and journal plan go. Exits a closing
+      // fill cancelled stay cancelled.
+      undoLastTrade: (): Trade | null => {
+        const state = get();
+        const now = new Date();
+        const target = undoableFill(state.ledger, now);
+        if (!target) return null;
+
+        const { trade } = target;
+        const exits = state.orders.filter(o => o.status === 'open' && o.entry_trade_id === trade.id);
+        const ledger = logged(
+          state.ledger,
+          { type: 'undo', target_event_id: target.id, trade_id: trade.id },
+          ...exits.map(o => ({ type: 'order_cancelled' as const, order_id: o.id, status: 'cancelled' as const, reason: 'Entry fill undone' }))
+        );
+        // Positions the fill closed come back at the quote it was priced from
+        const account = fromLedger(ledger, { [trade.symbol]: trade.quote_price ?? trade.price, ...quotesOf(state.positions) });
+        if (!account) return null;
+
+        const timestamp = now.toISOString();
+        set({
+          ...account,
+          trades: state.trades.filter(t => t.id !== trade.id),
+          orders: state.orders.map(o =>
+            exits.includes(o) ? { ...o, status: 'cancelled', closed_at: timestamp, status_reason: 'Entry fill undone' } : o
+          ),
+          journal: state.journal.filter(e => e.trade_id !== trade.id),
+        });
+        return trade;
+      },
+  
+      clearPersistenceIssue: () => {
+        set({ persistenceIssue: null });
+      },
+  
+      // Create a session with its own account and switch to it
+      addSession: (name: string, startingBalance: number): Session => {
+        const session = createSession(name, startingBalance);
+        set({ sessions: [...get().sessions, session] });
+        get().switchSession(session.id);
+        return session;
+      },
+  
+      // Put the open account away and load another session's; unopened
+      // sessions start with a fresh account
+      switchSession: (sessionId: string): boolean => {
+        const state = get();
+        const target = state.sessions.find(s => s.id === sessionId);
+        if (!target || target.status === 'archived') return false;
+        if (sessionId === state.currentSessionId) return true;
+
+        const account = state.sessionAccounts[sessionId] ?? freshAccount(target.starting_balance);
+        const sessionAccounts = { ...state.sessionAccounts, [state.currentSessionId]: accountOf(state) };
+        delete sessionAccounts[sessionId];
+        set({
+          ...account,
+          ...portfolioTotals(account.cashBalance, account.positions),
+          portfolioHistory: equityHistoryOf(account.ledger),
+          sessions: updateSession(state.sessions, state.currentSessionId, { current_balance: state.totalValue }),
+          currentSessionId: sessionId,
+          sessionAccounts,
+        });
+        return true;
+      },
+  
+      renameSession: (sessionId: string, name: string): boolean => {
+        const state = get();
+        if (!state.sessions.some(s => s.id === sessionId) || !name.trim()) return false;
+        set({ sessions: updateSession(state.sessions, sessionId, { name: name.trim() }) });
+        return true;
+      },
+  
+      // Archived sessions keep their account but leave the picker
+      archiveSession: (sessionId: string): boolean => {
+        const state = get();
+        if (sessionId === state.currentSessionId || !state.sessions.some(s => s.id === sessionId)) return false;
+        set({ sessions: updateSession(state.sessions, sessionId, { status: 'archived' }) });
+        return true;
+      },
+  
+      restoreSession: (sessionId: string): boolean => {
+        const state = get();
+        if (!state.sessions.some(s => s.id === sessionId && s.status === 'archived')) return false;
+        set({ sessions: updateSession(state.sessions, sessionId, { status: 'active' }) });
+        return true;
+      },
+  
+      // Queue a limit, stop or stop-limit order until the price reaches it
+      placeOrder: (order: PendingOrder) => {
+        const state = get();
+        set({ orders: [order, ...state.orders], ledger: logged(state.ledger, { type: 'order_placed', order }) });
+      },
+
+      // Change the size or prices of a working order
+      modifyOrder: (orderId: string, changes: OrderChanges): boolean => {
+        const state = get();
+        const order = state.orders.find(o => o.id === orderId);
+        if (!order || order.status !== 'open') return false;
+
+        const updated = { ...order, ...changes };
+        if (validateOrder(updated)) return false;
+
+        set({
+          orders: state.orders.map(o => (o.id === orderId ? updated : o)),
+          ledger: logged(state.ledger, { type: 'order_modified', order_id: orderId, changes }),
+        });
+        return true;
+      },
+
+      cancelOrder: (orderId: string) => {
+        const state = get();
+        if (!state.orders.some(o => o.id === orderId && o.status === 'open')) return;
+        set({
+          orders: state.orders.map(o =>
+            o.id === orderId ? { ...o, status: 'cancelled', closed_at: new Date().toISOString() } : o
+          ),
+          ledger: logged(state.ledger, { type: 'order_cancelled', order_id: orderId, status: 'cancelled' }),
+        });
+      },
+
+      // Place the stop-loss and take-profit exits for a filled BUY
+      attachBracket: (tradeId: string, bracket: BracketSpec, feeSchedule: string): boolean => {
+        const state = get();
+        const entry = state.trades.find(t => t.id === tradeId);
+        if (!entry || entry.position_effect !== 'open_long') return false;
+
+        const exits = createBracketOrders(entry, bracket, feeSchedule);
+        set({
+          orders: [...exits, ...state.orders],
+          ledger: logged(state.ledger, ...exits.map(order => ({ type: 'order_placed' as const, order }))),
+        });
+        return true;
+      },
+
+      // Record a pre-trade warning and whether the trader went ahead
+      logGuardrailEvent: (event: GuardrailEvent) => {
+        set({ guardrailEvents: [event, ...get().guardrailEvents] });
+      },
+
+      // Save a trade plan. The thesis is copied onto the entry fill's notes,
+      // or onto the fill of the working order once it happens.
+      addJournalEntry: (entry: JournalEntry) => {
+        const state = get();
+        set({
+          journal: [entry, ...state.journal],
+          trades: entry.trade_id
+            ? state.trades.map(t => (t.id === entry.trade_id ? { ...t, notes: tradeNote(entry) } : t))
+            : state.trades,
+        });
+      },
+
+      reviewJournalEntry: (entryId: string, review: TradeReview) => {
+        const state = get();
+        if (!state.journal.some(e => e.id === entryId)) return false;
+        set({ journal: state.journal.map(e => (e.id === entryId ? { ...e, review } : e)) });
+        return true;
+      },
+
+      // Fill, arm or expire working orders against the latest prices. Fills go
+      // through executeBuy/executeSell, so they're checked for cash and holdings
+      // at the moment they trigger.
+      processOrders: (prices: Record<string, number>) => {
+        const now = new Date();
+        const timestamp = now.toISOString();
+        const updateOrder = (orderId: string, changes: Partial<PendingOrder>, ...events: NewLedgerEvent[]) => {
+          set({
+            orders: get().orders.map(o => (o.id === orderId ? { ...o, ...changes } : o)),
+            ledger: logged(get().ledger, ...events),
+          });
+        };
+        const endOrder = (orderId: string, status: 'expired' | 'rejected', reason?: string) => {
+          updateOrder(
+            orderId,
+            { status, closed_at: timestamp, ...(reason ? { status_reason: reason } : {}) },
+            { type: 'order_cancelled', order_id: orderId, status, ...(reason ? { reason } : {}) }
+          );
+        };
+
+        get().orders.filter(o => o.status === 'open').forEach(({ id }) => {
+          // An earlier fill this tick may have cancelled or resized the order
+          const order = get().orders.find(o => o.id === id);
+          if (!order || order.status !== 'open') return;
+
+          const price = prices[order.symbol] || prices[order.symbol.toUpperCase()];
+          if (!price) {
+            // Day orders lapse even when their symbol has no quote
+            if (order.expires_at && now.getTime() >= new Date(order.expires_at).getTime()) {
+              endOrder(order.id, 'expired');
+            }
+            return;
+          }
+
+          const evaluation = evaluateOrder(order, price, now);
+          if (evaluation.outcome === 'expired') {
+            endOrder(order.id, 'expired');
+            return;
+          }
+          // Orders wait out closed markets rather than being rejected
+          if (evaluation.outcome === 'fill' && !marketOpenFor(order.asset_type, now)) return;
+          if (evaluation.outcome === 'triggered') {
+            if (!order.triggered_at) updateOrder(order.id, { triggered_at: timestamp });
+            return;
+          }
+          if (evaluation.outcome === 'trailed') {
+            const changes = { stop_price: evaluation.stop_price };
+            updateOrder(order.id, changes, { type: 'order_modified', order_id: order.id, changes });
+            return;
+          }
+          if (evaluation.outcome !== 'fill') return;
+          // A limit the quote touched can still be out of reach once spread
+          // and slippage are priced in; the order keeps working
+          if (useSettingsStore.getState().realisticExecution) {
+            const held = get().positions.find(p => p.symbol === order.symbol);
+            const currency = held?.currency || getSymbolCurrency(order.symbol, order.asset_type);
+            if (!modelExecution(order.symbol, order.action, order.quantity, evaluation.price, order.asset_type, currency, order.contract, order)) return;
+          }
+
+          const schedule = getFeeSchedule(order.fee_schedule);
+          const fees = calculateFees(
+            {
+              symbol: order.symbol,
+              assetType: order.asset_type,
+              action: order.action,
+              quantity: order.quantity,
+              price: evaluation.price,
+              multiplier: order.contract?.multiplier,
+            },
+            schedule,
+            monthToDateVolume(get().trades, timestamp, schedule.tierVolume)
+          ).total;
+
+          const filled = order.action === 'BUY'
+            ? get().executeBuy(order.symbol, order.quantity, evaluation.price, fees, order.asset_type, order.contract, order)
+            : get().executeSell(order.symbol, order.quantity, evaluation.price, fees, order.asset_type, order.contract, order);
+
+          if (filled) {
+            const trade = get().trades[0];
+            const tradeId = trade.id;
+            const filledQuantity = (order.filled_quantity ?? 0) + trade.quantity;
+            const isPartial = trade.requested_quantity !== undefined;
+            // Partial fills leave the rest working for the next tick
+            updateOrder(order.id, {
+              ...(isPartial
+                ? { quantity: order.quantity - trade.quantity }
+                : { status: 'filled', closed_at: timestamp }),
+              fill_price: trade.price,
+              trade_id: tradeId,
+              ...(isPartial || order.filled_quantity ? { filled_quantity: filledQuantity } : {}),
+              ...(evaluation.triggered && !order.triggered_at ? { triggered_at: timestamp } : {}),
+            });
+            // One-cancels-other: the exit that filled retires its siblings
+            if (order.oco_group && !isPartial) {
+              const reason = 'Other side of the bracket filled';
+              const siblings = get().orders.filter(o => o.oco_group === order.oco_group && o.status === 'open');
+              set({
+                orders: get().orders.map(o =>
+                  siblings.includes(o) ? { ...o, status: 'cancelled', closed_at: timestamp, status_reason: reason } : o
+                ),
+                ledger: logged(
+                  get().ledger,
+                  ...siblings.map(o => ({ type: 'order_cancelled' as const, order_id: o.id, status: 'cancelled' as const, reason }))
+                ),
+              });
+            }
+            if (order.bracket) get().attachBracket(tradeId, order.bracket, order.fee_schedule);
+            // A plan written when the order was placed now belongs to its fill
+            const planned = get().journal.find(e => e.order_id === order.id && !e.trade_id);
+            if (planned) {
+              set({
+                journal: get().journal.map(e => (e.id === planned.id ? { ...e, trade_id: tradeId } : e)),
+                trades: get().trades.map(t => (t.id === tradeId ? { ...t, notes: tradeNote(planned) } : t)),
+              });
+            }
+          } else {
+            endOrder(
+              order.id,
+              'rejected',
+              order.action === 'BUY'
+                ? 'Not enough buying power when the order triggered'
+                : 'Not enough holdings or buying power when the order triggered'
+            );
+          }
+        });
+      },
+  
+      // Import trades from uploaded file, merging with earlier imports and skipping duplicates
+      importTrades: (trades, source = { fileName: 'upload', format: 'generic' }, options = {}) => {
+        const state = get();
+        const { mode = 'append', replaceBatchId } = options;
+        const batchId = createId('batch');
+
+        const tagged = trades.map(trade => ({
+          ...trade,
+          source_file: source.fileName,
+          import_batch_id: batchId,
+        }));
+        const base = mode === 'replace'
+          ? []
+          : state.importedTrades.filter(t => !replaceBatchId || t.import_batch_id !== replaceBatchId);
+        const result = mergeTrades(base, tagged);
+
+        const batch: ImportBatch = {
+          id: batchId,
+          file_name: source.fileName,
+          format: source.format,
+          imported_at: new Date().toISOString(),
+          total_rows: trades.length,
+          added: result.added.length,
+          duplicates: result.duplicates.length,
+          conflicts: result.conflicts,
+          audit: source.audit,
+        };
+        const earlierBatches = mode === 'replace'
+          ? []
+          : state.importBatches.filter(b => b.id !== replaceBatchId);
+
+        set({
+          importedTrades: result.trades,
+          importBatches: [...earlierBatches, batch],
+          isAnalyzingImported: true,
+        });
+        return batch;
+      },
+
+      // Replace the existing trades in a batch's conflicts with the newly imported values
+      acceptIncomingConflicts: (batchId: string) => {
+        const state = get();
+        const batch = state.importBatches.find(b => b.id === batchId);
+        if (!batch || batch.conflicts.length === 0) return;
+
+        const replacements = new Map(batch.conflicts.map(c => [c.existing.id, c.incoming]));
+        set({
+          importedTrades: state.importedTrades.map(t => replacements.get(t.id) || t),
+          importBatches: state.importBatches.map(b =>
+            b.id === batchId ? { ...b, conflicts: [] } : b
+          ),
+        });
+      },
+  
+      // Clear imported trades
+      clearImportedTrades: () => {
+        set({
+          importedTrades: [],
+          importBatches: [],
+          isAnalyzingImported: false,
+        });
+      },
+  
+      // Toggle analyzing imported vs paper trades
+      setAnalyzingImported: (analyzing: boolean) => {
+        set({ isAnalyzingImported: analyzing });
+      },
+  
+      // Get trades for analysis (imported or paper trading)
+      getTradesForAnalysis: () => {
+        const state = get();
+        if (state.isAnalyzingImported && state.importedTrades.length > 0) {
+          return state.importedTrades;
+        }
+        return state.trades;
+      },
+    }),
+    {
+      name: PORTFOLIO_STORAGE_KEY,
+      // IndexedDB, since long trade histories outgrow localStorage
+      storage: portfolioStorage,
+      version: PORTFOLIO_SCHEMA_VERSION,
+      migrate: (persisted, version) => {
+        try {
+          return migratePortfolio(persisted, version);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'unknown error';
+          throw unreadableValueError(reason, backUpSnapshot(persisted, version));
+        }
+      },
+      partialize: (state): PersistedPortfolio => ({
+        ...accountOf(state),
+        importedTrades: state.importedTrades,
+        importBatches: state.importBatches,
+        currentSessionId: state.currentSessionId,
+        sessions: state.sessions,
+        sessionAccounts: state.sessionAccounts,
+      }),
+      // Keeps whatever is intact in the saved portfolio and recomputes the
+      // totals. A snapshot with no usable account is backed up and throws,
+      // which lands in onRehydrateStorage's recovery.
+      merge: (persisted, current) => {
+        if (persisted === undefined) return current;
+        const restored = restorePortfolio(persisted);
+        if (!restored) {
+          throw unreadableValueError('the saved data is not a portfolio', backUpSnapshot(persisted, PORTFOLIO_SCHEMA_VERSION));
+        }
+
+        const { portfolio, dropped } = restored;
+        // Cash, positions and the equity curve come from the ledger, at the
+        // saved marks. The saved cash and positions should be what it replays
+        // to; if not, the ledger wins.
+        const replayed = replayLedger(portfolio.ledger);
+        const matchesLedger = !replayed || matchesReplay(replayed, portfolio.cashBalance, portfolio.positions);
+        if (replayed) {
+          portfolio.cashBalance = replayed.cashBalance;
+          portfolio.positions = markPositions(replayed.positions, quotesOf(portfolio.positions));
+        }
+        let persistenceIssue: PersistenceIssue | null = null;
+        if (dropped > 0) {
+          const backupKey = backUpSnapshot(persisted, PORTFOLIO_SCHEMA_VERSION);
+          persistenceIssue = {
+            message: `${dropped} damaged ${dropped === 1 ? 'entry was' : 'entries were'} skipped while loading your portfolio`,
+            backupKey,
+          };
+        } else if (!matchesLedger) {
+          persistenceIssue = {
+            message: 'Your saved cash and positions didn\'t match your trade ledger, so they were rebuilt from it',
+            backupKey: backUpSnapshot(persisted, PORTFOLIO_SCHEMA_VERSION),
+          };
+        }
+        return {
+          ...current,
+          ...portfolio,
+          ...portfolioTotals(portfolio.cashBalance, portfolio.positions),
+          portfolioHistory: equityHistoryOf(portfolio.ledger),
+          persistenceIssue,
+        };
+      },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) recoverUnreadablePortfolio(error);
+      },
     }
-    return state.trades;
-  },
-}));
+  )
+);
+
+// Tells the user a saved portfolio couldn't be loaded and where its copy
+// went. The copy was made where the load failed, before the fresh portfolio
+// could be saved over the original.
+function recoverUnreadablePortfolio(error: unknown) {
+  const reason = error instanceof Error ? error.message : 'unknown error';
+  usePortfolioStore.setState({
+    persistenceIssue: {
+      message: `Your saved portfolio couldn't be loaded (${reason}), so a new one was started`,
+      backupKey: backupKeyOf(error),
+    },
+  });
+}
 
 export default usePortfolioStore;
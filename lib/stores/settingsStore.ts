@@ -3,14 +3,57 @@
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import { AssetType, ExecutionModel, ExecutionModels, FxRateEntry, LotMatchingMethod, TaxJurisdiction, TradingDayBoundary, TradingDayBoundaries } from '@/types';
+import { config } from '@/constants/config';
 
 interface SettingsState {
   // UI Settings
   showConnectionIndicator: boolean;
+
+  // Time Settings
+  importTimeZone: string | null; // Source zone for imported files; null = browser zone
+  tradingDayBoundaries: TradingDayBoundaries;
+
+  // Currency Settings
+  baseCurrency: string; // Reports, charts and the coach use this currency
+  fxRates: FxRateEntry[]; // Historical rates for converting trades at trade time
+
+  // Fee Settings
+  feeScheduleId: string; // The account's broker schedule (constants/feeSchedules.ts)
+  assetFeeSchedules: Partial<Record<AssetType, string>>; // Per-asset-class overrides
+
+  // Execution Settings
+  realisticExecution: boolean; // Price paper fills with spread, slippage and partial fills
+  enforceMarketHours: boolean; // Reject market orders while the market is closed; off unless the trader opts in
+  executionModels: ExecutionModels;
+
+  // Guardrail Settings
+  guardrailsEnabled: boolean; // Check paper orders for revenge trading, oversizing and concentration
+  enforceGuardrailCooldown: boolean; // Block orders until the cooldown after a loss has passed
+
+  // Tax Settings
+  taxLotMethod: LotMatchingMethod; // Which lots a sale disposes of in the realized-gains report
+  taxJurisdiction: TaxJurisdiction; // Whose rules decide which losses are disallowed
   
   // Actions
   setShowConnectionIndicator: (show: boolean) => void;
   toggleConnectionIndicator: () => void;
+  setImportTimeZone: (timeZone: string | null) => void;
+  setTradingDayBoundary: (assetType: AssetType, boundary: TradingDayBoundary) => void;
+  resetTradingDayBoundaries: () => void;
+  setBaseCurrency: (currency: string) => void;
+  addFxRate: (entry: FxRateEntry) => void;
+  removeFxRate: (pair: string, date: string) => void;
+  setFeeSchedule: (scheduleId: string) => void;
+  setAssetFeeSchedule: (assetType: AssetType, scheduleId: string | null) => void;
+  setRealisticExecution: (enabled: boolean) => void;
+  setEnforceMarketHours: (enforce: boolean) => void;
+  setExecutionModel: (assetType: AssetType, changes: Partial<ExecutionModel>) => void;
+  resetExecutionModels: () => void;
+  setGuardrailsEnabled: (enabled: boolean) => void;
+  setEnforceGuardrailCooldown: (enforce: boolean) => void;
+  setTaxLotMethod: (method: LotMatchingMethod) => void;
+  setTaxJurisdiction: (jurisdiction: TaxJurisdiction) => void;
 }
 
 export const useSettingsStore = create<SettingsState>()(
@@ -18,16 +61,115 @@ export const useSettingsStore = create<SettingsState>()(
     (set) => ({
       // Default: show the indicator
       showConnectionIndicator: true,
+      importTimeZone: null,
+      tradingDayBoundaries: config.analysis.tradingDayBoundaries,
+      baseCurrency: config.currency.baseCurrency,
+      fxRates: [],
+      feeScheduleId: config.trading.defaultFeeSchedule,
+      assetFeeSchedules: {},
+      realisticExecution: true,
+      enforceMarketHours: false,
+      executionModels: config.execution.models,
+      guardrailsEnabled: true,
+      enforceGuardrailCooldown: false,
+      taxLotMethod: config.tax.defaultLotMethod,
+      taxJurisdiction: config.tax.defaultJurisdiction,
       
       setShowConnectionIndicator: (show: boolean) => 
         set({ showConnectionIndicator: show }),
       
       toggleConnectionIndicator: () => 
         set((state) => ({ showConnectionIndicator: !state.showConnectionIndicator })),
+
+      setImportTimeZone: (timeZone) =>
+        set({ importTimeZone: timeZone }),
+
+      setTradingDayBoundary: (assetType, boundary) =>
+        set((state) => ({
+          tradingDayBoundaries: { ...state.tradingDayBoundaries, [assetType]: boundary },
+        })),
+
+      resetTradingDayBoundaries: () =>
+        set({ tradingDayBoundaries: config.analysis.tradingDayBoundaries }),
+
+      setBaseCurrency: (currency) =>
+        set({ baseCurrency: currency }),
+
+      // One rate per pair and date; a new entry replaces the old one
+      addFxRate: (entry) =>
+        set((state) => ({
+          fxRates: [
+            ...state.fxRates.filter(rate => rate.pair !== entry.pair || rate.date !== entry.date),
+            entry,
+          ].sort((a, b) => a.pair.localeCompare(b.pair) || a.date.localeCompare(b.date)),
+        })),
+
+      removeFxRate: (pair, date) =>
+        set((state) => ({
+          fxRates: state.fxRates.filter(rate => rate.pair !== pair || rate.date !== date),
+        })),
+
+      setFeeSchedule: (scheduleId) =>
+        set({ feeScheduleId: scheduleId }),
+
+      // null falls back to the account schedule
+      setAssetFeeSchedule: (assetType, scheduleId) =>
+        set((state) => {
+          const assetFeeSchedules = { ...state.assetFeeSchedules };
+          if (scheduleId) assetFeeSchedules[assetType] = scheduleId;
+          else delete assetFeeSchedules[assetType];
+          return { assetFeeSchedules };
+        }),
+
+      setRealisticExecution: (enabled) =>
+        set({ realisticExecution: enabled }),
+
+      setEnforceMarketHours: (enforce) =>
+        set({ enforceMarketHours: enforce }),
+
+      setExecutionModel: (assetType, changes) =>
+        set((state) => ({
+          executionModels: {
+            ...state.executionModels,
+            [assetType]: { ...state.executionModels[assetType], ...changes },
+          },
+        })),
+
+      resetExecutionModels: () =>
+        set({ executionModels: config.execution.models }),
+
+      setGuardrailsEnabled: (enabled) =>
+        set({ guardrailsEnabled: enabled }),
+
+      setEnforceGuardrailCooldown: (enforce) =>
+        set({ enforceGuardrailCooldown: enforce }),
+
+      setTaxLotMethod: (method) =>
+        set({ taxLotMethod: method }),
+
+      setTaxJurisdiction: (jurisdiction) =>
+        set({ taxJurisdiction: jurisdiction }),
     }),
     {
       name: 'biascoach-settings',
       storage: createJSONStorage(() => localStorage),
+      version: 1,
+      // Version 0 saved market hours as enforced by default, which turned
+      // away evening and weekend market orders that used to fill
+      migrate: (persisted, version) => {
+        const saved = persisted as Partial<SettingsState>;
+        return version < 1 ? { ...saved, enforceMarketHours: false } : saved;
+      },
+      // Asset classes added after a user saved their settings get the defaults
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<SettingsState>;
+        return {
+          ...current,
+          ...saved,
+          tradingDayBoundaries: { ...current.tradingDayBoundaries, ...saved.tradingDayBoundaries },
+          executionModels: { ...current.executionModels, ...saved.executionModels },
+        };
+      },
     }
   )
 );
@@ -0,0 +1,44 @@
+// Chunked Text Reader
+// Reads a File/Blob as a sequence of text chunks so very large statements are
+// never held in memory as one string. Multi-byte characters split across
+// chunk boundaries are reassembled by the streaming TextDecoder.
+
+export const DEFAULT_CHUNK_BYTES = 1024 * 1024; // 1 MB
+
+export interface ChunkProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export async function* readTextChunks(
+  source: Blob | string,
+  onProgress?: (progress: ChunkProgress) => void,
+  chunkSize: number = DEFAULT_CHUNK_BYTES
+): AsyncGenerator<string> {
+  // Already-decoded text (e.g. a worksheet serialized to CSV) is sliced by characters
+  if (typeof source === 'string') {
+    for (let offset = 0; offset < source.length; offset += chunkSize) {
+      yield source.slice(offset, offset + chunkSize);
+      onProgress?.({ bytesRead: Math.min(offset + chunkSize, source.length), totalBytes: source.length });
+    }
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for (let offset = 0; offset < source.size; offset += chunkSize) {
+    const buffer = await source.slice(offset, offset + chunkSize).arrayBuffer();
+    yield decoder.decode(buffer, { stream: true });
+    onProgress?.({ bytesRead: Math.min(offset + chunkSize, source.size), totalBytes: source.size });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+// Whole text of a chunk stream (for formats that need the full document)
+export async function collectText(chunks: AsyncIterable<string>): Promise<string> {
+  const parts: string[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return parts.join('');
+}
+
+export default { readTextChunks, collectText };
@@ -0,0 +1,321 @@
+// CSV Tokenizer (RFC 4180) and locale-aware number parsing
+// Handles quoted fields, escaped quotes (""), delimiters and line breaks inside
+// quotes, CRLF/LF endings, a leading BOM, and spreadsheet-formatted money
+// columns such as "$1,250.00", "1.234,56 €" and "(123.45)".
+
+import { NumberFormat } from '@/types';
+
+export interface CsvRecord {
+  line: number; // Physical line the record starts on (1-based)
+  cells: string[];
+}
+
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  headerLine: number;
+  records: CsvRecord[];
+  errors: string[];
+}
+
+export interface CsvOptions {
+  delimiter?: string; // Sniffed from the first lines when omitted
+}
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+};
+
+// Options offered in the upload UI
+export const NUMBER_FORMAT_PRESETS: { label: string; format: NumberFormat }[] = [
+  { label: '1,234.56', format: { decimalSeparator: '.', thousandsSeparator: ',' } },
+  { label: '1.234,56', format: { decimalSeparator: ',', thousandsSeparator: '.' } },
+  { label: '1 234,56', format: { decimalSeparator: ',', thousandsSeparator: ' ' } },
+  { label: "1'234.56", format: { decimalSeparator: '.', thousandsSeparator: "'" } },
+];
+
+// Leading/trailing currency symbols and ISO codes ("USD 1,250.00", "1.250,00 EUR")
+const CURRENCY_PATTERN = /^[A-Z]{3}\s*|\s*[A-Z]{3}$|[$€£¥₹]|C\$|US\$/g;
+const MINUS_SIGNS = /[\u2212\u2013]/g;
+
+// ============================================
+// Tokenizer
+// ============================================
+
+// Count delimiters outside quotes on one line
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+// Prefer the delimiter that splits the header and the first rows into the
+// same number of columns; fall back to the one producing the most columns
+export function sniffDelimiter(content: string): string {
+  const lines = content.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => countOutsideQuotes(line, candidate));
+    if (counts[0] === 0) continue;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = consistent * 1000 + counts[0];
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export interface CsvStreamTokenizer {
+  // Feed the next chunk of text; complete records are passed to onRecord
+  push: (chunk: string) => void;
+  // Flush the last record; returns tokenizer errors
+  end: () => string[];
+}
+
+// Incremental tokenizer for files read in chunks. Records may span chunk
+// boundaries; only the partial record is held in memory.
+export function createCsvTokenizer(delimiter: string, onRecord: (record: CsvRecord) => void): CsvStreamTokenizer {
+  const errors: string[] = [];
+
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false; // Current field was quoted (keeps its whitespace)
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let carry = ''; // Trailing character whose meaning depends on the next chunk
+  let started = false;
+
+  const endField = () => {
+    cells.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    // Skip blank lines (a single empty cell)
+    if (cells.length > 1 || cells[0] !== '') {
+      onRecord({ line: recordLine, cells });
+    }
+    cells = [];
+  };
+
+  const consume = (text: string, final: boolean) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A quote or CR at the end of a chunk needs the next character to decide
+      if (!final && i === text.length - 1 && (char === '"' || char === '\r')) {
+        carry = char;
+        return;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else if (char === '\r' && text[i + 1] === '\n') {
+          continue;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field.trim() === '' && !quoted) {
+        inQuotes = true;
+        quoted = true;
+        field = '';
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRecord();
+        line++;
+        recordLine = line;
+      } else if (quoted) {
+        // Text after a closing quote is invalid RFC 4180; keep it but only if it isn't padding
+        if (char.trim()) field += char;
+      } else {
+        field += char;
+      }
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      let text = carry + chunk;
+      carry = '';
+      if (!started && text) {
+        text = text.replace(/^\uFEFF/, '');
+        started = true;
+      }
+      consume(text, false);
+    },
+    end: () => {
+      consume(carry, true);
+      carry = '';
+      if (inQuotes) {
+        errors.push(`Line ${recordLine}: Unterminated quoted field`);
+      }
+      if (field !== '' || cells.length > 0 || quoted) {
+        endRecord();
+      }
+      return errors;
+    },
+  };
+}
+
+export function tokenizeCSV(content: string, options: CsvOptions = {}): CsvTable {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter || sniffDelimiter(text);
+  const records: CsvRecord[] = [];
+
+  const tokenizer = createCsvTokenizer(delimiter, record => records.push(record));
+  tokenizer.push(text);
+  const errors = tokenizer.end();
+
+  const [header, ...rest] = records;
+  return {
+    delimiter,
+    headers: header ? header.cells : [],
+    headerLine: header ? header.line : 1,
+    records: rest,
+    errors,
+  };
+}
+
+// Quote cells that contain the delimiter, quotes or line breaks
+export function serializeCSV(rows: string[][], delimiter: string = ','): string {
+  return rows
+    .map(row => row
+      .map(cell => (/["\r\n]/.test(cell) || cell.includes(delimiter) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(delimiter))
+    .join('\n');
+}
+
+// ============================================
+// Numbers
+// ============================================
+
+function stripNumberDecorations(raw: string): { body: string; negative: boolean } {
+  let body = raw.trim().replace(MINUS_SIGNS, '-');
+  let negative = false;
+
+  // Accounting negatives: (123.45)
+  if (/^\(.*\)$/.test(body)) {
+    negative = true;
+    body = body.slice(1, -1);
+  }
+
+  body = body.replace(CURRENCY_PATTERN, '').replace(/\s/g, '');
+
+  // Leading or trailing sign: -123, +123, 123-
+  if (body.startsWith('-')) {
+    negative = !negative;
+    body = body.slice(1);
+  } else if (body.startsWith('+')) {
+    body = body.slice(1);
+  } else if (body.endsWith('-')) {
+    negative = !negative;
+    body = body.slice(0, -1);
+  }
+
+  // Currency symbol after the sign: -$123
+  body = body.replace(CURRENCY_PATTERN, '');
+  return { body, negative };
+}
+
+// Strict parse: "1.2.3" or "12abc" return NaN instead of a silently truncated value
+export function parseLocaleNumber(
+  raw: string | number | undefined | null,
+  format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): number {
+  if (raw === undefined || raw === null) return NaN;
+  if (typeof raw === 'number') return raw;
+
+  const { body, negative } = stripNumberDecorations(raw);
+  if (body === '') return NaN;
+
+  let normalized = body;
+  if (format.thousandsSeparator.trim()) {
+    normalized = normalized.split(format.thousandsSeparator).join('');
+  }
+  if (format.decimalSeparator === ',') {
+    normalized = normalized.replace(',', '.');
+  }
+
+  if (!/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(normalized)) return NaN;
+  const value = parseFloat(normalized);
+  return negative ? -value : value;
+}
+
+// Guess the number format from sample cells. Unambiguous values decide it:
+// "1.234,56" or "12,5" mean decimal comma, "1,234.56" or "12.5" mean decimal
+// point. "1,234" alone could be either, so it doesn't vote.
+export function detectNumberFormat(samples: string[], delimiter?: string): NumberFormat {
+  let commaDecimal = 0;
+  let pointDecimal = 0;
+  let spaceGrouping = false;
+  let apostropheGrouping = false;
+
+  for (const sample of samples) {
+    const { body } = stripNumberDecorations(sample);
+    if (!/\d/.test(body) || !/^[\d.,']+$/.test(body)) continue;
+    if (/\d\s\d{3}/.test(sample)) spaceGrouping = true;
+    if (body.includes("'")) apostropheGrouping = true;
+
+    const digits = body.replace(/'/g, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastPoint = digits.lastIndexOf('.');
+
+    if (lastComma !== -1 && lastPoint !== -1) {
+      if (lastComma > lastPoint) commaDecimal++;
+      else pointDecimal++;
+    } else if (lastComma !== -1) {
+      if (/^\d{1,3}(,\d{3})+$/.test(digits)) {
+        if (digits.split(',').length > 2) pointDecimal++;
+      } else if (/^\d*,\d+$/.test(digits)) {
+        commaDecimal++;
+      }
+    } else if (lastPoint !== -1) {
+      if (/^\d{1,3}(\.\d{3})+$/.test(digits)) {
+        if (digits.split('.').length > 2) commaDecimal++;
+      } else if (/^\d*\.\d+$/.test(digits)) {
+        pointDecimal++;
+      }
+    }
+  }
+
+  // Semicolon-separated exports come from locales that write decimal commas
+  const useComma = commaDecimal > pointDecimal || (commaDecimal === pointDecimal && delimiter === ';');
+  if (useComma) {
+    return { decimalSeparator: ',', thousandsSeparator: spaceGrouping ? ' ' : '.' };
+  }
+  return { decimalSeparator: '.', thousandsSeparator: apostropheGrouping ? "'" : spaceGrouping ? ' ' : ',' };
+}
+
+export default {
+  sniffDelimiter,
+  tokenizeCSV,
+  serializeCSV,
+  parseLocaleNumber,
+  detectNumberFormat,
+};
@@ -0,0 +1,36 @@
+// Broker-neutral CSV exporter: one execution per row in the standard layout,
+// readable by this app's generic importer and by spreadsheet tools
+
+import { TradeExporter } from '@/types';
+import { serializeCSV } from '@/lib/utils/csvTokenizer';
+import { formatSide, roundAmount, withRunningBalances } from '@/lib/utils/exporters/shared';
+import { getTradeCurrency } from '@/lib/services/currencyConverter';
+
+const HEADERS = ['timestamp', 'asset', 'side', 'quantity', 'price', 'exit_price', 'fees', 'profit_loss', 'currency', 'balance'];
+
+export const csvExporter: TradeExporter = {
+  id: 'csv',
+  label: 'CSV',
+  description: 'Standard CSV with a running balance from your real starting cash and deposits',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8;',
+
+  export: (trades, context) => {
+    const rows = withRunningBalances(trades, context).map(({ trade, balance }) => [
+      // UTC with an explicit offset, so re-importing doesn't depend on the import timezone
+      trade.timestamp,
+      trade.symbol,
+      formatSide(trade),
+      String(trade.quantity),
+      String(trade.price),
+      trade.exit_price !== undefined ? String(trade.exit_price) : '',
+      String(roundAmount(trade.fees, 4)),
+      trade.pnl !== undefined ? roundAmount(trade.pnl).toFixed(2) : '',
+      getTradeCurrency(trade),
+      roundAmount(balance).toFixed(2),
+    ]);
+    return serializeCSV([HEADERS, ...rows]);
+  },
+};
+
+export default csvExporter;
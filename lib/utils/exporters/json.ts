@@ -0,0 +1,31 @@
+// Lossless JSON exporter: every trade field, plus the account's starting cash
+// and deposits, in a document the biascoach_json importer reads back as-is
+
+import { TradeExportDocument, TradeExporter } from '@/types';
+import { sortByTimestamp } from '@/lib/utils/exporters/shared';
+
+export const TRADE_EXPORT_FORMAT: TradeExportDocument['format'] = 'biascoach-trades';
+export const TRADE_EXPORT_VERSION = 1;
+
+export const jsonExporter: TradeExporter = {
+  id: 'json',
+  label: 'JSON',
+  description: 'Complete backup that re-imports without losing any detail',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8;',
+
+  export: (trades, context) => {
+    // format comes first so importers can recognise the file from its opening bytes
+    const document: TradeExportDocument = {
+      format: TRADE_EXPORT_FORMAT,
+      version: TRADE_EXPORT_VERSION,
+      exported_at: context.exportedAt,
+      starting_cash: context.startingCash,
+      deposits: context.deposits,
+      trades: sortByTimestamp(trades),
+    };
+    return JSON.stringify(document, null, 2);
+  },
+};
+
+export default jsonExporter;
@@ -0,0 +1,132 @@
+// OFX 2.2 investment statement exporter, for personal finance and tax tools
+// that import brokerage activity. Stocks and ETFs are written as stock
+// transactions, everything else as "other" securities; deposits and margin
+// charges are bank transactions in the cash sub-account.
+
+import { CashDeposit, Trade, TradeExporter } from '@/types';
+import { closingCash, roundAmount, settlementAmount, sortByTimestamp } from '@/lib/utils/exporters/shared';
+import { getTradeCurrency } from '@/lib/services/currencyConverter';
+
+const BROKER_ID = 'biascoach.app';
+const ACCOUNT_ID = 'PAPER';
+const CURRENCY = 'USD';
+
+const CASH_ENTRY_TYPES: Record<NonNullable<CashDeposit['kind']>, { type: string; name: string }> = {
+  deposit: { type: 'CREDIT', name: 'Deposit' },
+  margin_interest: { type: 'INT', name: 'Margin interest' },
+  borrow_fee: { type: 'FEE', name: 'Short borrow fee' },
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+// 2024-03-05T14:30:00.000Z -> 20240305143000.000[0:GMT]
+function formatOfxDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}` +
+    `.${pad(date.getUTCMilliseconds(), 3)}[0:GMT]`;
+}
+
+function isStock(trade: Trade): boolean {
+  return trade.asset_type === 'stocks' || trade.asset_type === 'etfs';
+}
+
+function secId(symbol: string): string {
+  return `<SECID><UNIQUEID>${escapeXml(symbol)}</UNIQUEID><UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID>`;
+}
+
+// Amounts of a fill quoted in another currency stay in that currency, with
+// the rate into the statement currency alongside
+function writeOrigCurrency(trade: Trade): string {
+  const currency = getTradeCurrency(trade);
+  if (currency === CURRENCY || trade.usd_rate === undefined) return '';
+  return `<ORIGCURRENCY><CURRATE>${trade.usd_rate}</CURRATE><CURSYM>${currency}</CURSYM></ORIGCURRENCY>`;
+}
+
+function writeTransaction(trade: Trade): string {
+  const units = trade.action === 'BUY' ? trade.quantity : -trade.quantity;
+  const total = settlementAmount(trade);
+  const body =
+    `<INVTRAN><FITID>${escapeXml(trade.id)}</FITID><DTTRADE>${formatOfxDate(trade.timestamp)}</DTTRADE>` +
+    (trade.notes ? `<MEMO>${escapeXml(trade.notes.slice(0, 255))}</MEMO>` : '') +
+    `</INVTRAN>${secId(trade.symbol)}<UNITS>${units}</UNITS><UNITPRICE>${trade.price}</UNITPRICE>` +
+    `<COMMISSION>${roundAmount(trade.fees)}</COMMISSION><TOTAL>${roundAmount(total)}</TOTAL>${writeOrigCurrency(trade)}` +
+    '<SUBACCTSEC>CASH</SUBACCTSEC><SUBACCTFUND>CASH</SUBACCTFUND>';
+
+  if (trade.action === 'BUY') {
+    if (!isStock(trade)) return `<BUYOTHER><INVBUY>${body}</INVBUY></BUYOTHER>`;
+    const buyType = trade.position_effect === 'cover_short' ? 'BUYTOCOVER' : 'BUY';
+    return `<BUYSTOCK><INVBUY>${body}</INVBUY><BUYTYPE>${buyType}</BUYTYPE></BUYSTOCK>`;
+  }
+  if (!isStock(trade)) return `<SELLOTHER><INVSELL>${body}</INVSELL></SELLOTHER>`;
+  const sellType = trade.position_effect === 'open_short' ? 'SELLSHORT' : 'SELL';
+  return `<SELLSTOCK><INVSELL>${body}</INVSELL><SELLTYPE>${sellType}</SELLTYPE></SELLSTOCK>`;
+}
+
+function writeSecurity(symbol: string, stock: boolean): string {
+  const info = `<SECINFO>${secId(symbol)}<SECNAME>${escapeXml(symbol)}</SECNAME><TICKER>${escapeXml(symbol)}</TICKER></SECINFO>`;
+  return stock ? `<STOCKINFO>${info}</STOCKINFO>` : `<OTHERINFO>${info}</OTHERINFO>`;
+}
+
+export const ofxExporter: TradeExporter = {
+  id: 'ofx',
+  label: 'OFX',
+  description: 'Investment statement for personal finance and tax software',
+  extension: 'ofx',
+  mimeType: 'application/x-ofx;charset=utf-8;',
+
+  export: (trades, context) => {
+    const sorted = sortByTimestamp(trades);
+    const now = formatOfxDate(context.exportedAt);
+    const times = [
+      ...sorted.map(trade => trade.timestamp),
+      ...context.deposits.map(deposit => deposit.timestamp),
+    ].sort();
+    const start = times.length > 0 ? formatOfxDate(times[0]) : now;
+
+    const deposits = context.deposits.map(deposit => {
+      const entry = CASH_ENTRY_TYPES[deposit.kind ?? 'deposit'];
+      return `<INVBANKTRAN><STMTTRN><TRNTYPE>${entry.type}</TRNTYPE><DTPOSTED>${formatOfxDate(deposit.timestamp)}</DTPOSTED>` +
+        `<TRNAMT>${roundAmount(deposit.amount)}</TRNAMT><FITID>${escapeXml(deposit.id)}</FITID><NAME>${entry.name}</NAME></STMTTRN>` +
+        '<SUBACCTFUND>CASH</SUBACCTFUND></INVBANKTRAN>';
+    });
+
+    // One security entry per symbol, typed by its first trade
+    const securities = new Map<string, boolean>();
+    sorted.forEach(trade => {
+      if (!securities.has(trade.symbol)) securities.set(trade.symbol, isStock(trade));
+    });
+
+    const status = '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      '<OFX>',
+      `<SIGNONMSGSRSV1><SONRS>${status}<DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+      '<INVSTMTMSGSRSV1><INVSTMTTRNRS><TRNUID>1</TRNUID>' + status,
+      `<INVSTMTRS><DTASOF>${now}</DTASOF><CURDEF>${CURRENCY}</CURDEF>`,
+      `<INVACCTFROM><BROKERID>${BROKER_ID}</BROKERID><ACCTID>${ACCOUNT_ID}</ACCTID></INVACCTFROM>`,
+      `<INVTRANLIST><DTSTART>${start}</DTSTART><DTEND>${now}</DTEND>`,
+      ...sorted.map(writeTransaction),
+      ...deposits,
+      '</INVTRANLIST>',
+      `<INVBAL><AVAILCASH>${roundAmount(closingCash(sorted, context))}</AVAILCASH><MARGINBALANCE>0</MARGINBALANCE><SHORTBALANCE>0</SHORTBALANCE></INVBAL>`,
+      '</INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>',
+      '<SECLISTMSGSRSV1><SECLIST>',
+      ...Array.from(securities.entries()).map(([symbol, stock]) => writeSecurity(symbol, stock)),
+      '</SECLIST></SECLISTMSGSRSV1>',
+      '</OFX>',
+    ].join('\n');
+  },
+};
+
+export default ofxExporter;
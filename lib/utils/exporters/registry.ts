@@ -0,0 +1,52 @@
+// Trade Exporter Registry
+// Mirrors the importer registry: each format is one module and one entry here.
+
+import { ExportContext, ExportFormatId, Trade, TradeExporter } from '@/types';
+import { csvExporter } from '@/lib/utils/exporters/csv';
+import { jsonExporter } from '@/lib/utils/exporters/json';
+import { ofxExporter } from '@/lib/utils/exporters/ofx';
+import { xlsxExporter } from '@/lib/utils/exporters/xlsx';
+
+export const EXPORTERS: TradeExporter[] = [
+  csvExporter,
+  xlsxExporter,
+  jsonExporter,
+  ofxExporter,
+];
+
+export function getExporter(id: ExportFormatId): TradeExporter | undefined {
+  return EXPORTERS.find(exporter => exporter.id === id);
+}
+
+export function exportTrades(trades: Trade[], format: ExportFormatId, context: ExportContext): Blob {
+  const exporter = getExporter(format);
+  if (!exporter) {
+    throw new Error(`Unknown export format "${format}"`);
+  }
+  const content = exporter.export(trades, context);
+  // Copy binary output so the blob gets a buffer of exactly the file's size
+  const part: BlobPart = typeof content === 'string' ? content : (content.slice().buffer as ArrayBuffer);
+  return new Blob([part], { type: exporter.mimeType });
+}
+
+// Build the file and hand it to the browser; fileBase gets the format's extension
+export function downloadTrades(
+  trades: Trade[],
+  format: ExportFormatId,
+  context: ExportContext,
+  fileBase: string = 'trading_history'
+): void {
+  const exporter = getExporter(format);
+  const blob = exportTrades(trades, format, context);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileBase}.${exporter?.extension || format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default { EXPORTERS, getExporter, exportTrades, downloadTrades };
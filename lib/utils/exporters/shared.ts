@@ -0,0 +1,79 @@
+// Shared helpers for trade exporters
+
+import { Trade, ExportContext } from '@/types';
+
+export interface BalancedTrade {
+  trade: Trade;
+  // Account value at cost after this fill: starting cash plus deposits so far,
+  // plus realized P&L, minus fees on fills that realized nothing
+  balance: number;
+  // Cash on hand after this fill
+  cash: number;
+}
+
+export function sortByTimestamp(trades: Trade[]): Trade[] {
+  return [...trades].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+// Cash is kept in dollars; fills quoted in another currency are converted at
+// the rate recorded when they executed
+function toAccountCurrency(trade: Trade, amount: number): number {
+  return amount * (trade.usd_rate ?? 1);
+}
+
+// Money a fill moves in its own currency: buys (and covers) spend, sells (and
+// short sales) receive. Futures aren't paid for; only fees and realized P&L settle.
+export function settlementAmount(trade: Trade): number {
+  if (trade.asset_type === 'futures') return trade.pnl !== undefined ? trade.pnl : -trade.fees;
+  return trade.action === 'BUY'
+    ? -(trade.total_value + trade.fees)
+    : trade.total_value - trade.fees;
+}
+
+// Cash effect of a fill, in dollars
+export function cashFlow(trade: Trade): number {
+  return toAccountCurrency(trade, settlementAmount(trade));
+}
+
+// Replays the trades against the account's real starting cash, crediting each
+// deposit before the first fill that follows it
+export function withRunningBalances(trades: Trade[], context: ExportContext): BalancedTrade[] {
+  const deposits = [...context.deposits].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  let balance = context.startingCash;
+  let cash = context.startingCash;
+  let nextDeposit = 0;
+
+  return sortByTimestamp(trades).map(trade => {
+    const time = new Date(trade.timestamp).getTime();
+    while (nextDeposit < deposits.length && new Date(deposits[nextDeposit].timestamp).getTime() <= time) {
+      balance += deposits[nextDeposit].amount;
+      cash += deposits[nextDeposit].amount;
+      nextDeposit++;
+    }
+
+    // Realized P&L already nets the closing fill's fees (see portfolioStore.executeSell)
+    balance += toAccountCurrency(trade, trade.pnl !== undefined ? trade.pnl : -trade.fees);
+    cash += cashFlow(trade);
+    return { trade, balance, cash };
+  });
+}
+
+// Cash after every fill and every deposit, including deposits made since the last trade
+export function closingCash(trades: Trade[], context: ExportContext): number {
+  const deposited = context.deposits.reduce((sum, deposit) => sum + deposit.amount, 0);
+  return trades.reduce((cash, trade) => cash + cashFlow(trade), context.startingCash + deposited);
+}
+
+// Side as the importers read it back; short-side fills keep their position effect
+export function formatSide(trade: Trade): string {
+  if (trade.position_effect === 'open_short') return 'SHORT';
+  if (trade.position_effect === 'cover_short') return 'COVER';
+  return trade.action;
+}
+
+export function roundAmount(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,67 @@
+// XLSX exporter: a Trades sheet (one execution per row, same columns as the
+// CSV export, so it re-imports) and a Round Trips sheet from the lot matcher
+
+import { TradeExporter } from '@/types';
+import { writeWorkbook, CellValue } from '@/lib/utils/xlsxWriter';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { formatSide, roundAmount, withRunningBalances } from '@/lib/utils/exporters/shared';
+import { getTradeCurrency } from '@/lib/services/currencyConverter';
+
+const TRADE_HEADERS = ['timestamp', 'asset', 'side', 'quantity', 'price', 'exit_price', 'fees', 'profit_loss', 'currency', 'balance'];
+const ROUND_TRIP_HEADERS = [
+  'symbol',
+  'direction',
+  'quantity',
+  'entry_time',
+  'entry_price',
+  'exit_time',
+  'exit_price',
+  'holding_minutes',
+  'gross_pnl',
+  'fees',
+  'net_pnl',
+];
+
+export const xlsxExporter: TradeExporter = {
+  id: 'xlsx',
+  label: 'Excel (XLSX)',
+  description: 'Workbook with a trades sheet and a matched round-trips sheet',
+  extension: 'xlsx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+
+  export: (trades, context) => {
+    const tradeRows: CellValue[][] = withRunningBalances(trades, context).map(({ trade, balance }) => [
+      trade.timestamp,
+      trade.symbol,
+      formatSide(trade),
+      trade.quantity,
+      trade.price,
+      trade.exit_price ?? null,
+      roundAmount(trade.fees, 4),
+      trade.pnl !== undefined ? roundAmount(trade.pnl) : null,
+      getTradeCurrency(trade),
+      roundAmount(balance),
+    ]);
+
+    const roundTripRows: CellValue[][] = buildRoundTrips(trades).map(trip => [
+      trip.symbol,
+      trip.direction,
+      trip.quantity,
+      trip.entry.timestamp,
+      trip.entry.price,
+      trip.exit.timestamp,
+      trip.exit.price,
+      trip.holding_minutes !== null ? roundAmount(trip.holding_minutes, 1) : null,
+      roundAmount(trip.gross_pnl),
+      roundAmount(trip.fees),
+      roundAmount(trip.pnl),
+    ]);
+
+    return writeWorkbook([
+      { name: 'Trades', rows: [TRADE_HEADERS, ...tradeRows] },
+      { name: 'Round Trips', rows: [ROUND_TRIP_HEADERS, ...roundTripRows] },
+    ]);
+  },
+};
+
+export default xlsxExporter;
@@ -1,7 +1,7 @@
 // Formatting Utilities for BiasCoach
 
 /**
- * Format a number as currency
+ * Format a number as currency, e.g. "$1,250.00" or "CA$80.00"
  */
 export const formatCurrency = (
   value: number,
@@ -9,18 +9,24 @@ export const formatCurrency = (
     currency?: string;
     showSign?: boolean;
     compact?: boolean;
+    decimals?: number;
   } = {}
 ): string => {
-  const { currency = 'USD', showSign = false, compact = false } = options;
-
-  const formatter = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    notation: compact ? 'compact' : 'standard',
-    maximumFractionDigits: compact ? 1 : 2,
-  });
-
-  const formatted = formatter.format(Math.abs(value));
+  const { currency = 'USD', showSign = false, compact = false, decimals } = options;
+
+  let formatted: string;
+  try {
+    formatted = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      notation: compact ? 'compact' : 'standard',
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals ?? (compact ? 1 : 2),
+    }).format(Math.abs(value));
+  } catch {
+    // Not an ISO currency code Intl knows
+    formatted = `${Math.abs(value).toFixed(decimals ?? 2)} ${currency}`;
+  }
 
   if (showSign && value !== 0) {
     return value > 0 ? `+${formatted}` : `-${formatted}`;
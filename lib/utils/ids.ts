@@ -0,0 +1,22 @@
+// Unique IDs
+// Timestamp ids collide when two clicks or fills land in the same
+// millisecond, so every id also carries a counter and a random suffix.
+
+let sequence = 0;
+
+function randomSuffix(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID().slice(0, 8);
+  }
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// e.g. "trade-1718035200000-1a-3f9c2b7e"; sorts roughly by creation time
+export function createId(prefix: string, now: Date = new Date()): string {
+  sequence += 1;
+  return `${prefix}-${now.getTime()}-${sequence.toString(36)}-${randomSuffix()}`;
+}
+
+export default {
+  createId,
+};
@@ -0,0 +1,74 @@
+// BiasCoach JSON importer: reads back the lossless JSON export. Trades keep
+// every field they were exported with (ids, fees, position effects, notes,
+// source zones); only the shape of each trade is validated.
+
+import { AssetType, Trade, TradeExportDocument, TradeImporter } from '@/types';
+import { TRADE_EXPORT_FORMAT, TRADE_EXPORT_VERSION } from '@/lib/utils/exporters/json';
+import { emptyOutput, finalizeOutput } from '@/lib/utils/importers/shared';
+import { contractValue } from '@/lib/services/contracts';
+
+const ASSET_TYPES: AssetType[] = ['stocks', 'forex', 'commodities', 'etfs', 'options', 'futures', 'cash'];
+
+function validateTrade(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'not an object';
+  const trade = value as Partial<Trade>;
+  if (typeof trade.id !== 'string' || !trade.id) return 'missing id';
+  if (typeof trade.symbol !== 'string' || !trade.symbol) return 'missing symbol';
+  if (trade.action !== 'BUY' && trade.action !== 'SELL') return `invalid action "${trade.action}"`;
+  if (typeof trade.quantity !== 'number' || !(trade.quantity > 0)) return 'invalid quantity';
+  if (typeof trade.price !== 'number' || !(trade.price > 0)) return 'invalid price';
+  if (typeof trade.timestamp !== 'string' || isNaN(new Date(trade.timestamp).getTime())) return 'invalid timestamp';
+  if (!trade.asset_type || !ASSET_TYPES.includes(trade.asset_type)) return `invalid asset_type "${trade.asset_type}"`;
+  return null;
+}
+
+export const biascoachJsonImporter: TradeImporter = {
+  id: 'biascoach_json',
+  label: 'BiasCoach JSON',
+  description: 'Backup exported from this app (JSON)',
+
+  detect: ({ content }) => {
+    const head = content.slice(0, 200).trimStart();
+    return head.startsWith('{') && head.includes(`"${TRADE_EXPORT_FORMAT}"`) ? 1 : 0;
+  },
+
+  parse: (content) => {
+    let document: Partial<TradeExportDocument>;
+    try {
+      document = JSON.parse(content);
+    } catch (err) {
+      return emptyOutput(`Invalid JSON: ${err instanceof Error ? err.message : 'could not parse file'}`);
+    }
+
+    if (document.format !== TRADE_EXPORT_FORMAT || !Array.isArray(document.trades)) {
+      return emptyOutput('Not a BiasCoach trade export (missing format marker or trades list)');
+    }
+
+    const warnings: string[] = [];
+    if (typeof document.version === 'number' && document.version > TRADE_EXPORT_VERSION) {
+      warnings.push(`File was written by a newer version (format v${document.version}); unknown fields are kept as-is.`);
+    }
+
+    const trades: Trade[] = [];
+    const errors: string[] = [];
+    document.trades.forEach((value, index) => {
+      const problem = validateTrade(value);
+      if (problem) {
+        errors.push(`Trade ${index + 1}: ${problem}`);
+        return;
+      }
+      const trade = value as Trade;
+      trades.push({
+        ...trade,
+        total_value: typeof trade.total_value === 'number'
+          ? trade.total_value
+          : contractValue(trade.quantity, trade.price, trade.contract),
+        fees: typeof trade.fees === 'number' ? trade.fees : 0,
+      });
+    });
+
+    return finalizeOutput(trades, errors, warnings, document.trades.length);
+  },
+};
+
+export default biascoachJsonImporter;
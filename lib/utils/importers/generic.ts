@@ -0,0 +1,24 @@
+// Generic importer: the National Bank challenge layout plus common header aliases
+
+import { TradeImporter } from '@/types';
+import { parseCSV, normalizeHeaders } from '@/lib/utils/tradeParser';
+
+const REQUIRED_COLUMNS = ['timestamp', 'asset', 'side', 'quantity', 'entry_price'];
+
+export const genericImporter: TradeImporter = {
+  id: 'generic',
+  label: 'Standard CSV',
+  description: 'timestamp, asset, side, quantity, entry_price, exit_price, profit_loss, fees, balance',
+
+  detect: ({ headers }) => {
+    const normalized = normalizeHeaders(headers);
+    return REQUIRED_COLUMNS.every(col => normalized.includes(col)) ? 0.5 : 0;
+  },
+
+  parse: (content, options) => {
+    const result = parseCSV(content, options);
+    return { ...result, warnings: [] };
+  },
+};
+
+export default genericImporter;
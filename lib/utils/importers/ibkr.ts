@@ -0,0 +1,277 @@
+// Interactive Brokers Flex Query importer (CSV and XML "Trades" sections)
+
+import { AssetType, ContractSpec, NumberFormat, PositionEffect, Trade, TradeImporter } from '@/types';
+import { getAssetType, parseTimestamp } from '@/lib/utils/tradeParser';
+import { createId } from '@/lib/utils/ids';
+import { optionContract, parseContractSymbol } from '@/lib/services/contracts';
+import { getFuturesProduct } from '@/constants/futuresProducts';
+import {
+  createImportedTrade,
+  emptyOutput,
+  finalizeOutput,
+  hasHeaders,
+  normalizeKey,
+  parseNumber,
+  readDelimitedTable,
+} from '@/lib/utils/importers/shared';
+
+// Field aliases, normalized (CSV headers and XML attributes differ slightly)
+const FIELDS = {
+  symbol: ['symbol'],
+  assetClass: ['assetclass', 'assetcategory'],
+  dateTime: ['datetime'],
+  tradeDate: ['tradedate'],
+  tradeTime: ['tradetime'],
+  quantity: ['quantity'],
+  price: ['tradeprice', 'price'],
+  commission: ['ibcommission', 'commission'],
+  currency: ['currencyprimary', 'currency'],
+  side: ['buysell'],
+  realizedPnl: ['fifopnlrealized', 'realizedpnl'],
+  openClose: ['openclose', 'opencloseindicator'],
+  levelOfDetail: ['levelofdetail'],
+  underlying: ['underlyingsymbol'],
+  multiplier: ['multiplier'],
+  strike: ['strike'],
+  expiry: ['expiry'],
+  putCall: ['putcall'],
+};
+
+type IbkrRecord = Record<string, string>;
+
+function field(record: IbkrRecord, aliases: string[]): string {
+  for (const alias of aliases) {
+    if (record[alias] !== undefined && record[alias] !== '') return record[alias].trim();
+  }
+  return '';
+}
+
+// IBKR writes dates as 20250301 or 2025-03-01 and times as 093015 or 09:30:15,
+// joined with ";" in the DateTime field
+function parseIbkrDateTime(record: IbkrRecord, timeZone?: string): Date | null {
+  const combined = field(record, FIELDS.dateTime);
+  const [rawDate, rawTime] = combined
+    ? combined.split(/[;,\s]/)
+    : [field(record, FIELDS.tradeDate), field(record, FIELDS.tradeTime)];
+  if (!rawDate) return null;
+
+  const digits = rawDate.replace(/\D/g, '');
+  if (digits.length !== 8) return parseTimestamp(rawDate, timeZone);
+  const date = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+
+  const timeDigits = (rawTime || '').replace(/\D/g, '');
+  if (timeDigits.length < 4) return parseTimestamp(date, timeZone);
+  const time = `${timeDigits.slice(0, 2)}:${timeDigits.slice(2, 4)}:${timeDigits.slice(4, 6) || '00'}`;
+  return parseTimestamp(`${date} ${time}`, timeZone);
+}
+
+function mapAssetClass(assetClass: string, symbol: string): AssetType | null {
+  switch (assetClass.toUpperCase()) {
+    case 'STK':
+      return getAssetType(symbol);
+    case 'CASH':
+      return 'forex';
+    case 'CMDTY':
+      return 'commodities';
+    case 'OPT':
+    case 'FOP':
+      return 'options';
+    case 'FUT':
+      return 'futures';
+    case '':
+      return getAssetType(symbol);
+    default:
+      return null;
+  }
+}
+
+// 20240119 or 2024-01-19
+function parseIbkrDate(raw: string): string | null {
+  const digits = raw.replace(/\D/g, '');
+  if (digits.length !== 8) return null;
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+// Flex rows state the contract terms; the symbol fills in whatever is missing
+function readContract(
+  record: IbkrRecord,
+  assetType: AssetType,
+  symbol: string,
+  tradedAt: Date,
+  numberFormat?: NumberFormat
+): ContractSpec | undefined {
+  if (assetType !== 'options' && assetType !== 'futures') return undefined;
+  const fromSymbol = parseContractSymbol(symbol, tradedAt)?.contract;
+  const underlying = field(record, FIELDS.underlying).toUpperCase() || fromSymbol?.underlying || symbol;
+  const expiry = parseIbkrDate(field(record, FIELDS.expiry)) || fromSymbol?.expiry;
+  const statedMultiplier = parseNumber(field(record, FIELDS.multiplier), numberFormat);
+  if (!expiry) return fromSymbol;
+
+  if (assetType === 'options') {
+    const strike = parseNumber(field(record, FIELDS.strike), numberFormat);
+    const right = field(record, FIELDS.putCall).toUpperCase();
+    if (!(strike > 0) || (right !== 'C' && right !== 'P')) return fromSymbol;
+    return optionContract(underlying, expiry, strike, right === 'C' ? 'call' : 'put',
+      statedMultiplier > 0 ? statedMultiplier : undefined);
+  }
+
+  const product = getFuturesProduct(underlying);
+  const multiplier = statedMultiplier > 0 ? statedMultiplier : product?.multiplier ?? fromSymbol?.multiplier;
+  if (!multiplier) return fromSymbol;
+  const tickSize = product?.tickSize ?? fromSymbol?.tick_size ?? 0.01;
+  return { underlying, expiry, multiplier, tick_size: tickSize, tick_value: tickSize * multiplier };
+}
+
+function readXmlRecords(content: string): IbkrRecord[] {
+  const records: IbkrRecord[] = [];
+  const tradePattern = /<Trade\s([^>]*?)\/?>/g;
+  const attributePattern = /([A-Za-z_][\w.-]*)="([^"]*)"/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tradePattern.exec(content)) !== null) {
+    const record: IbkrRecord = {};
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(match[1])) !== null) {
+      record[normalizeKey(attribute[1])] = attribute[2]
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"');
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+function readCsvRecords(content: string): IbkrRecord[] {
+  const { headers, rows } = readDelimitedTable(content);
+  const keys = headers.map(normalizeKey);
+  const headerSignature = keys.join('|');
+
+  return rows
+    // Multi-account Flex exports repeat the header row
+    .filter(row => row.map(normalizeKey).join('|') !== headerSignature)
+    .map(row => {
+      const record: IbkrRecord = {};
+      keys.forEach((key, idx) => {
+        record[key] = row[idx] ?? '';
+      });
+      return record;
+    });
+}
+
+function isXml(content: string): boolean {
+  return content.trimStart().startsWith('<');
+}
+
+export const ibkrFlexImporter: TradeImporter = {
+  id: 'ibkr_flex',
+  label: 'Interactive Brokers Flex Query',
+  description: 'Flex Query "Trades" section exported as CSV or XML',
+
+  detect: ({ content, headers }) => {
+    if (isXml(content)) {
+      return /<FlexQueryResponse|<FlexStatement/.test(content) && /<Trade\s/.test(content) ? 0.95 : 0;
+    }
+    if (hasHeaders(headers, ['ibcommission']) || hasHeaders(headers, ['clientaccountid', 'tradeprice'])) {
+      return 0.9;
+    }
+    return hasHeaders(headers, ['tradeprice', 'buysell']) ? 0.8 : 0;
+  },
+
+  parse: (content, options = {}) => {
+    const records = isXml(content) ? readXmlRecords(content) : readCsvRecords(content);
+    if (records.length === 0) {
+      return emptyOutput('No Trade rows found in Flex Query export');
+    }
+
+    const trades: Trade[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const skippedAssetClasses = new Map<string, number>();
+    let skippedSummaryRows = 0;
+    const importedAt = new Date();
+
+    records.forEach((record, index) => {
+      const rowLabel = `Row ${index + 1}`;
+
+      // Only individual executions; ORDER and CLOSED_LOT rows would double count
+      const detail = field(record, FIELDS.levelOfDetail).toUpperCase();
+      if (detail && detail !== 'EXECUTION') {
+        skippedSummaryRows++;
+        return;
+      }
+
+      const rawSymbol = field(record, FIELDS.symbol).toUpperCase();
+      if (!rawSymbol) {
+        errors.push(`${rowLabel}: Missing symbol`);
+        return;
+      }
+
+      const assetClass = field(record, FIELDS.assetClass);
+      // Forex pairs come through as EUR.USD
+      const symbol = assetClass.toUpperCase() === 'CASH' ? rawSymbol.replace('.', '/') : rawSymbol;
+      const assetType = mapAssetClass(assetClass, symbol);
+      if (!assetType) {
+        const key = assetClass.toUpperCase();
+        skippedAssetClasses.set(key, (skippedAssetClasses.get(key) || 0) + 1);
+        return;
+      }
+
+      const date = parseIbkrDateTime(record, options.timeZone);
+      if (!date) {
+        errors.push(`${rowLabel}: Invalid trade date/time`);
+        return;
+      }
+
+      const signedQuantity = parseNumber(field(record, FIELDS.quantity), options.numberFormat);
+      const price = parseNumber(field(record, FIELDS.price), options.numberFormat);
+      if (isNaN(signedQuantity) || signedQuantity === 0) {
+        errors.push(`${rowLabel}: Invalid quantity "${field(record, FIELDS.quantity)}"`);
+        return;
+      }
+      if (isNaN(price) || price <= 0) {
+        errors.push(`${rowLabel}: Invalid trade price "${field(record, FIELDS.price)}"`);
+        return;
+      }
+
+      const side = field(record, FIELDS.side).toUpperCase();
+      const action: 'BUY' | 'SELL' = side.startsWith('BUY') || (!side && signedQuantity > 0) ? 'BUY' : 'SELL';
+      const commission = parseNumber(field(record, FIELDS.commission), options.numberFormat);
+      const openClose = field(record, FIELDS.openClose).toUpperCase();
+      const isClosing = openClose.includes('C');
+      // "O" opens, "C" closes; "C;O" flips through zero and is left to the lot matcher
+      const isOpening = openClose.includes('O');
+      let positionEffect: PositionEffect | undefined;
+      if (isOpening !== isClosing) {
+        if (action === 'BUY') positionEffect = isOpening ? 'open_long' : 'cover_short';
+        else positionEffect = isOpening ? 'open_short' : 'close_long';
+      }
+      const realizedPnl = parseNumber(field(record, FIELDS.realizedPnl), options.numberFormat);
+
+      trades.push(createImportedTrade({
+        id: createId('import', importedAt),
+        symbol,
+        action,
+        positionEffect,
+        quantity: Math.abs(signedQuantity),
+        price,
+        fees: isNaN(commission) ? 0 : Math.abs(commission),
+        timestamp: date.toISOString(),
+        assetType,
+        pnl: isClosing && !isNaN(realizedPnl) ? realizedPnl : undefined,
+        currency: field(record, FIELDS.currency).toUpperCase() || undefined,
+        contract: readContract(record, assetType, symbol, date, options.numberFormat),
+      }));
+    });
+
+    if (skippedSummaryRows > 0) {
+      warnings.push(`Skipped ${skippedSummaryRows} order/closed-lot summary rows; only executions are imported.`);
+    }
+    skippedAssetClasses.forEach((count, assetClass) => {
+      warnings.push(`Skipped ${count} ${assetClass || 'unknown'} rows: asset class not supported yet.`);
+    });
+
+    return finalizeOutput(trades, errors, warnings, records.length);
+  },
+};
+
+export default ibkrFlexImporter;
@@ -0,0 +1,233 @@
+// MetaTrader 4/5 account history importer (HTML statement or CSV "Positions" export)
+// Each closed position is one row with both open and close legs, so trades are
+// imported as self-contained round trips (exit_price + closed_at).
+
+import { NumberFormat, Trade, TradeImporter } from '@/types';
+import { getAssetType, parseTimestamp } from '@/lib/utils/tradeParser';
+import { createId } from '@/lib/utils/ids';
+import {
+  createImportedTrade,
+  emptyOutput,
+  finalizeOutput,
+  normalizeKey,
+  parseNumber,
+  readDelimitedTable,
+} from '@/lib/utils/importers/shared';
+
+// Standard forex contract size (units per lot)
+const FOREX_LOT_SIZE = 100000;
+
+interface PositionColumns {
+  openTime: number;
+  closeTime: number;
+  symbol: number;
+  type: number;
+  size: number;
+  openPrice: number;
+  closePrice: number;
+  commission: number;
+  taxes: number;
+  swap: number;
+  profit: number;
+}
+
+function decodeHtml(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readHtmlRows(content: string): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+  const cellPattern = /<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi;
+
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowPattern.exec(content)) !== null) {
+    const cells: string[] = [];
+    let cellMatch: RegExpExecArray | null;
+    while ((cellMatch = cellPattern.exec(rowMatch[1])) !== null) {
+      // colspan cells still count as one column in MT statements' position tables
+      cells.push(decodeHtml(cellMatch[1]));
+    }
+    if (cells.length > 0) rows.push(cells);
+  }
+  return rows;
+}
+
+// MT5 repeats "Time" and "Price" for the open and close legs; MT4 uses "Open Time"/"Close Time"
+function resolveColumns(headerRow: string[]): PositionColumns | null {
+  const keys = headerRow.map(normalizeKey);
+  const all = (key: string) => keys.reduce<number[]>((found, k, idx) => (k === key ? [...found, idx] : found), []);
+  const first = (...aliases: string[]) => {
+    for (const alias of aliases) {
+      const idx = keys.indexOf(alias);
+      if (idx !== -1) return idx;
+    }
+    return -1;
+  };
+
+  const times = all('time');
+  const prices = all('price');
+  const openTime = first('opentime') !== -1 ? first('opentime') : times[0] ?? -1;
+  const closeTime = first('closetime') !== -1 ? first('closetime') : times[1] ?? -1;
+  const openPrice = first('openprice') !== -1 ? first('openprice') : prices[0] ?? -1;
+  const closePrice = first('closeprice') !== -1 ? first('closeprice') : prices[1] ?? -1;
+
+  const columns: PositionColumns = {
+    openTime,
+    closeTime,
+    symbol: first('symbol', 'item'),
+    type: first('type'),
+    size: first('volume', 'size', 'lots'),
+    openPrice,
+    closePrice,
+    commission: first('commission'),
+    taxes: first('taxes'),
+    swap: first('swap'),
+    profit: first('profit'),
+  };
+
+  const required = [columns.openTime, columns.closeTime, columns.symbol, columns.type, columns.size, columns.openPrice, columns.closePrice, columns.profit];
+  return required.every(idx => idx !== -1) ? columns : null;
+}
+
+function parseMtTime(raw: string, timeZone?: string): Date | null {
+  // "2025.03.01 09:30:00" -> "2025-03-01 09:30:00"
+  return parseTimestamp(raw.replace(/^(\d{4})\.(\d{2})\.(\d{2})/, '$1-$2-$3'), timeZone);
+}
+
+function cellNumber(row: string[], idx: number, format?: NumberFormat): number {
+  if (idx === -1) return 0;
+  const value = parseNumber(row[idx], format);
+  return isNaN(value) ? 0 : value;
+}
+
+function isHtml(content: string): boolean {
+  return /<html|<table/i.test(content.slice(0, 4000));
+}
+
+export const metatraderImporter: TradeImporter = {
+  id: 'metatrader',
+  label: 'MetaTrader 4/5 History',
+  description: 'Account history report saved as HTML, or the Positions table exported as CSV',
+
+  detect: ({ content, headers }) => {
+    if (isHtml(content)) {
+      const head = content.slice(0, 20000);
+      return /MetaTrader|Trade History Report|Statement:/i.test(head) || (/Close Time/i.test(head) && /Ticket|Position/i.test(head))
+        ? 0.9
+        : 0;
+    }
+    return resolveColumns(headers) ? 0.85 : 0;
+  },
+
+  parse: (content, options = {}) => {
+    let numberFormat = options.numberFormat;
+    let rows: string[][];
+    if (isHtml(content)) {
+      rows = readHtmlRows(content);
+    } else {
+      const table = readDelimitedTable(content, numberFormat);
+      numberFormat = table.numberFormat;
+      rows = table.headers.length > 0 ? [table.headers, ...table.rows] : [];
+    }
+    if (rows.length === 0) {
+      return emptyOutput('No rows found in MetaTrader report');
+    }
+
+    const trades: Trade[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let columns: PositionColumns | null = null;
+    let foundPositionsTable = false;
+    let positionRows = 0;
+    let nonTradeRows = 0;
+    let convertedLots = false;
+    const importedAt = new Date();
+
+    rows.forEach((row, i) => {
+      const rowLabel = `Row ${i + 1}`;
+      const keys = row.map(normalizeKey);
+
+      // Reports contain several tables (Positions, Orders, Deals); each starts with a header row
+      if (keys.includes('type') && (keys.includes('symbol') || keys.includes('item'))) {
+        columns = resolveColumns(row);
+        if (columns) foundPositionsTable = true;
+        return;
+      }
+      if (!columns) return;
+
+      const type = (row[columns.type] || '').toLowerCase();
+      if (type !== 'buy' && type !== 'sell') {
+        // balance, credit, deposit and pending order rows
+        if (type) nonTradeRows++;
+        return;
+      }
+      positionRows++;
+
+      const symbol = (row[columns.symbol] || '').toUpperCase().replace(/\.\w+$/, '');
+      if (!symbol) {
+        errors.push(`${rowLabel}: Missing symbol`);
+        return;
+      }
+
+      const openedAt = parseMtTime(row[columns.openTime] || '', options.timeZone);
+      const closedAt = parseMtTime(row[columns.closeTime] || '', options.timeZone);
+      if (!openedAt || !closedAt) {
+        errors.push(`${rowLabel}: Invalid open/close time`);
+        return;
+      }
+
+      const lots = cellNumber(row, columns.size, numberFormat);
+      const openPrice = cellNumber(row, columns.openPrice, numberFormat);
+      const closePrice = cellNumber(row, columns.closePrice, numberFormat);
+      if (lots <= 0 || openPrice <= 0 || closePrice <= 0) {
+        errors.push(`${rowLabel}: Invalid volume or prices`);
+        return;
+      }
+
+      const assetType = getAssetType(symbol);
+      const quantity = assetType === 'forex' ? lots * FOREX_LOT_SIZE : lots;
+      if (assetType === 'forex') convertedLots = true;
+
+      const commission = cellNumber(row, columns.commission, numberFormat);
+      const taxes = cellNumber(row, columns.taxes, numberFormat);
+      const swap = cellNumber(row, columns.swap, numberFormat);
+      const profit = cellNumber(row, columns.profit, numberFormat);
+
+      trades.push(createImportedTrade({
+        id: createId('import', importedAt),
+        symbol,
+        action: type === 'buy' ? 'BUY' : 'SELL',
+        quantity,
+        price: openPrice,
+        fees: Math.abs(commission) + Math.abs(taxes),
+        timestamp: openedAt.toISOString(),
+        assetType,
+        pnl: profit + commission + taxes + swap,
+        exitPrice: closePrice,
+        closedAt: closedAt.toISOString(),
+      }));
+    });
+
+    if (!foundPositionsTable) {
+      return emptyOutput('Could not find a Positions table in the MetaTrader report', rows.length);
+    }
+    if (nonTradeRows > 0) {
+      warnings.push(`Skipped ${nonTradeRows} balance, deposit and pending-order rows.`);
+    }
+    if (convertedLots) {
+      warnings.push(`Forex volumes were converted from lots to units (1 lot = ${FOREX_LOT_SIZE.toLocaleString()} units).`);
+    }
+
+    return finalizeOutput(trades, errors, warnings, positionRows);
+  },
+};
+
+export default metatraderImporter;
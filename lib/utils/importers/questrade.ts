@@ -0,0 +1,101 @@
+// Questrade account activity export importer
+
+import { Trade, TradeImporter } from '@/types';
+import { parseTimestamp } from '@/lib/utils/tradeParser';
+import { createId } from '@/lib/utils/ids';
+import {
+  createImportedTrade,
+  emptyOutput,
+  finalizeOutput,
+  hasHeaders,
+  indexHeaders,
+  parseNumber,
+  pickCell,
+  readDelimitedTable,
+} from '@/lib/utils/importers/shared';
+
+export const questradeImporter: TradeImporter = {
+  id: 'questrade',
+  label: 'Questrade Activity',
+  description: 'Account activity export (Transaction Date, Action, Symbol, Quantity, Price, Commission...)',
+
+  detect: ({ headers }) => {
+    if (hasHeaders(headers, ['transactiondate', 'activitytype', 'netamount'])) return 0.9;
+    return hasHeaders(headers, ['settlementdate', 'action', 'grossamount', 'commission']) ? 0.75 : 0;
+  },
+
+  parse: (content, options = {}) => {
+    const { headers, rows, lineNumbers, numberFormat, errors: tableErrors } = readDelimitedTable(content, options.numberFormat);
+    if (rows.length === 0) {
+      return emptyOutput('File is empty or has no data rows');
+    }
+
+    const index = indexHeaders(headers);
+    const trades: Trade[] = [];
+    const errors: string[] = [...tableErrors];
+    const warnings: string[] = [];
+    let nonTradeRows = 0;
+    const importedAt = new Date();
+
+    rows.forEach((row, i) => {
+      const rowLabel = `Row ${lineNumbers[i]}`;
+      const activityType = pickCell(row, index, ['activitytype']).toLowerCase();
+      const actionRaw = pickCell(row, index, ['action']).toUpperCase();
+
+      // Dividends, deposits, fees, FX conversions, etc.
+      if ((activityType && activityType !== 'trades') || (actionRaw !== 'BUY' && actionRaw !== 'SELL')) {
+        nonTradeRows++;
+        return;
+      }
+
+      const symbol = pickCell(row, index, ['symbol']).toUpperCase();
+      if (!symbol) {
+        errors.push(`${rowLabel}: Missing symbol`);
+        return;
+      }
+
+      // Questrade exports "2025-03-03 12:00:00 AM"; only the date is meaningful
+      const rawDate = pickCell(row, index, ['transactiondate', 'tradedate', 'settlementdate']);
+      const date = parseTimestamp(rawDate.split(' ')[0], options.timeZone);
+      if (!date) {
+        errors.push(`${rowLabel}: Invalid transaction date "${rawDate}"`);
+        return;
+      }
+
+      const quantity = Math.abs(parseNumber(pickCell(row, index, ['quantity']), numberFormat));
+      const price = parseNumber(pickCell(row, index, ['price']), numberFormat);
+      if (isNaN(quantity) || quantity === 0) {
+        errors.push(`${rowLabel}: Invalid quantity`);
+        return;
+      }
+      if (isNaN(price) || price <= 0) {
+        errors.push(`${rowLabel}: Invalid price`);
+        return;
+      }
+
+      const commission = parseNumber(pickCell(row, index, ['commission']), numberFormat);
+
+      trades.push(createImportedTrade({
+        id: createId('import', importedAt),
+        symbol,
+        action: actionRaw as 'BUY' | 'SELL',
+        quantity,
+        price,
+        fees: isNaN(commission) ? 0 : Math.abs(commission),
+        timestamp: date.toISOString(),
+        currency: pickCell(row, index, ['currency']).toUpperCase() || undefined,
+      }));
+    });
+
+    if (nonTradeRows > 0) {
+      warnings.push(`Skipped ${nonTradeRows} non-trade rows (dividends, deposits, fees, conversions).`);
+    }
+    if (trades.length > 0) {
+      warnings.push('Questrade exports record trade dates only; times default to midday, so intraday patterns are approximate.');
+    }
+
+    return finalizeOutput(trades, errors, warnings, rows.length);
+  },
+};
+
+export default questradeImporter;
@@ -0,0 +1,155 @@
+// Broker Statement Importer Registry
+// Each importer scores how confident it is that a file is in its format; the
+// best score wins. Adding a broker means adding one module and one entry here.
+
+import { ImportFormatId, ImportParseOptions, ImportResult, Trade, TradeImporter } from '@/types';
+import { readHeaderLine } from '@/lib/utils/importers/shared';
+import { ibkrFlexImporter } from '@/lib/utils/importers/ibkr';
+import { questradeImporter } from '@/lib/utils/importers/questrade';
+import { wealthsimpleImporter } from '@/lib/utils/importers/wealthsimple';
+import { metatraderImporter } from '@/lib/utils/importers/metatrader';
+import { genericImporter } from '@/lib/utils/importers/generic';
+import { biascoachJsonImporter } from '@/lib/utils/importers/biascoachJson';
+import { getLocalTimeZone, getZoneOffsetMinutes, formatUtcOffset } from '@/lib/utils/timezone';
+import { parseCSVStream } from '@/lib/utils/tradeParser';
+import { collectText } from '@/lib/utils/chunkedReader';
+
+// Broker-specific importers first; the generic layout is the fallback
+export const IMPORTERS: TradeImporter[] = [
+  ibkrFlexImporter,
+  questradeImporter,
+  wealthsimpleImporter,
+  metatraderImporter,
+  biascoachJsonImporter,
+  genericImporter,
+];
+
+export function getImporter(id: ImportFormatId): TradeImporter | undefined {
+  return IMPORTERS.find(importer => importer.id === id);
+}
+
+// Returns the most likely importer for the file, or null if nothing recognises it
+export function detectImportFormat(content: string, fileName?: string): TradeImporter | null {
+  const sample = { content, headers: readHeaderLine(content), fileName };
+
+  let best: TradeImporter | null = null;
+  let bestScore = 0;
+  for (const importer of IMPORTERS) {
+    const score = importer.detect(sample);
+    if (score > bestScore) {
+      best = importer;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+const UNRECOGNIZED_FORMAT_ERROR = 'Unrecognized file format. Expected a standard CSV, a BiasCoach JSON backup or an IBKR, Questrade, Wealthsimple or MetaTrader export.';
+
+// Bytes of a streamed file used to detect its format
+const DETECTION_SAMPLE_LENGTH = 64 * 1024;
+
+type ParseTradeFileOptions = ImportParseOptions & { format?: ImportFormatId; fileName?: string };
+
+function unrecognizedResult(format?: ImportFormatId): ImportResult {
+  return {
+    format: format || 'generic',
+    trades: [],
+    errors: [UNRECOGNIZED_FORMAT_ERROR],
+    warnings: [],
+    totalRows: 0,
+    successfulRows: 0,
+  };
+}
+
+// Keep the zone and original offset alongside the UTC timestamp
+function withSourceZone(trades: Trade[], timeZone: string): Trade[] {
+  // Offsets only change on DST transitions; look each hour up once
+  const offsets = new Map<number, string>();
+  return trades.map(trade => {
+    const date = new Date(trade.timestamp);
+    const hour = Math.floor(date.getTime() / 3600000);
+    let offset = offsets.get(hour);
+    if (offset === undefined) {
+      offset = formatUtcOffset(getZoneOffsetMinutes(date, timeZone));
+      offsets.set(hour, offset);
+    }
+    return { ...trade, source_timezone: timeZone, utc_offset: offset };
+  });
+}
+
+export function parseTradeFile(content: string, options: ParseTradeFileOptions = {}): ImportResult {
+  const importer = options.format
+    ? getImporter(options.format)
+    : detectImportFormat(content, options.fileName);
+
+  if (!importer) return unrecognizedResult(options.format);
+
+  const timeZone = options.timeZone || getLocalTimeZone();
+  const output = importer.parse(content, {
+    numberFormat: options.numberFormat,
+    mapping: options.mapping,
+    timeZone,
+    feeSchedules: options.feeSchedules,
+  });
+
+  // Backups hold UTC instants and keep whatever zone they were first read in
+  const trades = importer.id === 'biascoach_json' ? output.trades : withSourceZone(output.trades, timeZone);
+  return { format: importer.id, ...output, trades };
+}
+
+// Chunked variant of parseTradeFile. Standard CSVs are parsed row by row as
+// chunks arrive; broker statements need the whole document and are collected
+// first (they are orders of magnitude smaller in practice).
+export async function parseTradeFileStream(
+  chunks: AsyncIterable<string>,
+  options: ParseTradeFileOptions = {},
+  onRows?: (rowsParsed: number) => void
+): Promise<ImportResult> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const head: string[] = [];
+  let headLength = 0;
+  let exhausted = false;
+  while (headLength < DETECTION_SAMPLE_LENGTH) {
+    const next = await iterator.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+    head.push(next.value);
+    headLength += next.value.length;
+  }
+
+  const sample = head.join('');
+  const importer = options.format
+    ? getImporter(options.format)
+    : detectImportFormat(sample, options.fileName);
+  if (!importer) return unrecognizedResult(options.format);
+
+  // The sampled chunks followed by the rest of the stream
+  const remaining: AsyncIterable<string> = {
+    [Symbol.asyncIterator]: async function* () {
+      yield sample;
+      if (exhausted) return;
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    },
+  };
+
+  if (importer.id !== 'generic') {
+    return parseTradeFile(await collectText(remaining), { ...options, format: importer.id });
+  }
+
+  const timeZone = options.timeZone || getLocalTimeZone();
+  const result = await parseCSVStream(remaining, {
+    numberFormat: options.numberFormat,
+    mapping: options.mapping,
+    timeZone,
+    feeSchedules: options.feeSchedules,
+  }, onRows);
+
+  return { format: importer.id, ...result, warnings: [], trades: withSourceZone(result.trades, timeZone) };
+}
+
+export default { IMPORTERS, getImporter, detectImportFormat, parseTradeFile, parseTradeFileStream };
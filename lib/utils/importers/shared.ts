@@ -0,0 +1,136 @@
+// Shared helpers for broker statement importers
+
+import { Trade, AssetType, ContractSpec, ImporterOutput, NumberFormat, PositionEffect } from '@/types';
+import { getAssetType } from '@/lib/utils/tradeParser';
+import { contractValue, parseContractSymbol } from '@/lib/services/contracts';
+import {
+  DEFAULT_NUMBER_FORMAT,
+  detectNumberFormat,
+  parseLocaleNumber,
+  tokenizeCSV,
+} from '@/lib/utils/csvTokenizer';
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][];
+  lineNumbers: number[]; // File line each row starts on, for error messages
+  numberFormat: NumberFormat;
+  errors: string[];
+}
+
+interface ImportedTradeFields {
+  id: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  positionEffect?: PositionEffect;
+  quantity: number;
+  price: number;
+  fees: number;
+  timestamp: string;
+  assetType?: AssetType;
+  pnl?: number;
+  exitPrice?: number;
+  closedAt?: string;
+  currency?: string; // Currency price, fees and pnl are stated in
+  contract?: ContractSpec; // Terms stated by the broker; otherwise read from the symbol
+}
+
+// Lowercase alphanumerics only, so "Buy/Sell", "buy_sell" and "BuySell" compare equal
+export function normalizeKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function readDelimitedTable(content: string, numberFormat?: NumberFormat): DelimitedTable {
+  const table = tokenizeCSV(content);
+  const rows = table.records.map(record => record.cells);
+  return {
+    headers: table.headers,
+    rows,
+    lineNumbers: table.records.map(record => record.line),
+    numberFormat: numberFormat || detectNumberFormat(rows.flat(), table.delimiter),
+    errors: table.errors,
+  };
+}
+
+// Header cells of the first record (used for format detection). Only the start
+// of the file is tokenized so detection stays cheap on large exports.
+export function readHeaderLine(content: string): string[] {
+  const head = content.split(/\r?\n/).slice(0, 20).join('\n');
+  return tokenizeCSV(head).headers;
+}
+
+// Map each normalized header to its column index (first occurrence wins)
+export function indexHeaders(headers: string[]): Map<string, number> {
+  const index = new Map<string, number>();
+  headers.forEach((header, idx) => {
+    const key = normalizeKey(header);
+    if (!index.has(key)) index.set(key, idx);
+  });
+  return index;
+}
+
+// Value of the first alias present in the row
+export function pickCell(row: string[], index: Map<string, number>, aliases: string[]): string {
+  for (const alias of aliases) {
+    const idx = index.get(alias);
+    if (idx !== undefined && row[idx] !== undefined) return row[idx].trim();
+  }
+  return '';
+}
+
+export function hasHeaders(headers: string[], required: string[]): boolean {
+  const keys = new Set(headers.map(normalizeKey));
+  return required.every(key => keys.has(key));
+}
+
+// Parse money/quantity cells such as "$1,250.00", "1 234,56" or "(12.50)"
+export function parseNumber(raw: string | undefined, format: NumberFormat = DEFAULT_NUMBER_FORMAT): number {
+  return parseLocaleNumber(raw, format);
+}
+
+export function createImportedTrade(fields: ImportedTradeFields): Trade {
+  const derivative = parseContractSymbol(fields.symbol, new Date(fields.timestamp));
+  const contract = fields.contract || derivative?.contract;
+  const trade: Trade = {
+    id: fields.id,
+    session_id: 'imported-session',
+    user_id: 'imported-user',
+    symbol: fields.symbol,
+    action: fields.action,
+    quantity: fields.quantity,
+    price: fields.price,
+    total_value: contractValue(fields.quantity, fields.price, contract),
+    fees: fields.fees,
+    timestamp: fields.timestamp,
+    asset_type: fields.assetType || derivative?.assetType || getAssetType(fields.symbol),
+  };
+
+  if (fields.positionEffect) trade.position_effect = fields.positionEffect;
+  if (fields.pnl !== undefined && !isNaN(fields.pnl)) trade.pnl = fields.pnl;
+  if (fields.exitPrice !== undefined && fields.exitPrice > 0) trade.exit_price = fields.exitPrice;
+  if (fields.closedAt) trade.closed_at = fields.closedAt;
+  if (fields.currency && /^[A-Z]{3}$/.test(fields.currency)) trade.currency = fields.currency;
+  if (contract) trade.contract = contract;
+
+  return trade;
+}
+
+export function emptyOutput(error: string, totalRows: number = 0): ImporterOutput {
+  return { trades: [], errors: [error], warnings: [], totalRows, successfulRows: 0 };
+}
+
+// Keep the error list readable for large files
+export function finalizeOutput(
+  trades: Trade[],
+  errors: string[],
+  warnings: string[],
+  totalRows: number
+): ImporterOutput {
+  return {
+    trades,
+    errors: errors.slice(0, 10),
+    warnings,
+    totalRows,
+    successfulRows: trades.length,
+  };
+}
@@ -0,0 +1,170 @@
+// Wealthsimple activity export importer (current activity CSV and legacy monthly statements)
+
+import { ImporterOutput, ImportParseOptions, Trade, TradeImporter } from '@/types';
+import { parseTimestamp } from '@/lib/utils/tradeParser';
+import { createId } from '@/lib/utils/ids';
+import {
+  createImportedTrade,
+  emptyOutput,
+  finalizeOutput,
+  hasHeaders,
+  indexHeaders,
+  parseNumber,
+  pickCell,
+  readDelimitedTable,
+} from '@/lib/utils/importers/shared';
+
+// Legacy statements only describe trades in prose, e.g.
+// "AAPL - Apple Inc.: Bought 10.0000 shares (executed at 2025-03-03)"
+const LEGACY_DESCRIPTION = /^(\S+) - (.+?): (Bought|Sold) ([\d.,]+) shares/i;
+
+function isLegacyLayout(headers: string[]): boolean {
+  return hasHeaders(headers, ['date', 'transaction', 'description', 'amount', 'balance']);
+}
+
+function parseActivityExport(content: string, options: ImportParseOptions): ImporterOutput {
+  const { headers, rows, lineNumbers, numberFormat, errors: tableErrors } = readDelimitedTable(content, options.numberFormat);
+  const index = indexHeaders(headers);
+  const trades: Trade[] = [];
+  const errors: string[] = [...tableErrors];
+  const warnings: string[] = [];
+  let nonTradeRows = 0;
+  const importedAt = new Date();
+
+  rows.forEach((row, i) => {
+    const rowLabel = `Row ${lineNumbers[i]}`;
+    const activityType = pickCell(row, index, ['activitytype']).toUpperCase();
+    const subType = pickCell(row, index, ['activitysubtype']).toUpperCase();
+
+    if (activityType !== 'TRADE' || (subType !== 'BUY' && subType !== 'SELL')) {
+      nonTradeRows++;
+      return;
+    }
+
+    const symbol = pickCell(row, index, ['symbol']).toUpperCase();
+    if (!symbol) {
+      errors.push(`${rowLabel}: Missing symbol`);
+      return;
+    }
+
+    const rawDate = pickCell(row, index, ['transactiondate', 'date']);
+    const date = parseTimestamp(rawDate, options.timeZone);
+    if (!date) {
+      errors.push(`${rowLabel}: Invalid transaction date "${rawDate}"`);
+      return;
+    }
+
+    const quantity = Math.abs(parseNumber(pickCell(row, index, ['quantity']), numberFormat));
+    const price = parseNumber(pickCell(row, index, ['unitprice', 'price']), numberFormat);
+    if (isNaN(quantity) || quantity === 0) {
+      errors.push(`${rowLabel}: Invalid quantity`);
+      return;
+    }
+    if (isNaN(price) || price <= 0) {
+      errors.push(`${rowLabel}: Invalid unit price`);
+      return;
+    }
+
+    const commission = parseNumber(pickCell(row, index, ['commission']), numberFormat);
+
+    trades.push(createImportedTrade({
+      id: createId('import', importedAt),
+      symbol,
+      action: subType as 'BUY' | 'SELL',
+      quantity,
+      price,
+      fees: isNaN(commission) ? 0 : Math.abs(commission),
+      timestamp: date.toISOString(),
+      currency: pickCell(row, index, ['currency']).toUpperCase() || undefined,
+    }));
+  });
+
+  if (nonTradeRows > 0) {
+    warnings.push(`Skipped ${nonTradeRows} non-trade rows (deposits, dividends, transfers).`);
+  }
+
+  return finalizeOutput(trades, errors, warnings, rows.length);
+}
+
+function parseLegacyStatement(content: string, options: ImportParseOptions): ImporterOutput {
+  const { headers, rows, lineNumbers, numberFormat, errors: tableErrors } = readDelimitedTable(content, options.numberFormat);
+  const index = indexHeaders(headers);
+  const trades: Trade[] = [];
+  const errors: string[] = [...tableErrors];
+  const warnings: string[] = [];
+  let nonTradeRows = 0;
+  const importedAt = new Date();
+
+  rows.forEach((row, i) => {
+    const rowLabel = `Row ${lineNumbers[i]}`;
+    const transaction = pickCell(row, index, ['transaction']).toUpperCase();
+    if (transaction !== 'BUY' && transaction !== 'SELL') {
+      nonTradeRows++;
+      return;
+    }
+
+    const description = pickCell(row, index, ['description']);
+    const match = description.match(LEGACY_DESCRIPTION);
+    if (!match) {
+      errors.push(`${rowLabel}: Could not read trade from description "${description}"`);
+      return;
+    }
+
+    const rawDate = pickCell(row, index, ['date']);
+    const date = parseTimestamp(rawDate, options.timeZone);
+    if (!date) {
+      errors.push(`${rowLabel}: Invalid date "${rawDate}"`);
+      return;
+    }
+
+    const quantity = parseNumber(match[4], numberFormat);
+    const amount = Math.abs(parseNumber(pickCell(row, index, ['amount']), numberFormat));
+    if (isNaN(quantity) || quantity === 0 || isNaN(amount) || amount === 0) {
+      errors.push(`${rowLabel}: Invalid quantity or amount`);
+      return;
+    }
+
+    trades.push(createImportedTrade({
+      id: createId('import', importedAt),
+      symbol: match[1].toUpperCase(),
+      action: match[3].toLowerCase() === 'bought' ? 'BUY' : 'SELL',
+      quantity,
+      price: amount / quantity,
+      fees: 0,
+      timestamp: date.toISOString(),
+    }));
+  });
+
+  if (nonTradeRows > 0) {
+    warnings.push(`Skipped ${nonTradeRows} non-trade rows (deposits, dividends, transfers).`);
+  }
+  if (trades.length > 0) {
+    warnings.push('Legacy Wealthsimple statements do not list execution prices; prices are derived from the settled amount and include any FX spread.');
+  }
+
+  return finalizeOutput(trades, errors, warnings, rows.length);
+}
+
+export const wealthsimpleImporter: TradeImporter = {
+  id: 'wealthsimple',
+  label: 'Wealthsimple Activity',
+  description: 'Activity export (activity_type, activity_sub_type, unit_price...) or legacy monthly statement CSV',
+
+  detect: ({ headers }) => {
+    if (hasHeaders(headers, ['activitysubtype', 'unitprice'])) return 0.9;
+    return isLegacyLayout(headers) ? 0.85 : 0;
+  },
+
+  parse: (content, options = {}) => {
+    const { headers, rows } = readDelimitedTable(content);
+    if (rows.length === 0) {
+      return emptyOutput('File is empty or has no data rows');
+    }
+
+    return isLegacyLayout(headers) && !hasHeaders(headers, ['activitysubtype'])
+      ? parseLegacyStatement(content, options)
+      : parseActivityExport(content, options);
+  },
+};
+
+export default wealthsimpleImporter;
@@ -0,0 +1,119 @@
+// IndexedDB key-value storage for zustand's persist middleware.
+// Trade histories outgrow localStorage's ~5 MB quota; IndexedDB has no such
+// limit. Where IndexedDB can't be opened (server rendering, some private
+// windows) it falls back to localStorage, and to nothing on the server.
+
+import { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'biascoach';
+const STORE_NAME = 'keyval';
+const DB_VERSION = 1;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    // Let a later call retry instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Where a saved value that couldn't be loaded is copied, e.g.
+// "biascoach-portfolio-backup-1760000000000"
+export function storageBackupKey(name: string, now: Date = new Date()): string {
+  return `${name}-backup-${now.getTime()}`;
+}
+
+// A saved value that couldn't be loaded, already copied to backupKey. The copy
+// is made before the error is raised, so a fresh save can't replace the only one.
+export interface UnreadableValueError extends Error {
+  backupKey: string;
+}
+
+export function unreadableValueError(message: string, backupKey: string): UnreadableValueError {
+  return Object.assign(new Error(message), { backupKey });
+}
+
+export function backupKeyOf(error: unknown): string | undefined {
+  const backupKey = (error as Partial<UnreadableValueError> | null)?.backupKey;
+  return typeof backupKey === 'string' ? backupKey : undefined;
+}
+
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function fallbackStorage(): Storage | null {
+  return typeof window !== 'undefined' ? window.localStorage : null;
+}
+
+export const indexedDbStorage: StateStorage = {
+  getItem: async (name) => {
+    if (hasIndexedDb()) {
+      let value: unknown;
+      try {
+        value = await runRequest<unknown>('readonly', store => store.get(name));
+      } catch {
+        return fallbackStorage()?.getItem(name) ?? null;
+      }
+      if (value === undefined || typeof value === 'string') return value ?? null;
+
+      // Not something setItem wrote; keep it before reporting it
+      const backupKey = storageBackupKey(name);
+      await runRequest('readwrite', store => store.put(value, backupKey));
+      throw unreadableValueError('the saved data is not text', backupKey);
+    }
+    return fallbackStorage()?.getItem(name) ?? null;
+  },
+
+  setItem: async (name, value) => {
+    if (hasIndexedDb()) {
+      try {
+        await runRequest('readwrite', store => store.put(value, name));
+        return;
+      } catch {
+        // Fall through to localStorage
+      }
+    }
+    fallbackStorage()?.setItem(name, value);
+  },
+
+  removeItem: async (name) => {
+    if (hasIndexedDb()) {
+      try {
+        await runRequest('readwrite', store => store.delete(name));
+      } catch {
+        // Remove the fallback copy regardless
+      }
+    }
+    fallbackStorage()?.removeItem(name);
+  },
+};
+
+export default indexedDbStorage;
@@ -0,0 +1,181 @@
+// Timezone & Trading Day Utilities
+// Timestamps are stored in UTC. Wall-clock times from broker files are
+// interpreted in an explicit source zone, and "which day did this trade
+// happen on" is answered per asset class from a configurable session
+// boundary (e.g. forex rolls over at 17:00 New York), never from the
+// browser's local zone.
+
+import { AssetType, TradingDayBoundary, TradingDayBoundaries } from '@/types';
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Offered in timezone pickers; any valid IANA zone is accepted
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Toronto',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Zurich',
+  'Europe/Athens',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Hong_Kong',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// ============================================
+// Zone Conversion
+// ============================================
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zone offsets only change at transitions, which fall on quarter hours in UTC,
+// so one lookup per zone per 15-minute bucket serves every timestamp in it
+const OFFSET_BUCKET_MS = 15 * 60 * 1000;
+const MAX_CACHED_OFFSETS = 100000;
+const offsetCache = new Map<string, number>();
+
+function computeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Minutes the zone is ahead of UTC at the given instant (e.g. +540 for Tokyo)
+export function getZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const key = `${timeZone}|${Math.floor(date.getTime() / OFFSET_BUCKET_MS)}`;
+  let offset = offsetCache.get(key);
+  if (offset === undefined) {
+    offset = computeZoneOffsetMinutes(date, timeZone);
+    if (offsetCache.size >= MAX_CACHED_OFFSETS) offsetCache.clear();
+    offsetCache.set(key, offset);
+  }
+  return offset;
+}
+
+// Wall-clock fields of an instant as seen in the given zone
+export function getWallTime(date: Date, timeZone: string): WallTime {
+  const shifted = new Date(date.getTime() + getZoneOffsetMinutes(date, timeZone) * 60000);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  };
+}
+
+// Wall-clock time in a zone -> UTC instant. Times skipped by a DST jump
+// resolve forward; times repeated when clocks fall back are ambiguous and
+// resolve to one of the two occurrences.
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const guessOffset = getZoneOffsetMinutes(new Date(asUtc), timeZone);
+  const offset = getZoneOffsetMinutes(new Date(asUtc - guessOffset * 60000), timeZone);
+  if (offset === guessOffset) return new Date(asUtc - offset * 60000);
+
+  const candidate = new Date(asUtc - offset * 60000);
+  if (getWallTime(candidate, timeZone).hour === wall.hour) return candidate;
+  // In the gap: keep the pre-jump offset, which lands after the jump
+  return new Date(asUtc - Math.min(offset, guessOffset) * 60000);
+}
+
+// +540 -> "+09:00"
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// ============================================
+// Trading Days
+// ============================================
+
+// Calendar date of the wall time, moved forward one day once the session has rolled
+export function getTradingDay(timestamp: string | Date, boundary: TradingDayBoundary): string {
+  const date = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+  const wall = getWallTime(date, boundary.timeZone);
+  const minutesIntoDay = wall.hour * 60 + wall.minute;
+  const rolled = boundary.rollHour > 0 && minutesIntoDay >= boundary.rollHour * 60;
+  const day = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + (rolled ? 1 : 0)));
+  return day.toISOString().split('T')[0];
+}
+
+export function getTradingDayForAsset(
+  timestamp: string | Date,
+  assetType: AssetType,
+  boundaries: TradingDayBoundaries
+): string {
+  return getTradingDay(timestamp, boundaries[assetType] || boundaries.stocks);
+}
+
+// Hour of day (0-23) in the asset's session zone
+export function getSessionHour(timestamp: string | Date, boundary: TradingDayBoundary): number {
+  const date = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+  return getWallTime(date, boundary.timeZone).hour;
+}
+
+export default {
+  getLocalTimeZone,
+  isValidTimeZone,
+  getWallTime,
+  getZoneOffsetMinutes,
+  zonedTimeToUtc,
+  formatUtcOffset,
+  getTradingDay,
+  getTradingDayForAsset,
+  getSessionHour,
+};
@@ -1,8 +1,31 @@
 // Trade Data Parser for CSV/Excel files
 // Parses trading history in the National Bank challenge format:
 // timestamp, asset, side, quantity, entry_price, exit_price, profit_loss, balance
+// (plus optional fees and currency columns, as written by the CSV exporter)
 
-import { Trade, AssetType } from '@/types';
+import {
+  Trade,
+  AssetType,
+  ImportParseOptions,
+  NumberFormat,
+  ColumnMapping,
+  TradeField,
+  PositionEffect,
+  FeeSchedulesByAsset,
+} from '@/types';
+import {
+  CsvRecord,
+  CsvStreamTokenizer,
+  tokenizeCSV,
+  createCsvTokenizer,
+  sniffDelimiter,
+  parseLocaleNumber,
+  detectNumberFormat,
+} from '@/lib/utils/csvTokenizer';
+import { zonedTimeToUtc, WallTime } from '@/lib/utils/timezone';
+import { createId } from '@/lib/utils/ids';
+import { calculateFees, resolveFeeSchedules, scheduleForAsset, FeeQuote } from '@/lib/services/feeCalculator';
+import { contractValue, parseContractSymbol } from '@/lib/services/contracts';
 
 interface RawTradeRow {
   timestamp: string;
@@ -12,10 +35,25 @@ interface RawTradeRow {
   entry_price: string | number;
   exit_price: string | number;
   profit_loss: string | number;
+  fees: string | number;
+  currency: string;
   balance: string | number;
 }
 
-interface ParseResult {
+const EMPTY_ROW: RawTradeRow = {
+  timestamp: '',
+  asset: '',
+  side: '',
+  quantity: '',
+  entry_price: '',
+  exit_price: '',
+  profit_loss: '',
+  fees: '',
+  currency: '',
+  balance: '',
+};
+
+export interface ParseResult {
   trades: Trade[];
   errors: string[];
   totalRows: number;
@@ -23,7 +61,12 @@ interface ParseResult {
 }
 
 // Determine asset type from symbol
-function getAssetType(symbol: string): AssetType {
+export function getAssetType(symbol: string): AssetType {
+  const derivative = parseContractSymbol(symbol);
+  if (derivative) {
+    return derivative.assetType;
+  }
+
   const forexPairs = ['EURUSD', 'GBPUSD', 'USDJPY', 'USDCAD', 'AUDUSD', 'USDCHF', 'EURGBP', 'GBPJPY', 'EURJPY', 'NZDUSD'];
   const commodities = ['GOLD', 'SILVER', 'OIL', 'XAUUSD', 'XAGUSD'];
   const etfs = ['SPY', 'QQQ', 'DIA', 'IWM', 'VTI', 'VOO'];
@@ -42,154 +85,280 @@ function getAssetType(symbol: string): AssetType {
   return 'stocks';
 }
 
-// Convert Excel serial date to JavaScript Date
-function excelSerialToDate(serial: number): Date {
+export interface ParsedSide {
+  action: 'BUY' | 'SELL';
+  position_effect?: PositionEffect;
+}
+
+// Side spellings used by brokers and journals. Plain BUY/SELL leave the
+// position effect to the lot matcher; the rest state it explicitly.
+const SIDE_VALUES: Record<string, ParsedSide> = {
+  'BUY': { action: 'BUY' },
+  'SELL': { action: 'SELL' },
+  'LONG': { action: 'BUY', position_effect: 'open_long' },
+  'BUY TO OPEN': { action: 'BUY', position_effect: 'open_long' },
+  'BTO': { action: 'BUY', position_effect: 'open_long' },
+  'SELL TO CLOSE': { action: 'SELL', position_effect: 'close_long' },
+  'STC': { action: 'SELL', position_effect: 'close_long' },
+  'SHORT': { action: 'SELL', position_effect: 'open_short' },
+  'SELL SHORT': { action: 'SELL', position_effect: 'open_short' },
+  'SHORT SELL': { action: 'SELL', position_effect: 'open_short' },
+  'SS': { action: 'SELL', position_effect: 'open_short' },
+  'SELL TO OPEN': { action: 'SELL', position_effect: 'open_short' },
+  'STO': { action: 'SELL', position_effect: 'open_short' },
+  'COVER': { action: 'BUY', position_effect: 'cover_short' },
+  'BUY TO COVER': { action: 'BUY', position_effect: 'cover_short' },
+  'BUY TO CLOSE': { action: 'BUY', position_effect: 'cover_short' },
+  'BTC': { action: 'BUY', position_effect: 'cover_short' },
+};
+
+// "Sell_Short", "sell-short" and "SELL SHORT" are the same side
+export function parseSide(raw: string): ParsedSide | null {
+  const key = raw.trim().toUpperCase().replace(/[\s_-]+/g, ' ');
+  return SIDE_VALUES[key] || null;
+}
+
+// Wall-clock fields of an Excel serial date
+export function excelSerialToWallTime(serial: number): WallTime {
   // Excel's epoch is December 30, 1899
-  // But there's a leap year bug where Excel thinks 1900 was a leap year
-  const excelEpoch = new Date(1899, 11, 30);
-  const days = Math.floor(serial);
-  const fraction = serial - days;
-  
-  const date = new Date(excelEpoch.getTime() + days * 24 * 60 * 60 * 1000);
-  
-  // Add time from the fractional part
-  const totalSeconds = Math.round(fraction * 24 * 60 * 60);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  
-  date.setHours(hours, minutes, seconds, 0);
-  
-  return date;
+  // But there's a leap year bug where Excel thinks 1900 was a leap year.
+  // Counted on a UTC clock, where no DST jump can skip a field.
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 24 * 60 * 60) * 1000);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
 }
 
-// Parse timestamp from various formats
-function parseTimestamp(raw: string): Date | null {
-  if (!raw || raw.trim() === '') return null;
-  
-  const trimmed = raw.trim();
-  
+// Offsets written into the value itself win over the import's source zone
+const EXPLICIT_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// 2025-03-01, 2025-03-01 9:30, 2025-03-01T09:30:00.000
+const DASHED_TIMESTAMP = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+// 03/01/2025, 3/1/2025 9:30, 03/01/2025 09:30:00 PM
+const SLASHED_TIMESTAMP = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+
+function localDate(wall: WallTime): Date {
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// Rejects fields a calendar doesn't have, such as February 30 or 25:00
+function isValidWallTime(wall: WallTime): boolean {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second));
+  return date.getUTCFullYear() === wall.year
+    && date.getUTCMonth() + 1 === wall.month
+    && date.getUTCDate() === wall.day
+    && date.getUTCHours() === wall.hour
+    && date.getUTCMinutes() === wall.minute
+    && date.getUTCSeconds() === wall.second;
+}
+
+// Reads the wall-clock fields straight from the value, so a time the
+// browser's zone skips for DST keeps the fields it was written with
+function parseWallTime(raw: string): WallTime | null {
   // Check if it's an Excel serial number (like 45352.395833)
-  const numericValue = parseFloat(trimmed);
+  const numericValue = parseFloat(raw);
   if (!isNaN(numericValue) && numericValue > 25000 && numericValue < 60000) {
     // Looks like an Excel date serial (range roughly 1968-2064)
-    return excelSerialToDate(numericValue);
+    return excelSerialToWallTime(numericValue);
   }
-  
-  // Try various date formats
-  
-  // ISO format: 2025-03-01T09:30:00
-  if (trimmed.includes('T')) {
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime())) return date;
+
+  const dashed = raw.match(DASHED_TIMESTAMP);
+  if (dashed) {
+    const [, year, month, day, hour, minute, second] = dashed;
+    // Just a date without time: taken as midday so no zone moves it to another day
+    return {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hour === undefined ? 12 : Number(hour),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+    };
   }
-  
-  // Format: 2025-03-01 9:30
-  if (trimmed.includes('-') && trimmed.includes(' ')) {
-    const normalized = trimmed.replace(' ', 'T');
-    // Add seconds if missing
-    const parts = normalized.split('T')[1]?.split(':');
-    const withSeconds = parts?.length === 2 ? normalized + ':00' : normalized;
-    const date = new Date(withSeconds);
-    if (!isNaN(date.getTime())) return date;
+
+  const slashed = raw.match(SLASHED_TIMESTAMP);
+  if (slashed) {
+    const [, month, day, year, hour, minute, second, meridiem] = slashed;
+    // 12:00 AM is midnight and 12:00 PM is noon
+    const hours = meridiem
+      ? Number(hour) % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0)
+      : Number(hour ?? 0);
+    return {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hours,
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+    };
   }
-  
-  // Format: MM/DD/YYYY HH:MM
-  if (trimmed.includes('/')) {
+
+  return null;
+}
+
+// Parse timestamp from various formats. Wall-clock values are read in
+// timeZone when given, otherwise in the browser's zone.
+export function parseTimestamp(raw: string, timeZone?: string): Date | null {
+  if (!raw || raw.trim() === '') return null;
+  const trimmed = raw.trim();
+
+  if (EXPLICIT_OFFSET.test(trimmed)) {
     const date = new Date(trimmed);
-    if (!isNaN(date.getTime())) return date;
+    return isNaN(date.getTime()) ? null : date;
   }
-  
-  // Just a date without time: 2025-03-01
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    const date = new Date(trimmed + 'T12:00:00');
-    if (!isNaN(date.getTime())) return date;
+
+  const wall = parseWallTime(trimmed);
+  if (wall) {
+    if (!isValidWallTime(wall)) return null;
+    return timeZone ? zonedTimeToUtc(wall, timeZone) : localDate(wall);
   }
-  
-  // Last resort: try native parsing
+
+  // Last resort: native parsing for layouts such as "Mar 1, 2025 9:30",
+  // reinterpreting the browser's wall-clock fields in the source zone
   const date = new Date(trimmed);
-  if (!isNaN(date.getTime())) return date;
-  
-  return null;
+  if (isNaN(date.getTime())) return null;
+  if (!timeZone) return date;
+  return zonedTimeToUtc({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+  }, timeZone);
+}
+
+interface RowContext {
+  line: number; // File line the row starts on
+  importedAt: Date;
+  numberFormat: NumberFormat;
+  timeZone?: string;
+  // e.g. 'column 4 ("Qty")', so errors point at the exact cell
+  describeColumn: (field: keyof RawTradeRow) => string;
+  // Fee for a row that doesn't state one, and the schedule it came from
+  estimateFees: (quote: FeeQuote, timestamp: string) => { fees: number; scheduleId: string };
 }
 
 // Parse a single row
-function parseRow(row: RawTradeRow, index: number, baseTime: number): { trade: Trade | null; error: string | null } {
+function parseRow(row: RawTradeRow, context: RowContext): { trade: Trade | null; error: string | null } {
+  const { line, importedAt, numberFormat, timeZone, describeColumn, estimateFees } = context;
+  const fail = (field: keyof RawTradeRow, message: string) => ({
+    trade: null,
+    error: `Row ${line}, ${describeColumn(field)}: ${message}`,
+  });
+
   try {
     // Parse timestamp
     const timestamp = row.timestamp?.toString();
-    const date = parseTimestamp(timestamp);
+    const date = parseTimestamp(timestamp, timeZone);
     
     if (!date) {
-      return { trade: null, error: `Row ${index + 1}: Invalid timestamp "${timestamp}"` };
+      return fail('timestamp', `Invalid timestamp "${timestamp}"`);
     }
     const isoTimestamp = date.toISOString();
 
     // Parse asset symbol
     const symbol = row.asset?.toString().trim().toUpperCase();
     if (!symbol) {
-      return { trade: null, error: `Row ${index + 1}: Missing asset symbol` };
+      return fail('asset', 'Missing asset symbol');
     }
 
-    // Parse side (BUY/SELL)
-    const sideRaw = row.side?.toString().trim().toUpperCase();
-    if (sideRaw !== 'BUY' && sideRaw !== 'SELL') {
-      return { trade: null, error: `Row ${index + 1}: Invalid side "${row.side}" (must be BUY or SELL)` };
+    // Parse side (BUY/SELL, or a short-side spelling such as SHORT/COVER)
+    const side = parseSide(row.side?.toString() || '');
+    if (!side) {
+      return fail('side', `Invalid side "${row.side}" (must be BUY, SELL, SHORT or COVER)`);
     }
-    const action: 'BUY' | 'SELL' = sideRaw;
 
     // Parse quantity
-    const quantity = parseFloat(row.quantity?.toString() || '0');
+    const quantity = parseLocaleNumber(row.quantity, numberFormat);
     if (isNaN(quantity) || quantity <= 0) {
-      return { trade: null, error: `Row ${index + 1}: Invalid quantity "${row.quantity}"` };
+      return fail('quantity', `Invalid quantity "${row.quantity}"`);
     }
 
     // Parse prices
-    const entryPrice = parseFloat(row.entry_price?.toString() || '0');
-    const exitPrice = parseFloat(row.exit_price?.toString() || '0');
-    
+    const entryPrice = parseLocaleNumber(row.entry_price, numberFormat);
     if (isNaN(entryPrice) || entryPrice <= 0) {
-      return { trade: null, error: `Row ${index + 1}: Invalid entry_price "${row.entry_price}"` };
+      return fail('entry_price', `Invalid entry_price "${row.entry_price}"`);
     }
 
-    // Determine trade price based on action
-    // For BUY: price = entry_price
-    // For SELL: price = exit_price
-    const price = action === 'BUY' ? entryPrice : (exitPrice > 0 ? exitPrice : entryPrice);
+    // Optional columns: blank is fine, garbage is not
+    const exitPrice = row.exit_price === '' ? NaN : parseLocaleNumber(row.exit_price, numberFormat);
+    if (row.exit_price !== '' && isNaN(exitPrice)) {
+      return fail('exit_price', `Invalid exit_price "${row.exit_price}"`);
+    }
 
     // Parse P&L - this is important for bias detection!
-    const pnl = parseFloat(row.profit_loss?.toString() || '0');
+    const pnl = row.profit_loss === '' ? 0 : parseLocaleNumber(row.profit_loss, numberFormat);
+    if (isNaN(pnl)) {
+      return fail('profit_loss', `Invalid profit_loss "${row.profit_loss}"`);
+    }
+
+    // Running balance is only used by the import audit; unreadable values are left out
+    const balance = row.balance === '' ? NaN : parseLocaleNumber(row.balance, numberFormat);
 
+    const statedFees = row.fees === '' ? NaN : parseLocaleNumber(row.fees, numberFormat);
+    if (row.fees !== '' && isNaN(statedFees)) {
+      return fail('fees', `Invalid fees "${row.fees}"`);
+    }
+
+    // ISO code of the money columns; without one the symbol decides (see currencyConverter)
+    const currency = row.currency?.toString().trim().toUpperCase() || '';
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      return fail('currency', `Invalid currency "${row.currency}" (expected a code such as USD or CAD)`);
+    }
+
+    // Options and futures symbols carry their contract terms
+    const derivative = parseContractSymbol(symbol, date);
+    const contract = derivative?.contract;
+    const assetType = derivative ? derivative.assetType : getAssetType(symbol);
     // Calculate total value based on entry price (for complete trades)
-    const totalValue = quantity * entryPrice;
-    const fees = totalValue * 0.001; // Assume 0.1% fee
+    const totalValue = contractValue(quantity, entryPrice, contract);
+    // Without a fees column, charge what the user's broker schedule would have
+    const estimated = isNaN(statedFees)
+      ? estimateFees(
+          { symbol, assetType, action: side.action, quantity, price: entryPrice, multiplier: contract?.multiplier },
+          isoTimestamp
+        )
+      : null;
+    const fees = estimated ? estimated.fees : Math.abs(statedFees);
 
-    // Generate unique ID using baseTime + index to ensure uniqueness
     const trade: Trade = {
-      id: `import-${baseTime}-${index}`,
+      id: createId('import', importedAt),
       session_id: 'imported-session',
       user_id: 'imported-user',
       symbol,
-      action,
+      action: side.action,
+      ...(side.position_effect ? { position_effect: side.position_effect } : {}),
       quantity,
       price: entryPrice, // Use entry price as the trade price
       total_value: totalValue,
       fees,
       timestamp: isoTimestamp,
-      asset_type: getAssetType(symbol),
+      asset_type: assetType,
       // IMPORTANT: Include pnl for ALL trades (needed for bias detection)
       // This is the realized P&L from the complete round-trip trade
-      pnl: !isNaN(pnl) ? pnl : 0,
+      pnl,
+      // Rows with an exit price are closed trades on their own (see roundTrips.ts)
+      ...(!isNaN(exitPrice) && exitPrice > 0 ? { exit_price: exitPrice } : {}),
+      ...(!isNaN(balance) ? { reported_balance: balance } : {}),
+      ...(currency ? { currency } : {}),
+      ...(estimated ? { fee_schedule: estimated.scheduleId } : {}),
+      ...(contract ? { contract } : {}),
     };
 
     return { trade, error: null };
   } catch (err) {
-    return { trade: null, error: `Row ${index + 1}: ${err instanceof Error ? err.message : 'Unknown error'}` };
+    return { trade: null, error: `Row ${line}: ${err instanceof Error ? err.message : 'Unknown error'}` };
   }
 }
 
 // Normalize header names to expected format
-function normalizeHeaders(headers: string[]): string[] {
+export function normalizeHeaders(headers: string[]): string[] {
   const headerMap: Record<string, string> = {
     'timestamp': 'timestamp',
     'time': 'timestamp',
@@ -223,6 +392,12 @@ function normalizeHeaders(headers: string[]): string[] {
     'profit': 'profit_loss',
     'pl': 'profit_loss',
     'realized_pnl': 'profit_loss',
+    'fees': 'fees',
+    'fee': 'fees',
+    'commission': 'fees',
+    'currency': 'currency',
+    'ccy': 'currency',
+    'currency_primary': 'currency',
     'balance': 'balance',
     'account_balance': 'balance',
   };
@@ -233,67 +408,173 @@ function normalizeHeaders(headers: string[]): string[] {
   });
 }
 
+// ============================================
+// Column Mapping
+// ============================================
+
+export const TRADE_FIELDS: TradeField[] = ['timestamp', 'asset', 'side', 'quantity', 'entry_price', 'exit_price', 'profit_loss', 'fees', 'currency', 'balance'];
+export const REQUIRED_TRADE_FIELDS: TradeField[] = ['timestamp', 'asset', 'side', 'quantity', 'entry_price'];
+
+function requiredFieldsFor(mapping: ColumnMapping): TradeField[] {
+  return REQUIRED_TRADE_FIELDS.filter(field => !(field === 'side' && mapping.sideSource === 'quantity_sign'));
+}
+
+// Required fields the mapping doesn't assign yet
+export function getMissingFields(mapping: ColumnMapping): TradeField[] {
+  return requiredFieldsFor(mapping).filter(field => !mapping.columns[field]);
+}
+
+// Order-insensitive key used to recognise a header set seen before
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map(h => h.toLowerCase().trim())
+    .filter(Boolean)
+    .sort()
+    .join('|');
+}
+
+function findHeaderIndex(headers: string[], header: string | undefined): number {
+  if (!header) return -1;
+  const exact = headers.indexOf(header);
+  if (exact !== -1) return exact;
+  const wanted = header.toLowerCase().trim();
+  return headers.findIndex(h => h.toLowerCase().trim() === wanted);
+}
+
+// Mapping implied by the header aliases in normalizeHeaders (first match wins)
+export function suggestColumnMapping(rawHeaders: string[]): ColumnMapping {
+  const normalized = normalizeHeaders(rawHeaders);
+  const columns: Partial<Record<TradeField, string>> = {};
+  normalized.forEach((field, idx) => {
+    if ((TRADE_FIELDS as string[]).includes(field) && !columns[field as TradeField]) {
+      columns[field as TradeField] = rawHeaders[idx];
+    }
+  });
+  return { columns, sideSource: 'column', sideValues: {} };
+}
+
+function applyValueTransforms(row: RawTradeRow, mapping: ColumnMapping, numberFormat: NumberFormat): void {
+  if (mapping.sideSource === 'quantity_sign') {
+    const quantity = parseLocaleNumber(row.quantity, numberFormat);
+    if (!isNaN(quantity) && quantity !== 0) {
+      row.side = quantity < 0 ? 'SELL' : 'BUY';
+      row.quantity = Math.abs(quantity);
+    }
+    return;
+  }
+
+  const mappedSide = mapping.sideValues[row.side.toString().trim().toUpperCase()];
+  if (mappedSide) row.side = mappedSide;
+}
+
+const NUMERIC_COLUMNS: (keyof RawTradeRow)[] = ['quantity', 'entry_price', 'exit_price', 'profit_loss', 'fees', 'balance'];
+
+// Number format detection looks at this many leading rows of a streamed file
+const NUMBER_FORMAT_SAMPLE_ROWS = 1000;
+// Errors kept for display; later ones are only counted
+const MAX_REPORTED_ERRORS = 10;
+
+type RecordParser = (record: CsvRecord) => { trade: Trade | null; error: string | null };
+
+// Resolve the column mapping and number format for a header row, or explain why the file can't be read
+function createRecordParser(
+  rawHeaders: string[],
+  sampleRecords: CsvRecord[],
+  delimiter: string,
+  options: ImportParseOptions
+): { parse: RecordParser } | { error: string } {
+  // A saved/wizard mapping takes precedence over header aliases
+  const mapping = options.mapping || suggestColumnMapping(rawHeaders);
+  const columnIndex = new Map<keyof RawTradeRow, number>();
+  TRADE_FIELDS.forEach(field => {
+    const idx = findHeaderIndex(rawHeaders, mapping.columns[field]);
+    if (idx !== -1) columnIndex.set(field, idx);
+  });
+
+  // Check for required columns
+  const missingColumns = requiredFieldsFor(mapping).filter(field => !columnIndex.has(field));
+  if (missingColumns.length > 0) {
+    return { error: `Missing required columns: ${missingColumns.join(', ')}. Found columns: ${rawHeaders.join(', ')}` };
+  }
+
+  const describeColumn = (field: keyof RawTradeRow) => {
+    const idx = columnIndex.get(field);
+    return idx === undefined ? `column "${field}"` : `column ${idx + 1} ("${rawHeaders[idx]}")`;
+  };
+
+  const numberFormat = options.numberFormat || detectNumberFormat(
+    sampleRecords.flatMap(record =>
+      NUMERIC_COLUMNS.map(field => record.cells[columnIndex.get(field) ?? -1] ?? '')
+    ),
+    delimiter
+  );
+
+  // Every trade in this import is stamped with the same time
+  const importedAt = new Date();
+
+  // Tiered schedules price by month-to-date volume; rows are counted in file order
+  const feeSchedules: FeeSchedulesByAsset = options.feeSchedules || resolveFeeSchedules();
+  const monthlyVolume = new Map<string, number>();
+  const estimateFees = (quote: FeeQuote, timestamp: string) => {
+    const schedule = scheduleForAsset(feeSchedules, quote.assetType);
+    const key = `${quote.assetType}|${timestamp.slice(0, 7)}`;
+    const volume = monthlyVolume.get(key) || 0;
+    const notional = quote.quantity * quote.price * (quote.multiplier ?? 1);
+    monthlyVolume.set(key, volume + (schedule.tierVolume === 'notional' ? notional : quote.quantity));
+    return { fees: calculateFees(quote, schedule, volume).total, scheduleId: schedule.id };
+  };
+
+  return {
+    parse: record => {
+      const row: RawTradeRow = { ...EMPTY_ROW };
+      columnIndex.forEach((idx, field) => {
+        row[field] = record.cells[idx] ?? '';
+      });
+      applyValueTransforms(row, mapping, numberFormat);
+
+      return parseRow(row, {
+        line: record.line,
+        importedAt,
+        numberFormat,
+        timeZone: options.timeZone,
+        describeColumn,
+        estimateFees,
+      });
+    },
+  };
+}
+
 // Parse CSV text content
-export function parseCSV(content: string): ParseResult {
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
+export function parseCSV(content: string, options: ImportParseOptions = {}): ParseResult {
+  const table = tokenizeCSV(content);
   
-  if (lines.length < 2) {
-    return { trades: [], errors: ['File is empty or has no data rows'], totalRows: 0, successfulRows: 0 };
+  if (table.records.length === 0) {
+    return { trades: [], errors: ['File is empty or has no data rows', ...table.errors], totalRows: 0, successfulRows: 0 };
   }
 
-  // Parse headers (first line)
-  const rawHeaders = lines[0].split(/[\t,]/).map(h => h.trim());
+  // Parse headers (first record)
+  const rawHeaders = table.headers;
   const headers = normalizeHeaders(rawHeaders);
   
   console.log('Parsed headers:', headers);
   console.log('Raw headers:', rawHeaders);
   
-  // Check for required columns
-  const requiredColumns = ['timestamp', 'asset', 'side', 'quantity', 'entry_price'];
-  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
-  
-  if (missingColumns.length > 0) {
+  const parser = createRecordParser(rawHeaders, table.records, table.delimiter, options);
+  if ('error' in parser) {
     return { 
       trades: [], 
-      errors: [`Missing required columns: ${missingColumns.join(', ')}. Found columns: ${rawHeaders.join(', ')}`],
-      totalRows: lines.length - 1,
+      errors: [parser.error],
+      totalRows: table.records.length,
       successfulRows: 0 
     };
   }
 
   const trades: Trade[] = [];
-  const errors: string[] = [];
-  
-  // Use a single base time for all trade IDs in this import
-  const baseTime = Date.now();
+  const errors: string[] = [...table.errors];
 
   // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Split by tab or comma
-    const values = line.split(/[\t,]/).map(v => v.trim());
-    
-    // Create row object
-    const row: RawTradeRow = {
-      timestamp: '',
-      asset: '',
-      side: '',
-      quantity: '',
-      entry_price: '',
-      exit_price: '',
-      profit_loss: '',
-      balance: '',
-    };
-
-    headers.forEach((header, idx) => {
-      if (header in row) {
-        (row as Record<string, string | number>)[header] = values[idx] || '';
-      }
-    });
-
-    const { trade, error } = parseRow(row, i, baseTime);
+  table.records.forEach(record => {
+    const { trade, error } = parser.parse(record);
     
     if (trade) {
       trades.push(trade);
@@ -301,7 +582,7 @@ export function parseCSV(content: string): ParseResult {
     if (error) {
       errors.push(error);
     }
-  }
+  });
 
   console.log(`Parsed ${trades.length} trades successfully, ${errors.length} errors`);
   if (trades.length > 0) {
@@ -311,59 +592,99 @@ export function parseCSV(content: string): ParseResult {
 
   return {
     trades,
-    errors: errors.slice(0, 10), // Limit errors shown
-    totalRows: lines.length - 1,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS), // Limit errors shown
+    totalRows: table.records.length,
     successfulRows: trades.length,
   };
 }
 
-// Export trades to CSV format
-export function exportToCSV(trades: Trade[]): string {
-  const headers = ['timestamp', 'asset', 'side', 'quantity', 'entry_price', 'exit_price', 'profit_loss', 'balance'];
-  
-  // Sort trades by timestamp
-  const sortedTrades = [...trades].sort((a, b) => 
-    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
+// Streaming variant of parseCSV for very large files: records are parsed as
+// chunks arrive, so only the trades (not the file text) are kept in memory.
+// The number format is detected from the first NUMBER_FORMAT_SAMPLE_ROWS rows.
+export async function parseCSVStream(
+  chunks: AsyncIterable<string>,
+  options: ImportParseOptions = {},
+  onRows?: (rowsParsed: number) => void
+): Promise<ParseResult> {
+  const trades: Trade[] = [];
+  const errors: string[] = [];
+  let errorCount = 0;
+  let totalRows = 0;
 
-  // Calculate running balance starting from typical initial balance
-  let balance = 100000;
-  
-  const rows = sortedTrades.map(trade => {
-    const pnl = trade.pnl || 0;
-    balance += pnl - trade.fees;
-    
-    // For BUY trades, exit_price is not applicable (0 or same as entry)
-    // For SELL trades, we use the trade price as exit
-    const entryPrice = trade.action === 'BUY' ? trade.price : (trade.total_value / trade.quantity - Math.abs(pnl) / trade.quantity);
-    const exitPrice = trade.action === 'SELL' ? trade.price : 0;
-    
-    return [
-      trade.timestamp.replace('T', ' ').split('.')[0], // Format timestamp
-      trade.symbol,
-      trade.action,
-      trade.quantity,
-      entryPrice.toFixed(2),
-      exitPrice > 0 ? exitPrice.toFixed(2) : '',
-      pnl.toFixed(2),
-      balance.toFixed(2),
-    ].join('\t');
-  });
+  let headers: string[] | null = null;
+  let pending: CsvRecord[] = []; // Rows held back until the number format is known
+  let parser: { parse: RecordParser } | null = null;
+  let fatal: string | null = null;
+  let delimiter = ',';
 
-  return [headers.join('\t'), ...rows].join('\n');
-}
+  const recordError = (error: string) => {
+    errorCount++;
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+  };
 
-// Helper to download CSV as file
-export function downloadCSV(trades: Trade[], filename: string = 'trading_history.csv'): void {
-  const csv = exportToCSV(trades);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  const parseRecord = (record: CsvRecord) => {
+    const { trade, error } = (parser as { parse: RecordParser }).parse(record);
+    if (trade) trades.push(trade);
+    if (error) recordError(error);
+  };
+
+  const startParsing = () => {
+    const created = createRecordParser(headers as string[], pending, delimiter, options);
+    if ('error' in created) {
+      fatal = created.error;
+    } else {
+      parser = created;
+      pending.forEach(record => {
+        const { trade, error } = created.parse(record);
+        if (trade) trades.push(trade);
+        if (error) recordError(error);
+      });
+    }
+    pending = [];
+  };
+
+  let tokenizer: CsvStreamTokenizer | null = null;
+  const onRecord = (record: CsvRecord) => {
+    if (!headers) {
+      headers = record.cells;
+      return;
+    }
+    totalRows++;
+    if (fatal) return;
+    if (parser) {
+      parseRecord(record);
+    } else {
+      pending.push(record);
+      if (pending.length >= NUMBER_FORMAT_SAMPLE_ROWS) startParsing();
+    }
+  };
+
+  for await (const chunk of chunks) {
+    if (!tokenizer) {
+      delimiter = sniffDelimiter(chunk.replace(/^\uFEFF/, ''));
+      tokenizer = createCsvTokenizer(delimiter, onRecord);
+    }
+    tokenizer.push(chunk);
+    onRows?.(totalRows);
+  }
+  const tokenizerErrors = tokenizer ? tokenizer.end() : [];
+  if (!parser && !fatal && totalRows > 0) startParsing();
+  onRows?.(totalRows);
+
+  if (totalRows === 0) {
+    return { trades: [], errors: ['File is empty or has no data rows', ...tokenizerErrors], totalRows: 0, successfulRows: 0 };
+  }
+  if (fatal) {
+    return { trades: [], errors: [fatal], totalRows, successfulRows: 0 };
+  }
+
+  if (errorCount > errors.length) {
+    errors.push(`…and ${errorCount - errors.length} more row errors`);
+  }
+  return {
+    trades,
+    errors: [...tokenizerErrors, ...errors],
+    totalRows,
+    successfulRows: trades.length,
+  };
 }
@@ -0,0 +1,302 @@
+// XLSX Workbook Reader
+// Reads .xlsx/.xlsm files in the browser without a spreadsheet library: the
+// zip container is inflated with the native DecompressionStream and the sheet
+// XML is scanned with regular expressions (no DOMParser, so it also runs in
+// workers). Date-formatted cells are converted with excelSerialToWallTime.
+
+import { excelSerialToWallTime } from '@/lib/utils/tradeParser';
+
+export interface WorksheetData {
+  name: string;
+  rows: string[][];
+}
+
+export interface WorkbookData {
+  sheets: WorksheetData[];
+}
+
+// Built-in number formats that display dates/times (ECMA-376 18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// Days between the 1900 and 1904 date systems
+const DATE_1904_OFFSET = 1462;
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+
+// ============================================
+// Zip Container
+// ============================================
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  // End of central directory sits in the last 22 bytes + up to 64KB of comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid .xlsx file (zip directory not found)');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_SIGNATURE) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(view: DataView, entry: ZipEntry): Promise<string> {
+  if (view.getUint32(entry.localOffset, true) !== ZIP_LOCAL_SIGNATURE) {
+    throw new Error('Corrupt .xlsx file (bad local header)');
+  }
+  const nameLength = view.getUint16(entry.localOffset + 26, true);
+  const extraLength = view.getUint16(entry.localOffset + 28, true);
+  const start = view.byteOffset + entry.localOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(view.buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method} in .xlsx file`);
+  }
+
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+// ============================================
+// XML Helpers
+// ============================================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Concatenate the <t> runs of a rich-text element, skipping phonetic hints
+function readText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const parts: string[] = [];
+  const textPattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = textPattern.exec(withoutPhonetics)) !== null) {
+    parts.push(decodeXml(match[1]));
+  }
+  return parts.join('');
+}
+
+// "BC12" -> 54 (zero-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Drop quoted literals, escapes and [Red]/[$-409] sections before looking for date tokens
+  const stripped = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  return /[dyhs]/i.test(stripped) || /^m+$/i.test(stripped.trim());
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Same "YYYY-MM-DD HH:MM:SS" local-time layout parseTimestamp expects
+function formatSerialDate(serial: number, date1904: boolean): string {
+  if (serial < 1) {
+    const totalSeconds = Math.round(serial * 24 * 60 * 60);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  }
+  const wall = excelSerialToWallTime(date1904 ? serial + DATE_1904_OFFSET : serial);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ` +
+    `${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+}
+
+// ============================================
+// Workbook Parts
+// ============================================
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  const strings: string[] = [];
+  const itemPattern = /<si>([\s\S]*?)<\/si>|<si\/>/g;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(xml)) !== null) {
+    strings.push(match[1] ? readText(match[1]) : '');
+  }
+  return strings;
+}
+
+// Style index -> whether the cell displays as a date
+function readDateStyles(xml: string | null): boolean[] {
+  if (!xml) return [];
+
+  const customDateFormats = new Set<number>();
+  const numFmtPattern = /<numFmt\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = numFmtPattern.exec(xml)) !== null) {
+    const id = Number(readAttribute(match[1], 'numFmtId'));
+    const code = readAttribute(match[1], 'formatCode') || '';
+    if (isDateFormatCode(code)) customDateFormats.add(id);
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return [];
+
+  const styles: boolean[] = [];
+  const xfPattern = /<xf\b([^>]*)\/?>/g;
+  while ((match = xfPattern.exec(cellXfs[1])) !== null) {
+    const id = Number(readAttribute(match[1], 'numFmtId') || 0);
+    styles.push(BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id));
+  }
+  return styles;
+}
+
+function readSheetRows(
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  date1904: boolean
+): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowPattern.exec(xml)) !== null) {
+    const rowNumber = Number(readAttribute(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    let cellMatch: RegExpExecArray | null;
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || '')) !== null) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] || '';
+      const reference = readAttribute(attributes, 'r');
+      const col = reference ? columnIndex(reference) : cells.length;
+      const type = readAttribute(attributes, 't') || 'n';
+      const style = Number(readAttribute(attributes, 's') || 0);
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readText(body);
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+        const serial = Number(value);
+        if (type === 'n' && dateStyles[style] && !isNaN(serial)) {
+          value = formatSerialDate(serial, date1904);
+        }
+      }
+
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    }
+
+    // Keep blank rows so row numbers in error messages match the sheet
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows.push(cells);
+  }
+  return rows;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export async function readWorkbook(buffer: ArrayBuffer): Promise<WorkbookData> {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+  const readPart = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    return entry ? readZipText(view, entry) : null;
+  };
+
+  const workbookXml = await readPart('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new Error('Not an Excel workbook (xl/workbook.xml missing)');
+  }
+
+  const relationsXml = (await readPart('xl/_rels/workbook.xml.rels')) || '';
+  const targets = new Map<string, string>();
+  const relationPattern = /<Relationship\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relationPattern.exec(relationsXml)) !== null) {
+    const id = readAttribute(match[1], 'Id');
+    const target = readAttribute(match[1], 'Target');
+    if (id && target) {
+      targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const date1904 = /<workbookPr\b[^>]*date1904="(1|true)"/.test(workbookXml);
+  const sharedStrings = readSharedStrings(await readPart('xl/sharedStrings.xml'));
+  const dateStyles = readDateStyles(await readPart('xl/styles.xml'));
+
+  const sheets: WorksheetData[] = [];
+  const sheetPattern = /<sheet\b([^>]*)\/?>/g;
+  while ((match = sheetPattern.exec(workbookXml)) !== null) {
+    const name = readAttribute(match[1], 'name') || `Sheet${sheets.length + 1}`;
+    const relationId = readAttribute(match[1], 'r:id');
+    const path = relationId ? targets.get(relationId) : undefined;
+    const sheetXml = path ? await readPart(path) : null;
+    // Chart sheets and missing parts have no cell data
+    if (!sheetXml) continue;
+
+    sheets.push({ name, rows: readSheetRows(sheetXml, sharedStrings, dateStyles, date1904) });
+  }
+
+  return { sheets };
+}
+
+// Legacy binary workbooks (BIFF) start with the OLE2 compound file signature
+export function isLegacyExcel(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+  return bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+}
+
+export default { readWorkbook, isLegacyExcel };
@@ -0,0 +1,28 @@
+// Import & Analysis Worker
+// Runs parsing and bias detection off the main thread. One worker serves one
+// job; the client terminates it to cancel.
+
+import { runImportPipeline, runAnalysisPipeline } from '@/lib/workers/pipeline';
+import { JobProgress, WorkerRequest, WorkerResponse } from '@/lib/workers/protocol';
+
+const ctx = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const reportProgress = (progress: JobProgress) => ctx.postMessage({ type: 'progress', progress });
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    if (request.type === 'import') {
+      const result = await runImportPipeline(request.input, reportProgress);
+      ctx.postMessage({ type: 'import-result', result });
+    } else {
+      const result = runAnalysisPipeline(request.input, reportProgress);
+      ctx.postMessage({ type: 'analysis-result', result });
+    }
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,112 @@
+// Import Worker Client
+// Promise API over the import/analysis worker. Each job gets its own worker so
+// cancelling (via AbortSignal) can simply terminate it. Falls back to running
+// the same pipeline on the main thread where workers are unavailable.
+
+import { ImportResult } from '@/types';
+import { runImportPipeline, runAnalysisPipeline } from '@/lib/workers/pipeline';
+import {
+  AnalysisJobInput,
+  AnalysisJobResult,
+  ImportJobInput,
+  JobProgress,
+  WorkerRequest,
+  WorkerResponse,
+} from '@/lib/workers/protocol';
+
+function abortError(): DOMException {
+  return new DOMException('The job was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function createWorker(): Worker | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./importWorker.ts', import.meta.url));
+  } catch {
+    return null;
+  }
+}
+
+function runInWorker<T>(
+  worker: Worker,
+  request: WorkerRequest,
+  onProgress: (progress: JobProgress) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+      } else {
+        finish();
+        resolve(message.result as T);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Worker failed'));
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage(request);
+  });
+}
+
+// Progress callback for the main-thread fallback; throwing stops the pipeline
+function checkedProgress(onProgress: (progress: JobProgress) => void, signal?: AbortSignal) {
+  return (progress: JobProgress) => {
+    if (signal?.aborted) throw abortError();
+    onProgress(progress);
+  };
+}
+
+export async function runImportJob(
+  input: ImportJobInput,
+  onProgress: (progress: JobProgress) => void,
+  signal?: AbortSignal
+): Promise<ImportResult> {
+  const worker = createWorker();
+  if (worker) {
+    return runInWorker<ImportResult>(worker, { type: 'import', input }, onProgress, signal);
+  }
+  const result = await runImportPipeline(input, checkedProgress(onProgress, signal));
+  if (signal?.aborted) throw abortError();
+  return result;
+}
+
+export async function runAnalysisJob(
+  input: AnalysisJobInput,
+  onProgress: (progress: JobProgress) => void,
+  signal?: AbortSignal
+): Promise<AnalysisJobResult> {
+  const worker = createWorker();
+  if (worker) {
+    return runInWorker<AnalysisJobResult>(worker, { type: 'analyze', input }, onProgress, signal);
+  }
+  const result = runAnalysisPipeline(input, checkedProgress(onProgress, signal));
+  if (signal?.aborted) throw abortError();
+  return result;
+}
+
+export default { runImportJob, runAnalysisJob, isAbortError };
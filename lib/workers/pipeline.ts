@@ -0,0 +1,62 @@
+// Import & Analysis Pipelines
+// Shared by the worker and the main-thread fallback used where workers are
+// unavailable, so both paths report the same progress.
+
+import { ImportResult } from '@/types';
+import { config } from '@/constants/config';
+import { analyzeBiases } from '@/lib/services/biasDetector';
+import { auditImport } from '@/lib/services/importAudit';
+import { buildRoundTrips } from '@/lib/services/roundTrips';
+import { totalFxPnl } from '@/lib/services/currencyConverter';
+import { parseTradeFileStream } from '@/lib/utils/importers/registry';
+import { readTextChunks } from '@/lib/utils/chunkedReader';
+import { getTradingDayForAsset } from '@/lib/utils/timezone';
+import { AnalysisJobInput, AnalysisJobResult, ImportJobInput, JobProgress } from '@/lib/workers/protocol';
+
+export async function runImportPipeline(
+  input: ImportJobInput,
+  onProgress: (progress: JobProgress) => void
+): Promise<ImportResult> {
+  let rowsParsed = 0;
+  const chunks = readTextChunks(input.source, ({ bytesRead, totalBytes }) => {
+    onProgress({
+      stage: 'parsing',
+      completed: bytesRead,
+      total: totalBytes,
+      label: `${rowsParsed.toLocaleString()} rows parsed`,
+    });
+  });
+
+  onProgress({ stage: 'reading', completed: 0, total: 0, label: `Reading ${input.fileName}` });
+  const result = await parseTradeFileStream(
+    chunks,
+    { ...input.options, fileName: input.fileName },
+    rows => { rowsParsed = rows; }
+  );
+
+  onProgress({ stage: 'parsing', completed: 0, total: 0, label: 'Checking data quality' });
+  return { ...result, audit: auditImport(result.trades, result, input.baseCurrency) };
+}
+
+export function runAnalysisPipeline(
+  input: AnalysisJobInput,
+  onProgress: (progress: JobProgress) => void
+): AnalysisJobResult {
+  const boundaries = input.boundaries || config.analysis.tradingDayBoundaries;
+  const baseCurrency = input.baseCurrency || config.currency.baseCurrency;
+  onProgress({ stage: 'analyzing', completed: 0, total: 0, label: 'Matching round trips' });
+  const roundTrips = buildRoundTrips(input.trades);
+
+  const analysis = analyzeBiases(input.trades, [], roundTrips, boundaries, baseCurrency, (completed, total) => {
+    onProgress({ stage: 'analyzing', completed, total, label: `Detector ${completed} of ${total} done` });
+  });
+
+  return {
+    analysis,
+    winningRoundTrips: roundTrips.filter(trip => trip.pnl > 0).length,
+    tradingDays: new Set(
+      input.trades.map(trade => getTradingDayForAsset(trade.timestamp, trade.asset_type, boundaries))
+    ).size,
+    fxPnl: totalFxPnl(roundTrips),
+  };
+}
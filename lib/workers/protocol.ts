@@ -0,0 +1,45 @@
+// Messages exchanged between the UI thread and the import/analysis worker
+
+import { ImportFormatId, ImportParseOptions, ImportResult, Trade, TradingDayBoundaries } from '@/types';
+import { BiasAnalysisResult } from '@/lib/services/biasDetector';
+
+export type JobStage = 'reading' | 'parsing' | 'analyzing';
+
+export interface JobProgress {
+  stage: JobStage;
+  completed: number;
+  total: number; // 0 when unknown
+  label: string; // e.g. "120,000 rows parsed", "Detector 4 of 9 done"
+}
+
+export interface ImportJobInput {
+  source: Blob | string; // File from the picker, or text already extracted (worksheets)
+  fileName: string;
+  options: ImportParseOptions & { format?: ImportFormatId };
+  baseCurrency?: string; // The account's, for amounts in the data-quality audit
+}
+
+export interface AnalysisJobInput {
+  trades: Trade[]; // Already converted to baseCurrency
+  boundaries?: TradingDayBoundaries;
+  baseCurrency?: string;
+}
+
+// Analysis plus the summary figures the results card needs, so the UI thread
+// never has to rebuild round trips itself
+export interface AnalysisJobResult {
+  analysis: BiasAnalysisResult;
+  winningRoundTrips: number;
+  tradingDays: number;
+  fxPnl: number; // Realized P&L from exchange rate moves, in the base currency
+}
+
+export type WorkerRequest =
+  | { type: 'import'; input: ImportJobInput }
+  | { type: 'analyze'; input: AnalysisJobInput };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'import-result'; result: ImportResult }
+  | { type: 'analysis-result'; result: AnalysisJobResult }
+  | { type: 'error'; message: string };
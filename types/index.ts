@@ -28,17 +28,45 @@ export interface Trade {
   user_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
+  position_effect?: PositionEffect; // Inferred by the lot matcher when the source doesn't say
   quantity: number;
   price: number;
   total_value: number;
   fees: number;
-  timestamp: string;
+  timestamp: string; // UTC ISO string
   asset_type: AssetType;
-  notes?: string;
+  notes?: string; // Paper trading: the journal thesis behind the entry
   pnl?: number; // Realized P&L (for SELL trades)
+  exit_price?: number; // Set when an imported row already describes a closed trade
+  closed_at?: string; // Exit time of such a row, when the source records it
+  source_file?: string; // Provenance of imported trades
+  import_batch_id?: string;
+  source_timezone?: string; // IANA zone the source file's wall-clock times were read in
+  utc_offset?: string; // Original offset of the timestamp in that zone, e.g. "+09:00"
+  reported_balance?: number; // Account balance after this row, as stated by the source file
+  currency?: string; // ISO code of price, fees and pnl; derived from the symbol when absent
+  usd_rate?: number; // USD per unit of that currency at execution, when the venue recorded it
+  original_currency?: string; // Set on trades converted to the base currency
+  fx_rate?: number; // Base currency per unit of original_currency used for that conversion
+  fee_schedule?: string; // Schedule that estimated fees, when the source didn't state them
+  contract?: ContractSpec; // Options and futures; price is per unit, total_value is price * quantity * multiplier
+  order_type?: OrderType; // Paper trading: the kind of order that filled
+  order_id?: string; // Paper trading: the pending order that filled, for non-market orders
+  exit_plan?: ExitPlan; // Paper trading sells: whether a bracket or the trader closed it
+  quote_price?: number; // Paper trading: the quote the fill was priced from, before spread and slippage
+  spread_cost?: number; // Paper trading: what the spread and slippage cost against that quote
+  requested_quantity?: number; // Paper trading: set when a large order only partly filled
+  lot_selections?: LotSelection[]; // Sells: the lots to dispose of under specific identification
 }
 
-export type AssetType = 'stocks' | 'forex' | 'commodities' | 'etfs' | 'cash';
+// What a fill does to the position: a SELL can close a long or open a short,
+// a BUY can open a long or cover a short
+export type PositionEffect = 'open_long' | 'close_long' | 'open_short' | 'cover_short';
+
+// Side values accepted from files; SHORT and COVER carry their position effect
+export type TradeSide = 'BUY' | 'SELL' | 'SHORT' | 'COVER';
+
+export type AssetType = 'stocks' | 'forex' | 'commodities' | 'etfs' | 'options' | 'futures' | 'cash';
 
 export interface Position {
   symbol: string;
@@ -49,6 +77,11 @@ export interface Position {
   pnl: number;
   pnl_percent: number;
   asset_type: AssetType;
+  currency?: string; // Currency avg_cost and current_price are quoted in (USD when absent)
+  avg_usd_rate?: number; // Cost-weighted USD per unit of that currency paid on entry
+  contract?: ContractSpec; // Options and futures
+  margin?: number; // USD initial margin set aside for a futures position
+  side?: 'long' | 'short'; // Absent means long; shorts carry a negative current_value
 }
 
 export interface Portfolio {
@@ -69,6 +102,593 @@ export interface AssetAllocation {
   asset_type: AssetType;
 }
 
+// ============================================
+// Import Types
+// ============================================
+
+export type ImportFormatId =
+  | 'generic'
+  | 'ibkr_flex'
+  | 'questrade'
+  | 'wealthsimple'
+  | 'metatrader'
+  | 'biascoach_json';
+
+// How a file writes numbers: "1,234.56" is { decimal: '.', thousands: ',' }
+export interface NumberFormat {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | "'";
+}
+
+export type TradeField =
+  | 'timestamp'
+  | 'asset'
+  | 'side'
+  | 'quantity'
+  | 'entry_price'
+  | 'exit_price'
+  | 'profit_loss'
+  | 'fees'
+  | 'currency'
+  | 'balance';
+
+// User-defined mapping from source headers to trade fields, plus value transforms
+export interface ColumnMapping {
+  columns: Partial<Record<TradeField, string>>; // Field -> source header
+  sideSource: 'column' | 'quantity_sign'; // quantity_sign: negative quantity means SELL
+  sideValues: Record<string, TradeSide>; // Uppercased raw side value -> side, e.g. "B" -> BUY, "SS" -> SHORT
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  header_signature: string;
+  mapping: ColumnMapping;
+  created_at: string;
+  last_used_at?: string;
+}
+
+export interface ImportParseOptions {
+  numberFormat?: NumberFormat; // Detected from the file when omitted
+  mapping?: ColumnMapping; // Overrides header auto-detection (standard CSV only)
+  timeZone?: string; // IANA zone for timestamps without an explicit offset; browser zone when omitted
+  feeSchedules?: FeeSchedulesByAsset; // Estimates fees for rows without a fees column
+}
+
+export type ImportMergeMode = 'append' | 'replace';
+
+// Same fingerprint (timestamp, symbol, side, quantity, price) but different details
+export interface ImportConflict {
+  incoming: Trade;
+  existing: Trade;
+  fields: string[];
+}
+
+export interface ImportBatch {
+  id: string;
+  file_name: string;
+  format: ImportFormatId;
+  imported_at: string;
+  total_rows: number;
+  added: number;
+  duplicates: number;
+  conflicts: ImportConflict[];
+  audit?: ImportAudit;
+}
+
+export type AuditIssueType =
+  | 'rejected_rows'
+  | 'balance_jump'
+  | 'out_of_order'
+  | 'invalid_price'
+  | 'invalid_quantity'
+  | 'duplicate_row';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  severity: 'warning' | 'error';
+  message: string;
+  trade_ids: string[];
+}
+
+export interface BalanceReconciliation {
+  checked: number; // Consecutive row pairs that both report a balance
+  reconciled: number; // Pairs whose balance change is explained by P&L (and fees)
+  unexplained_total: number; // Net amount the file's balance moved without a trade explaining it
+}
+
+// Data-quality audit of one imported file
+export interface ImportAudit {
+  score: number; // 0-100
+  checked_rows: number;
+  counts: Record<AuditIssueType, number>;
+  issues: AuditIssue[]; // Capped per type; counts are complete
+  balance: BalanceReconciliation | null; // null when the file has no balance column
+}
+
+export interface ImportSample {
+  content: string;
+  headers: string[]; // Raw header cells of the first non-empty line
+  fileName?: string;
+}
+
+export interface ImporterOutput {
+  trades: Trade[];
+  errors: string[];
+  warnings: string[];
+  totalRows: number;
+  successfulRows: number;
+}
+
+export interface ImportResult extends ImporterOutput {
+  format: ImportFormatId;
+  audit?: ImportAudit;
+}
+
+export interface TradeImporter {
+  id: ImportFormatId;
+  label: string;
+  description: string;
+  // Confidence (0-1) that the sample is in this importer's format
+  detect: (sample: ImportSample) => number;
+  parse: (content: string, options?: ImportParseOptions) => ImporterOutput;
+}
+
+// ============================================
+// Export Types
+// ============================================
+
+export type ExportFormatId = 'csv' | 'json' | 'ofx' | 'xlsx';
+
+// Cash added to the paper account outside of trading, or taken by margin
+// financing charges (negative amounts)
+export interface CashDeposit {
+  id: string;
+  amount: number;
+  timestamp: string;
+  kind?: 'deposit' | 'margin_interest' | 'borrow_fee'; // Absent means deposit
+}
+
+// Account facts an export needs beyond the trades themselves
+export interface ExportContext {
+  startingCash: number;
+  deposits: CashDeposit[];
+  exportedAt: string;
+}
+
+// Lossless JSON export; the importer reads it back unchanged
+export interface TradeExportDocument {
+  format: 'biascoach-trades';
+  version: number;
+  exported_at: string;
+  starting_cash: number;
+  deposits: CashDeposit[];
+  trades: Trade[];
+}
+
+export interface TradeExporter {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  export: (trades: Trade[], context: ExportContext) => string | Uint8Array;
+}
+
+// ============================================
+// Currency Types
+// ============================================
+
+// A user-supplied exchange rate: 1 unit of the pair's first currency buys
+// `rate` units of the second on that date, e.g. { pair: 'USD/CAD', rate: 1.36 }
+export interface FxRateEntry {
+  pair: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+// ============================================
+// Derivative Contract Types
+// ============================================
+
+export type OptionType = 'call' | 'put';
+
+// Contract terms of an option or future. Prices are quoted per unit of the
+// underlying, so one contract is worth price * multiplier.
+export interface ContractSpec {
+  underlying: string; // Stock for options, futures root (e.g. MES) for futures
+  expiry: string; // YYYY-MM-DD
+  multiplier: number;
+  tick_size: number;
+  tick_value: number; // Account currency per tick per contract
+  strike?: number; // Options only
+  option_type?: OptionType; // Options only
+}
+
+// Exchange listing of a futures root
+export interface FuturesProduct {
+  root: string;
+  name: string;
+  multiplier: number;
+  tickSize: number;
+  months: string; // Listed contract month codes, e.g. "HMUZ" for quarterlies
+  initialMargin: number; // Per contract, USD
+}
+
+// ============================================
+// Fee Schedule Types
+// ============================================
+
+// Commission rate that applies once month-to-date volume reaches fromVolume
+export interface FeeTier {
+  fromVolume: number;
+  perUnit?: number;
+  percentage?: number;
+}
+
+// A broker's pricing. Every component is optional and they add up; fixed
+// amounts are in the currency the instrument is quoted in.
+export interface FeeSchedule {
+  id: string;
+  name: string;
+  description: string;
+  perUnit?: number; // Commission per share, contract or unit
+  percentage?: number; // Commission as a fraction of notional (0.001 = 0.1%)
+  tiers?: FeeTier[]; // Replace perUnit/percentage by month-to-date volume
+  tierVolume?: 'units' | 'notional'; // What tiers count (default units)
+  minPerOrder?: number;
+  maxPerOrder?: number;
+  maxPercentOfNotional?: number; // Commission cap as a fraction of notional
+  spreadPips?: number; // Forex: round-trip spread paid, charged half per fill
+  exchangePerUnit?: number; // Exchange and clearing fees
+  secFeeRate?: number; // SEC Section 31 fee on sell notional
+  tafPerUnit?: number; // FINRA Trading Activity Fee per unit sold
+  tafMaxPerOrder?: number;
+}
+
+export type FeeSchedulesByAsset = Partial<Record<AssetType, FeeSchedule>>;
+
+export interface FeeBreakdown {
+  commission: number;
+  spread: number;
+  exchange: number;
+  regulatory: number;
+  total: number;
+}
+
+// ============================================
+// Execution Types
+// ============================================
+
+// When a market takes orders, in its own zone. Holidays aren't modeled.
+export interface MarketHours {
+  timeZone: string;
+  open: number; // Minutes after midnight
+  close: number; // Before open for sessions that run past midnight; equal to open for 24 hours
+  days: number[]; // Days a session opens on, 0 = Sunday
+}
+
+// How paper fills are priced against the last quote, per asset class
+export interface ExecutionModel {
+  spreadBps?: number; // Bid/ask spread as basis points of the price; half is paid per fill
+  spreadPips?: number; // Forex: bid/ask spread in pips, instead of spreadBps
+  slippageBps: number; // Price impact of an order of slippageNotional; grows with the square root of size
+  slippageNotional: number; // USD
+  maxFillNotional?: number; // USD available per fill; larger orders fill in part
+  marketHours?: MarketHours; // Absent for markets that never close
+}
+
+export type ExecutionModels = Record<AssetType, ExecutionModel>;
+
+// ============================================
+// Order Types
+// ============================================
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+
+// Day orders lapse when the asset's trading day rolls; GTC orders stay until cancelled
+export type TimeInForce = 'day' | 'gtc';
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+
+// Exits a bracket placed ahead of time, ones the trader chose on the spot, and
+// ones a margin call forced
+export type ExitPlan = 'bracket' | 'discretionary' | 'liquidation';
+
+export type BracketRole = 'stop_loss' | 'take_profit';
+
+// Exit levels attached to a BUY, as percentages of its fill price
+export interface BracketSpec {
+  stop_loss_percent?: number; // Below the fill
+  take_profit_percent?: number; // Above the fill
+  trailing_stop?: boolean; // The stop-loss follows the price up by the same percentage
+}
+
+// A paper order waiting for the market. Limit orders fill at the limit or
+// better, stop orders become market orders once the stop trades, and
+// stop-limit orders become limit orders. Trailing stops ratchet their stop
+// behind the best price seen.
+export interface PendingOrder {
+  id: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  order_type: Exclude<OrderType, 'market'>;
+  quantity: number;
+  limit_price?: number; // limit and stop_limit
+  stop_price?: number; // stop and stop_limit; the current level for trailing stops
+  trail_percent?: number; // trailing_stop
+  time_in_force: TimeInForce;
+  asset_type: AssetType;
+  contract?: ContractSpec;
+  fee_schedule: string; // Schedule the fill is charged under
+  created_at: string;
+  expires_at?: string; // Day orders: when the asset's trading day ends
+  triggered_at?: string; // Stop-limit orders whose stop has traded
+  status: OrderStatus;
+  closed_at?: string;
+  fill_price?: number;
+  trade_id?: string;
+  status_reason?: string; // Why a triggered order couldn't fill
+  bracket?: BracketSpec; // Entry orders: exits to place once this fills
+  filled_quantity?: number; // Filled so far by earlier partial fills; quantity is what's left
+  entry_trade_id?: string; // Bracket exits: the fill they protect
+  bracket_role?: BracketRole;
+  oco_group?: string; // Bracket exits: filling one cancels the rest of the group
+}
+
+// ============================================
+// Margin Account Types
+// ============================================
+
+// Cash accounts pay for everything in full; margin accounts borrow against
+// equity and can sell short
+export type AccountType = 'cash' | 'margin';
+
+export interface MarginRates {
+  initial: Record<AssetType, number>; // Share of position value needed to open it
+  maintenance: Record<AssetType, number>; // Share that must stay covered by equity
+}
+
+// Issued when equity falls below the maintenance requirement; positions are
+// liquidated if it isn't met by the deadline
+export interface MarginCall {
+  issued_at: string;
+  deadline: string;
+  equity: number;
+  requirement: number;
+}
+
+// ============================================
+// Guardrail Types
+// ============================================
+
+// Biases a pending paper order is checked for before it's sent
+export type GuardrailRule = Extract<BiasType, 'revenge_trading' | 'risk_escalation' | 'concentration_bias'>;
+
+export interface GuardrailWarning {
+  rule: GuardrailRule;
+  title: string;
+  message: string;
+  evidence: Record<string, number | string>;
+  cooldown_until?: string; // Set when the order comes too soon after a loss
+}
+
+// A warning the trader saw, and whether they went ahead anyway
+export interface GuardrailEvent {
+  id: string;
+  session_id: string;
+  timestamp: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number; // Market orders; working orders fill later
+  rules: GuardrailRule[];
+  evidence: Record<string, number | string>; // Every warning's evidence, merged
+  decision: 'overridden' | 'cancelled';
+}
+
+// ============================================
+// Journal Types
+// ============================================
+
+export type JournalEmotion =
+  | 'calm'
+  | 'confident'
+  | 'excited'
+  | 'anxious'
+  | 'fearful'
+  | 'frustrated'
+  | 'bored'
+  | 'greedy';
+
+export type MistakeCategory =
+  | 'none'
+  | 'entered_early'
+  | 'entered_late'
+  | 'oversized'
+  | 'no_stop'
+  | 'moved_stop'
+  | 'exited_early'
+  | 'held_too_long'
+  | 'chased'
+  | 'revenge';
+
+// What the trader wrote before sending an order that opens a position
+export interface TradePlan {
+  setup: string; // Strategy tag, e.g. "breakout" or "mean reversion"
+  thesis: string;
+  planned_stop?: number;
+  planned_target?: number;
+  confidence: 1 | 2 | 3 | 4 | 5;
+  emotion: JournalEmotion;
+}
+
+// Written once the position the entry opened has been closed
+export interface TradeReview {
+  followed_plan: boolean;
+  mistake: MistakeCategory;
+  lesson?: string;
+  reviewed_at: string;
+}
+
+export interface JournalEntry extends TradePlan {
+  id: string;
+  session_id: string;
+  created_at: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  trade_id?: string; // The entry fill; unset while a working order waits
+  order_id?: string; // The working order the plan was written for
+  review?: TradeReview;
+}
+
+// ============================================
+// Ledger Types
+// ============================================
+
+// Everything that moved a paper account's cash, positions or their value, in
+// order. Events are only ever appended; an undo is its own event that flags
+// the fill.
+export type LedgerEventType =
+  | 'opening_balance'
+  | 'order_placed'
+  | 'order_modified'
+  | 'order_cancelled'
+  | 'fill'
+  | 'cash'
+  | 'mark'
+  | 'reset'
+  | 'undo';
+
+interface LedgerEventBase {
+  id: string;
+  sequence: number; // Order within the account's ledger; replay follows it
+  timestamp: string;
+}
+
+// Where replay starts: a new account, or a saved one from before the ledger
+export interface OpeningBalanceEvent extends LedgerEventBase {
+  type: 'opening_balance';
+  starting_cash: number;
+  cash: number;
+  positions: Position[];
+  history?: { t: number; equity: number }[]; // Equity recorded before the ledger kept marks
+}
+
+export interface OrderPlacedEvent extends LedgerEventBase {
+  type: 'order_placed';
+  order: PendingOrder;
+}
+
+// New terms for a working order, from the trader, a trailing stop or a
+// bracket exit shrunk to what's left of the position
+export interface OrderModifiedEvent extends LedgerEventBase {
+  type: 'order_modified';
+  order_id: string;
+  changes: Partial<Pick<PendingOrder, 'quantity' | 'limit_price' | 'stop_price' | 'trail_percent'>>;
+}
+
+// A working order that ended without filling
+export interface OrderCancelledEvent extends LedgerEventBase {
+  type: 'order_cancelled';
+  order_id: string;
+  status: Extract<OrderStatus, 'cancelled' | 'expired' | 'rejected'>;
+  reason?: string;
+}
+
+export interface FillEvent extends LedgerEventBase {
+  type: 'fill';
+  trade: Trade;
+}
+
+// Deposits, claimed growth income and margin charges
+export interface CashEvent extends LedgerEventBase {
+  type: 'cash';
+  deposit: CashDeposit;
+  source?: 'growth_income';
+}
+
+// The prices held positions were revalued at, for the equity curve
+export interface MarkEvent extends LedgerEventBase {
+  type: 'mark';
+  marks: { symbol: string; price: number; usd_rate: number }[];
+}
+
+export interface ResetEvent extends LedgerEventBase {
+  type: 'reset';
+  starting_cash: number;
+}
+
+export interface UndoEvent extends LedgerEventBase {
+  type: 'undo';
+  target_event_id: string; // The fill event replay now skips
+  trade_id: string;
+}
+
+export type LedgerEvent =
+  | OpeningBalanceEvent
+  | OrderPlacedEvent
+  | OrderModifiedEvent
+  | OrderCancelledEvent
+  | FillEvent
+  | CashEvent
+  | MarkEvent
+  | ResetEvent
+  | UndoEvent;
+
+// ============================================
+// Trading Day Types
+// ============================================
+
+// A trading day starts at rollHour (0-23) in timeZone; 0 means midnight
+export interface TradingDayBoundary {
+  timeZone: string;
+  rollHour: number;
+}
+
+export type TradingDayBoundaries = Record<AssetType, TradingDayBoundary>;
+
+// ============================================
+// Round Trip Types
+// ============================================
+
+// average is Canada's adjusted cost base; specific_id closes the lots a sell
+// names and falls back to FIFO for the rest
+export type LotMatchingMethod = 'fifo' | 'lifo' | 'average' | 'specific_id';
+
+// Whose loss rules the tax report applies: the US wash sale or Canada's
+// superficial loss, which also needs the shares still held after the window
+export type TaxJurisdiction = 'us' | 'ca';
+
+// An open lot, by the trade that opened it, and how much of it a sell disposes of
+export interface LotSelection {
+  trade_id: string;
+  quantity: number;
+}
+
+export interface RoundTripLeg {
+  trade_ids: string[];
+  timestamp: string;
+  price: number;
+  fees: number; // Fees allocated to the matched quantity
+}
+
+export interface RoundTrip {
+  id: string;
+  symbol: string;
+  asset_type: AssetType;
+  direction: 'long' | 'short';
+  quantity: number;
+  entry: RoundTripLeg;
+  exit: RoundTripLeg;
+  holding_minutes: number | null; // null when the source has no separate entry time
+  gross_pnl: number;
+  fees: number;
+  pnl: number; // Net realized P&L
+  fx_pnl?: number; // Part of pnl caused by the exchange rate moving between entry and exit
+  exit_plan?: ExitPlan; // Paper trading: how the closing trade was decided
+}
+
 // ============================================
 // Bias Detection Types
 // ============================================